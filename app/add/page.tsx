@@ -1,7 +1,7 @@
 "use client";
 
-import { useState, useEffect } from "react";
-import { useRouter } from "next/navigation";
+import { useState, useEffect, Suspense } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
 import { useSyncStatus } from "@/context/sync-context";
 import { toast, Toaster } from "sonner";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -9,7 +9,6 @@ import { useForm } from "react-hook-form";
 import { z } from "zod";
 import { CalendarIcon, Sparkles, PiggyBank, ArrowRight, CheckCircle, XCircle, AlertCircle } from "lucide-react";
 import { format } from "date-fns";
-import { id } from "date-fns/locale";
 import { motion } from "framer-motion";
 
 import { Button } from "@/components/ui/button";
@@ -23,6 +22,7 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import {
   Select,
   SelectContent,
@@ -37,63 +37,177 @@ import {
   PopoverContent,
   PopoverTrigger,
 } from "@/components/ui/popover";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import { FunMoodSelector } from "@/components/fun-mood-selector";
-import { categories } from "@/data/categories";
+import { NO_REPEAT, RepeatSelect, type RepeatValue } from "@/components/repeat-select";
+import { getCategory } from "@/data/categories";
+import { convertToHome, currencies, DEFAULT_CURRENCY, getExchangeRate, getHomeCurrency } from "@/data/currencies";
 import { cn } from "@/lib/utils";
-import { addExpense } from "@/lib/db";
+import {
+  formatAmountInput,
+  formatAmountValue,
+  formatCurrency,
+  getCurrencySymbol,
+  parseAmountInput,
+} from "@/lib/currency-formatter";
+import { addExpense, getExpenseById, updateExpense } from "@/lib/db";
+import { checkBudgetImpact } from "@/lib/budgets";
+import { createRecurringRule } from "@/lib/recurring";
+import { loadCategorizer, type CategorizationInput, type CategorySuggestion } from "@/lib/category-rules";
+import type { BudgetImpact } from "@/lib/budget-calculations";
 import { useSync } from "@/hooks/use-sync";
+import { useCategories } from "@/hooks/use-categories";
+import { useCurrency } from "@/hooks/use-currency";
+import { useLocale } from "@/hooks/use-locale";
+import { t } from "@/data/locales";
 import type { MoodType } from "@/types/expense";
 
-const formSchema = z.object({
+// Built per validation so error messages follow the current language
+const createFormSchema = () => z.object({
   amount: z.coerce.number()
-    .positive({ message: "Jumlah harus positif" })
-    .max(99999999.99, { message: "Jumlah terlalu besar, maksimum 99.999.999,99" }),
-  category: z.string().min(1, { message: "Pilih kategori" }),
-  mood: z.string().min(1, { message: "Pilih suasana hatimu" }),
+    .positive({ message: t("add.errors.amountPositive") })
+    .max(99999999.99, { message: t("add.errors.amountMax") }),
+  category: z.string().min(1, { message: t("add.errors.categoryRequired") }),
+  mood: z.string().min(1, { message: t("add.errors.moodRequired") }),
   moodReason: z.string().optional(),
+  moodIntensity: z.number().int().min(1).max(5).optional(),
+  currency: z.string().min(3),
   date: z.date(),
   notes: z.string().optional(),
 });
 
-// Indonesian currency formatter
-const formatToIDR = (value: number): string => {
-  return new Intl.NumberFormat("id-ID", {
-    style: "currency",
-    currency: "IDR",
-    minimumFractionDigits: 0,
-    maximumFractionDigits: 0,
-  }).format(value).replace("Rp", "").trim();
-};
-
-// Parse Indonesian formatted number
-const parseIDRNumber = (value: string): number => {
-  // Remove all non-digit characters except decimal separators
-  const cleaned = value.replace(/[^\d,]/g, "");
-  // Replace comma with dot for decimal if needed, then parse
-  const parsed = parseFloat(cleaned.replace(/\./g, "").replace(",", "."));
-  return isNaN(parsed) ? 0 : parsed;
-};
+type FormValues = z.infer<ReturnType<typeof createFormSchema>>;
 
 export default function AddExpensePage() {
+  // useSearchParams needs a Suspense boundary in the app router
+  return (
+    <Suspense>
+      <AddExpenseForm />
+    </Suspense>
+  );
+}
+
+function AddExpenseForm() {
   const router = useRouter();
+  const searchParams = useSearchParams();
+  // When present, the form edits an existing expense instead of adding one
+  const editId = searchParams.get("edit");
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [initialMoodReason, setInitialMoodReason] = useState("");
   const [displayValue, setDisplayValue] = useState("");
+  // Expense waiting for the user to confirm it may exceed its budget
+  const [budgetWarning, setBudgetWarning] = useState<{
+    impact: BudgetImpact;
+    values: FormValues;
+  } | null>(null);
   // Using sync context for status only
   const syncContext = useSyncStatus();
   const { sync } = useSync();
+  const allCategories = useCategories({ includeArchived: true });
+  const { homeCurrency } = useCurrency();
+  const { dateLocale } = useLocale();
+  // Only offered for new expenses; the saved expense becomes the first occurrence
+  const [repeat, setRepeat] = useState<RepeatValue>(NO_REPEAT);
+  // Suggests a category for new expenses from the user's rules and history
+  const [categorize, setCategorize] = useState<((input: CategorizationInput) => CategorySuggestion | null) | null>(null);
+  const [suggestion, setSuggestion] = useState<CategorySuggestion | null>(null);
 
-  const form = useForm<z.infer<typeof formSchema>>({
-    resolver: zodResolver(formSchema),
+  const form = useForm<FormValues>({
+    resolver: (values, context, options) => zodResolver(createFormSchema())(values, context, options),
     defaultValues: {
       amount: 0, // Initialize with 0 instead of empty string
       category: "",
       mood: "happy", // Set a default mood that's not empty
       moodReason: "",
+      currency: getHomeCurrency(),
       date: new Date(new Date().setHours(0, 0, 0, 0)),
       notes: "",
     },
   });
 
+  // New expenses default to the home currency once settings have loaded
+  useEffect(() => {
+    if (!editId && !form.formState.dirtyFields.currency) {
+      form.setValue("currency", homeCurrency);
+    }
+  }, [homeCurrency, editId]);
+
+  useEffect(() => {
+    if (editId) return;
+
+    let cancelled = false;
+    const load = () =>
+      loadCategorizer().then((categorizer) => {
+        if (!cancelled) setCategorize(() => categorizer);
+      });
+    load();
+    window.addEventListener("category-rules:changed", load);
+    return () => {
+      cancelled = true;
+      window.removeEventListener("category-rules:changed", load);
+    };
+  }, [editId]);
+
+  // Fill in the suggested category until the user picks one themselves
+  const [notes, amount, currency, date] = form.watch(["notes", "amount", "currency", "date"]);
+  useEffect(() => {
+    if (!categorize) return;
+    const next = categorize({
+      notes,
+      amount,
+      currency,
+      date: date ? format(date, "yyyy-MM-dd") : undefined,
+      enteredAt: new Date(),
+    });
+    setSuggestion(next);
+    if (!form.formState.dirtyFields.category) {
+      form.setValue("category", next?.category ?? "");
+    }
+  }, [categorize, notes, amount, currency, date]);
+
+  // Load the expense being edited into the form
+  useEffect(() => {
+    if (!editId) return;
+
+    let cancelled = false;
+    getExpenseById(editId).then((expense) => {
+      if (cancelled) return;
+      if (!expense) {
+        toast.error(t("add.notFound"), {
+          description: t("add.notFoundDescription"),
+        });
+        router.replace("/add");
+        return;
+      }
+
+      form.reset({
+        amount: expense.amount,
+        category: expense.category,
+        mood: expense.mood,
+        moodReason: expense.moodReason || "",
+        moodIntensity: expense.moodIntensity,
+        currency: expense.currency || DEFAULT_CURRENCY,
+        // Parse YYYY-MM-DD as a local date to avoid timezone shifts
+        date: new Date(`${expense.date.split("T")[0]}T00:00:00`),
+        notes: expense.notes || "",
+      });
+      setInitialMoodReason(expense.moodReason || "");
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [editId]);
+
   // Helper function to sync data after successful expense addition
   async function performPostSubmitSync() {
     try {
@@ -138,13 +252,14 @@ export default function AddExpensePage() {
     status: 'idle' | 'loading' | 'success' | 'error';
     error?: string;
     amount?: number;
+    currency?: string;
   }>({ status: 'idle' });
 
   // Handle side effects after state updates
   useEffect(() => {
     if (submitStatus.status === 'success') {
       // Show success message
-      toast.custom((t) => (
+      toast.custom(() => (
         <div className={styles.toastContent}>
           <div className="h-5 w-5 flex items-center justify-center text-green-500">
             <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
@@ -152,9 +267,13 @@ export default function AddExpensePage() {
             </svg>
           </div>
           <div>
-            <p className="font-medium">Pengeluaran berhasil ditambahkan!</p>
+            <p className="font-medium">
+              {editId ? t("add.updated") : t("add.added")}
+            </p>
             <p className="text-sm text-muted-foreground">
-              Berhasil menambahkan pengeluaran sebesar {formatToIDR(submitStatus.amount || 0)}
+              {t(editId ? "add.updatedDescription" : "add.addedDescription", {
+                amount: formatCurrency(submitStatus.amount || 0, submitStatus.currency),
+              })}
             </p>
           </div>
         </div>
@@ -180,7 +299,7 @@ export default function AddExpensePage() {
       return () => clearTimeout(timer);
     } else if (submitStatus.status === 'error') {
       // Show error message
-      toast.custom((t) => (
+      toast.custom(() => (
         <div className={styles.toastContent}>
           <div className="h-5 w-5 flex items-center justify-center text-red-500">
             <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
@@ -188,9 +307,11 @@ export default function AddExpensePage() {
             </svg>
           </div>
           <div>
-            <p className="font-medium">Gagal menambahkan pengeluaran</p>
+            <p className="font-medium">
+              {editId ? t("add.updateFailed") : t("add.addFailed")}
+            </p>
             <p className="text-sm text-muted-foreground">
-              {submitStatus.error || 'Terjadi kesalahan. Silakan coba lagi.'}
+              {submitStatus.error || t("common.tryAgain")}
             </p>
           </div>
         </div>
@@ -210,30 +331,45 @@ export default function AddExpensePage() {
     }
   }, [submitStatus]);
 
-  const onSubmit = async (values: z.infer<typeof formSchema>) => {
+  const onSubmit = async (
+    values: FormValues,
+    { skipBudgetCheck = false }: { skipBudgetCheck?: boolean } = {}
+  ) => {
     let loadingToast: string | number = '';
     
-    // Parse amount to number if it's a string
+    // The amount field already holds the parsed number
     let amount: number;
     try {
-      const amountStr = String(values.amount || '').trim();
-      amount = amountStr.includes('.') || amountStr.includes(',') 
-        ? parseIDRNumber(amountStr)
-        : Number(amountStr.replace(/\D/g, ''));
-        
+      amount = Number(values.amount);
+
       // Validate amount
       if (isNaN(amount) || amount <= 0) {
-        form.setError('amount', { type: 'validate', message: 'Mohon masukkan jumlah yang valid' });
+        form.setError('amount', { type: 'validate', message: t('add.errors.amountInvalid') });
         return;
       }
     } catch (error) {
       console.error('Error parsing amount:', error);
       setSubmitStatus({
         status: 'error',
-        error: 'Format jumlah tidak valid. Contoh: 50.000'
+        error: t('add.errors.amountFormat')
       });
       return;
     }
+
+    // Warn before an expense pushes its category past 80% or 100% of the monthly budget
+    if (!skipBudgetCheck) {
+      const expenseDate = `${values.date.getFullYear()}-${String(values.date.getMonth() + 1).padStart(2, '0')}-${String(values.date.getDate()).padStart(2, '0')}`;
+      const impact = await checkBudgetImpact(
+        values.category,
+        expenseDate,
+        convertToHome(amount, values.currency),
+        editId ?? undefined
+      );
+      if (impact) {
+        setBudgetWarning({ impact, values });
+        return;
+      }
+    }
     
     setSubmitStatus({ status: 'loading' });
     setIsSubmitting(true);
@@ -248,7 +384,7 @@ export default function AddExpensePage() {
         safeAmount = Math.min(amount, 99999999.99);
       } catch (error) {
         console.error('Error calculating safe amount:', error);
-        throw new Error('Jumlah tidak valid. Mohon periksa kembali.');
+        throw new Error(t('add.errors.amountCheck'));
       }
       
       // Format date as YYYY-MM-DD to avoid timezone issues
@@ -261,6 +397,8 @@ export default function AddExpensePage() {
         date: formattedDate,
         notes: values.notes || '',
         moodReason: values.moodReason || '',
+        moodIntensity: values.moodIntensity,
+        currency: values.currency,
       };
       
       console.log('5. Saving expense:', expenseData);
@@ -269,11 +407,44 @@ export default function AddExpensePage() {
       
       // Update loading message
       console.log('11. Updating loading message');
-      toast.loading('Menyimpan pengeluaran...', { id: loadingToast });
+      toast.loading(t('add.savingExpense'), { id: loadingToast });
       
-      // Add expense
-      console.log('12. Calling addExpense');
-      await addExpense(expenseData);
+      if (editId) {
+        const updated = await updateExpense(editId, expenseData);
+        if (!updated) {
+          throw new Error(t('add.updateFailedDescription'));
+        }
+      } else {
+        // Add expense
+        console.log('12. Calling addExpense');
+        await addExpense(expenseData);
+
+        if (repeat.frequency !== 'none') {
+          const rule = await createRecurringRule(
+            {
+              type: 'expense',
+              frequency: repeat.frequency,
+              interval: 1,
+              startDate: formattedDate,
+              endDate: repeat.endDate || undefined,
+              amount: safeAmount,
+              currency: expenseData.currency,
+              category: expenseData.category,
+              mood: expenseData.mood,
+              moodReason: expenseData.moodReason,
+              notes: expenseData.notes,
+            },
+            { alreadyRecorded: true }
+          );
+          if (rule) {
+            setRepeat(NO_REPEAT);
+          } else {
+            toast.error(t('add.repeatFailed'), {
+              description: t('add.repeatFailedDescription'),
+            });
+          }
+        }
+      }
       console.log('13. Expense saved, syncing...');
       
       // Sync data
@@ -286,14 +457,15 @@ export default function AddExpensePage() {
       // Update status to success
       setSubmitStatus({
         status: 'success',
-        amount: safeAmount
+        amount: safeAmount,
+        currency: values.currency
       });
       
     } catch (error) {
       console.error('Error in form submission:', error);
       setSubmitStatus({
         status: 'error',
-        error: error instanceof Error ? error.message : 'Terjadi kesalahan. Silakan coba lagi.'
+        error: error instanceof Error ? error.message : t('common.tryAgain')
       });
     } finally {
       setIsSubmitting(false);
@@ -330,9 +502,11 @@ export default function AddExpensePage() {
               <PiggyBank className="h-6 w-6 lg:h-7 lg:w-7 xl:h-8 xl:w-8 text-primary" />
             </motion.div>
 
-            <h1 className="text-lg lg:text-xl xl:text-2xl font-bold mb-1">Tambah Pengeluaran Baru</h1>
+            <h1 className="text-lg lg:text-xl xl:text-2xl font-bold mb-1">
+              {editId ? t("add.titleEdit") : t("add.titleNew")}
+            </h1>
             <p className="text-xs lg:text-sm xl:text-base text-muted-foreground">
-              Catat pengeluaran dan perasaanmu
+              {t("add.subtitle")}
             </p>
           </div>
 
@@ -355,19 +529,19 @@ export default function AddExpensePage() {
                   
                   // Check required fields
                   if (!amount || amount === '0') {
-                    form.setError('amount', { type: 'required', message: 'Mohon isi jumlah' });
+                    form.setError('amount', { type: 'required', message: t('add.errors.amountRequired') });
                     
                     if (!category) {
-                      form.setError('category', { type: 'required', message: 'Pilih kategori' });
-                      toast.error('Perhatian', {
-                        description: 'Mohon lengkapi form terlebih dahulu',
+                      form.setError('category', { type: 'required', message: t('add.errors.categoryRequired') });
+                      toast.error(t('add.errors.attention'), {
+                        description: t('add.errors.completeForm'),
                         icon: <AlertCircle className="h-5 w-5 text-amber-500" />,
                         className: 'border-amber-200 bg-amber-50',
                         duration: 4000
                       });
                     } else {
-                      toast.error('Perhatian', {
-                        description: 'Mohon isi jumlah pengeluaran',
+                      toast.error(t('add.errors.attention'), {
+                        description: t('add.errors.fillAmount'),
                         icon: <AlertCircle className="h-5 w-5 text-amber-500" />,
                         className: 'border-amber-200 bg-amber-50',
                         duration: 4000
@@ -377,9 +551,9 @@ export default function AddExpensePage() {
                   }
                   
                   if (!category) {
-                    form.setError('category', { type: 'required', message: 'Pilih kategori' });
-                    toast.error('Perhatian', {
-                      description: 'Mohon pilih kategori pengeluaran',
+                    form.setError('category', { type: 'required', message: t('add.errors.categoryRequired') });
+                    toast.error(t('add.errors.attention'), {
+                      description: t('add.errors.pickCategory'),
                       icon: <AlertCircle className="h-5 w-5 text-amber-500" />,
                       className: 'border-amber-200 bg-amber-50',
                       duration: 4000
@@ -410,8 +584,9 @@ export default function AddExpensePage() {
                       control={form.control}
                       name="amount"
                       render={({ field }) => {
+                        const currency = form.watch("currency");
                         const [displayValue, setDisplayValue] = useState(
-                          field.value ? formatToIDR(field.value) : ""
+                          field.value ? formatAmountValue(field.value, currency) : ""
                         );
 
                         // Sync local displayValue if field.value changes externally
@@ -419,14 +594,16 @@ export default function AddExpensePage() {
                           if (!field.value) {
                             setDisplayValue("");
                           } else {
-                            setDisplayValue(formatToIDR(field.value));
+                            setDisplayValue(formatAmountValue(field.value, currency));
                           }
-                        }, [field.value]);
+                        }, [field.value, currency]);
+
+                        const rate = getExchangeRate(currency);
 
                         return (
                           <FormItem>
                             <FormLabel className="text-foreground/80 text-sm lg:text-sm">
-                              Jumlah
+                              {t("add.amount")}
                             </FormLabel>
                             <FormControl>
                               <div className="relative">
@@ -436,29 +613,56 @@ export default function AddExpensePage() {
                                   value={displayValue}
                                   onChange={(e) => {
                                     const inputValue = e.target.value;
-                                    const numericValue = parseIDRNumber(inputValue);
-                                    
+                                    const formatted = formatAmountInput(inputValue, currency);
+
                                     // Update display with formatted value
-                                    if (inputValue === "") {
+                                    if (formatted === "") {
                                       setDisplayValue("");
                                       field.onChange(0);
                                     } else {
-                                      setDisplayValue(formatToIDR(numericValue));
-                                      field.onChange(numericValue);
+                                      setDisplayValue(formatted);
+                                      field.onChange(parseAmountInput(formatted));
                                     }
                                   }}
                                   className={cn(
-                                    "pl-10 lg:pl-9 rounded-lg border-primary/20 focus-visible:ring-primary/30 bg-background/50 font-semibold text-sm lg:text-base h-10 lg:h-9 xl:h-10",
+                                    "pl-12 pr-24 rounded-lg border-primary/20 focus-visible:ring-primary/30 bg-background/50 font-semibold text-sm lg:text-base h-10 lg:h-9 xl:h-10",
                                     form.formState.errors.amount && "border-red-500"
                                   )}
-                                  inputMode="numeric"
+                                  inputMode="decimal"
                                   autoComplete="off"
                                 />
                                 <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground pointer-events-none text-sm font-medium">
-                                  Rp
+                                  {getCurrencySymbol(currency)}
                                 </span>
+                                <Select
+                                  value={currency}
+                                  onValueChange={(value) =>
+                                    form.setValue("currency", value, { shouldDirty: true })
+                                  }
+                                >
+                                  <SelectTrigger
+                                    className="absolute right-1 top-1/2 -translate-y-1/2 h-8 w-[5.5rem] border-0 bg-transparent text-xs shadow-none"
+                                    aria-label={t("add.currency")}
+                                  >
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    {currencies.map((option) => (
+                                      <SelectItem key={option.code} value={option.code}>
+                                        {option.code}
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
                               </div>
                             </FormControl>
+                            {currency !== homeCurrency && (
+                              <p className="text-xs text-muted-foreground">
+                                {rate === undefined
+                                  ? t("add.missingRate", { currency, home: homeCurrency })
+                                  : `≈ ${formatCurrency((field.value || 0) * rate, homeCurrency)}`}
+                              </p>
+                            )}
                             <FormMessage className="text-xs" />
                           </FormItem>
                         );
@@ -479,11 +683,11 @@ export default function AddExpensePage() {
                       render={({ field }) => (
                         <FormItem>
                           <FormLabel className="text-foreground/80 text-sm lg:text-sm">
-                            Kategori
+                            {t("add.category")}
                           </FormLabel>
                           <Select
                             onValueChange={field.onChange}
-                            defaultValue={field.value}
+                            value={field.value}
                           >
                             <FormControl>
                               <SelectTrigger 
@@ -493,11 +697,14 @@ export default function AddExpensePage() {
                                   form.formState.errors.category && "border-red-500"
                                 )}
                               >
-                                <SelectValue placeholder="Pilih kategori" />
+                                <SelectValue placeholder={t("add.categoryPlaceholder")} />
                               </SelectTrigger>
                             </FormControl>
                             <SelectContent>
-                              {categories.map((category) => (
+                              {/* Archived categories stay selectable only for expenses already using them */}
+                              {allCategories
+                                .filter((category) => !category.archived || category.id === field.value)
+                                .map((category) => (
                                 <SelectItem key={category.id} value={category.id}>
                                   <span className="flex items-center">
                                     <span className="mr-2">{category.icon}</span>
@@ -507,6 +714,14 @@ export default function AddExpensePage() {
                               ))}
                             </SelectContent>
                           </Select>
+                          {suggestion && !form.formState.dirtyFields.category && field.value === suggestion.category && (
+                            <p className="flex items-center gap-1 text-xs text-muted-foreground">
+                              <Sparkles className="h-3 w-3" />
+                              {suggestion.rule
+                                ? t("categoryRules.suggestedByRule", { rule: suggestion.rule.name || t("categoryRules.unnamed") })
+                                : t("categoryRules.suggestedFromHistory")}
+                            </p>
+                          )}
                           <FormMessage className="text-xs" />
                         </FormItem>
                       )}
@@ -529,7 +744,7 @@ export default function AddExpensePage() {
                       return (
                         <FormItem className="flex flex-col">
                           <FormLabel className="text-foreground/80 text-sm lg:text-sm">
-                            Tanggal
+                            {t("add.date")}
                           </FormLabel>
                           <Popover open={isCalendarOpen} onOpenChange={setIsCalendarOpen}>
                             <PopoverTrigger asChild>
@@ -544,9 +759,9 @@ export default function AddExpensePage() {
                                   type="button"
                                 >
                                   {field.value ? (
-                                    format(field.value, "PPPP", { locale: id })
+                                    format(field.value, "PPPP", { locale: dateLocale })
                                   ) : (
-                                    <span>Pilih tanggal</span>
+                                    <span>{t("add.datePlaceholder")}</span>
                                   )}
                                   <CalendarIcon className="ml-2 h-4 w-4 opacity-50" />
                                 </Button>
@@ -574,7 +789,7 @@ export default function AddExpensePage() {
                                   date < new Date("1900-01-01")
                                 }
                                 initialFocus
-                                locale={id}
+                                locale={dateLocale}
                                 className="rounded-lg"
                                 classNames={{
                                   months: "flex flex-col sm:flex-row space-y-4 sm:space-x-4 sm:space-y-0",
@@ -621,16 +836,19 @@ export default function AddExpensePage() {
                     render={({ field }) => (
                       <FormItem>
                         <FormLabel className="text-foreground/80 text-sm lg:text-sm">
-                          Bagaimana perasaanmu?
+                          {t("add.mood")}
                         </FormLabel>
                         <FormControl>
                           <div id="mood">
                             <FunMoodSelector
                               value={field.value as MoodType}
+                              initialReason={initialMoodReason}
                               onChange={(mood, reason) => {
                                 field.onChange(mood);
                                 form.setValue("moodReason", reason || "");
                               }}
+                              intensity={form.watch("moodIntensity")}
+                              onIntensityChange={(intensity) => form.setValue("moodIntensity", intensity)}
                             />
                           </div>
                         </FormControl>
@@ -640,6 +858,25 @@ export default function AddExpensePage() {
                   />
                 </motion.div>
 
+                {!editId && (
+                  <motion.div
+                    initial={{ opacity: 0, x: -20 }}
+                    animate={{ opacity: 1, x: 0 }}
+                    transition={{ delay: 0.55 }}
+                    className="space-y-2"
+                  >
+                    <Label className="text-foreground/80 text-sm lg:text-sm">
+                      {t("add.repeat")}
+                    </Label>
+                    <RepeatSelect
+                      value={repeat}
+                      onChange={setRepeat}
+                      minDate={format(form.watch("date"), "yyyy-MM-dd")}
+                      disabled={isSubmitting}
+                    />
+                  </motion.div>
+                )}
+
                 {/* Notes Field - Smaller on desktop */}
                 <motion.div
                   initial={{ opacity: 0, x: -20 }}
@@ -652,11 +889,11 @@ export default function AddExpensePage() {
                     render={({ field }) => (
                       <FormItem>
                         <FormLabel className="text-foreground/80 text-sm lg:text-sm">
-                          Catatan (Opsional)
+                          {t("add.notes")}
                         </FormLabel>
                         <FormControl>
                           <Textarea
-                            placeholder="Tambahkan detail lainnya..."
+                            placeholder={t("add.notesPlaceholder")}
                             className="resize-none rounded-lg border-primary/20 focus-visible:ring-primary/30 bg-background/50 min-h-[60px] lg:min-h-[70px] xl:min-h-[80px] text-sm"
                             {...field}
                           />
@@ -696,7 +933,7 @@ export default function AddExpensePage() {
                     ) : (
                       <ArrowRight className="mr-2 h-4 w-4 lg:h-5 lg:w-5" />
                     )}
-                    {isSubmitting ? "Menyimpan..." : "Simpan Pengeluaran"}
+                    {isSubmitting ? t("add.saving") : editId ? t("add.saveChanges") : t("add.save")}
                   </Button>
                 </motion.div>
               </form>
@@ -704,6 +941,57 @@ export default function AddExpensePage() {
           </div>
         </div>
       </motion.div>
+
+      <AlertDialog
+        open={budgetWarning !== null}
+        onOpenChange={(open) => {
+          if (!open) setBudgetWarning(null);
+        }}
+      >
+        {budgetWarning && (
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>
+                {budgetWarning.impact.level === "over"
+                  ? t("add.budget.overTitle")
+                  : t("add.budget.nearTitle")}
+              </AlertDialogTitle>
+              <AlertDialogDescription>
+                {(() => {
+                  const { impact } = budgetWarning;
+                  const category = getCategory(impact.category);
+                  const label = category ? `${category.icon} ${category.name}` : impact.category;
+                  return impact.remaining >= 0
+                    ? t("add.budget.near", {
+                        percent: impact.percentUsed.toFixed(0),
+                        category: label,
+                        remaining: formatCurrency(impact.remaining),
+                        limit: formatCurrency(impact.limit),
+                      })
+                    : t("add.budget.over", {
+                        category: label,
+                        limit: formatCurrency(impact.limit),
+                        over: formatCurrency(-impact.remaining),
+                        left: formatCurrency(Math.max(impact.limit - impact.spentBefore, 0)),
+                      });
+                })()}
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>{t("common.cancel")}</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={() => {
+                  const { values } = budgetWarning;
+                  setBudgetWarning(null);
+                  onSubmit(values, { skipBudgetCheck: true });
+                }}
+              >
+                {t("add.budget.saveAnyway")}
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        )}
+      </AlertDialog>
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,11 @@
+import { generateDetailedAnalysis } from "@/lib/ai-insights"
+import { aiPromptSchema, parseAIRequest, toTextResponse } from "@/lib/ai-request"
+
+const HOUR = 60 * 60 * 1000
+
+export async function POST(request: Request) {
+  const { body, error } = await parseAIRequest(request, aiPromptSchema, { name: "analysis", limit: 10, windowMs: HOUR })
+  if (error) return error
+
+  return toTextResponse(await generateDetailedAnalysis(body.prompt, body.language, true))
+}
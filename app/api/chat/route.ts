@@ -0,0 +1,12 @@
+import { generateChatReply } from "@/lib/ai-insights"
+import { aiChatSchema, parseAIRequest, toTextResponse } from "@/lib/ai-request"
+
+const HOUR = 60 * 60 * 1000
+
+// Streams the reply to the latest question in a spending chat
+export async function POST(request: Request) {
+  const { body, error } = await parseAIRequest(request, aiChatSchema, { name: "chat", limit: 60, windowMs: HOUR })
+  if (error) return error
+
+  return toTextResponse(await generateChatReply(body.context, body.messages, body.language))
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server"
+import { generateAIInsights, isAIConfigured } from "@/lib/ai-insights"
+import { aiPromptSchema, parseAIRequest } from "@/lib/ai-request"
+
+const HOUR = 60 * 60 * 1000
+
+// Lets the insights page disable its buttons without exposing which keys exist
+export async function GET() {
+  return NextResponse.json({ configured: isAIConfigured() })
+}
+
+export async function POST(request: Request) {
+  const { body, error } = await parseAIRequest(request, aiPromptSchema, { name: "insights", limit: 20, windowMs: HOUR })
+  if (error) return error
+
+  const result = await generateAIInsights(body.prompt, body.language)
+  return NextResponse.json(result, { status: result.error ? 502 : 200 })
+}
@@ -0,0 +1,110 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { AnimatePresence, motion } from "framer-motion";
+import { AlertTriangle, X } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { getCategory } from "@/data/categories";
+import { t } from "@/data/locales";
+import { cn, formatCurrency } from "@/lib/utils";
+import { getMonthKey, type BudgetStatus } from "@/lib/budget-calculations";
+
+const DISMISSED_STORAGE_KEY = "emospend:dismissed-budget-alerts";
+
+interface BudgetAlertsProps {
+  statuses: BudgetStatus[];
+}
+
+// A dismissal only hides the alert for the same month and level, so
+// crossing from 80% to 100% raises it again
+function getAlertKey(status: BudgetStatus): string {
+  return `${getMonthKey()}:${status.category}:${status.level}`;
+}
+
+function loadDismissed(): string[] {
+  try {
+    const stored = localStorage.getItem(DISMISSED_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function BudgetAlerts({ statuses }: BudgetAlertsProps) {
+  const [dismissed, setDismissed] = useState<string[]>([]);
+
+  useEffect(() => {
+    setDismissed(loadDismissed());
+  }, []);
+
+  const dismiss = (key: string) => {
+    // Forget dismissals from earlier months so storage doesn't grow forever
+    const month = getMonthKey();
+    const next = [...dismissed.filter((entry) => entry.startsWith(month)), key];
+    setDismissed(next);
+    try {
+      localStorage.setItem(DISMISSED_STORAGE_KEY, JSON.stringify(next));
+    } catch {
+      // Dismissal just won't persist across reloads
+    }
+  };
+
+  const alerts = statuses
+    .filter((status) => status.level !== "ok" && !dismissed.includes(getAlertKey(status)))
+    .sort((a, b) => b.percentUsed - a.percentUsed);
+
+  return (
+    <AnimatePresence initial={false}>
+      {alerts.map((status) => {
+        const key = getAlertKey(status);
+        const category = getCategory(status.category);
+        const isOver = status.level === "over";
+        return (
+          <motion.div
+            key={key}
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, height: 0 }}
+            className="mb-4"
+          >
+            <Alert
+              className={cn(
+                "pr-12",
+                isOver
+                  ? "border-red-200 bg-red-50 text-red-900 dark:border-red-900/50 dark:bg-red-950/30 dark:text-red-200"
+                  : "border-amber-200 bg-amber-50 text-amber-900 dark:border-amber-900/50 dark:bg-amber-950/30 dark:text-amber-200"
+              )}
+            >
+              <AlertTriangle className="h-4 w-4" />
+              <AlertTitle>
+                {t(isOver ? "budgetAlerts.overTitle" : "budgetAlerts.warningTitle")}: {category ? `${category.icon} ${category.name}` : status.category}
+              </AlertTitle>
+              <AlertDescription>
+                {isOver
+                  ? t("budgetAlerts.overDescription", {
+                      amount: formatCurrency(-status.remaining),
+                      limit: formatCurrency(status.limit),
+                    })
+                  : t("budgetAlerts.warningDescription", {
+                      percent: status.percentUsed.toFixed(0),
+                      remaining: formatCurrency(status.remaining),
+                      limit: formatCurrency(status.limit),
+                    })}
+              </AlertDescription>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="absolute right-2 top-2 h-7 w-7"
+                onClick={() => dismiss(key)}
+                aria-label={t("budgetAlerts.dismiss")}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </Alert>
+          </motion.div>
+        );
+      })}
+    </AnimatePresence>
+  );
+}
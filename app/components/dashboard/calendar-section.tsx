@@ -1,6 +1,6 @@
 import { Card, CardContent } from "@/components/ui/card";
 import { EnhancedCalendar } from "@/components/enhanced-calendar";
-import { moods } from "@/data/moods";
+import { useMoods } from "@/hooks/use-moods";
 import type { Expense, MoodType } from "@/types/expense";
 import { AnimatePresence, motion } from "framer-motion";
 
@@ -19,6 +19,8 @@ export function CalendarSection({
   expenses,
   isLoading,
 }: CalendarSectionProps) {
+  // Archived moods are still useful for filtering older expenses
+  const moods = useMoods({ includeArchived: true });
   return (
     <AnimatePresence>
       {showCalendar && (
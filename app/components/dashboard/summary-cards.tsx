@@ -10,10 +10,11 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { formatCurrency } from "@/lib/utils";
 import { motion } from "framer-motion";
 import type { Expense } from "@/types/expense";
-// Ensure categories are correctly imported or defined if used directly
-// For this example, I'll assume categories are fetched or passed if needed.
-// Original code used: const { categories } = require("@/data/categories");
-import { categories } from "@/data/categories";
+import type { BudgetStatus } from "@/lib/budget-calculations";
+import { Progress } from "@/components/ui/progress";
+import { cn } from "@/lib/utils";
+import { useCategories } from "@/hooks/use-categories";
+import { getHomeAmount } from "@/data/currencies";
 
 
 interface MoodSummary {
@@ -30,6 +31,7 @@ interface SummaryCardsProps {
   totalSpent: number;
   expensesByMood: MoodSummary[];
   expenses: Expense[];
+  budgetStatuses?: BudgetStatus[]; // This month's budgets, regardless of period
 }
 
 export function SummaryCards({
@@ -37,18 +39,25 @@ export function SummaryCards({
   totalSpent,
   expensesByMood,
   expenses,
+  budgetStatuses = [],
 }: SummaryCardsProps) {
+  // Archived categories still label past expenses
+  const categories = useCategories({ includeArchived: true });
+  const budgetLimit = budgetStatuses.reduce((sum, status) => sum + status.limit, 0);
+  const budgetSpent = budgetStatuses.reduce((sum, status) => sum + status.spent, 0);
+  const budgetPercent = budgetLimit > 0 ? (budgetSpent / budgetLimit) * 100 : 0;
+
   const topMood = expensesByMood.length > 0
     ? [...expensesByMood].sort((a, b) => b.total - a.total)[0]
     : null;
 
   const expensesByCategory = categories
-    .map((category: any) => {
+    .map((category) => {
       const categoryExpenses = expenses.filter(
         (expense) => expense.category === category.id
       );
       const total = categoryExpenses.reduce(
-        (sum, expense) => sum + expense.amount,
+        (sum, expense) => sum + getHomeAmount(expense),
         0
       );
       return {
@@ -64,6 +73,29 @@ export function SummaryCards({
     ? [...expensesByCategory].sort((a, b) => b.total - a.total)[0]
     : null;
 
+  const topCategoryBudget = topCategory
+    ? budgetStatuses.find((status) => status.category === topCategory.id)
+    : undefined;
+
+  // Month-to-date spending across all budgeted categories
+  const budgetSummary = budgetLimit > 0 ? (
+    <div className="w-full space-y-1 mt-2">
+      <Progress
+        value={Math.min(budgetPercent, 100)}
+        className={cn(
+          "h-1.5",
+          budgetPercent > 100 && "[&>div]:bg-red-500",
+          budgetPercent >= 80 && budgetPercent <= 100 && "[&>div]:bg-amber-500"
+        )}
+      />
+      <div className="text-[10px] sm:text-xs text-muted-foreground text-center">
+        {budgetSpent > budgetLimit
+          ? `Lebih ${formatCurrency(budgetSpent - budgetLimit)} dari anggaran bulan ini`
+          : `Sisa ${formatCurrency(budgetLimit - budgetSpent)} dari anggaran bulan ini`}
+      </div>
+    </div>
+  ) : null;
+
   const cardData = [
     {
       title: "Total Pengeluaran",
@@ -89,14 +121,17 @@ export function SummaryCards({
           </div>
         </div>
       ) : (
-        <motion.div
-          initial={{ scale: 0.5, opacity: 0 }}
-          animate={{ scale: 1, opacity: 1 }}
-          transition={{ type: "spring", stiffness: 200, damping: 15 }}
-          className="text-xl sm:text-2xl lg:text-3xl font-bold tabular-nums bg-gradient-to-r from-green-600 to-emerald-600 bg-clip-text text-transparent flex justify-center w-full"
-        >
-          {formatCurrency(totalSpent)}
-        </motion.div>
+        <div className="flex flex-col items-center w-full">
+          <motion.div
+            initial={{ scale: 0.5, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            transition={{ type: "spring", stiffness: 200, damping: 15 }}
+            className="text-xl sm:text-2xl lg:text-3xl font-bold tabular-nums bg-gradient-to-r from-green-600 to-emerald-600 bg-clip-text text-transparent flex justify-center w-full"
+          >
+            {formatCurrency(totalSpent)}
+          </motion.div>
+          {budgetSummary}
+        </div>
       ),
     },
     {
@@ -230,6 +265,17 @@ export function SummaryCards({
             <div className="text-xs sm:text-xs lg:text-sm text-muted-foreground">
               {formatCurrency(topCategory.total)} ({topCategory.percentage.toFixed(0)}%)
             </div>
+            {topCategoryBudget && (
+              <div
+                className={cn(
+                  "text-[10px] sm:text-xs",
+                  topCategoryBudget.level === "over" ? "text-red-500" :
+                  topCategoryBudget.level === "warning" ? "text-amber-500" : "text-muted-foreground"
+                )}
+              >
+                {topCategoryBudget.percentUsed.toFixed(0)}% anggaran bulan ini
+              </div>
+            )}
           </div>
         </motion.div>
       ),
@@ -7,7 +7,11 @@ import { Tabs, TabsContent } from "@/components/ui/tabs";
 import { getExpensesByDateRange } from "@/lib/db";
 import { getDateRangeForPeriod } from "@/lib/utils";
 import { getIncomesByDateRange } from "@/lib/income";
-import { moods } from "@/data/moods";
+import { getBudgetStatusesForMonth } from "@/lib/budgets";
+import { ensureCurrencySettingsLoaded } from "@/lib/currency";
+import { useLocale } from "@/hooks/use-locale";
+import { getMonthKey, type BudgetStatus } from "@/lib/budget-calculations";
+import { useMoods } from "@/hooks/use-moods";
 import type { Expense, Income } from "@/types/expense";
 import { Gamification } from "@/components/gamification";
 import { AnimatePresence, motion } from "framer-motion";
@@ -21,8 +25,11 @@ import { PeriodSelectorTabs } from "@/app/components/dashboard/period-selector-t
 import { SummaryCards } from "@/app/components/dashboard/summary-cards";
 import { DashboardCharts } from "@/app/components/dashboard/dashboard-charts";
 import { RecentExpenses } from "@/app/components/dashboard/recent-expenses";
+import { BudgetAlerts } from "@/app/components/dashboard/budget-alerts";
+import { getHomeAmount } from "@/data/currencies";
 
 export default function Dashboard() {
+  const moods = useMoods({ includeArchived: true });
   const [expenses, setExpenses] = useState<Expense[]>([]);
   const [incomes, setIncomes] = useState<Income[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -32,9 +39,11 @@ export default function Dashboard() {
   const [animatedTotal, setAnimatedTotal] = useState(0);
   const [period, setPeriod] = useState<"day" | "week" | "month" | "year">("month");
   const [selectedMood, setSelectedMood] = useState<MoodType | "all">("all");
+  const [budgetStatuses, setBudgetStatuses] = useState<BudgetStatus[]>([]);
 
   const { user } = useUser();
   const { sync } = useSync();
+  const { locale } = useLocale();
 
   const fetchData = useCallback(async () => {
     if (!user?.id) return;
@@ -46,7 +55,8 @@ export default function Dashboard() {
       // Get local data for immediate UI update
       const [expensesData, incomesData] = await Promise.all([
         getExpensesByDateRange(start, end),
-        getIncomesByDateRange(start, end)
+        getIncomesByDateRange(start, end),
+        ensureCurrencySettingsLoaded()
       ]);
       
       setExpenses(expensesData);
@@ -85,14 +95,59 @@ export default function Dashboard() {
     };
     
     calculateHealth();
-  }, [user?.id, expenses, incomes]);
+  }, [user?.id, expenses, incomes, locale]);
 
   useEffect(() => {
     fetchData();
   }, [fetchData]);
 
+  // Recurring rules can add rows in the background, and rate changes alter the
+  // converted totals; reload locally without starting another sync
+  useEffect(() => {
+    if (!user?.id) return;
+
+    const reloadLocal = async () => {
+      const { start, end } = getDateRangeForPeriod(period);
+      const [expensesData, incomesData] = await Promise.all([
+        getExpensesByDateRange(start, end),
+        getIncomesByDateRange(start, end)
+      ]);
+      setExpenses(expensesData);
+      setIncomes(incomesData);
+    };
+
+    window.addEventListener('recurring:materialized', reloadLocal);
+    window.addEventListener('currency:changed', reloadLocal);
+    return () => {
+      window.removeEventListener('recurring:materialized', reloadLocal);
+      window.removeEventListener('currency:changed', reloadLocal);
+    };
+  }, [period, user?.id]);
+
+  // Budgets are monthly, so compare against this month's spending whatever the
+  // period. Re-evaluated after every sync so changes from other devices show up.
+  useEffect(() => {
+    if (!user?.id) return;
+
+    const loadBudgetStatuses = async () => {
+      try {
+        setBudgetStatuses(await getBudgetStatusesForMonth(getMonthKey()));
+      } catch (error) {
+        console.error('Error loading budgets:', error);
+      }
+    };
+
+    loadBudgetStatuses();
+    window.addEventListener('budgets:changed', loadBudgetStatuses);
+    window.addEventListener('sync:end', loadBudgetStatuses);
+    return () => {
+      window.removeEventListener('budgets:changed', loadBudgetStatuses);
+      window.removeEventListener('sync:end', loadBudgetStatuses);
+    };
+  }, [user?.id, expenses]);
+
   // Calculate total spent
-  const totalSpent = expenses.reduce((sum, e) => sum + e.amount, 0);
+  const totalSpent = expenses.reduce((sum, e) => sum + getHomeAmount(e), 0);
 
   // Animate total when it changes
   useEffect(() => {
@@ -118,7 +173,7 @@ export default function Dashboard() {
   // Calculate expenses by mood for summary cards
   const expensesByMoodForSummary = moods.map((m) => {
     const filtered = expenses.filter((e) => e.mood === m.id);
-    const total = filtered.reduce((s, e) => s + e.amount, 0);
+    const total = filtered.reduce((s, e) => s + getHomeAmount(e), 0);
     return {
       ...m,
       total,
@@ -146,6 +201,8 @@ export default function Dashboard() {
         />
 
         <div className="px-4 sm:px-6 lg:px-8">
+          <BudgetAlerts statuses={budgetStatuses} />
+
           <CalendarSection
             showCalendar={showCalendar}
             selectedMood={selectedMood}
@@ -181,6 +238,7 @@ export default function Dashboard() {
                       totalSpent={animatedTotal}
                       expensesByMood={expensesByMoodForSummary}
                       expenses={expenses}
+                      budgetStatuses={budgetStatuses}
                     />
 
                     <DashboardCharts
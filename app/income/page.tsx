@@ -2,7 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
-import { Plus, TrendingUp, ArrowLeft, Loader2, Trash2 } from 'lucide-react';
+import { Plus, TrendingUp, ArrowLeft, Loader2, Trash2, Pencil } from 'lucide-react';
 import { toast } from 'sonner';
 import styles from '@/styles/toast.module.css';
 import { useSync } from '@/hooks/use-sync';
@@ -17,16 +17,29 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from '@/components/ui/alert-dialog';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { IncomeForm } from '@/components/income-form';
+import { IncomeForm, getIncomeSourceLabel } from '@/components/income-form';
 import { Income } from '@/types/expense';
 import { getIncomesByDateRange, deleteIncome } from '@/lib/income';
+import { formatCurrency } from '@/lib/currency-formatter';
+import { DEFAULT_CURRENCY, getHomeAmount } from '@/data/currencies';
+import { useCurrency } from '@/hooks/use-currency';
+import { useLocale } from '@/hooks/use-locale';
+import { getIntlLocale, t } from '@/data/locales';
 import { format, subMonths, startOfMonth, endOfMonth, isSameMonth } from 'date-fns';
 
 export default function IncomePage() {
   const router = useRouter();
+  const { dateLocale } = useLocale();
   const [activeTab, setActiveTab] = useState('add');
   const [incomes, setIncomes] = useState<Income[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -161,6 +174,18 @@ export default function IncomePage() {
     loadInitialData();
   }, []);
 
+  // Incomes created by recurring rules land in the current month
+  useEffect(() => {
+    const reloadCurrentMonth = async () => {
+      const now = new Date();
+      const { monthKey, data } = await loadIncomesForMonth(now.getFullYear(), now.getMonth());
+      setAllIncomes(prev => ({ ...prev, [monthKey]: data }));
+    };
+
+    window.addEventListener('recurring:materialized', reloadCurrentMonth);
+    return () => window.removeEventListener('recurring:materialized', reloadCurrentMonth);
+  }, []);
+
   const handleIncomeAdded = async (newIncome?: Income) => {
     try {
       // Trigger sync to ensure latest data
@@ -188,6 +213,25 @@ export default function IncomePage() {
     }
   };
 
+  const [incomeToEdit, setIncomeToEdit] = useState<Income | null>(null);
+
+  // Replace an edited income in state, moving it if its month changed
+  const handleIncomeUpdated = (updatedIncome?: Income) => {
+    setIncomeToEdit(null);
+    if (!updatedIncome) return;
+
+    const monthKey = format(new Date(updatedIncome.date), 'yyyy-MM');
+    setAllIncomes(prev => {
+      const updated: {[key: string]: Income[]} = {};
+      Object.entries(prev).forEach(([key, monthIncomes]) => {
+        updated[key] = monthIncomes.filter(inc => inc.id !== updatedIncome.id);
+      });
+      updated[monthKey] = [updatedIncome, ...(updated[monthKey] || [])]
+        .sort((a, b) => b.date.localeCompare(a.date));
+      return updated;
+    });
+  };
+
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [incomeToDelete, setIncomeToDelete] = useState<string | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
@@ -244,7 +288,7 @@ export default function IncomePage() {
       await new Promise(resolve => setTimeout(resolve, 300)); // Small delay to ensure sync completes
 
       // Show success toast
-      toast.custom((t) => (
+      toast.custom(() => (
         <div className={styles.toastContent}>
           <div className="h-5 w-5 flex items-center justify-center text-green-500">
             <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
@@ -252,8 +296,8 @@ export default function IncomePage() {
             </svg>
           </div>
           <div>
-            <p className="font-medium">Pendapatan dihapus!</p>
-            <p className="text-sm text-muted-foreground">Pendapatan berhasil dihapus dan perubahan sedang disinkronisasi.</p>
+            <p className="font-medium">{t('incomePage.deleted')}</p>
+            <p className="text-sm text-muted-foreground">{t('incomePage.deletedDescription')}</p>
           </div>
         </div>
       ), {
@@ -276,7 +320,7 @@ export default function IncomePage() {
       console.error('Error deleting income:', error);
       
       // Show error toast
-      toast.custom((t) => (
+      toast.custom(() => (
         <div className={styles.toastContent}>
           <div className="h-5 w-5 flex items-center justify-center text-red-500">
             <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
@@ -284,8 +328,8 @@ export default function IncomePage() {
             </svg>
           </div>
           <div>
-            <p className="font-medium">Ups! Terjadi kesalahan</p>
-            <p className="text-sm text-muted-foreground">Gagal menghapus pendapatan. Silakan coba lagi.</p>
+            <p className="font-medium">{t('common.error')}</p>
+            <p className="text-sm text-muted-foreground">{t('incomePage.deleteFailed')}</p>
           </div>
         </div>
       ), {
@@ -308,9 +352,10 @@ export default function IncomePage() {
     }
   };
 
-  // Calculate total income from all loaded months
+  // Calculate total income from all loaded months, in the home currency
+  const { homeCurrency } = useCurrency();
   const totalIncome = Object.values(allIncomes).reduce(
-    (sum, monthIncomes) => sum + monthIncomes.reduce((s, income) => s + income.amount, 0),
+    (sum, monthIncomes) => sum + monthIncomes.reduce((s, income) => s + getHomeAmount(income), 0),
     0
   );
   
@@ -327,23 +372,47 @@ export default function IncomePage() {
       <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
         <AlertDialogContent>
           <AlertDialogHeader>
-            <AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
+            <AlertDialogTitle>{t('incomePage.deleteTitle')}</AlertDialogTitle>
             <AlertDialogDescription>
-              This action cannot be undone. This will permanently delete this income record.
+              {t('incomePage.deleteDescription')}
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
-            <AlertDialogCancel disabled={isDeleting}>Cancel</AlertDialogCancel>
+            <AlertDialogCancel disabled={isDeleting}>{t('common.cancel')}</AlertDialogCancel>
             <Button
               variant="destructive"
               onClick={handleDeleteIncome}
               disabled={isDeleting}
             >
-              {isDeleting ? 'Deleting...' : 'Delete'}
+              {isDeleting ? t('incomePage.deleting') : t('incomePage.deleteConfirm')}
             </Button>
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+      <Dialog open={!!incomeToEdit} onOpenChange={(open) => !open && setIncomeToEdit(null)}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{t('incomePage.editTitle')}</DialogTitle>
+            <DialogDescription>
+              {t('incomePage.editDescription')}
+            </DialogDescription>
+          </DialogHeader>
+          {incomeToEdit && (
+            <IncomeForm
+              key={incomeToEdit.id}
+              initialData={{
+                id: incomeToEdit.id,
+                amount: incomeToEdit.amount,
+                currency: incomeToEdit.currency,
+                source: incomeToEdit.source,
+                description: incomeToEdit.description,
+                date: incomeToEdit.date,
+              }}
+              onSuccess={handleIncomeUpdated}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
       {/* Mobile-optimized header */}
       <div className="bg-background border-b px-4 py-3 sticky top-0 z-10 backdrop-blur-sm bg-background/95 transition-all duration-300 dark:bg-background-dark/95">
         <div className="flex items-center justify-between">
@@ -354,12 +423,12 @@ export default function IncomePage() {
             className="flex items-center gap-2 p-2 -ml-2 hover:bg-accent transition-all duration-200 hover:scale-105 active:scale-95"
           >
             <ArrowLeft className="h-5 w-5 transition-transform duration-200" />
-            <span className="hidden sm:inline transition-opacity duration-200">Back</span>
+            <span className="hidden sm:inline transition-opacity duration-200">{t('incomePage.back')}</span>
           </Button>
           <h1 className="text-lg sm:text-xl font-semibold flex items-center gap-2 text-center transition-all duration-300">
             <TrendingUp className="h-5 w-5 sm:h-6 sm:w-6 transition-all duration-300" />
-            <span className="hidden xs:inline transition-opacity duration-200">Income</span>
-            <span className="xs:hidden transition-opacity duration-200">Income</span>
+            <span className="hidden xs:inline transition-opacity duration-200">{t('nav.income')}</span>
+            <span className="xs:hidden transition-opacity duration-200">{t('nav.income')}</span>
           </h1>
           <div className="w-12 sm:w-16 transition-all duration-300">
             {/* Spacer for layout balance */}
@@ -377,23 +446,23 @@ export default function IncomePage() {
               className="h-8 sm:h-10 w-full text-xs font-medium sm:text-base flex items-center justify-center rounded-sm min-h-[32px] sm:min-h-[40px] gap-2"
             >
               <Plus className="h-4 w-4" />
-              <span className="hidden xs:inline">Add Income</span>
-              <span className="xs:hidden">Add</span>
+              <span className="hidden xs:inline">{t('incomePage.addTab')}</span>
+              <span className="xs:hidden">{t('incomePage.addTabShort')}</span>
             </TabsTrigger>
             <TabsTrigger
               value="list"
               className="h-8 sm:h-10 w-full text-xs font-medium sm:text-base flex items-center justify-center rounded-sm min-h-[32px] sm:min-h-[40px] gap-2"
             >
               <TrendingUp className="h-4 w-4" />
-              <span className="hidden xs:inline">View Incomes</span>
-              <span className="xs:hidden">View</span>
+              <span className="hidden xs:inline">{t('incomePage.listTab')}</span>
+              <span className="xs:hidden">{t('incomePage.listTabShort')}</span>
             </TabsTrigger>
           </TabsList>
 
           <TabsContent value="add" className="mt-4 animate-in fade-in-0 slide-in-from-bottom-2 duration-300">
             <Card className="border-0 shadow-sm transition-all duration-300 hover:shadow-md">
               <CardHeader className="pb-4">
-                <CardTitle className="text-lg sm:text-xl transition-colors duration-200">Add New Income</CardTitle>
+                <CardTitle className="text-lg sm:text-xl transition-colors duration-200">{t('incomePage.addTitle')}</CardTitle>
               </CardHeader>
               <CardContent className="pt-0">
                 <IncomeForm onSuccess={handleIncomeAdded} />
@@ -406,17 +475,13 @@ export default function IncomePage() {
               <CardHeader className="pb-4">
                 <div className="space-y-3">
                   <div className="flex flex-col xs:flex-row xs:justify-between xs:items-center gap-3">
-                    <CardTitle className="text-lg sm:text-xl transition-colors duration-200">Income History</CardTitle>
+                    <CardTitle className="text-lg sm:text-xl transition-colors duration-200">{t('incomePage.historyTitle')}</CardTitle>
                     <div className="flex flex-col xs:flex-row items-start xs:items-center gap-2">
                       {/* Total income badge - full width on mobile */}
                       <div className="bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 text-green-700 dark:text-green-300 px-3 py-2 rounded-lg text-sm font-medium w-full xs:w-auto text-center xs:text-left transition-all duration-300 hover:bg-green-100 dark:hover:bg-green-900/30 hover:border-green-300 dark:hover:border-green-700 hover:shadow-sm">
                         <span className="flex items-center justify-center xs:justify-start gap-1">
                           <span className="font-semibold transition-all duration-200">
-                            Rp{" "}
-                            {new Intl.NumberFormat('id-ID', {
-                              minimumFractionDigits: 0,
-                              maximumFractionDigits: 0
-                            }).format(totalIncome)}
+                            {formatCurrency(totalIncome, homeCurrency)}
                           </span>
                         </span>
                       </div>
@@ -427,7 +492,7 @@ export default function IncomePage() {
                         className="gap-2 w-full xs:w-auto h-10 transition-all duration-200 hover:scale-105 active:scale-95 hover:shadow-md"
                       >
                         <Plus className="h-4 w-4 transition-transform duration-200 group-hover:rotate-90" />
-                        Add Income
+                        {t('incomePage.add')}
                       </Button>
                     </div>
                   </div>
@@ -449,15 +514,17 @@ export default function IncomePage() {
                         <div key={monthKey} className="space-y-3">
                           <div className="flex items-center justify-between mb-2">
                             <h3 className="text-lg font-medium text-foreground/90">
-                              {format(monthDate, 'MMMM yyyy')}
+                              {format(monthDate, 'MMMM yyyy', { locale: dateLocale })}
                               {isCurrentMonth && (
                                 <span className="ml-2 text-xs px-2 py-0.5 bg-primary/10 text-primary rounded-full">
-                                  Current
+                                  {t('incomePage.current')}
                                 </span>
                               )}
                             </h3>
                             <div className="text-sm text-muted-foreground">
-                              {monthIncomes.length} {monthIncomes.length === 1 ? 'entry' : 'entries'}
+                              {monthIncomes.length === 1
+                                ? t('incomePage.entries.one')
+                                : t('incomePage.entries.other', { count: monthIncomes.length })}
                             </div>
                           </div>
                           
@@ -469,9 +536,9 @@ export default function IncomePage() {
                                 style={{ animationDelay: `${index * 50}ms` }}
                               >
                                 <div className="flex-1 mb-3 sm:mb-0">
-                                  <div className="font-medium text-base sm:text-lg mb-1 transition-colors duration-200">{income.source}</div>
+                                  <div className="font-medium text-base sm:text-lg mb-1 transition-colors duration-200">{getIncomeSourceLabel(income.source)}</div>
                                   <div className="text-sm text-muted-foreground mb-1 transition-colors duration-200">
-                                    {new Date(income.date).toLocaleDateString()}
+                                    {new Date(income.date).toLocaleDateString(getIntlLocale())}
                                   </div>
                                   {income.description && (
                                     <p className="text-sm text-muted-foreground mt-2 line-clamp-2 transition-colors duration-200">{income.description}</p>
@@ -480,24 +547,29 @@ export default function IncomePage() {
                                 <div className="flex justify-between items-start sm:items-center gap-4 border-t sm:border-t-0 pt-3 sm:pt-0 transition-all duration-200">
                                   <div className="flex-1">
                                     <div className="font-bold text-green-600 dark:text-green-400 text-lg sm:text-xl transition-all duration-200 hover:text-green-700 dark:hover:text-green-300">
-                                      {new Intl.NumberFormat('id-ID', {
-                                        style: 'currency',
-                                        currency: 'IDR',
-                                        minimumFractionDigits: 0,
-                                        maximumFractionDigits: 0
-                                      }).format(income.amount)}
+                                      {formatCurrency(income.amount, income.currency || DEFAULT_CURRENCY)}
                                     </div>
                                     <div className="text-xs text-muted-foreground mt-1 transition-colors duration-200">
-                                      Added: {new Date(income.createdAt).toLocaleDateString()}
+                                      {t('incomePage.addedOn', { date: new Date(income.createdAt).toLocaleDateString(getIntlLocale()) })}
                                     </div>
                                   </div>
+                                  <button
+                                    onClick={(e) => {
+                                      e.stopPropagation();
+                                      setIncomeToEdit(income);
+                                    }}
+                                    className="p-2 text-muted-foreground hover:bg-accent rounded-full transition-colors duration-200"
+                                    aria-label={t('incomePage.edit')}
+                                  >
+                                    <Pencil className="h-4 w-4" />
+                                  </button>
                                   <button
                                     onClick={(e) => {
                                       e.stopPropagation();
                                       handleDeleteClick(income.id);
                                     }}
                                     className="p-2 text-red-500 hover:bg-red-500/10 rounded-full transition-colors duration-200"
-                                    aria-label="Delete income"
+                                    aria-label={t('incomePage.delete')}
                                   >
                                     <Trash2 className="h-4 w-4" />
                                   </button>
@@ -528,10 +600,10 @@ export default function IncomePage() {
                           {isLoadingMore ? (
                             <>
                               <Loader2 className="h-4 w-4 animate-spin" />
-                              Loading...
+                              {t('common.loading')}
                             </>
                           ) : (
-                            'See More'
+                            t('incomePage.seeMore')
                           )}
                         </Button>
                       </div>
@@ -542,14 +614,14 @@ export default function IncomePage() {
                     <div className="mb-4 transition-transform duration-300 hover:scale-110">
                       <TrendingUp className="h-12 w-12 mx-auto text-muted-foreground/50 transition-colors duration-300" />
                     </div>
-                    <p className="text-base mb-2 transition-opacity duration-300">No income records found</p>
-                    <p className="text-sm mb-4 transition-opacity duration-300">Start tracking your income to see it here</p>
+                    <p className="text-base mb-2 transition-opacity duration-300">{t('incomePage.empty')}</p>
+                    <p className="text-sm mb-4 transition-opacity duration-300">{t('incomePage.emptyHint')}</p>
                     <Button
                       onClick={() => setActiveTab('add')}
                       className="gap-2 transition-all duration-200 hover:scale-105 active:scale-95 hover:shadow-lg"
                     >
                       <Plus className="h-4 w-4 transition-transform duration-200 group-hover:rotate-90" />
-                      Add your first income
+                      {t('incomePage.addFirst')}
                     </Button>
                   </div>
                 )}
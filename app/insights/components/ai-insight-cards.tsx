@@ -14,11 +14,19 @@ import {
     Brain,
     Sparkles,
     Zap,
+    AlertOctagon,
+    ArrowRight,
+    type LucideIcon,
   } from "lucide-react";
   import { motion } from "framer-motion";
   import { renderFormattedResponse } from "@/lib/text-formatter";
   import type { Expense } from "@/types/expense";
-  import type { AIResponse } from "@/types/ai";
+  import { Badge } from "@/components/ui/badge";
+  import { useCategories } from "@/hooks/use-categories";
+  import { useLocale } from "@/hooks/use-locale";
+  import { useMoods } from "@/hooks/use-moods";
+  import { cn } from "@/lib/utils";
+  import type { AIInsight, AIInsightSeverity, AIResponse } from "@/types/ai";
   
   interface AIInsightCardsProps {
     isLoading: boolean;
@@ -27,6 +35,76 @@ import {
     expenses: Expense[];
     period: "week" | "month" | "year";
     aiResponse?: AIResponse;
+    items?: AIInsight[];
+  }
+
+  const severityStyles: Record<AIInsightSeverity, { icon: LucideIcon; className: string; border: string }> = {
+    positive: { icon: TrendingUp, className: "text-green-600 bg-green-500/10", border: "border-green-500/30" },
+    info: { icon: Lightbulb, className: "text-primary bg-primary/10", border: "border-primary/20" },
+    warning: { icon: AlertTriangle, className: "text-amber-600 bg-amber-500/10", border: "border-amber-500/30" },
+    critical: { icon: AlertOctagon, className: "text-destructive bg-destructive/10", border: "border-destructive/30" },
+  };
+
+  // The model names moods and categories as they appear in the data context
+  const matchesName = (name: string, value?: string) =>
+    !!value && name.trim().toLowerCase() === value.trim().toLowerCase();
+
+  function StructuredInsightCard({ insight, index }: { insight: AIInsight; index: number }) {
+    const { t } = useLocale();
+    const moods = useMoods({ includeArchived: true });
+    const categories = useCategories({ includeArchived: true });
+    const { icon: Icon, className, border } = severityStyles[insight.severity];
+    const mood = moods.find((m) => matchesName(m.label, insight.mood));
+    const category = categories.find((c) => matchesName(c.name, insight.category));
+
+    return (
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: index * 0.05 }}
+        className="h-full"
+      >
+        <Card className={cn("h-full flex flex-col hover:shadow-lg transition-all duration-300", border)}>
+          <CardHeader className="pb-2 space-y-3">
+            <div className="flex items-center justify-between gap-2">
+              <span className={cn("h-9 w-9 rounded-full flex items-center justify-center", className)}>
+                <Icon className="h-4 w-4" />
+              </span>
+              <Badge variant="outline" className={cn("font-normal", className, border)}>
+                {t(`insightCards.severity.${insight.severity}`)}
+              </Badge>
+            </div>
+            <CardTitle className="text-lg leading-snug">{insight.title}</CardTitle>
+          </CardHeader>
+          <CardContent className="grow flex flex-col gap-3">
+            <p className="text-sm text-foreground/90">{insight.body}</p>
+            {(mood || insight.mood || category || insight.category) && (
+              <div className="flex flex-wrap gap-1.5">
+                {(mood || insight.mood) && (
+                  <Badge variant="secondary" className="font-normal">
+                    {mood ? `${mood.emoji} ${mood.label}` : insight.mood}
+                  </Badge>
+                )}
+                {(category || insight.category) && (
+                  <Badge variant="secondary" className="font-normal">
+                    {category ? `${category.icon} ${category.name}` : insight.category}
+                  </Badge>
+                )}
+              </div>
+            )}
+            {insight.action && (
+              <div className="mt-auto rounded-md bg-muted/60 p-3 text-sm">
+                <p className="mb-1 flex items-center gap-1 text-xs font-medium text-muted-foreground">
+                  <ArrowRight className="h-3 w-3" />
+                  {t("insightCards.action")}
+                </p>
+                <p>{insight.action}</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </motion.div>
+    );
   }
   
   export function AIInsightCards({
@@ -36,6 +114,7 @@ import {
     expenses,
     period,
     aiResponse,
+    items,
   }: AIInsightCardsProps) {
     const [streamingContent, setStreamingContent] = useState<string>('');
     const icons = [Lightbulb, TrendingUp, AlertTriangle, Brain, Sparkles];
@@ -154,6 +233,16 @@ import {
       );
     }
   
+    if (!error && items && items.length > 0) {
+      return (
+        <div className="grid gap-6 sm:grid-cols-1 md:grid-cols-2 lg:grid-cols-3">
+          {items.map((insight, index) => (
+            <StructuredInsightCard key={index} insight={insight} index={index} />
+          ))}
+        </div>
+      );
+    }
+
     const hasError =
       !!error ||
       insights.some((insight) =>
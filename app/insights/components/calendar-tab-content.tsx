@@ -7,7 +7,7 @@ import {
   } from "@/components/ui/select";
   import { EnhancedCalendar } from "@/components/enhanced-calendar";
   import type { Expense, MoodType } from "@/types/expense";
-  import { moods } from "@/data/moods";
+  import { useMoods } from "@/hooks/use-moods";
   
   interface CalendarTabContentProps {
     selectedMood: MoodType | "all";
@@ -22,6 +22,8 @@ import {
     expenses,
     isLoading,
   }: CalendarTabContentProps) {
+    // Archived moods are still useful for filtering older expenses
+    const moods = useMoods({ includeArchived: true });
     return (
       <div className="space-y-4">
         <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-4">
@@ -0,0 +1,152 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { format, parseISO, type Locale } from "date-fns";
+import { ChevronDown, ChevronUp, History, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useLocale } from "@/hooks/use-locale";
+import { deleteInsightRun, getInsightHistory } from "@/lib/ai-history";
+import type { AIInsightRun } from "@/lib/db";
+import { renderFormattedResponse } from "@/lib/text-formatter";
+import type { AIPeriod } from "@/types/ai";
+
+const formatRange = (run: AIInsightRun, locale: Locale): string => {
+  const start = parseISO(run.start);
+  if (run.period === "year") return format(start, "yyyy", { locale });
+  if (run.period === "month") return format(start, "MMMM yyyy", { locale });
+  return `${format(start, "d MMM", { locale })} – ${format(parseISO(run.end), "d MMM yyyy", { locale })}`;
+};
+
+function InsightRunCard({ run, onDelete }: { run: AIInsightRun; onDelete: (id: string) => void }) {
+  const { t, dateLocale } = useLocale();
+  const [showAnalysis, setShowAnalysis] = useState(false);
+
+  return (
+    <Card className="shadow-sm">
+      <CardHeader className="flex flex-row items-start justify-between gap-2 space-y-0 pb-3">
+        <div className="space-y-1">
+          <CardTitle className="text-base">{formatRange(run, dateLocale)}</CardTitle>
+          <CardDescription className="text-xs">
+            {t("history.generatedBy", {
+              date: format(new Date(run.created_at), "d MMM yyyy, HH:mm", { locale: dateLocale }),
+              model: run.model_used,
+            })}
+          </CardDescription>
+        </div>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8 shrink-0"
+          onClick={() => onDelete(run.id)}
+          aria-label={t("history.delete")}
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <ul className="list-disc space-y-1.5 pl-5 text-sm">
+          {run.items
+            ? run.items.map((item, index) => (
+                <li key={index}>
+                  <span className="font-medium">{item.title}</span> {item.body}
+                </li>
+              ))
+            : run.insights.map((insight, index) => <li key={index}>{insight}</li>)}
+        </ul>
+
+        {run.analysis && (
+          <>
+            <Button
+              variant="link"
+              size="sm"
+              className="h-auto p-0 text-xs"
+              onClick={() => setShowAnalysis((shown) => !shown)}
+            >
+              {showAnalysis ? (
+                <ChevronUp className="mr-1 h-3.5 w-3.5" />
+              ) : (
+                <ChevronDown className="mr-1 h-3.5 w-3.5" />
+              )}
+              {showAnalysis ? t("history.hideAnalysis") : t("history.showAnalysis")}
+            </Button>
+            {showAnalysis && (
+              <div className="prose prose-sm dark:prose-invert max-w-none space-y-4 rounded-lg border bg-muted/20 p-4">
+                {renderFormattedResponse(run.analysis)}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export function InsightHistoryTabContent() {
+  const { t } = useLocale();
+  const [period, setPeriod] = useState<AIPeriod>("month");
+  const [runs, setRuns] = useState<AIInsightRun[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    getInsightHistory(period).then((history) => {
+      if (cancelled) return;
+      setRuns(history);
+      setIsLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [period]);
+
+  const handleDelete = async (id: string) => {
+    if (await deleteInsightRun(id)) {
+      setRuns((current) => current.filter((run) => run.id !== id));
+    } else {
+      toast.error(t("history.deleteFailed"));
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div className="space-y-1">
+          <h2 className="flex items-center gap-2 text-xl font-semibold">
+            <History className="h-5 w-5 text-primary" />
+            {t("history.title")}
+          </h2>
+          <p className="text-sm text-muted-foreground">{t("history.description")}</p>
+        </div>
+        <Tabs value={period} onValueChange={(value) => setPeriod(value as AIPeriod)}>
+          <TabsList>
+            <TabsTrigger value="week">{t("history.period.week")}</TabsTrigger>
+            <TabsTrigger value="month">{t("history.period.month")}</TabsTrigger>
+            <TabsTrigger value="year">{t("history.period.year")}</TabsTrigger>
+          </TabsList>
+        </Tabs>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-4">
+          <Skeleton className="h-40 w-full" />
+          <Skeleton className="h-40 w-full" />
+        </div>
+      ) : runs.length === 0 ? (
+        <p className="py-8 text-center text-sm text-muted-foreground">{t("history.empty")}</p>
+      ) : (
+        runs.map((run) => <InsightRunCard key={run.id} run={run} onDelete={handleDelete} />)
+      )}
+    </div>
+  );
+}
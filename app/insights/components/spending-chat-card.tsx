@@ -0,0 +1,210 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Loader2, MessagesSquare, Send, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useLocale } from "@/hooks/use-locale";
+import { sendChatMessage } from "@/lib/ai-api";
+import { clearChatHistory, getChatHistory, saveChatHistory } from "@/lib/ai-chat";
+import { renderFormattedResponse } from "@/lib/text-formatter";
+import { cn } from "@/lib/utils";
+import type { AIMessage, AIPeriod } from "@/types/ai";
+
+interface SpendingChatCardProps {
+  period: AIPeriod;
+  noApiKeysConfigured: boolean;
+}
+
+const SUGGESTIONS = [
+  "chat.suggestion.lastWeek",
+  "chat.suggestion.compareMood",
+  "chat.suggestion.topCategory",
+] as const;
+
+export function SpendingChatCard({ period, noApiKeysConfigured }: SpendingChatCardProps) {
+  const { t } = useLocale();
+  const [messages, setMessages] = useState<AIMessage[]>([]);
+  const [input, setInput] = useState("");
+  const [isResponding, setIsResponding] = useState(false);
+  const readerRef = useRef<ReadableStreamDefaultReader<Uint8Array> | null>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Each period keeps its own conversation; stop any answer still streaming
+  useEffect(() => {
+    let cancelled = false;
+    setMessages([]);
+    getChatHistory(period).then((history) => {
+      if (!cancelled) setMessages(history);
+    });
+    return () => {
+      cancelled = true;
+      readerRef.current?.cancel().catch(() => {});
+    };
+  }, [period]);
+
+  useEffect(() => {
+    if (listRef.current) {
+      listRef.current.scrollTop = listRef.current.scrollHeight;
+    }
+  }, [messages]);
+
+  const handleSend = async (question: string) => {
+    const content = question.trim();
+    if (!content || isResponding) return;
+
+    const previous = messages;
+    const asked: AIMessage[] = [...messages, { role: "user", content }];
+    setMessages(asked);
+    setInput("");
+    setIsResponding(true);
+
+    try {
+      const result = await sendChatMessage(period, asked);
+
+      if (!result.stream) {
+        toast.error(t("chat.failed"), { description: result.analysis });
+        setMessages(previous);
+        setInput(content);
+        return;
+      }
+
+      const reader = result.stream.getReader();
+      readerRef.current = reader;
+      const decoder = new TextDecoder("utf-8");
+      let reply = "";
+
+      try {
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          reply += decoder.decode(value, { stream: true });
+          setMessages([...asked, { role: "assistant", content: reply }]);
+        }
+      } catch (error) {
+        console.error("Error reading chat stream:", error);
+        reply += `\n\n${t("chat.interrupted")}`;
+        setMessages([...asked, { role: "assistant", content: reply }]);
+      } finally {
+        readerRef.current = null;
+      }
+
+      if (reply.trim()) {
+        await saveChatHistory(period, [...asked, { role: "assistant", content: reply }]);
+      }
+    } finally {
+      setIsResponding(false);
+    }
+  };
+
+  const handleClear = async () => {
+    if (await clearChatHistory(period)) {
+      setMessages([]);
+    }
+  };
+
+  const lastMessage = messages[messages.length - 1];
+  const isWaiting = isResponding && lastMessage?.role === "user";
+
+  return (
+    <Card className="shadow-sm">
+      <CardHeader className="flex flex-row items-start justify-between gap-2 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <MessagesSquare className="h-5 w-5 text-primary" />
+            {t("chat.title")}
+          </CardTitle>
+          <CardDescription>{t("chat.description")}</CardDescription>
+        </div>
+        {messages.length > 0 && (
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={handleClear}
+            disabled={isResponding}
+            aria-label={t("chat.clear")}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {messages.length > 0 ? (
+          <div ref={listRef} className="max-h-96 space-y-3 overflow-y-auto pr-1">
+            {messages.map((message, index) => (
+              <div
+                key={index}
+                className={cn(
+                  "max-w-[85%] rounded-lg px-3 py-2 text-sm",
+                  message.role === "user"
+                    ? "ml-auto bg-primary text-primary-foreground whitespace-pre-wrap"
+                    : "mr-auto bg-muted"
+                )}
+              >
+                {message.role === "user" ? message.content : renderFormattedResponse(message.content)}
+              </div>
+            ))}
+            {isWaiting && (
+              <div className="mr-auto flex items-center gap-2 rounded-lg bg-muted px-3 py-2 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                {t("chat.thinking")}
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {SUGGESTIONS.map((key) => (
+              <Button
+                key={key}
+                variant="outline"
+                size="sm"
+                className="h-auto whitespace-normal text-left"
+                onClick={() => handleSend(t(key))}
+                disabled={noApiKeysConfigured || isResponding}
+              >
+                {t(key)}
+              </Button>
+            ))}
+          </div>
+        )}
+
+        {noApiKeysConfigured && (
+          <p className="text-sm text-muted-foreground">{t("chat.unavailable")}</p>
+        )}
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleSend(input);
+          }}
+          className="flex items-center gap-2"
+        >
+          <Input
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder={t("chat.placeholder")}
+            maxLength={2000}
+            disabled={noApiKeysConfigured || isResponding}
+            aria-label={t("chat.placeholder")}
+          />
+          <Button
+            type="submit"
+            size="icon"
+            disabled={noApiKeysConfigured || isResponding || !input.trim()}
+            aria-label={t("chat.send")}
+          >
+            {isResponding ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
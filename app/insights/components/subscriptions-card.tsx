@@ -0,0 +1,134 @@
+import { useCallback, useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Repeat } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { getRecurrenceLabel } from "@/components/repeat-select";
+import { getCategory } from "@/data/categories";
+import { getDateLocale } from "@/data/locales";
+import { useCategories } from "@/hooks/use-categories";
+import { useLocale } from "@/hooks/use-locale";
+import { formatCurrency } from "@/lib/currency-formatter";
+import { parseDateKey } from "@/lib/recurrence";
+import {
+  convertSubscriptionToRule,
+  findLikelySubscriptions,
+  type DetectedSubscription,
+} from "@/lib/subscriptions";
+
+const formatDateKey = (key: string) => format(parseDateKey(key), "d MMM yyyy", { locale: getDateLocale() });
+
+export function SubscriptionsCard() {
+  // Re-render when category names or the language change
+  useCategories({ includeArchived: true });
+  const { t } = useLocale();
+  const [subscriptions, setSubscriptions] = useState<DetectedSubscription[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [convertingKey, setConvertingKey] = useState<string | null>(null);
+
+  // Scans the whole history, not the selected period, since yearly charges
+  // need more than one year to show up
+  const loadSubscriptions = useCallback(async () => {
+    try {
+      setSubscriptions(await findLikelySubscriptions());
+    } catch (error) {
+      console.error("Error detecting subscriptions:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSubscriptions();
+    window.addEventListener("recurring:changed", loadSubscriptions);
+    window.addEventListener("sync:end", loadSubscriptions);
+    window.addEventListener("currency:changed", loadSubscriptions);
+    return () => {
+      window.removeEventListener("recurring:changed", loadSubscriptions);
+      window.removeEventListener("sync:end", loadSubscriptions);
+      window.removeEventListener("currency:changed", loadSubscriptions);
+    };
+  }, [loadSubscriptions]);
+
+  const handleConvert = async (subscription: DetectedSubscription) => {
+    setConvertingKey(subscription.key);
+    const rule = await convertSubscriptionToRule(subscription);
+    setConvertingKey(null);
+
+    if (rule) {
+      toast.success(t("subscriptions.converted"), {
+        description: t("subscriptions.convertedDescription"),
+      });
+    } else {
+      toast.error(t("common.error"), {
+        description: t("subscriptions.convertFailed"),
+      });
+    }
+  };
+
+  if (isLoading || subscriptions.length === 0) return null;
+
+  const totalMonthly = subscriptions.reduce((sum, subscription) => sum + subscription.monthlyCost, 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Repeat className="h-5 w-5 text-primary" />
+          {t("subscriptions.title")}
+        </CardTitle>
+        <CardDescription>
+          {t("subscriptions.description", {
+            monthly: formatCurrency(totalMonthly),
+            yearly: formatCurrency(totalMonthly * 12),
+          })}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {subscriptions.map((subscription) => {
+          const category = getCategory(subscription.category);
+          return (
+            <div key={subscription.key} className="flex items-center gap-3 rounded-lg border p-3">
+              <div className="min-w-0 flex-1">
+                <p className="truncate text-sm font-medium">
+                  {category ? `${category.icon} ${category.name}` : subscription.category}
+                  {subscription.notes && (
+                    <span className="font-normal text-muted-foreground"> · {subscription.notes}</span>
+                  )}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {formatCurrency(subscription.amount, subscription.currency)} ·{" "}
+                  {getRecurrenceLabel(subscription.frequency, subscription.interval)} ·{" "}
+                  {t("subscriptions.since", {
+                    count: subscription.occurrences,
+                    date: formatDateKey(subscription.firstDate),
+                  })}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {t("subscriptions.perMonth", { amount: formatCurrency(subscription.monthlyCost) })} ·{" "}
+                  {t("subscriptions.perYear", { amount: formatCurrency(subscription.annualCost) })} ·{" "}
+                  {t("subscriptions.next", { date: formatDateKey(subscription.nextExpectedDate) })}
+                </p>
+              </div>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => handleConvert(subscription)}
+                disabled={convertingKey !== null}
+              >
+                {convertingKey === subscription.key ? t("add.saving") : t("subscriptions.convert")}
+              </Button>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,7 +1,9 @@
 "use client";
 
 import { useEffect, useState, useRef } from "react";
+import { format } from "date-fns";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Button } from "@/components/ui/button";
 import { getExpensesByDateRange } from "@/lib/db";
 import type { Expense, MoodType } from "@/types/expense";
 import { getDateRangeForPeriod } from "@/lib/utils";
@@ -10,8 +12,10 @@ import {
   Calendar,
   Sparkles,
   MessageSquareText,
+  History,
 } from "lucide-react";
-import { generateAIInsights, generateDetailedAnalysis } from "@/lib/ai-insights";
+import { generateAIInsights, generateDetailedAnalysis, getCachedAIInsights, isAIConfigured } from "@/lib/ai-api";
+import { useLocale } from "@/hooks/use-locale";
 import type { AIInsightResponse, AIDetailedAnalysisResponse } from "@/types/ai";
 
 // Updated import paths for components within the /insights/components/ directory
@@ -19,10 +23,14 @@ import { InsightsPageHeader } from "./components/insights-page-header";
 import { PeriodControls } from "./components/period-controls";
 import { AIInsightCards } from "./components/ai-insight-cards";
 import { DetailedAnalysisCard } from "./components/detailed-analysis-card";
+import { SpendingChatCard } from "./components/spending-chat-card";
+import { SubscriptionsCard } from "./components/subscriptions-card";
 import { CalendarTabContent } from "./components/calendar-tab-content";
 import { GamificationTabContent } from "./components/gamification-tab-content";
+import { InsightHistoryTabContent } from "./components/insight-history-tab-content";
 
 export default function InsightsPage() {
+  const { t, dateLocale } = useLocale();
   const [expenses, setExpenses] = useState<Expense[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [period, setPeriod] = useState<"week" | "month" | "year">("month");
@@ -32,11 +40,6 @@ export default function InsightsPage() {
     month?: Expense[];
     year?: Expense[];
   }>({});
-  const [insightsGenerated, setInsightsGenerated] = useState<{
-    week?: boolean;
-    month?: boolean;
-    year?: boolean;
-  }>({});
 
   const [aiInsightResult, setAiInsightResult] = useState<AIInsightResponse>({
     insights: [],
@@ -65,10 +68,12 @@ export default function InsightsPage() {
     return "Menyelesaikan analisis...";
   };
 
-  const geminiApiKey = process.env.NEXT_PUBLIC_GEMINI_API_KEY;
-  const deepSeekApiKey = process.env.NEXT_PUBLIC_DEEPSEEK_API_KEY;
+  // The keys live on the server; ask it whether any provider is set up
+  const [noApiKeysConfigured, setNoApiKeysConfigured] = useState(false);
 
-  const noApiKeysConfigured = !geminiApiKey && !deepSeekApiKey;
+  useEffect(() => {
+    isAIConfigured().then((configured) => setNoApiKeysConfigured(!configured));
+  }, []);
 
   useEffect(() => {
     if (!cachedData[period]) {
@@ -91,6 +96,21 @@ export default function InsightsPage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [period]);
 
+  // Show the saved insights for this period when its data hasn't changed, so a
+  // reload doesn't need another AI call
+  useEffect(() => {
+    if (isLoading || expenses.length < 3) return;
+    let cancelled = false;
+    getCachedAIInsights(expenses, period).then((cached) => {
+      if (!cancelled && cached) {
+        setAiInsightResult((current) => (current.insights.length > 0 ? current : cached));
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [expenses, period, isLoading]);
+
   async function fetchDataForPeriod(currentPeriod: "week" | "month" | "year") {
     setIsLoading(true);
     try {
@@ -110,7 +130,7 @@ export default function InsightsPage() {
     }
   }
 
-  const handleGenerateInsights = async () => {
+  const handleGenerateInsights = async (refresh: boolean = false) => {
     if (noApiKeysConfigured) {
       setAiInsightResult({
         insights: [
@@ -141,16 +161,8 @@ export default function InsightsPage() {
         setIsGeneratingInsights(false); // Ensure loading state is reset
         return;
       }
-      const { start, end } = getDateRangeForPeriod(period);
-      const newResult = await generateAIInsights(
-        geminiApiKey,
-        deepSeekApiKey,
-        expenseData,
-        new Date(start),
-        new Date(end)
-      );
+      const newResult = await generateAIInsights(expenseData, period, { refresh });
       setAiInsightResult(newResult);
-      setInsightsGenerated(prev => ({ ...prev, [period]: true }));
     } catch (error) {
       console.error("Failed to generate insights:", error);
       setAiInsightResult({
@@ -191,16 +203,8 @@ export default function InsightsPage() {
     }, 1000);
 
     try {
-      // Call with streaming enabled
-      const { start, end } = getDateRangeForPeriod(period);
-      const analysisResult = await generateDetailedAnalysis(
-        geminiApiKey,
-        deepSeekApiKey,
-        aiInsightResult.insights,
-        true, // Enable streaming
-        new Date(start),
-        new Date(end)
-      );
+      // The route streams the analysis back, unless it was saved earlier
+      const analysisResult = await generateDetailedAnalysis(expenses, aiInsightResult, period);
 
       // If we have a stream, we'll handle it in the DetailedAnalysisCard component
       // Just set the result, the streaming will be handled by the component
@@ -252,13 +256,17 @@ export default function InsightsPage() {
             <Sparkles className="h-4 w-4 mr-2 shrink-0" />
             Pencapaian
           </TabsTrigger>
+          <TabsTrigger value="history">
+            <History className="h-4 w-4 mr-2 shrink-0" />
+            {t("history.tab")}
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="insights" className="space-y-6">
           <PeriodControls
             currentPeriod={period}
             onPeriodChange={(newPeriod) => setPeriod(newPeriod)}
-            onGenerateInsights={handleGenerateInsights}
+            onGenerateInsights={() => handleGenerateInsights()}
             isGeneratingInsights={isGeneratingInsights}
             isLoading={isLoading}
             noApiKeysConfigured={noApiKeysConfigured}
@@ -271,6 +279,23 @@ export default function InsightsPage() {
                 <MessageSquareText className="h-3 w-3 mr-1.5" />
                 Wawasan utama dihasilkan oleh:{" "}
                 {aiInsightResult.modelUsed.replace(/\s*\(Error\)\s*/, "")}
+                {aiInsightResult.cachedAt && (
+                  <>
+                    <span className="mx-1.5">·</span>
+                    {t("history.savedAt", {
+                      date: format(new Date(aiInsightResult.cachedAt), "d MMM yyyy, HH:mm", { locale: dateLocale }),
+                    })}
+                    <Button
+                      variant="link"
+                      size="sm"
+                      className="h-auto p-0 ml-1.5 text-xs"
+                      onClick={() => handleGenerateInsights(true)}
+                      disabled={isGeneratingInsights || noApiKeysConfigured}
+                    >
+                      {t("history.regenerate")}
+                    </Button>
+                  </>
+                )}
               </div>
             )}
 
@@ -281,6 +306,7 @@ export default function InsightsPage() {
             expenses={expenses}
             period={period}
             aiResponse={aiInsightResult}
+            items={aiInsightResult.items}
           />
 
           <DetailedAnalysisCard
@@ -295,6 +321,10 @@ export default function InsightsPage() {
             getLoadingSubMessage={getLoadingSubMessage}
             elapsedTime={elapsedTime}
           />
+
+          <SpendingChatCard period={period} noApiKeysConfigured={noApiKeysConfigured} />
+
+          <SubscriptionsCard />
         </TabsContent>
 
         <TabsContent value="calendar" className="space-y-4">
@@ -309,6 +339,10 @@ export default function InsightsPage() {
         <TabsContent value="gamification">
           <GamificationTabContent expenses={expenses} isLoading={isLoading} />
         </TabsContent>
+
+        <TabsContent value="history">
+          <InsightHistoryTabContent />
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -7,12 +7,18 @@ import { setupSync } from "@/lib/db";
 
 // Ensure syncExpenses is imported to be available in the bundle
 import { syncExpenses } from "@/lib/db";
+import { ensureCurrencySettingsLoaded } from "@/lib/currency";
+import { ensureLocaleLoaded } from "@/lib/locale";
 
 export function SyncProvider({ children }: { children: React.ReactNode }) {
   useEffect(() => {
     // Set up sync listeners/handler
     if (typeof window !== "undefined") {
       setupSync();
+      ensureCurrencySettingsLoaded();
+      ensureLocaleLoaded();
+      // Recurring occurrences that fell due while the app was closed are
+      // created by the sync, once the rules have been pulled
     }
   }, []); // useEffect ini akan berjalan sekali saat komponen SyncProvider dimuat
 
@@ -1,14 +1,20 @@
 'use client';
 
+import Link from "next/link";
+import { Pencil } from "lucide-react";
+import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Skeleton } from "@/components/ui/skeleton";
 import { format } from "date-fns";
 import { formatCurrency } from "@/lib/currency-formatter";
+import { DEFAULT_CURRENCY } from "@/data/currencies";
+import { getCategory } from "@/data/categories";
 
 type Expense = {
   id: string;
   amount: number;
+  currency?: string;
   category: string;
   description: string;
   date: string;
@@ -51,6 +57,7 @@ export function ExpensesTable({ expenses, isLoading }: ExpensesTableProps) {
                 <TableHead>Description</TableHead>
                 <TableHead>Category</TableHead>
                 <TableHead className="text-right">Amount</TableHead>
+                <TableHead className="w-[50px]"><span className="sr-only">Actions</span></TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
@@ -63,15 +70,22 @@ export function ExpensesTable({ expenses, isLoading }: ExpensesTableProps) {
                     <TableCell className="max-w-[200px] truncate">
                       {expense.description || 'No description'}
                     </TableCell>
-                    <TableCell className="capitalize">{expense.category}</TableCell>
+                    <TableCell>{getCategory(expense.category)?.name || expense.category}</TableCell>
                     <TableCell className="text-right font-medium">
-                      {formatCurrency(expense.amount)}
+                      {formatCurrency(expense.amount, expense.currency || DEFAULT_CURRENCY)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="icon" className="h-8 w-8" asChild>
+                        <Link href={`/add?edit=${encodeURIComponent(expense.id)}`} aria-label="Edit expense">
+                          <Pencil className="h-4 w-4 text-muted-foreground" />
+                        </Link>
+                      </Button>
                     </TableCell>
                   </TableRow>
                 ))
               ) : (
                 <TableRow>
-                  <TableCell colSpan={4} className="h-24 text-center">
+                  <TableCell colSpan={5} className="h-24 text-center">
                     No transactions found
                   </TableCell>
                 </TableRow>
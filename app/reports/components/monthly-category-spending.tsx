@@ -4,6 +4,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 import { Skeleton } from "@/components/ui/skeleton";
 import { formatCurrency } from "@/lib/currency-formatter";
+import { getCategory } from "@/data/categories";
 
 export type MonthlyCategoryData = {
   month: string;
@@ -57,8 +58,9 @@ export function MonthlyCategorySpending({ data, isLoading, categories }: Monthly
               <Bar 
                 key={category} 
                 dataKey={category} 
+                name={getCategory(category)?.name || category}
                 stackId="a" 
-                fill={COLORS[index % COLORS.length]} 
+                fill={getCategory(category)?.color || COLORS[index % COLORS.length]} 
               />
             ))}
           </BarChart>
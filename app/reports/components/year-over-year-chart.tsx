@@ -5,6 +5,7 @@ import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, Responsive
 import { Skeleton } from "@/components/ui/skeleton";
 import { formatCurrency } from "@/lib/currency-formatter";
 import { format, subYears, startOfYear, endOfYear } from 'date-fns';
+import { getHomeAmount } from '@/data/currencies';
 
 type YearlyExpense = {
   date: string;
@@ -30,7 +31,7 @@ const formatYearlyData = (expenses: YearlyExpense[]) => {
   expenses.forEach(expense => {
     const year = new Date(expense.date).getFullYear();
     if (yearMap.has(year)) {
-      yearMap.set(year, (yearMap.get(year) || 0) + expense.amount);
+      yearMap.set(year, (yearMap.get(year) || 0) + getHomeAmount(expense));
     }
   });
   
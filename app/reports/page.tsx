@@ -11,6 +11,9 @@ import { toast } from "sonner";
 import { exportExpensesToExcel, downloadExcel } from "@/lib/excel-export";
 import { Calendar } from "@/components/ui/calendar";
 import { getExpenses, getExpensesByDateRange } from "@/lib/db";
+import { ensureCategoriesLoaded } from "@/lib/categories";
+import { ensureCurrencySettingsLoaded } from "@/lib/currency";
+import { getCategory } from "@/data/categories";
 import { YearOverYearChart } from "./components/year-over-year-chart";
 import { SpendingTrendChart } from "./components/spending-trend-chart";
 import { CategorySpendingChart } from "./components/category-spending-chart";
@@ -24,6 +27,7 @@ import {
   PopoverContent,
   PopoverTrigger,
 } from "@/components/ui/popover";
+import { getHomeAmount } from "@/data/currencies";
 
 // Default date range: current month
 const today = new Date();
@@ -78,6 +82,10 @@ export default function ReportsPage() {
 
   useEffect(() => {
     loadChartData();
+
+    // Totals are converted at load time, so rebuild them when rates change
+    window.addEventListener('currency:changed', loadChartData);
+    return () => window.removeEventListener('currency:changed', loadChartData);
   }, []);
 
   // Load expenses for the current and previous year for the Year-over-Year chart
@@ -108,8 +116,13 @@ export default function ReportsPage() {
       const startDate = format(defaultStartDate, 'yyyy-MM-dd');
       const endDate = format(defaultEndDate, 'yyyy-MM-dd');
       
-      // Load all expenses for the period
-      const expenses = await getExpensesByDateRange(startDate, endDate);
+      // Load all expenses for the period, with the user's category names and
+      // exchange rates
+      const [expenses] = await Promise.all([
+        getExpensesByDateRange(startDate, endDate),
+        ensureCategoriesLoaded(),
+        ensureCurrencySettingsLoaded(),
+      ]);
       
       // Process data for monthly trend chart
       const monthlyData = new Map();
@@ -140,12 +153,12 @@ export default function ReportsPage() {
         const dateKey = format(date, 'yyyy-MM-dd');
         
         // Update monthly total
-        monthlyData.set(monthKey, (monthlyData.get(monthKey) || 0) + expense.amount);
+        monthlyData.set(monthKey, (monthlyData.get(monthKey) || 0) + getHomeAmount(expense));
         
         // Update category total
         categoryMap.set(
           expense.category, 
-          (categoryMap.get(expense.category) || 0) + expense.amount
+          (categoryMap.get(expense.category) || 0) + getHomeAmount(expense)
         );
         
         // Update monthly category data
@@ -155,12 +168,12 @@ export default function ReportsPage() {
             monthlyCategoryMap.get(monthKey)[cat] = 0;
           });
         }
-        monthlyCategoryMap.get(monthKey)[expense.category] += expense.amount;
+        monthlyCategoryMap.get(monthKey)[expense.category] += getHomeAmount(expense);
         
         // Update daily spending
         dailySpendingMap.set(
           dateKey,
-          (dailySpendingMap.get(dateKey) || 0) + expense.amount
+          (dailySpendingMap.get(dateKey) || 0) + getHomeAmount(expense)
         );
       });
       
@@ -172,11 +185,14 @@ export default function ReportsPage() {
       
       // Set category spending data
       setCategorySpending(
-        Array.from(categoryMap.entries()).map(([name, value], index) => ({
-          name,
-          value,
-          color: `hsl(${(index * 60) % 360}, 70%, 50%)`
-        }))
+        Array.from(categoryMap.entries()).map(([id, value], index) => {
+          const category = getCategory(id);
+          return {
+            name: category?.name || id,
+            value,
+            color: category?.color || `hsl(${(index * 60) % 360}, 70%, 50%)`
+          };
+        })
       );
       
       // Set monthly category data
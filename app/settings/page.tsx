@@ -2,6 +2,15 @@
 
 import { useState } from "react";
 import { SyncManager } from "@/components/sync-manager";
+import { BudgetSettings } from "@/components/budget-settings";
+import { CategorySettings } from "@/components/category-settings";
+import { MoodSettings } from "@/components/mood-settings";
+import { RecurringRulesSettings } from "@/components/recurring-rules-settings";
+import { CategoryRuleSettings } from "@/components/category-rule-settings";
+import { CurrencySettings } from "@/components/currency-settings";
+import { ImportWizard } from "@/components/import-wizard";
+import { BackupSettings } from "@/components/backup-settings";
+import { TransactionReviewQueue } from "@/components/transaction-review-queue";
 import {
   Card,
   CardContent,
@@ -14,9 +23,19 @@ import { Button } from "@/components/ui/button";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { useTheme } from "next-themes";
 import { clearLocalUserData } from "@/lib/db";
 import { toast } from "sonner";
+import { isAppLocale, locales } from "@/data/locales";
+import { useLocale } from "@/hooks/use-locale";
+import { setLocale } from "@/lib/locale";
 import { useAuth } from "@/context/auth-context";
 import {
   AlertDialog,
@@ -41,6 +60,7 @@ export default function SettingsPage() {
   const { theme, setTheme } = useTheme();
 
   const { user } = useAuth();
+  const { locale, t } = useLocale();
   const [isClearing, setIsClearing] = useState(false);
   const [privacyOpen, setPrivacyOpen] = useState(false);
   const [termsOpen, setTermsOpen] = useState(false);
@@ -82,36 +102,45 @@ export default function SettingsPage() {
       
     } catch (error) {
       console.error('Error clearing data:', error);
-      toast.error("Error", {
-        description: "Failed to clear data. Please try again."
+      toast.error(t("common.error"), {
+        description: t("settings.data.clearFailed")
       });
       setIsClearing(false);
     }
     // Don't set isClearing to false on success as we're redirecting
   };
 
+  const handleLocaleChange = async (value: string) => {
+    if (!isAppLocale(value)) return;
+    if (await setLocale(value)) {
+      toast.success(t("settings.language.changed"));
+    } else {
+      toast.error(t("settings.language.failed"));
+    }
+  };
+
 
 
   return (
     <div className="space-y-6 pb-8 sm:pb-6">
       <div>
-        <h1 className="text-3xl font-bold tracking-tight">Settings</h1>
-        <p className="text-muted-foreground">Manage your app preferences</p>
+        <h1 className="text-3xl font-bold tracking-tight">{t("settings.title")}</h1>
+        <p className="text-muted-foreground">{t("settings.subtitle")}</p>
       </div>
 
       <Card>
         <CardHeader>
-          <CardTitle>Appearance</CardTitle>
+          <CardTitle>{t("settings.appearance.title")}</CardTitle>
           <CardDescription>
-            Customize how EmoSpend looks on your device
+            {t("settings.appearance.description")}
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
           <div className="flex items-center justify-between">
             <div className="space-y-0.5">
-              <Label htmlFor="dark-mode">Dark Mode</Label>
+              <Label htmlFor="dark-mode">{t("settings.appearance.darkMode")}</Label>
               <p className="text-sm text-muted-foreground">
-                Switch between light and dark themes
+                {t("settings.appearance.darkModeHint")}
               </p>
             </div>
             <Switch
@@ -127,52 +156,154 @@ export default function SettingsPage() {
 
       <Card>
         <CardHeader>
-          <CardTitle>Data Management</CardTitle>
-          <CardDescription>Manage your expense data</CardDescription>
+          <CardTitle>{t("settings.language.title")}</CardTitle>
+          <CardDescription>{t("settings.language.description")}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Select value={locale} onValueChange={handleLocaleChange}>
+            <SelectTrigger aria-label={t("settings.language.title")}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {locales.map((option) => (
+                <SelectItem key={option.code} value={option.code}>
+                  {option.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardContent>
+      </Card>
+
+      {user && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{t("settings.categories.title")}</CardTitle>
+            <CardDescription>{t("settings.categories.description")}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <CategorySettings />
+          </CardContent>
+        </Card>
+      )}
+
+      {user && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{t("settings.moods.title")}</CardTitle>
+            <CardDescription>{t("settings.moods.description")}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <MoodSettings />
+          </CardContent>
+        </Card>
+      )}
+
+      {user && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{t("settings.currency.title")}</CardTitle>
+            <CardDescription>{t("settings.currency.description")}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <CurrencySettings />
+          </CardContent>
+        </Card>
+      )}
+
+      {user && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{t("settings.budgets.title")}</CardTitle>
+            <CardDescription>{t("settings.budgets.description")}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <BudgetSettings />
+          </CardContent>
+        </Card>
+      )}
+
+      {user && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{t("settings.recurring.title")}</CardTitle>
+            <CardDescription>{t("settings.recurring.description")}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <RecurringRulesSettings />
+          </CardContent>
+        </Card>
+      )}
+
+      {user && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{t("settings.categoryRules.title")}</CardTitle>
+            <CardDescription>{t("settings.categoryRules.description")}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <CategoryRuleSettings />
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t("settings.data.title")}</CardTitle>
+          <CardDescription>{t("settings.data.description")}</CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
           <div className="space-y-6">
             <SyncManager showUI={true} />
             <Separator />
+            {user && (
+              <>
+                <ImportWizard />
+                <TransactionReviewQueue />
+                <Separator />
+              </>
+            )}
+            <BackupSettings />
+            <Separator />
             
             <div>
-              <h3 className="font-medium">Clear All Data</h3>
+              <h3 className="font-medium">{t("settings.data.clearTitle")}</h3>
               <p className="text-sm text-muted-foreground">
-                Delete all your expense data. This action cannot be undone.
+                {t("settings.data.clearDescription")}
               </p>
             </div>
             <AlertDialog>
               <AlertDialogTrigger asChild>
-                <Button variant="destructive">Clear All Data</Button>
+                <Button variant="destructive">{t("settings.data.clearButton")}</Button>
               </AlertDialogTrigger>
               <AlertDialogContent>
                 <AlertDialogHeader>
-                  <AlertDialogTitle>⚠️ Warning: Delete All Data</AlertDialogTitle>
+                  <AlertDialogTitle>{t("settings.data.dialogTitle")}</AlertDialogTitle>
                   <div className="space-y-4">
                     <AlertDialogDescription asChild>
-                      <div className="font-medium">This action will permanently delete:</div>
+                      <div className="font-medium">{t("settings.data.dialogIntro")}</div>
                     </AlertDialogDescription>
                     <ul className="list-disc pl-5 space-y-2">
-                      <li>All your expense records</li>
-                      <li>All your income records</li>
-                      <li>Any associated categories and tags</li>
+                      <li>{t("settings.data.dialogExpenses")}</li>
+                      <li>{t("settings.data.dialogIncomes")}</li>
+                      <li>{t("settings.data.dialogCategories")}</li>
                     </ul>
                     <AlertDialogDescription asChild>
                       <div className="font-medium text-destructive">
-                        This action cannot be undone. Your data will be permanently removed from both this device and our servers.
+                        {t("settings.data.dialogWarning")}
                       </div>
                     </AlertDialogDescription>
                   </div>
                 </AlertDialogHeader>
                 <AlertDialogFooter>
-                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogCancel>{t("common.cancel")}</AlertDialogCancel>
                   {/* Using a regular Button instead of AlertDialogAction to prevent auto-closing */}
                   <Button 
                     variant="destructive"
                     onClick={handleClearData}
                     disabled={isClearing}
                   >
-                    {isClearing ? "Clearing..." : "Yes, clear all data"}
+                    {isClearing ? t("settings.data.clearing") : t("settings.data.confirmClear")}
                   </Button>
                 </AlertDialogFooter>
               </AlertDialogContent>
@@ -186,12 +317,12 @@ export default function SettingsPage() {
       {user && (
         <Card>
           <CardHeader>
-            <CardTitle>Account</CardTitle>
-            <CardDescription>Manage your account settings</CardDescription>
+            <CardTitle>{t("settings.account.title")}</CardTitle>
+            <CardDescription>{t("settings.account.description")}</CardDescription>
           </CardHeader>
           <CardContent className="space-y-2">
             <div className="space-y-1">
-              <p className="text-sm font-medium">Email</p>
+              <p className="text-sm font-medium">{t("settings.account.email")}</p>
               <p className="text-sm text-muted-foreground">{user.email}</p>
             </div>
           </CardContent>
@@ -200,19 +331,18 @@ export default function SettingsPage() {
 
       <Card>
         <CardHeader>
-          <CardTitle>About EmoSpend</CardTitle>
+          <CardTitle>{t("settings.about.title")}</CardTitle>
         </CardHeader>
         <CardContent className="space-y-2">
-          <p className="text-sm">Version 1.0.1</p>
+          <p className="text-sm">{t("settings.about.version", { version: "1.0.1" })}</p>
           <p className="text-sm text-muted-foreground">
-            EmoSpend helps you track your expenses and understand your emotional
-            spending patterns.
+            {t("settings.about.description")}
           </p>
         </CardContent>
         <CardFooter className="flex justify-between">
           <Dialog open={privacyOpen} onOpenChange={setPrivacyOpen}>
             <DialogTrigger asChild>
-              <Button variant="outline">Privacy Policy</Button>
+              <Button variant="outline">{t("settings.about.privacy")}</Button>
             </DialogTrigger>
             <DialogContent className="sm:max-w-[625px] max-h-[80vh]">
               <PrivacyPolicy />
@@ -221,7 +351,7 @@ export default function SettingsPage() {
           
           <Dialog open={termsOpen} onOpenChange={setTermsOpen}>
             <DialogTrigger asChild>
-              <Button variant="outline">Terms of Service</Button>
+              <Button variant="outline">{t("settings.about.terms")}</Button>
             </DialogTrigger>
             <DialogContent className="sm:max-w-[625px] max-h-[80vh]">
               <TermsOfService />
@@ -0,0 +1,219 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { format } from "date-fns";
+import { Download, Upload } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { getDateLocale, t } from "@/data/locales";
+import { useLocale } from "@/hooks/use-locale";
+import {
+  BackupError,
+  createBackup,
+  downloadBackup,
+  readBackup,
+  restoreBackup,
+  type BackupFile,
+  type RestoreMode,
+} from "@/lib/backup";
+
+const countRows = (backup: BackupFile, names: (keyof BackupFile["tables"])[]) =>
+  names.reduce((sum, name) => sum + (backup.tables[name]?.length ?? 0), 0);
+
+export function BackupSettings() {
+  // Re-render labels when the language changes
+  useLocale();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [passphrase, setPassphrase] = useState("");
+  const [isExporting, setIsExporting] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  // Kept so an encrypted file can be retried after typing the passphrase
+  const [fileText, setFileText] = useState<string | null>(null);
+  const [backup, setBackup] = useState<BackupFile | null>(null);
+  const [mode, setMode] = useState<RestoreMode>("merge");
+
+  const reset = () => {
+    setFileText(null);
+    setBackup(null);
+    setMode("merge");
+    if (inputRef.current) inputRef.current.value = "";
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const content = await createBackup(passphrase || undefined);
+      downloadBackup(content, `emospend-backup-${format(new Date(), "yyyy-MM-dd")}.json`);
+      toast.success(t("backup.exported"));
+    } catch (error) {
+      console.error("[Backup] Failed to create backup:", error);
+      toast.error(t("backup.exportFailed"));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const openBackup = async (text: string) => {
+    setFileText(text);
+    try {
+      setBackup(await readBackup(text, passphrase || undefined));
+    } catch (error) {
+      if (error instanceof BackupError) {
+        toast.error(t(`backup.errors.${error.code}`));
+        // Keep the file around so the user can enter the passphrase and retry
+        if (error.code !== "passphraseRequired" && error.code !== "wrongPassphrase") reset();
+      } else {
+        console.error("[Backup] Failed to read backup:", error);
+        toast.error(t("backup.errors.invalidFile"));
+        reset();
+      }
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (file) await openBackup(await file.text());
+  };
+
+  const handleRestore = async () => {
+    if (!backup) return;
+    setIsRestoring(true);
+    try {
+      const result = await restoreBackup(backup, mode);
+      toast.success(t("backup.restored", { restored: result.restored, skipped: result.skipped }));
+      // Categories, moods, currency and language are cached in memory
+      setTimeout(() => window.location.reload(), 1000);
+    } catch (error) {
+      console.error("[Backup] Failed to restore backup:", error);
+      toast.error(t("backup.restoreFailed"));
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="font-medium">{t("backup.title")}</h3>
+        <p className="text-sm text-muted-foreground">{t("backup.description")}</p>
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="backup-passphrase">{t("backup.passphrase")}</Label>
+        <Input
+          id="backup-passphrase"
+          type="password"
+          autoComplete="new-password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          placeholder={t("backup.passphrasePlaceholder")}
+        />
+        <p className="text-xs text-muted-foreground">{t("backup.passphraseHint")}</p>
+      </div>
+
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".json,application/json"
+        className="hidden"
+        onChange={(e) => handleFile(e.target.files?.[0])}
+      />
+
+      {!backup && (
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" onClick={handleExport} disabled={isExporting}>
+            <Download className="mr-2 h-4 w-4" />
+            {isExporting ? t("backup.exporting") : t("backup.export")}
+          </Button>
+          {fileText ? (
+            <>
+              <Button variant="outline" onClick={() => openBackup(fileText)} disabled={!passphrase}>
+                {t("backup.unlock")}
+              </Button>
+              <Button variant="ghost" onClick={reset}>
+                {t("common.cancel")}
+              </Button>
+            </>
+          ) : (
+            <Button variant="outline" onClick={() => inputRef.current?.click()}>
+              <Upload className="mr-2 h-4 w-4" />
+              {t("backup.chooseFile")}
+            </Button>
+          )}
+        </div>
+      )}
+
+      {backup && (
+        <div className="space-y-3 rounded-lg border p-3">
+          <p className="text-sm">
+            {t("backup.summary", {
+              date: format(new Date(backup.createdAt), "d MMM yyyy HH:mm", { locale: getDateLocale() }),
+              expenses: countRows(backup, ["expenses"]),
+              incomes: countRows(backup, ["incomes"]),
+              other: countRows(backup, ["categories", "moods", "budgets", "recurringRules", "categoryRules", "exchangeRates", "preferences"]),
+            })}
+          </p>
+          <div className="space-y-1">
+            <Label>{t("backup.mode")}</Label>
+            <Select value={mode} onValueChange={(value) => setMode(value as RestoreMode)}>
+              <SelectTrigger className="h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="merge">{t("backup.mode.merge")}</SelectItem>
+                <SelectItem value="replace">{t("backup.mode.replace")}</SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">{t(`backup.mode.${mode}Hint`)}</p>
+          </div>
+          <div className="flex gap-2">
+            {mode === "replace" ? (
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="destructive" disabled={isRestoring}>
+                    {isRestoring ? t("backup.restoring") : t("backup.restore")}
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>{t("backup.replaceTitle")}</AlertDialogTitle>
+                    <AlertDialogDescription>{t("backup.replaceWarning")}</AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>{t("common.cancel")}</AlertDialogCancel>
+                    <AlertDialogAction onClick={handleRestore}>{t("backup.restore")}</AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            ) : (
+              <Button onClick={handleRestore} disabled={isRestoring}>
+                {isRestoring ? t("backup.restoring") : t("backup.restore")}
+              </Button>
+            )}
+            <Button variant="ghost" onClick={reset} disabled={isRestoring}>
+              {t("common.cancel")}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
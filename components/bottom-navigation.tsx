@@ -6,17 +6,19 @@ import { PlusCircle, Home, BarChart } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
 import { useState, useEffect, useCallback } from "react";
 import { useBottomNav } from "@/context/bottom-nav-context";
+import { useLocale } from "@/hooks/use-locale";
 
 function BottomNavigationContent() {
   const pathname = usePathname();
   const { setIsVisible, isVisible } = useBottomNav();
+  const { t } = useLocale();
   const [lastScrollY, setLastScrollY] = useState(0);
   
   const navItems = [
-    { href: "/", icon: Home, label: "", id: "dashboard" },
+    { href: "/", icon: Home, label: t("nav.dashboard"), id: "dashboard" },
     ...(pathname.startsWith("/dashboard") ? 
-      [{ href: "/add", icon: PlusCircle, label: "", id: "add", isCenter: true }] : []),
-    { href: "/insights", icon: BarChart, label: "", id: "insights" },
+      [{ href: "/add", icon: PlusCircle, label: t("nav.add"), id: "add", isCenter: true }] : []),
+    { href: "/insights", icon: BarChart, label: t("nav.insights"), id: "insights" },
   ];
   
   // Handle scroll to show/hide bottom nav
@@ -109,7 +111,7 @@ function BottomNavigationContent() {
                         className={`flex items-center justify-center w-16 h-16 rounded-full bg-primary text-primary-foreground shadow-lg shadow-primary/30 hover:bg-primary/90 transition-colors ${
                           isActive ? "ring-2 ring-offset-2 ring-ring" : ""
                         }`}
-                        aria-label={item.id}
+                        aria-label={item.label}
                       >
                         <Icon className="w-6 h-6" aria-hidden="true" />
                       </Link>
@@ -129,7 +131,7 @@ function BottomNavigationContent() {
                       className={`flex flex-col items-center justify-center w-full py-2 text-sm font-medium transition-colors ${
                         isActive ? "text-primary" : "text-muted-foreground hover:text-foreground"
                       }`}
-                      aria-label={item.id}
+                      aria-label={item.label}
                     >
                       <Icon className="w-6 h-6 mb-1" aria-hidden="true" />
                     </Link>
@@ -0,0 +1,186 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { addMonths, format, parse } from "date-fns";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { getDateLocale, t } from "@/data/locales";
+import { getBudgetsForMonth, setBudget } from "@/lib/budgets";
+import { getExpensesByDateRange } from "@/lib/db";
+import { calculateBudgetStatuses, getMonthKey, type BudgetStatus } from "@/lib/budget-calculations";
+import {
+  formatAmountInput,
+  formatAmountValue,
+  formatCurrency,
+  getCurrencySymbol,
+  parseAmountInput,
+} from "@/lib/currency-formatter";
+import { cn } from "@/lib/utils";
+import { useCategories } from "@/hooks/use-categories";
+import { useCurrency } from "@/hooks/use-currency";
+
+export function BudgetSettings() {
+  const categories = useCategories();
+  // Limits are stored in the home currency
+  const { homeCurrency } = useCurrency();
+  const [month, setMonth] = useState(getMonthKey());
+  const [limits, setLimits] = useState<Record<string, string>>({});
+  const [savedLimits, setSavedLimits] = useState<Record<string, number>>({});
+  const [statuses, setStatuses] = useState<BudgetStatus[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const monthDate = useMemo(() => parse(month, "yyyy-MM", new Date()), [month]);
+
+  const loadBudgets = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [budgets, expenses] = await Promise.all([
+        getBudgetsForMonth(month),
+        getExpensesByDateRange(
+          new Date(monthDate.getFullYear(), monthDate.getMonth(), 1).toISOString(),
+          new Date(monthDate.getFullYear(), monthDate.getMonth() + 1, 0, 23, 59, 59).toISOString()
+        ),
+      ]);
+
+      const saved = Object.fromEntries(budgets.map((budget) => [budget.category, budget.amount]));
+      setSavedLimits(saved);
+      setLimits(
+        Object.fromEntries(budgets.map((budget) => [budget.category, formatAmountValue(budget.amount)]))
+      );
+      setStatuses(calculateBudgetStatuses(budgets, expenses, month));
+    } catch (error) {
+      console.error("Error loading budgets:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [month, monthDate]);
+
+  useEffect(() => {
+    loadBudgets();
+    window.addEventListener("budgets:changed", loadBudgets);
+    return () => {
+      window.removeEventListener("budgets:changed", loadBudgets);
+    };
+  }, [loadBudgets]);
+
+  const changedCategories = categories.filter(
+    (category) => parseAmountInput(limits[category.id] || "") !== (savedLimits[category.id] || 0)
+  );
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const results = await Promise.all(
+        changedCategories.map((category) =>
+          setBudget(category.id, month, parseAmountInput(limits[category.id] || ""))
+        )
+      );
+      if (results.some((result) => !result)) {
+        throw new Error("Failed to save some budgets");
+      }
+      toast.success(t("budgetSettings.saved"), {
+        description: t("budgetSettings.savedDescription", {
+          month: format(monthDate, "MMMM yyyy", { locale: getDateLocale() }),
+        }),
+      });
+      await loadBudgets();
+    } catch (error) {
+      console.error("Error saving budgets:", error);
+      toast.error(t("common.error"), {
+        description: t("budgetSettings.saveFailed"),
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => setMonth(getMonthKey(addMonths(monthDate, -1)))}
+          disabled={isSaving}
+          aria-label={t("budgetSettings.previousMonth")}
+        >
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <span className="font-medium">{format(monthDate, "MMMM yyyy", { locale: getDateLocale() })}</span>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => setMonth(getMonthKey(addMonths(monthDate, 1)))}
+          disabled={isSaving}
+          aria-label={t("budgetSettings.nextMonth")}
+        >
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <p className="text-xs text-muted-foreground">{t("budgetSettings.hint")}</p>
+
+      <div className="space-y-3">
+        {categories.map((category) => {
+          const status = statuses.find((s) => s.category === category.id);
+          return (
+            <div key={category.id} className="space-y-1">
+              <div className="flex items-center gap-3">
+                <span className="flex-1 text-sm">
+                  {category.icon} {category.name}
+                </span>
+                <div className="relative w-40">
+                  <span className="absolute left-3 top-1/2 -translate-y-1/2 text-xs text-muted-foreground">
+                    {getCurrencySymbol(homeCurrency)}
+                  </span>
+                  <Input
+                    inputMode="numeric"
+                    value={limits[category.id] || ""}
+                    onChange={(e) => {
+                      // Limits are in the home currency
+                      const value = formatAmountInput(e.target.value);
+                      setLimits((prev) => ({ ...prev, [category.id]: value }));
+                    }}
+                    placeholder="0"
+                    className="pl-10 h-9 text-right"
+                    disabled={isLoading || isSaving}
+                  />
+                </div>
+              </div>
+              {status && (
+                <div className="space-y-1">
+                  <Progress
+                    value={Math.min(status.percentUsed, 100)}
+                    className={cn(
+                      "h-1.5",
+                      status.level === "over" && "[&>div]:bg-red-500",
+                      status.level === "warning" && "[&>div]:bg-amber-500"
+                    )}
+                  />
+                  <div className="text-xs text-muted-foreground">
+                    {t("budgetSettings.spentOf", {
+                      spent: formatCurrency(status.spent),
+                      limit: formatCurrency(status.limit),
+                    })}
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <Button
+        className="w-full"
+        onClick={handleSave}
+        disabled={isLoading || isSaving || changedCategories.length === 0}
+      >
+        {isSaving ? t("budgetSettings.saving") : t("budgetSettings.save")}
+      </Button>
+    </div>
+  );
+}
@@ -5,7 +5,10 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/com
 import { Skeleton } from "@/components/ui/skeleton";
 import { getExpenses } from "@/lib/db";
 import type { Expense } from "@/types/expense";
-import { getMood } from "@/data/moods";
+import { getAverageMoodIntensity, getDominantMood, getMood, MOOD_INTENSITY_MAX } from "@/data/moods";
+import { getCategory } from "@/data/categories";
+import { useCategories } from "@/hooks/use-categories";
+import { useMoods } from "@/hooks/use-moods";
 import {
   eachDayOfInterval,
   format,
@@ -16,9 +19,11 @@ import {
   isToday,
   isSameMonth,
 } from "date-fns";
-import { id } from "date-fns/locale";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { Calendar as CalendarIcon, TrendingUp, TrendingDown } from "lucide-react";
+import { getHomeAmount } from "@/data/currencies";
+import { formatAmountValue, formatCurrency } from "@/lib/currency-formatter";
+import { useLocale } from "@/hooks/use-locale";
 
 interface CalendarHeatmapProps {
   selectedMood?: string;
@@ -29,6 +34,10 @@ interface CalendarHeatmapProps {
 export function CalendarHeatmap({ selectedMood, expenses: propExpenses, isLoading: propIsLoading }: CalendarHeatmapProps) {
   const [expenses, setExpenses] = useState<Expense[]>(propExpenses || []);
   const [isLoading, setIsLoading] = useState(propIsLoading);
+  // Re-render when the user renames categories or edits moods
+  useCategories({ includeArchived: true });
+  useMoods({ includeArchived: true });
+  const { dateLocale } = useLocale();
   const [currentMonth, setCurrentMonth] = useState(new Date());
   const [monthSummary, setMonthSummary] = useState<{
     totalSpent: number;
@@ -100,7 +109,7 @@ export function CalendarHeatmap({ selectedMood, expenses: propExpenses, isLoadin
     });
 
     const totalAmount = dayExpenses.reduce(
-      (sum, expense) => sum + expense.amount,
+      (sum, expense) => sum + getHomeAmount(expense),
       0
     );
 
@@ -111,28 +120,19 @@ export function CalendarHeatmap({ selectedMood, expenses: propExpenses, isLoadin
         categoryCounts[expense.category] = { count: 0, amount: 0 };
       }
       categoryCounts[expense.category].count += 1;
-      categoryCounts[expense.category].amount += expense.amount;
+      categoryCounts[expense.category].amount += getHomeAmount(expense);
     });
 
-    // Get the dominant mood for the day
-    let dominantMood = null;
-    if (dayExpenses.length > 0) {
-      const moodCounts: Record<string, number> = {};
-      dayExpenses.forEach((expense) => {
-        moodCounts[expense.mood] = (moodCounts[expense.mood] || 0) + 1;
-      });
-
-      dominantMood = Object.entries(moodCounts).reduce(
-        (max, [mood, count]) => (count > max.count ? { mood, count } : max),
-        { mood: "", count: 0 }
-      ).mood;
-    }
+    // Get the dominant mood for the day, weighted by intensity
+    const dominantMood = getDominantMood(dayExpenses);
+    const averageIntensity = getAverageMoodIntensity(dayExpenses);
 
     return {
       date: day,
       expenses: dayExpenses,
       totalAmount,
       dominantMood,
+      averageIntensity,
       categoryCounts,
       expenseCount: dayExpenses.length
     };
@@ -186,16 +186,6 @@ export function CalendarHeatmap({ selectedMood, expenses: propExpenses, isLoadin
     }
   }, [isLoading, expensesByDay]);
 
-  // Format currency helper
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('id-ID', {
-      style: 'currency',
-      currency: 'IDR',
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0
-    }).format(amount);
-  };
-
   return (
     <Card>
       <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
@@ -216,7 +206,7 @@ export function CalendarHeatmap({ selectedMood, expenses: propExpenses, isLoadin
             &lt;
           </button>
           <span className="font-medium">
-            {format(currentMonth, "MMMM yyyy", { locale: id })}
+            {format(currentMonth, "MMMM yyyy", { locale: dateLocale })}
           </span>
           <button
             onClick={goToNextMonth}
@@ -243,7 +233,7 @@ export function CalendarHeatmap({ selectedMood, expenses: propExpenses, isLoadin
                     </p>
                     <p className="text-xl font-bold">{formatCurrency(monthSummary.highestDay.amount)}</p>
                     <p className="text-xs text-muted-foreground">
-                      {format(monthSummary.highestDay.date, "EEEE, d MMMM", { locale: id })}
+                      {format(monthSummary.highestDay.date, "EEEE, d MMMM", { locale: dateLocale })}
                     </p>
                   </div>
                 )}
@@ -254,7 +244,7 @@ export function CalendarHeatmap({ selectedMood, expenses: propExpenses, isLoadin
                     </p>
                     <p className="text-xl font-bold">{formatCurrency(monthSummary.lowestDay.amount)}</p>
                     <p className="text-xs text-muted-foreground">
-                      {format(monthSummary.lowestDay.date, "EEEE, d MMMM", { locale: id })}
+                      {format(monthSummary.lowestDay.date, "EEEE, d MMMM", { locale: dateLocale })}
                     </p>
                   </div>
                 )}
@@ -289,7 +279,7 @@ export function CalendarHeatmap({ selectedMood, expenses: propExpenses, isLoadin
             ))}
 
             {/* Calendar days */}
-            {expensesByDay.map(({ date, totalAmount, dominantMood, expenseCount, categoryCounts }) => {
+            {expensesByDay.map(({ date, totalAmount, dominantMood, averageIntensity, expenseCount, categoryCounts }) => {
               const intensity = getIntensityLevel(totalAmount);
               const mood = dominantMood ? getMood(dominantMood) : null;
               const isCurrentDay = isToday(date);
@@ -299,15 +289,20 @@ export function CalendarHeatmap({ selectedMood, expenses: propExpenses, isLoadin
               const tooltipContent = totalAmount > 0 
                 ? (
                   <div className="space-y-2 max-w-[200px]">
-                    <p className="font-medium">{format(date, "EEEE, d MMMM yyyy", { locale: id })}</p>
+                    <p className="font-medium">{format(date, "EEEE, d MMMM yyyy", { locale: dateLocale })}</p>
                     <p className="font-bold">{formatCurrency(totalAmount)}</p>
                     <p className="text-xs">{expenseCount} transaksi</p>
+                    {averageIntensity !== null && (
+                      <p className="text-xs">
+                        Intensitas mood: {averageIntensity.toFixed(1)}/{MOOD_INTENSITY_MAX}
+                      </p>
+                    )}
                     {Object.entries(categoryCounts).length > 0 && (
                       <div className="space-y-1 mt-1">
                         <p className="text-xs font-medium">Kategori:</p>
                         {Object.entries(categoryCounts).map(([category, data]) => (
                           <div key={category} className="flex justify-between text-xs">
-                            <span>{category}</span>
+                            <span>{getCategory(category)?.name || category}</span>
                             <span>{formatCurrency(data.amount)}</span>
                           </div>
                         ))}
@@ -315,7 +310,7 @@ export function CalendarHeatmap({ selectedMood, expenses: propExpenses, isLoadin
                     )}
                   </div>
                 )
-                : <p>{format(date, "EEEE, d MMMM yyyy", { locale: id })}<br/>Tidak ada pengeluaran</p>;
+                : <p>{format(date, "EEEE, d MMMM yyyy", { locale: dateLocale })}<br/>Tidak ada pengeluaran</p>;
 
               return (
                 <TooltipProvider key={date.toISOString()}>
@@ -339,7 +334,7 @@ export function CalendarHeatmap({ selectedMood, expenses: propExpenses, isLoadin
                         {totalAmount > 0 && (
                           <div className="flex flex-col items-center mt-1">
                             <span className="text-[10px] font-medium">
-                              {formatCurrency(totalAmount).replace('Rp', '')}
+                              {formatAmountValue(totalAmount)}
                             </span>
                             {mood && (
                               <span className="text-[10px]">{mood.emoji}</span>
@@ -0,0 +1,395 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { format } from "date-fns";
+import { ArrowDown, ArrowUp, FlaskConical, Pencil, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { getCategory } from "@/data/categories";
+import { getDateLocale, t } from "@/data/locales";
+import { useCategories } from "@/hooks/use-categories";
+import { useCurrency } from "@/hooks/use-currency";
+import { useLocale } from "@/hooks/use-locale";
+import {
+  deleteCategoryRule,
+  getCategoryRules,
+  hasConditions,
+  moveCategoryRule,
+  saveCategoryRule,
+  setCategoryRuleEnabled,
+  splitKeywords,
+  testCategoryRule,
+  TIMES_OF_DAY,
+  type CategoryRuleInput,
+  type RuleTestResult,
+} from "@/lib/category-rules";
+import { formatAmountInput, formatAmountValue, formatCurrency, parseAmountInput } from "@/lib/currency-formatter";
+import { getExpenses } from "@/lib/db";
+import { cn, formatDate } from "@/lib/utils";
+import type { CategoryRule, TimeOfDay } from "@/types/expense";
+
+// Monday first, as Indonesian calendars are laid out
+const WEEK = [1, 2, 3, 4, 5, 6, 0];
+const ANY_TIME = "any";
+
+// 7 January 2024 was a Sunday, so day n of that week has getDay() === n
+const weekdayName = (day: number) => format(new Date(2024, 0, 7 + day), "EEE", { locale: getDateLocale() });
+
+function describeConditions(rule: CategoryRuleInput): string {
+  const parts: string[] = [];
+  const keywords = splitKeywords(rule.notesContains);
+  if (keywords.length > 0) parts.push(t("categoryRules.summary.notes", { keywords: keywords.join(", ") }));
+  if (rule.amountAbove !== undefined) parts.push(t("categoryRules.summary.above", { amount: formatCurrency(rule.amountAbove) }));
+  if (rule.amountBelow !== undefined) parts.push(t("categoryRules.summary.below", { amount: formatCurrency(rule.amountBelow) }));
+  if (rule.weekdays?.length) parts.push(WEEK.filter((day) => rule.weekdays?.includes(day)).map(weekdayName).join(", "));
+  if (rule.timeOfDay) parts.push(t(`categoryRules.time.${rule.timeOfDay}`));
+  return parts.join(" · ");
+}
+
+function RuleTestSummary({ rule, result }: { rule: CategoryRuleInput; result: RuleTestResult }) {
+  const category = getCategory(rule.category);
+
+  if (result.matched === 0) {
+    return <p className="text-xs text-muted-foreground">{t("categoryRules.test.none")}</p>;
+  }
+
+  return (
+    <div className="space-y-1 rounded-md bg-muted/50 p-2 text-xs">
+      <p>
+        {t("categoryRules.test.summary", {
+          matched: result.matched,
+          agreeing: result.agreeing,
+          category: `${category?.icon ?? ""} ${category?.name ?? rule.category}`.trim(),
+        })}
+      </p>
+      {result.conflicts.length > 0 && (
+        <>
+          <p className="text-muted-foreground">{t("categoryRules.test.conflicts")}</p>
+          <ul className="space-y-0.5">
+            {result.conflicts.map((expense) => {
+              const current = getCategory(expense.category);
+              return (
+                <li key={expense.id} className="flex justify-between gap-2">
+                  <span className="truncate">
+                    {formatDate(expense.date)} · {expense.notes || current?.name}
+                  </span>
+                  <span className="shrink-0 text-muted-foreground">
+                    {formatCurrency(expense.amount, expense.currency)} · {current?.icon}
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
+
+const emptyRule = (): CategoryRuleInput => ({ name: "", notesContains: "", category: "", enabled: true });
+
+function RuleEditor({
+  rule,
+  onDone,
+}: {
+  rule?: CategoryRule;
+  onDone: () => void;
+}) {
+  const categories = useCategories();
+  const { homeCurrency } = useCurrency();
+  const [draft, setDraft] = useState<CategoryRuleInput>(() => {
+    if (!rule) return emptyRule();
+    const { id, order, createdAt, updatedAt, ...input } = rule;
+    return input;
+  });
+  // Typed text kept apart from the parsed amounts so grouping separators can be entered
+  const [above, setAbove] = useState(rule?.amountAbove !== undefined ? formatAmountValue(rule.amountAbove, homeCurrency) : "");
+  const [below, setBelow] = useState(rule?.amountBelow !== undefined ? formatAmountValue(rule.amountBelow, homeCurrency) : "");
+  const [testResult, setTestResult] = useState<RuleTestResult | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const update = (patch: Partial<CategoryRuleInput>) => {
+    setDraft((current) => ({ ...current, ...patch }));
+    setTestResult(null);
+  };
+
+  const updateAmount = (field: "amountAbove" | "amountBelow", text: string) => {
+    const formatted = formatAmountInput(text, homeCurrency);
+    (field === "amountAbove" ? setAbove : setBelow)(formatted);
+    update({ [field]: formatted ? parseAmountInput(formatted) : undefined });
+  };
+
+  const toggleWeekday = (day: number) => {
+    const weekdays = draft.weekdays ?? [];
+    update({ weekdays: weekdays.includes(day) ? weekdays.filter((d) => d !== day) : [...weekdays, day] });
+  };
+
+  const canSave = draft.category !== "" && hasConditions(draft);
+
+  const handleTest = async () => {
+    const now = new Date().toISOString();
+    const candidate: CategoryRule = { ...draft, id: rule?.id ?? "draft", order: 0, createdAt: now, updatedAt: now };
+    setTestResult(testCategoryRule(candidate, await getExpenses()));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await saveCategoryRule({ ...draft, name: draft.name?.trim() || undefined }, rule?.id);
+      onDone();
+    } catch (error) {
+      console.error("[CategoryRules] Failed to save rule:", error);
+      toast.error(t("categoryRules.saveFailed"));
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border p-3">
+      <div className="grid gap-3 sm:grid-cols-2">
+        <div className="space-y-1">
+          <Label htmlFor="rule-notes">{t("categoryRules.notesContains")}</Label>
+          <Input
+            id="rule-notes"
+            value={draft.notesContains ?? ""}
+            onChange={(e) => update({ notesContains: e.target.value })}
+            placeholder={t("categoryRules.notesPlaceholder")}
+            className="h-9"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label>{t("categoryRules.category")}</Label>
+          <Select value={draft.category} onValueChange={(category) => update({ category })}>
+            <SelectTrigger className="h-9">
+              <SelectValue placeholder={t("add.categoryPlaceholder")} />
+            </SelectTrigger>
+            <SelectContent>
+              {categories.map((category) => (
+                <SelectItem key={category.id} value={category.id}>
+                  <span className="mr-2">{category.icon}</span>
+                  {category.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="rule-above">{t("categoryRules.amountAbove")}</Label>
+          <Input
+            id="rule-above"
+            inputMode="decimal"
+            value={above}
+            onChange={(e) => updateAmount("amountAbove", e.target.value)}
+            placeholder={homeCurrency}
+            className="h-9"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="rule-below">{t("categoryRules.amountBelow")}</Label>
+          <Input
+            id="rule-below"
+            inputMode="decimal"
+            value={below}
+            onChange={(e) => updateAmount("amountBelow", e.target.value)}
+            placeholder={homeCurrency}
+            className="h-9"
+          />
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <Label>{t("categoryRules.weekdays")}</Label>
+        <div className="flex flex-wrap gap-1.5">
+          {WEEK.map((day) => (
+            <button
+              key={day}
+              type="button"
+              aria-pressed={draft.weekdays?.includes(day) ?? false}
+              onClick={() => toggleWeekday(day)}
+              className={cn(
+                "rounded-full border px-2.5 py-1 text-xs transition-colors",
+                draft.weekdays?.includes(day) ? "border-primary bg-primary/10" : "hover:bg-muted"
+              )}
+            >
+              {weekdayName(day)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-2">
+        <div className="space-y-1">
+          <Label>{t("categoryRules.timeOfDay")}</Label>
+          <Select
+            value={draft.timeOfDay ?? ANY_TIME}
+            onValueChange={(value) => update({ timeOfDay: value === ANY_TIME ? undefined : (value as TimeOfDay) })}
+          >
+            <SelectTrigger className="h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY_TIME}>{t("categoryRules.time.any")}</SelectItem>
+              {TIMES_OF_DAY.map((time) => (
+                <SelectItem key={time} value={time}>
+                  {t(`categoryRules.time.${time}`)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="rule-name">{t("categoryRules.name")}</Label>
+          <Input
+            id="rule-name"
+            value={draft.name ?? ""}
+            onChange={(e) => update({ name: e.target.value })}
+            placeholder={t("categoryRules.namePlaceholder")}
+            className="h-9"
+          />
+        </div>
+      </div>
+
+      <p className="text-xs text-muted-foreground">{t("categoryRules.conditionsHint")}</p>
+
+      {testResult && <RuleTestSummary rule={draft} result={testResult} />}
+
+      <div className="flex flex-wrap justify-end gap-2">
+        <Button variant="ghost" size="sm" onClick={onDone} disabled={isSaving}>
+          {t("common.cancel")}
+        </Button>
+        <Button variant="outline" size="sm" onClick={handleTest} disabled={!canSave}>
+          <FlaskConical className="mr-1 h-4 w-4" />
+          {t("categoryRules.test")}
+        </Button>
+        <Button size="sm" onClick={handleSave} disabled={!canSave || isSaving}>
+          {t("categoryRules.save")}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function RuleRow({
+  rule,
+  isFirst,
+  isLast,
+  onEdit,
+}: {
+  rule: CategoryRule;
+  isFirst: boolean;
+  isLast: boolean;
+  onEdit: () => void;
+}) {
+  const category = getCategory(rule.category);
+  const [testResult, setTestResult] = useState<RuleTestResult | null>(null);
+
+  const toggleTest = async () => {
+    setTestResult(testResult ? null : testCategoryRule(rule, await getExpenses()));
+  };
+
+  const remove = async () => {
+    try {
+      await deleteCategoryRule(rule.id);
+    } catch (error) {
+      console.error("[CategoryRules] Failed to delete rule:", error);
+      toast.error(t("categoryRules.deleteFailed"));
+    }
+  };
+
+  return (
+    <div className="space-y-2 rounded-lg border p-3">
+      <div className="flex items-center gap-2">
+        <Switch
+          checked={rule.enabled}
+          onCheckedChange={(enabled) => setCategoryRuleEnabled(rule.id, enabled)}
+          aria-label={t("categoryRules.enabled")}
+        />
+        <div className={cn("min-w-0 flex-1", !rule.enabled && "opacity-60")}>
+          <p className="truncate text-sm font-medium">
+            {rule.name || t("categoryRules.unnamed")} → {category?.icon} {category?.name ?? rule.category}
+          </p>
+          <p className="truncate text-xs text-muted-foreground">{describeConditions(rule)}</p>
+        </div>
+        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => moveCategoryRule(rule.id, -1)} disabled={isFirst} aria-label={t("categoryRules.moveUp")}>
+          <ArrowUp className="h-4 w-4" />
+        </Button>
+        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => moveCategoryRule(rule.id, 1)} disabled={isLast} aria-label={t("categoryRules.moveDown")}>
+          <ArrowDown className="h-4 w-4" />
+        </Button>
+        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={toggleTest} aria-label={t("categoryRules.test")}>
+          <FlaskConical className="h-4 w-4" />
+        </Button>
+        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onEdit} aria-label={t("categoryRules.edit")}>
+          <Pencil className="h-4 w-4" />
+        </Button>
+        <Button variant="ghost" size="icon" className="h-8 w-8 text-destructive" onClick={remove} aria-label={t("categoryRules.delete")}>
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+      {testResult && <RuleTestSummary rule={rule} result={testResult} />}
+    </div>
+  );
+}
+
+/**
+ * Rules that pick the category of new and imported expenses. Anything no rule
+ * matches is suggested from the categories used for similar notes before.
+ */
+export function CategoryRuleSettings() {
+  // Re-render labels and weekday names when the language changes
+  useLocale();
+  // Re-render when category names change
+  useCategories({ includeArchived: true });
+  const [rules, setRules] = useState<CategoryRule[]>([]);
+  // A rule id, "new", or null when no editor is open
+  const [editing, setEditing] = useState<string | null>(null);
+
+  const loadRules = useCallback(async () => {
+    setRules(await getCategoryRules());
+  }, []);
+
+  useEffect(() => {
+    loadRules();
+    window.addEventListener("category-rules:changed", loadRules);
+    return () => window.removeEventListener("category-rules:changed", loadRules);
+  }, [loadRules]);
+
+  return (
+    <div className="space-y-2">
+      {rules.length === 0 && editing !== "new" && (
+        <p className="text-sm text-muted-foreground">{t("categoryRules.empty")}</p>
+      )}
+      {rules.map((rule, index) =>
+        editing === rule.id ? (
+          <RuleEditor key={rule.id} rule={rule} onDone={() => setEditing(null)} />
+        ) : (
+          <RuleRow
+            key={`${rule.id}:${rule.updatedAt}`}
+            rule={rule}
+            isFirst={index === 0}
+            isLast={index === rules.length - 1}
+            onEdit={() => setEditing(rule.id)}
+          />
+        )
+      )}
+      {editing === "new" ? (
+        <RuleEditor onDone={() => setEditing(null)} />
+      ) : (
+        <Button variant="outline" size="sm" onClick={() => setEditing("new")}>
+          <Plus className="mr-1 h-4 w-4" />
+          {t("categoryRules.add")}
+        </Button>
+      )}
+    </div>
+  );
+}
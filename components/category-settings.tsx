@@ -0,0 +1,224 @@
+"use client";
+
+import { useState } from "react";
+import { Archive, ArchiveRestore, ArrowDown, ArrowUp, Plus } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { t } from "@/data/locales";
+import { useCategories } from "@/hooks/use-categories";
+import {
+  archiveCategory,
+  createCategory,
+  reorderCategories,
+  updateCategory,
+} from "@/lib/categories";
+import type { Category } from "@/types/expense";
+
+const DEFAULT_NEW_COLOR = "#6366f1";
+
+function CategoryRow({
+  category,
+  isFirst,
+  isLast,
+  disabled,
+  onMove,
+}: {
+  category: Category;
+  isFirst: boolean;
+  isLast: boolean;
+  disabled: boolean;
+  onMove: (direction: -1 | 1) => void;
+}) {
+  const [name, setName] = useState(category.name);
+  const [icon, setIcon] = useState(category.icon);
+  const [color, setColor] = useState(category.color || DEFAULT_NEW_COLOR);
+
+  // Fields save on blur so each keystroke or color drag isn't queued for sync
+  const saveField = async (patch: Partial<Pick<Category, "name" | "icon" | "color">>) => {
+    const updated = await updateCategory(category.id, patch);
+    if (!updated) {
+      toast.error(t("categorySettings.saveFailed"));
+      setName(category.name);
+      setIcon(category.icon);
+      setColor(category.color || DEFAULT_NEW_COLOR);
+    }
+  };
+
+  const toggleArchived = async () => {
+    const ok = await archiveCategory(category.id, !category.archived);
+    if (!ok) {
+      toast.error(t(category.id === "other" ? "categorySettings.cannotArchive" : "categorySettings.archiveFailed"));
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <Input
+        value={icon}
+        onChange={(e) => setIcon(e.target.value)}
+        onBlur={() => icon.trim() && icon !== category.icon && saveField({ icon: icon.trim() })}
+        className="h-9 w-12 px-2 text-center"
+        aria-label={t("categorySettings.icon")}
+        disabled={disabled}
+      />
+      <Input
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        onBlur={() => name.trim() && name !== category.name && saveField({ name: name.trim() })}
+        className="h-9 flex-1"
+        aria-label={t("categorySettings.name")}
+        disabled={disabled}
+      />
+      <input
+        type="color"
+        value={color}
+        onChange={(e) => setColor(e.target.value)}
+        onBlur={() => color !== category.color && saveField({ color })}
+        className="h-9 w-9 cursor-pointer rounded border bg-transparent p-1"
+        aria-label={t("categorySettings.color")}
+        disabled={disabled}
+      />
+      {!category.archived && (
+        <>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-9 w-9"
+            onClick={() => onMove(-1)}
+            disabled={disabled || isFirst}
+            aria-label={t("categorySettings.moveUp")}
+          >
+            <ArrowUp className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-9 w-9"
+            onClick={() => onMove(1)}
+            disabled={disabled || isLast}
+            aria-label={t("categorySettings.moveDown")}
+          >
+            <ArrowDown className="h-4 w-4" />
+          </Button>
+        </>
+      )}
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-9 w-9"
+        onClick={toggleArchived}
+        disabled={disabled || category.id === "other"}
+        aria-label={t(category.archived ? "categorySettings.restore" : "categorySettings.archive")}
+      >
+        {category.archived ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+      </Button>
+    </div>
+  );
+}
+
+export function CategorySettings() {
+  const categories = useCategories({ includeArchived: true });
+  const [newName, setNewName] = useState("");
+  const [newIcon, setNewIcon] = useState("");
+  const [newColor, setNewColor] = useState(DEFAULT_NEW_COLOR);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const active = categories.filter((category) => !category.archived);
+  const archived = categories.filter((category) => category.archived);
+
+  const handleMove = async (index: number, direction: -1 | 1) => {
+    const ids = active.map((category) => category.id);
+    const target = index + direction;
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+
+    setIsSaving(true);
+    // Archived categories keep their place after the active ones
+    const ok = await reorderCategories([...ids, ...archived.map((category) => category.id)]);
+    setIsSaving(false);
+    if (!ok) toast.error(t("categorySettings.reorderFailed"));
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+
+    setIsSaving(true);
+    const created = await createCategory({ name: newName, icon: newIcon.trim(), color: newColor });
+    setIsSaving(false);
+
+    if (created) {
+      toast.success(t("categorySettings.added"), { description: `${created.icon} ${created.name}` });
+      setNewName("");
+      setNewIcon("");
+    } else {
+      toast.error(t("common.error"), {
+        description: t("categorySettings.addFailed"),
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        {active.map((category, index) => (
+          <CategoryRow
+            key={`${category.id}:${category.name}:${category.icon}:${category.color}`}
+            category={category}
+            isFirst={index === 0}
+            isLast={index === active.length - 1}
+            disabled={isSaving}
+            onMove={(direction) => handleMove(index, direction)}
+          />
+        ))}
+      </div>
+
+      <form onSubmit={handleCreate} className="flex items-center gap-2">
+        <Input
+          value={newIcon}
+          onChange={(e) => setNewIcon(e.target.value)}
+          placeholder="🏷️"
+          className="h-9 w-12 px-2 text-center"
+          aria-label={t("categorySettings.newIcon")}
+          disabled={isSaving}
+        />
+        <Input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder={t("categorySettings.newName")}
+          className="h-9 flex-1"
+          aria-label={t("categorySettings.newNameLabel")}
+          disabled={isSaving}
+        />
+        <input
+          type="color"
+          value={newColor}
+          onChange={(e) => setNewColor(e.target.value)}
+          className="h-9 w-9 cursor-pointer rounded border bg-transparent p-1"
+          aria-label={t("categorySettings.newColor")}
+          disabled={isSaving}
+        />
+        <Button type="submit" size="icon" className="h-9 w-9" disabled={isSaving || !newName.trim()} aria-label={t("categorySettings.add")}>
+          <Plus className="h-4 w-4" />
+        </Button>
+      </form>
+
+      {archived.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium text-muted-foreground">{t("categorySettings.archived")}</h4>
+          <p className="text-xs text-muted-foreground">{t("categorySettings.archivedHint")}</p>
+          {archived.map((category) => (
+            <CategoryRow
+              key={`${category.id}:${category.name}:${category.icon}:${category.color}`}
+              category={category}
+              isFirst
+              isLast
+              disabled={isSaving}
+              onMove={() => undefined}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,193 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { AlertTriangle, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { currencies, getCurrencyInfo } from "@/data/currencies";
+import { getIntlLocale, t } from "@/data/locales";
+import { useCurrency } from "@/hooks/use-currency";
+import { useLocale } from "@/hooks/use-locale";
+import {
+  getCurrenciesInUse,
+  removeExchangeRate,
+  setExchangeRate,
+  setHomeCurrency,
+} from "@/lib/currency";
+import { parseAmountInput } from "@/lib/currency-formatter";
+
+// Rates can be tiny (1 IDR in USD), so keep more decimals than amounts do
+const formatRate = (rate: number): string =>
+  new Intl.NumberFormat(getIntlLocale(), { maximumFractionDigits: 6 }).format(rate);
+
+function RateRow({ currency, rate, homeCurrency }: { currency: string; rate: number; homeCurrency: string }) {
+  const [value, setValue] = useState(formatRate(rate));
+
+  // Saves on blur so each keystroke doesn't rewrite every converted total
+  const handleBlur = async () => {
+    const parsed = parseAmountInput(value);
+    if (parsed === rate) return;
+    if (parsed <= 0 || !(await setExchangeRate(currency, parsed))) {
+      toast.error(t("currencySettings.saveFailed"));
+      setValue(formatRate(rate));
+    }
+  };
+
+  const handleRemove = async () => {
+    const ok = await removeExchangeRate(currency);
+    if (!ok) toast.error(t("currencySettings.removeFailed"));
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <span className="w-20 shrink-0 text-sm">1 {currency} =</span>
+      <Input
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        onBlur={handleBlur}
+        inputMode="decimal"
+        className="h-9 flex-1"
+        aria-label={t("currencySettings.rateFor", { currency })}
+      />
+      <span className="w-12 shrink-0 text-sm text-muted-foreground">{homeCurrency}</span>
+      <Button variant="ghost" size="icon" className="h-9 w-9" onClick={handleRemove} aria-label={t("currencySettings.remove")}>
+        <Trash2 className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
+
+export function CurrencySettings() {
+  const { homeCurrency, rates } = useCurrency();
+  useLocale();
+  const [inUse, setInUse] = useState<string[]>([]);
+  const [newCurrency, setNewCurrency] = useState("");
+  const [newRate, setNewRate] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    getCurrenciesInUse().then(setInUse);
+  }, [homeCurrency, rates]);
+
+  const rated = Object.keys(rates)
+    .filter((code) => code !== homeCurrency)
+    .sort();
+  const missing = inUse.filter((code) => code !== homeCurrency && !rated.includes(code));
+  const available = currencies.filter((currency) => currency.code !== homeCurrency && !rated.includes(currency.code));
+
+  const handleHomeChange = async (currency: string) => {
+    if (await setHomeCurrency(currency)) {
+      toast.success(t("currencySettings.homeChanged"), { description: getCurrencyInfo(currency).name });
+    } else {
+      toast.error(t("currencySettings.rateMissing"), {
+        description: t("currencySettings.rateMissingDescription", { currency, home: homeCurrency }),
+      });
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const rate = parseAmountInput(newRate);
+    if (!newCurrency || rate <= 0) return;
+
+    setIsSaving(true);
+    const ok = await setExchangeRate(newCurrency, rate);
+    setIsSaving(false);
+
+    if (ok) {
+      setNewCurrency("");
+      setNewRate("");
+    } else {
+      toast.error(t("common.error"), {
+        description: t("currencySettings.saveFailedDescription"),
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>{t("currencySettings.home")}</Label>
+        <Select value={homeCurrency} onValueChange={handleHomeChange}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {currencies.map((currency) => (
+              <SelectItem key={currency.code} value={currency.code}>
+                {currency.code} · {currency.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">
+          {t("currencySettings.homeHint")}
+        </p>
+      </div>
+
+      {missing.length > 0 && (
+        <div className="flex items-start gap-2 rounded-lg border border-amber-500/50 p-3 text-sm text-amber-600 dark:text-amber-400">
+          <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+          <span>
+            {t("currencySettings.missingRates", { currencies: missing.join(", ") })}
+          </span>
+        </div>
+      )}
+
+      {rated.length > 0 && (
+        <div className="space-y-2">
+          {rated.map((code) => (
+            <RateRow
+              key={`${code}:${homeCurrency}:${rates[code]}`}
+              currency={code}
+              rate={rates[code]}
+              homeCurrency={homeCurrency}
+            />
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={handleAdd} className="flex items-center gap-2">
+        <Select value={newCurrency} onValueChange={setNewCurrency} disabled={isSaving}>
+          <SelectTrigger className="h-9 w-28" aria-label={t("currencySettings.newCurrency")}>
+            <SelectValue placeholder={t("currencySettings.newCurrency")} />
+          </SelectTrigger>
+          <SelectContent>
+            {available.map((currency) => (
+              <SelectItem key={currency.code} value={currency.code}>
+                {currency.code}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          value={newRate}
+          onChange={(e) => setNewRate(e.target.value)}
+          placeholder={t("currencySettings.newRate", { home: homeCurrency })}
+          inputMode="decimal"
+          className="h-9 flex-1"
+          aria-label={t("currencySettings.newRate", { home: homeCurrency })}
+          disabled={isSaving}
+        />
+        <Button
+          type="submit"
+          size="icon"
+          className="h-9 w-9"
+          disabled={isSaving || !newCurrency || parseAmountInput(newRate) <= 0}
+          aria-label={t("currencySettings.add")}
+        >
+          <Plus className="h-4 w-4" />
+        </Button>
+      </form>
+    </div>
+  );
+}
@@ -5,13 +5,17 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/com
 import { Skeleton } from "@/components/ui/skeleton";
 import { Button } from "@/components/ui/button";
 import type { Expense } from "@/types/expense";
-import { getMood } from "@/data/moods";
+import { getAverageMoodIntensity, getDominantMood, getMood, MOOD_INTENSITY_MAX } from "@/data/moods";
 import { format, isToday, isSameMonth, startOfMonth, endOfMonth, eachDayOfInterval, addMonths, subMonths, getDay, getDate, } from "date-fns";
-import { id } from "date-fns/locale";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { Calendar as CalendarIcon, TrendingUp, TrendingDown, ChevronLeft, ChevronRight } from "lucide-react";
 import { cn } from "@/lib/utils";
-import { categories, getCategory } from "@/data/categories";
+import { getCategory } from "@/data/categories";
+import { useCategories } from "@/hooks/use-categories";
+import { useMoods } from "@/hooks/use-moods";
+import { getHomeAmount } from "@/data/currencies";
+import { formatCurrency } from "@/lib/currency-formatter";
+import { useLocale } from "@/hooks/use-locale";
 
 interface EnhancedCalendarProps {
   selectedMood?: string;
@@ -20,6 +24,10 @@ interface EnhancedCalendarProps {
 }
 
 export function EnhancedCalendar({ selectedMood, expenses, isLoading }: EnhancedCalendarProps) {
+  const allCategories = useCategories({ includeArchived: true });
+  // Re-render when custom moods change
+  useMoods({ includeArchived: true });
+  const { dateLocale } = useLocale();
   const [currentMonth, setCurrentMonth] = useState<Date>(new Date());
   const [monthSummary, setMonthSummary] = useState<{
     totalSpent: number;
@@ -50,6 +58,7 @@ export function EnhancedCalendar({ selectedMood, expenses, isLoading }: Enhanced
       expenses: Expense[];
       totalAmount: number;
       dominantMood: string | null;
+      averageIntensity: number | null;
       categoryCounts: Record<string, { count: number; amount: number }>;
       expenseCount: number;
     }>();
@@ -62,6 +71,7 @@ export function EnhancedCalendar({ selectedMood, expenses, isLoading }: Enhanced
           expenses: [],
           totalAmount: 0,
           dominantMood: null,
+          averageIntensity: null,
           categoryCounts: {},
           expenseCount: 0
         });
@@ -69,7 +79,7 @@ export function EnhancedCalendar({ selectedMood, expenses, isLoading }: Enhanced
       
       const dayData = result.get(dateKey)!;
       dayData.expenses.push(expense);
-      dayData.totalAmount += expense.amount;
+      dayData.totalAmount += getHomeAmount(expense);
       dayData.expenseCount += 1;
       
       // Update category counts
@@ -77,22 +87,13 @@ export function EnhancedCalendar({ selectedMood, expenses, isLoading }: Enhanced
         dayData.categoryCounts[expense.category] = { count: 0, amount: 0 };
       }
       dayData.categoryCounts[expense.category].count += 1;
-      dayData.categoryCounts[expense.category].amount += expense.amount;
+      dayData.categoryCounts[expense.category].amount += getHomeAmount(expense);
     });
     
-    // Calculate dominant mood for each day
+    // Calculate dominant mood for each day, weighted by intensity
     result.forEach((dayData) => {
-      if (dayData.expenses.length > 0) {
-        const moodCounts: Record<string, number> = {};
-        dayData.expenses.forEach((expense) => {
-          moodCounts[expense.mood] = (moodCounts[expense.mood] || 0) + 1;
-        });
-        
-        dayData.dominantMood = Object.entries(moodCounts).reduce(
-          (max, [mood, count]) => (count > max.count ? { mood, count } : max),
-          { mood: "", count: 0 }
-        ).mood;
-      }
+      dayData.dominantMood = getDominantMood(dayData.expenses);
+      dayData.averageIntensity = getAverageMoodIntensity(dayData.expenses);
     });
     
     return result;
@@ -129,16 +130,6 @@ export function EnhancedCalendar({ selectedMood, expenses, isLoading }: Enhanced
     }
   }, [isLoading, expensesByDay]);
 
-  // Format currency helper
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('id-ID', {
-      style: 'currency',
-      currency: 'IDR',
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0
-    }).format(amount);
-  };
-
   // Get intensity level based on amount
   const getIntensityLevel = (amount: number) => {
     if (amount === 0) return 0;
@@ -657,8 +648,8 @@ export function EnhancedCalendar({ selectedMood, expenses, isLoading }: Enhanced
               <ChevronLeft className="h-3.5 w-3.5 xs:h-4 xs:w-4" />
             </Button>
             <span className="font-medium text-xs xs:text-sm whitespace-nowrap px-1.5 xs:px-2 text-gray-700 dark:text-gray-200">
-              <span className="hidden sm:inline">{format(currentMonth, "MMMM yyyy", { locale: id })}</span>
-              <span className="sm:hidden">{format(currentMonth, "MMM yyyy", { locale: id })}</span>
+              <span className="hidden sm:inline">{format(currentMonth, "MMMM yyyy", { locale: dateLocale })}</span>
+              <span className="sm:hidden">{format(currentMonth, "MMM yyyy", { locale: dateLocale })}</span>
             </span>
             <Button 
               variant="ghost" 
@@ -693,7 +684,7 @@ export function EnhancedCalendar({ selectedMood, expenses, isLoading }: Enhanced
                       {formatCurrency(monthSummary.highestDay.amount)}
                     </p>
                     <p className="text-[10px] xs:text-xs text-muted-foreground mt-0.5 line-clamp-1">
-                      {format(monthSummary.highestDay.date, "EEE, d MMM", { locale: id })}
+                      {format(monthSummary.highestDay.date, "EEE, d MMM", { locale: dateLocale })}
                     </p>
                   </div>
                 )}
@@ -707,7 +698,7 @@ export function EnhancedCalendar({ selectedMood, expenses, isLoading }: Enhanced
                       {formatCurrency(monthSummary.lowestDay.amount)}
                     </p>
                     <p className="text-[10px] xs:text-xs text-muted-foreground mt-0.5 line-clamp-1">
-                      {format(monthSummary.lowestDay.date, "EEE, d MMM", { locale: id })}
+                      {format(monthSummary.lowestDay.date, "EEE, d MMM", { locale: dateLocale })}
                     </p>
                   </div>
                 )}
@@ -854,13 +845,18 @@ export function EnhancedCalendar({ selectedMood, expenses, isLoading }: Enhanced
                         <div className="max-w-[240px] p-0">
                           <div className="bg-gradient-to-r from-blue-600 to-indigo-600 p-3 text-white">
                             <div className="flex items-center justify-between">
-                              <p className="font-medium text-sm">{format(date, "EEEE", { locale: id })}</p>
-                              <p className="font-bold text-sm">{format(date, "d MMM yyyy", { locale: id })}</p>
+                              <p className="font-medium text-sm">{format(date, "EEEE", { locale: dateLocale })}</p>
+                              <p className="font-bold text-sm">{format(date, "d MMM yyyy", { locale: dateLocale })}</p>
                             </div>
                             <div className="flex items-center justify-between mt-2">
                               <div className="flex items-center bg-white/10 px-2 py-1 rounded-full">
                                 {mood && <span className="mr-1.5 text-base">{mood.emoji}</span>}
                                 <span className="text-xs font-medium">{dayData.expenseCount} transaksi</span>
+                                {dayData.averageIntensity !== null && (
+                                  <span className="ml-1.5 text-xs opacity-80">
+                                    · intensitas {dayData.averageIntensity.toFixed(1)}/{MOOD_INTENSITY_MAX}
+                                  </span>
+                                )}
                               </div>
                               <p className="font-bold text-base">{formatCurrency(dayData.totalAmount)}</p>
                             </div>
@@ -874,14 +870,14 @@ export function EnhancedCalendar({ selectedMood, expenses, isLoading }: Enhanced
                                   {Object.entries(dayData.categoryCounts)
                                     .sort((a, b) => b[1].amount - a[1].amount)
                                     .map(([category, { count, amount }]) => {
-                                      const categoryObj = categories.find(cat => cat.id === category) || 
-                                                         categories.find(cat => cat.name === category) || 
-                                                         categories.find(c => c.id === 'other');
+                                      const categoryObj = allCategories.find(cat => cat.id === category) ||
+                                                         allCategories.find(cat => cat.name === category) ||
+                                                         getCategory('other');
                                       const categoryIcon = categoryObj?.icon || '📦';
                                       
                                       return (
                                         <div key={category} className="flex items-center justify-between">
-                                          <span className="text-lg" title={category}>
+                                          <span className="text-lg" title={categoryObj?.name || category}>
                                             {categoryIcon}
                                           </span>
                                           <div className="flex items-center gap-3">
@@ -1,10 +1,13 @@
 import { useState } from "react";
+import { useRouter } from "next/navigation";
 import { formatCurrency, formatDate } from "@/lib/utils";
 import type { Expense } from "@/types/expense";
 import { getCategory } from "@/data/categories";
 import { getMood } from "@/data/moods";
+import { DEFAULT_CURRENCY } from "@/data/currencies";
+import { useLocale } from "@/hooks/use-locale";
 import { Button } from "./ui/button";
-import { ChevronDown, ChevronUp, Trash2, MoreVertical } from "lucide-react";
+import { ChevronDown, ChevronUp, Trash2, MoreVertical, Pencil } from "lucide-react";
 import { toast } from "sonner";
 import { cn } from "@/lib/utils";
 
@@ -16,6 +19,12 @@ interface ExpenseListProps {
 export function ExpenseList({ expenses, onDelete }: ExpenseListProps) {
   const [showAll, setShowAll] = useState(false);
   const [isDeleting, setIsDeleting] = useState<string | null>(null);
+  const router = useRouter();
+  const { t } = useLocale();
+
+  const handleEdit = (id: string) => {
+    router.push(`/add?edit=${encodeURIComponent(id)}`);
+  };
 
   const handleDelete = async (id: string) => {
     if (!onDelete) return;
@@ -23,13 +32,13 @@ export function ExpenseList({ expenses, onDelete }: ExpenseListProps) {
     try {
       setIsDeleting(id);
       await Promise.resolve(onDelete(id));
-      toast.success("Pengeluaran berhasil dihapus", {
-        description: 'Pengeluaran telah dihapus dari catatan Anda.'
+      toast.success(t("expenseList.deleted"), {
+        description: t("expenseList.deletedDescription")
       });
     } catch (error) {
       console.error("Failed to delete expense:", error);
-      toast.error("Gagal menghapus pengeluaran", {
-        description: 'Terjadi kesalahan saat menghapus pengeluaran. Silakan coba lagi.'
+      toast.error(t("expenseList.deleteFailed"), {
+        description: t("expenseList.deleteFailedDescription")
       });
     } finally {
       setIsDeleting(null);
@@ -77,7 +86,7 @@ export function ExpenseList({ expenses, onDelete }: ExpenseListProps) {
                 </div>
                 <div className="min-w-0">
                   <h3 className="font-medium text-foreground/90 truncate hidden sm:block">
-                    {category ? category.name : "Unknown Category"}
+                    {category ? category.name : t("expenseList.unknownCategory")}
                   </h3>
                   <div className="flex items-center gap-1.5 mt-1.5">
                     <span className="text-base">{mood.emoji}</span>
@@ -92,10 +101,26 @@ export function ExpenseList({ expenses, onDelete }: ExpenseListProps) {
               <div className="flex items-center">
                 <div className="text-right pr-3">
                   <div className="font-semibold text-foreground whitespace-nowrap text-base">
-                    {formatCurrency(expense.amount)}
+                    {formatCurrency(expense.amount, expense.currency || DEFAULT_CURRENCY)}
                   </div>
                 </div>
                 
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className={cn(
+                    "h-8 w-8 transition-all duration-200",
+                    isHovered ? "opacity-100" : "opacity-0"
+                  )}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleEdit(expense.id);
+                  }}
+                  aria-label={t("expenseList.edit")}
+                >
+                  <Pencil className="h-4 w-4 text-muted-foreground" />
+                </Button>
+
                 {onDelete && (
                   <Button
                     variant="ghost"
@@ -109,6 +134,7 @@ export function ExpenseList({ expenses, onDelete }: ExpenseListProps) {
                       handleDelete(expense.id);
                     }}
                     disabled={isDeleting === expense.id}
+                    aria-label={t("expenseList.delete")}
                   >
                     {isDeleting === expense.id ? (
                       <div className="h-4 w-4 animate-spin rounded-full border-2 border-foreground border-t-transparent" />
@@ -134,12 +160,12 @@ export function ExpenseList({ expenses, onDelete }: ExpenseListProps) {
           >
             {showAll ? (
               <>
-                Show less
+                {t("expenseList.showLess")}
                 <ChevronUp className="ml-1 h-4 w-4 transition-transform group-hover:-translate-y-0.5" />
               </>
             ) : (
               <>
-                Show all {expenses.length} expenses
+                {t("expenseList.showAll", { count: expenses.length })}
                 <ChevronDown className="ml-1 h-4 w-4 transition-transform group-hover:translate-y-0.5" />
               </>
             )}
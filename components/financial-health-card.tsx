@@ -15,6 +15,7 @@ import {
 } from "@/components/ui/tooltip";
 import { Button } from "./ui/button";
 import Link from "next/link";
+import { useLocale } from "@/hooks/use-locale";
 
 interface FinancialHealthCardProps extends FinancialHealthScore {
   className?: string;
@@ -22,21 +23,22 @@ interface FinancialHealthCardProps extends FinancialHealthScore {
 
 export function FinancialHealthCard({ score, status, summary, recommendations, metrics, className }: FinancialHealthCardProps) {
   const { user, isLoading: isUserLoading } = useUser();
+  const { t } = useLocale();
 
   if (!user && !isUserLoading) {
     return (
       <Card className={cn("w-full max-w-2xl mx-auto", className)}>
         <CardHeader>
-          <CardTitle className="text-2xl font-bold">Financial Health Score</CardTitle>
+          <CardTitle className="text-2xl font-bold">{t("health.title")}</CardTitle>
           <CardDescription>
-            Track your financial health and get personalized recommendations
+            {t("health.description")}
           </CardDescription>
         </CardHeader>
         <CardContent className="flex flex-col items-center justify-center py-12 space-y-4">
           <div className="text-center space-y-2">
-            <p className="text-muted-foreground">Please log in to view your financial health score</p>
+            <p className="text-muted-foreground">{t("health.loginPrompt")}</p>
             <Button asChild>
-              <Link href="/auth/login">Login</Link>
+              <Link href="/auth/login">{t("health.login")}</Link>
             </Button>
           </div>
         </CardContent>
@@ -114,9 +116,9 @@ export function FinancialHealthCard({ score, status, summary, recommendations, m
       <CardHeader className="relative">
         <div className="flex justify-between items-start">
           <div>
-            <CardTitle className="text-2xl font-bold">Financial Health Score</CardTitle>
+            <CardTitle className="text-2xl font-bold">{t("health.title")}</CardTitle>
             <CardDescription>
-              {user ? 'Your financial health overview based on your recent transactions' : 'Loading...'}
+              {user ? t("health.overview") : t("common.loading")}
             </CardDescription>
           </div>
           <TooltipProvider>
@@ -124,11 +126,11 @@ export function FinancialHealthCard({ score, status, summary, recommendations, m
               <TooltipTrigger asChild>
                 <Link href="/financial-health-guide" className="text-muted-foreground hover:text-foreground transition-colors">
                   <InfoIcon className="h-5 w-5" />
-                  <span className="sr-only">Learn more about financial health score</span>
+                  <span className="sr-only">{t("health.learnMore")}</span>
                 </Link>
               </TooltipTrigger>
               <TooltipContent side="left" className="max-w-[300px]">
-                <p>Click to learn more about how your financial health score is calculated and what it means.</p>
+                <p>{t("health.learnMoreTooltip")}</p>
               </TooltipContent>
             </Tooltip>
           </TooltipProvider>
@@ -145,7 +147,7 @@ export function FinancialHealthCard({ score, status, summary, recommendations, m
             <div 
               className={`text-lg font-medium ${statusColors.text} transition-colors duration-300`}
             >
-              {status}
+              {t(`health.status.${status}`)}
             </div>
           </div>
           <div className="w-24 h-24 relative">
@@ -191,7 +193,7 @@ export function FinancialHealthCard({ score, status, summary, recommendations, m
           {recommendations.length > 0 && (
             <Alert className={`${statusColors.alert} ${statusColors.border}`}>
               <Info className={`h-4 w-4 ${statusColors.text}`} />
-              <AlertTitle className={`font-medium ${statusColors.alertTitle}`}>Recommendations</AlertTitle>
+              <AlertTitle className={`font-medium ${statusColors.alertTitle}`}>{t("health.recommendations")}</AlertTitle>
               <ul className="list-disc pl-5 mt-2 space-y-1">
                 {recommendations.map((rec, i) => (
                   <li key={i} className={`text-sm ${statusColors.alertText}`}>{rec}</li>
@@ -203,7 +205,7 @@ export function FinancialHealthCard({ score, status, summary, recommendations, m
 
         <div className="grid grid-cols-2 gap-4">
           <div className="space-y-2">
-            <div className="text-sm font-medium">Savings Rate</div>
+            <div className="text-sm font-medium">{t("health.savingsRate")}</div>
             <div className="text-2xl font-bold">{metrics.savingsRate}%</div>
             <div className="relative h-2 w-full overflow-hidden rounded-full bg-secondary">
               <Progress 
@@ -216,7 +218,7 @@ export function FinancialHealthCard({ score, status, summary, recommendations, m
             </div>
           </div>
           <div className="space-y-2">
-            <div className="text-sm font-medium">Expense to Income</div>
+            <div className="text-sm font-medium">{t("health.expenseToIncome")}</div>
             <div className="text-2xl font-bold">{metrics.expenseToIncomeRatio}%</div>
             <div className="relative h-2 w-full overflow-hidden rounded-full bg-secondary">
               <Progress 
@@ -229,8 +231,8 @@ export function FinancialHealthCard({ score, status, summary, recommendations, m
             </div>
           </div>
           <div className="space-y-2">
-            <div className="text-sm font-medium">Emergency Fund</div>
-            <div className="text-2xl font-bold">{metrics.emergencyFundMonths} mo</div>
+            <div className="text-sm font-medium">{t("health.emergencyFund")}</div>
+            <div className="text-2xl font-bold">{t("health.months", { value: metrics.emergencyFundMonths })}</div>
             <div className="relative h-2 w-full overflow-hidden rounded-full bg-secondary">
               <Progress 
                 value={Math.min(metrics.emergencyFundMonths * 20, 100)} 
@@ -242,7 +244,7 @@ export function FinancialHealthCard({ score, status, summary, recommendations, m
             </div>
           </div>
           <div className="space-y-2">
-            <div className="text-sm font-medium">Discretionary</div>
+            <div className="text-sm font-medium">{t("health.discretionary")}</div>
             <div className="text-2xl font-bold">{metrics.discretionarySpending}%</div>
             <div className="relative h-2 w-full overflow-hidden rounded-full bg-secondary">
               <Progress 
@@ -1,8 +1,9 @@
 "use client"
 
 import type React from "react"
-import { useState } from "react"
-import { moods } from "@/data/moods"
+import { useState, useEffect } from "react"
+import { useMoods } from "@/hooks/use-moods"
+import { MOOD_INTENSITY_LABELS, MOOD_INTENSITY_MAX, MOOD_INTENSITY_MIN } from "@/data/moods"
 import { cn } from "@/lib/utils"
 import type { MoodType } from "@/types/expense"
 import { Label } from "@/components/ui/label"
@@ -12,10 +13,25 @@ import { motion } from "framer-motion"
 interface FunMoodSelectorProps {
   value: MoodType
   onChange: (mood: MoodType, reason?: string) => void
+  initialReason?: string
+  intensity?: number
+  onIntensityChange?: (intensity: number | undefined) => void
 }
 
-export function FunMoodSelector({ value, onChange }: FunMoodSelectorProps) {
-  const [reason, setReason] = useState<string>("")
+const INTENSITY_LEVELS = Array.from(
+  { length: MOOD_INTENSITY_MAX - MOOD_INTENSITY_MIN + 1 },
+  (_, index) => MOOD_INTENSITY_MIN + index
+)
+
+export function FunMoodSelector({ value, onChange, initialReason, intensity, onIntensityChange }: FunMoodSelectorProps) {
+  // Archived moods stay visible only for the expense already using them
+  const moods = useMoods({ includeArchived: true }).filter((mood) => !mood.archived || mood.id === value)
+  const [reason, setReason] = useState<string>(initialReason || "")
+
+  // Pick up the saved reason when an existing expense is loaded for editing
+  useEffect(() => {
+    setReason(initialReason || "")
+  }, [initialReason])
 
   const handleMoodChange = (mood: MoodType) => {
     onChange(mood, reason)
@@ -71,6 +87,36 @@ export function FunMoodSelector({ value, onChange }: FunMoodSelectorProps) {
         ))}
       </div>
 
+      {value && onIntensityChange && (
+        <div className="space-y-2">
+          <Label className="text-foreground/80">
+            How strong is this feeling? (Optional)
+          </Label>
+          <div className="flex items-center gap-2">
+            {INTENSITY_LEVELS.map((level) => (
+              <button
+                key={level}
+                type="button"
+                // Clicking the selected level again clears the intensity
+                onClick={() => onIntensityChange(intensity === level ? undefined : level)}
+                title={MOOD_INTENSITY_LABELS[level]}
+                className={cn(
+                  "h-9 w-9 rounded-full border-2 text-sm font-medium transition-all",
+                  intensity !== undefined && level <= intensity
+                    ? "border-primary bg-primary text-primary-foreground"
+                    : "border-primary/20 bg-card hover:bg-primary/5"
+                )}
+              >
+                {level}
+              </button>
+            ))}
+            <span className="ml-1 text-xs text-muted-foreground">
+              {intensity !== undefined ? MOOD_INTENSITY_LABELS[intensity] : "Not rated"}
+            </span>
+          </div>
+        </div>
+      )}
+
       {value && (
         <motion.div
           className="space-y-2"
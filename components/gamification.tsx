@@ -12,8 +12,10 @@ import {
 } from "@/components/ui/card";
 import { Flame, Award, Star, TrendingUp, Calendar, Check } from "lucide-react";
 import * as db from "@/lib/db";
-import type { Expense } from "@/types/expense";
+import type { Budget, Expense } from "@/types/expense";
 import { getSupabaseBrowserClient } from "@/lib/supabase";
+import { getBudgets } from "@/lib/budgets";
+import { hasStayedWithinBudgets } from "@/lib/budget-calculations";
 
 interface GamificationProps {
   className?: string;
@@ -127,13 +129,13 @@ export function Gamification({ className }: GamificationProps) {
           }
         } else {
           // Fallback to local data if offline
-          const expenses = await db.getExpenses();
+          const [expenses, budgets] = await Promise.all([db.getExpenses(), getBudgets()]);
 
           const calculatedStreak = calculateStreak(expenses || []);
 
           setStreak(calculatedStreak);
 
-          const calculatedBadges = calculateBadges(expenses || [], calculatedStreak);
+          const calculatedBadges = calculateBadges(expenses || [], calculatedStreak, budgets);
 
           setBadges(calculatedBadges);
         }
@@ -143,13 +145,13 @@ export function Gamification({ className }: GamificationProps) {
         // Fallback to local calculation if there's an error
         try {
 
-          const expenses = await db.getExpenses();
+          const [expenses, budgets] = await Promise.all([db.getExpenses(), getBudgets()]);
 
           const calculatedStreak = calculateStreak(expenses || []);
 
           setStreak(calculatedStreak);
 
-          const calculatedBadges = calculateBadges(expenses || [], calculatedStreak);
+          const calculatedBadges = calculateBadges(expenses || [], calculatedStreak, budgets);
 
           setBadges(calculatedBadges);
         } catch (fallbackError) {
@@ -314,7 +316,8 @@ function calculateStreak(expenses: Expense[]): number {
 // Fallback function for calculating badges from local data
 function calculateBadges(
   expenses: Expense[],
-  streak: number
+  streak: number,
+  budgets: Budget[] = []
 ): {
   id: string;
   name: string;
@@ -340,7 +343,7 @@ function calculateBadges(
       name: "Pengelola Anggaran",
       icon: Award,
       description: "Tetap dalam anggaran selama seminggu",
-      earned: false, // This requires budget data which we don't have locally
+      earned: hasStayedWithinBudgets(budgets, expenses),
     },
     {
       id: "no-impulse",
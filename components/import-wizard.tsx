@@ -0,0 +1,444 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { FileUp } from "lucide-react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { getCategory } from "@/data/categories";
+import { getMood } from "@/data/moods";
+import { t } from "@/data/locales";
+import { useLocale } from "@/hooks/use-locale";
+import { readCSVFile } from "@/lib/csv-import";
+import { formatCurrency } from "@/lib/currency-formatter";
+import {
+  IMPORT_FIELDS,
+  buildImportRows,
+  guessColumnMapping,
+  importExpenses,
+  type ImportColumnMapping,
+  type ImportDateOrder,
+  type ImportField,
+  type ImportRow,
+  type ImportTable,
+} from "@/lib/expense-import";
+import {
+  NotAnExportWorkbookError,
+  applyWorkbookImport,
+  planWorkbookImport,
+  type WorkbookImportCounts,
+  type WorkbookImportPlan,
+  type WorkbookImportReport,
+} from "@/lib/excel-import";
+import { queueStatementTransactions } from "@/lib/import-queue";
+import {
+  detectStatementPreset,
+  getStatementFormat,
+  readStatementFile,
+  type StatementPreset,
+} from "@/lib/statement-import";
+import { formatDate } from "@/lib/utils";
+
+// Radix Select items can't have an empty value
+const NO_COLUMN = "none";
+const PREVIEW_LIMIT = 50;
+const REQUIRED_FIELDS: ImportField[] = ["date", "amount"];
+
+function ImportRowStatus({ row }: { row: ImportRow }) {
+  if (!row.expense) {
+    return <Badge variant="destructive">{t("import.status.invalid")}</Badge>;
+  }
+  if (row.duplicate) {
+    return <Badge variant="outline" className="border-amber-500/50 text-amber-600">{t("import.status.duplicate")}</Badge>;
+  }
+  return <Badge variant="secondary">{t("import.status.ready")}</Badge>;
+}
+
+const countActions = (rows: WorkbookImportPlan["expenses" | "incomes"]) => ({
+  created: rows.filter((row) => row.action === "create").length,
+  updated: rows.filter((row) => row.action === "update").length,
+  skipped: rows.filter((row) => row.action === "skip").length,
+  failed: 0,
+});
+
+function WorkbookCounts({ label, counts }: { label: string; counts: WorkbookImportCounts }) {
+  return (
+    <div className="flex items-center justify-between gap-2 rounded-lg border p-3 text-sm">
+      <span className="font-medium">{label}</span>
+      <span className="text-muted-foreground">
+        {t("import.workbook.counts", { created: counts.created, updated: counts.updated, skipped: counts.skipped })}
+        {counts.failed > 0 && ` · ${t("import.workbook.failed", { count: counts.failed })}`}
+      </span>
+    </div>
+  );
+}
+
+export function ImportWizard() {
+  // Re-render labels when the language changes
+  useLocale();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState("");
+  const [table, setTable] = useState<ImportTable | null>(null);
+  const [mapping, setMapping] = useState<ImportColumnMapping>({});
+  const [dateOrder, setDateOrder] = useState<ImportDateOrder>("dmy");
+  const [rows, setRows] = useState<ImportRow[] | null>(null);
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  // Workbooks from exportExpensesToExcel skip column mapping entirely
+  const [workbookPlan, setWorkbookPlan] = useState<WorkbookImportPlan | null>(null);
+  const [report, setReport] = useState<WorkbookImportReport | null>(null);
+  // A CSV that looks like a bank or e-wallet statement can go to the review
+  // queue instead of being mapped by hand
+  const [statementFile, setStatementFile] = useState<{ file: File; preset: StatementPreset } | null>(null);
+
+  const reset = () => {
+    setFileName("");
+    setStatementFile(null);
+    setTable(null);
+    setMapping({});
+    setRows(null);
+    setProgress(null);
+    setWorkbookPlan(null);
+    setReport(null);
+    if (inputRef.current) inputRef.current.value = "";
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    if (/\.xlsx$/i.test(file.name)) {
+      await handleWorkbook(file);
+      return;
+    }
+    const format = getStatementFormat(file.name);
+    if (format === "ofx" || format === "qif") {
+      await handleStatement(file);
+      return;
+    }
+    try {
+      const parsed = await readCSVFile(file);
+      if (parsed.rows.length === 0) {
+        toast.error(t("import.empty"));
+        return;
+      }
+      const preset = detectStatementPreset(parsed.headers);
+      setStatementFile(preset ? { file, preset } : null);
+      setFileName(file.name);
+      setTable(parsed);
+      setMapping(guessColumnMapping(parsed.headers));
+      setRows(null);
+    } catch (error) {
+      console.error("[Import] Failed to read file:", error);
+      toast.error(t("import.readFailed"));
+    }
+  };
+
+  const handleStatement = async (file: File) => {
+    try {
+      const result = await readStatementFile(file);
+      if (!result || result.transactions.length === 0) {
+        toast.error(t("import.statement.empty"));
+        return;
+      }
+      const queued = await queueStatementTransactions(result.transactions, file.name);
+      toast.success(t("import.statement.queued", { count: queued.queued }), {
+        description: t("import.statement.queuedDetail", { skipped: queued.skipped, credits: result.credits }),
+      });
+      reset();
+    } catch (error) {
+      console.error("[Import] Failed to read statement:", error);
+      toast.error(t("import.readFailed"));
+    } finally {
+      if (inputRef.current) inputRef.current.value = "";
+    }
+  };
+
+  const handleWorkbook = async (file: File) => {
+    try {
+      const plan = await planWorkbookImport(file);
+      setFileName(file.name);
+      setWorkbookPlan(plan);
+    } catch (error) {
+      if (error instanceof NotAnExportWorkbookError) {
+        toast.error(t("import.workbook.unrecognised"));
+      } else {
+        console.error("[Import] Failed to read workbook:", error);
+        toast.error(t("import.readFailed"));
+      }
+      if (inputRef.current) inputRef.current.value = "";
+    }
+  };
+
+  const handleWorkbookImport = async () => {
+    if (!workbookPlan) return;
+    setProgress({ done: 0, total: workbookPlan.expenses.length + workbookPlan.incomes.length });
+    const result = await applyWorkbookImport(workbookPlan, (done, total) => setProgress({ done, total }));
+    setProgress(null);
+    setWorkbookPlan(null);
+    setReport(result);
+  };
+
+  const setColumn = (field: ImportField, value: string) => {
+    setMapping((current) => {
+      const next = { ...current };
+      if (value === NO_COLUMN) delete next[field];
+      else next[field] = Number(value);
+      return next;
+    });
+    setRows(null);
+  };
+
+  const handlePreview = async () => {
+    if (!table) return;
+    setRows(await buildImportRows(table, mapping, { dateOrder }));
+  };
+
+  const importable = (rows ?? []).filter((row) => row.expense && !(skipDuplicates && row.duplicate));
+  const duplicateCount = (rows ?? []).filter((row) => row.expense && row.duplicate).length;
+  const invalidCount = (rows ?? []).filter((row) => !row.expense).length;
+
+  const handleImport = async () => {
+    const drafts = importable.flatMap((row) => (row.expense ? [row.expense] : []));
+    setProgress({ done: 0, total: drafts.length });
+    const result = await importExpenses(drafts, (done, total) => setProgress({ done, total }));
+
+    if (result.failed > 0) {
+      toast.error(t("import.partial", { imported: result.imported, failed: result.failed }));
+    } else {
+      toast.success(t("import.done", { count: result.imported }));
+    }
+    reset();
+  };
+
+  if (progress) {
+    return (
+      <div className="space-y-2">
+        <p className="text-sm text-muted-foreground">
+          {t("import.importing", { done: progress.done, total: progress.total })}
+        </p>
+        <Progress value={progress.total ? (progress.done / progress.total) * 100 : 0} />
+      </div>
+    );
+  }
+
+  if (report) {
+    return (
+      <div className="space-y-3">
+        <h3 className="font-medium">{t("import.workbook.reportTitle")}</h3>
+        <WorkbookCounts label={t("import.workbook.expenses")} counts={report.expenses} />
+        <WorkbookCounts label={t("import.workbook.incomes")} counts={report.incomes} />
+        {report.invalid > 0 && (
+          <p className="text-sm text-muted-foreground">{t("import.workbook.invalid", { count: report.invalid })}</p>
+        )}
+        <Button variant="outline" onClick={reset}>
+          {t("import.workbook.close")}
+        </Button>
+      </div>
+    );
+  }
+
+  if (workbookPlan) {
+    const changes = [...workbookPlan.expenses, ...workbookPlan.incomes].filter((row) => row.action !== "skip").length;
+    return (
+      <div className="space-y-3">
+        <div className="flex items-center justify-between gap-2">
+          <p className="truncate text-sm">
+            {fileName} · {t("import.workbook.detected")}
+          </p>
+          <Button variant="ghost" size="sm" onClick={reset}>
+            {t("common.cancel")}
+          </Button>
+        </div>
+        <WorkbookCounts label={t("import.workbook.expenses")} counts={countActions(workbookPlan.expenses)} />
+        <WorkbookCounts label={t("import.workbook.incomes")} counts={countActions(workbookPlan.incomes)} />
+        {workbookPlan.invalid > 0 && (
+          <p className="text-sm text-muted-foreground">{t("import.workbook.invalid", { count: workbookPlan.invalid })}</p>
+        )}
+        <Button onClick={handleWorkbookImport} disabled={changes === 0}>
+          {changes === 0 ? t("import.workbook.upToDate") : t("import.workbook.confirm", { count: changes })}
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="font-medium">{t("import.title")}</h3>
+        <p className="text-sm text-muted-foreground">{t("import.description")}</p>
+      </div>
+
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".csv,text/csv,.xlsx,.ofx,.qfx,.qif"
+        className="hidden"
+        onChange={(e) => handleFile(e.target.files?.[0])}
+      />
+
+      {!table ? (
+        <Button variant="outline" onClick={() => inputRef.current?.click()}>
+          <FileUp className="mr-2 h-4 w-4" />
+          {t("import.chooseFile")}
+        </Button>
+      ) : (
+        <div className="space-y-4">
+          <div className="flex items-center justify-between gap-2">
+            <p className="truncate text-sm">
+              {fileName} · {t("import.rowCount", { count: table.rows.length })}
+            </p>
+            <Button variant="ghost" size="sm" onClick={reset}>
+              {t("common.cancel")}
+            </Button>
+          </div>
+
+          {statementFile && (
+            <div className="space-y-2 rounded-lg border border-primary/30 bg-primary/5 p-3">
+              <p className="text-sm">{t("import.statement.detected", { name: statementFile.preset.name })}</p>
+              <Button size="sm" onClick={() => handleStatement(statementFile.file)}>
+                {t("import.statement.sendToReview")}
+              </Button>
+            </div>
+          )}
+
+          <div className="grid gap-3 sm:grid-cols-2">
+            {IMPORT_FIELDS.map((field) => (
+              <div key={field} className="space-y-1">
+                <Label>
+                  {t(`import.field.${field}`)}
+                  {REQUIRED_FIELDS.includes(field) && " *"}
+                </Label>
+                <Select
+                  value={mapping[field] === undefined ? NO_COLUMN : String(mapping[field])}
+                  onValueChange={(value) => setColumn(field, value)}
+                >
+                  <SelectTrigger className="h-9">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_COLUMN}>{t("import.noColumn")}</SelectItem>
+                    {table.headers.map((header, index) => (
+                      <SelectItem key={index} value={String(index)}>
+                        {header || t("import.column", { number: index + 1 })}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+            <div className="space-y-1">
+              <Label>{t("import.dateOrder")}</Label>
+              <Select
+                value={dateOrder}
+                onValueChange={(value) => {
+                  setDateOrder(value as ImportDateOrder);
+                  setRows(null);
+                }}
+              >
+                <SelectTrigger className="h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="dmy">DD/MM/YYYY</SelectItem>
+                  <SelectItem value="mdy">MM/DD/YYYY</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {!rows ? (
+            <Button
+              onClick={handlePreview}
+              disabled={REQUIRED_FIELDS.some((field) => mapping[field] === undefined)}
+            >
+              {t("import.preview")}
+            </Button>
+          ) : (
+            <div className="space-y-3">
+              <p className="text-sm text-muted-foreground">
+                {t("import.summary", {
+                  ready: rows.length - duplicateCount - invalidCount,
+                  duplicates: duplicateCount,
+                  invalid: invalidCount,
+                })}
+              </p>
+
+              <div className="max-h-80 overflow-auto rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-12">#</TableHead>
+                      <TableHead>{t("import.field.date")}</TableHead>
+                      <TableHead>{t("import.field.amount")}</TableHead>
+                      <TableHead>{t("import.field.category")}</TableHead>
+                      <TableHead>{t("import.field.mood")}</TableHead>
+                      <TableHead>{t("import.status.title")}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rows.slice(0, PREVIEW_LIMIT).map((row) => {
+                      const category = row.expense ? getCategory(row.expense.category) : undefined;
+                      const mood = row.expense ? getMood(row.expense.mood) : undefined;
+                      return (
+                        <TableRow key={row.line}>
+                          <TableCell className="text-muted-foreground">{row.line}</TableCell>
+                          <TableCell>{row.expense ? formatDate(row.expense.date) : "—"}</TableCell>
+                          <TableCell>
+                            {row.expense ? formatCurrency(row.expense.amount, row.expense.currency) : "—"}
+                          </TableCell>
+                          <TableCell>{category ? `${category.icon} ${category.name}` : "—"}</TableCell>
+                          <TableCell>{mood ? `${mood.emoji} ${mood.label}` : "—"}</TableCell>
+                          <TableCell className="space-y-1">
+                            <ImportRowStatus row={row} />
+                            {row.issues.length > 0 && (
+                              <p className="text-xs text-muted-foreground">
+                                {row.issues.map((issue) => t(`import.issue.${issue}`)).join(", ")}
+                              </p>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+              {rows.length > PREVIEW_LIMIT && (
+                <p className="text-xs text-muted-foreground">
+                  {t("import.previewLimited", { shown: PREVIEW_LIMIT, total: rows.length })}
+                </p>
+              )}
+
+              {duplicateCount > 0 && (
+                <div className="flex items-center justify-between gap-2">
+                  <Label htmlFor="skip-duplicates">{t("import.skipDuplicates")}</Label>
+                  <Switch id="skip-duplicates" checked={skipDuplicates} onCheckedChange={setSkipDuplicates} />
+                </div>
+              )}
+
+              <Button onClick={handleImport} disabled={importable.length === 0}>
+                {t("import.confirm", { count: importable.length })}
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
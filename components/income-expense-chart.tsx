@@ -9,6 +9,7 @@ import { formatCurrency } from '@/lib/utils';
 import { Expense, Income } from '@/types/expense';
 import { TrendingUp, TrendingDown, ChevronLeft, ChevronRight } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { getHomeAmount } from '@/data/currencies';
 
 interface IncomeExpenseChartProps {
   expenses: Expense[];
@@ -85,8 +86,8 @@ export function IncomeExpenseChart({ expenses = [], incomes = [], isLoading = fa
         return incDate >= startOfDay(date) && incDate <= endOfDay(date);
       });
       
-      const totalExpenses = dayExpenses.reduce((sum, exp) => sum + exp.amount, 0);
-      const totalIncome = dayIncomes.reduce((sum, inc) => sum + inc.amount, 0);
+      const totalExpenses = dayExpenses.reduce((sum, exp) => sum + getHomeAmount(exp), 0);
+      const totalIncome = dayIncomes.reduce((sum, inc) => sum + getHomeAmount(inc), 0);
       
       return {
         date: date.toISOString(),
@@ -2,11 +2,24 @@
 
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
-import { addIncome } from '@/lib/income';
+import { addIncome, updateIncome } from '@/lib/income';
 import { Income } from '@/types/expense';
 import { getSupabaseBrowserClient } from '@/lib/supabase';
 import { toast } from 'sonner';
 import { useSync } from '@/hooks/use-sync';
+import { createRecurringRule } from '@/lib/recurring';
+import { NO_REPEAT, RepeatSelect, type RepeatValue } from '@/components/repeat-select';
+import { useCurrency } from '@/hooks/use-currency';
+import { useLocale } from '@/hooks/use-locale';
+import { t } from '@/data/locales';
+import { currencies, DEFAULT_CURRENCY, getExchangeRate } from '@/data/currencies';
+import {
+  formatAmountInput,
+  formatAmountValue,
+  formatCurrency,
+  getCurrencySymbol,
+  parseAmountInput,
+} from '@/lib/currency-formatter';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -35,55 +48,56 @@ const INCOME_SOURCES = [
   'Investment',
   'Gift',
   'Other'
-];
+] as const;
+
+type IncomeSource = (typeof INCOME_SOURCES)[number];
+
+/** Display label for a stored income source; custom sources are shown as typed */
+export function getIncomeSourceLabel(source: string): string {
+  return (INCOME_SOURCES as readonly string[]).includes(source)
+    ? t(`incomeForm.sources.${source.toLowerCase() as Lowercase<IncomeSource>}`)
+    : source;
+}
 
 interface IncomeFormProps {
   onSuccess?: (newIncome?: Income) => void;
   initialData?: {
+    // When set, the form updates this income instead of adding a new one
+    id?: string;
     amount?: number;
+    currency?: string;
     source?: string;
     description?: string;
     date?: string;
   };
 }
 
-// Indonesian currency formatter
-const formatToIDR = (value: number): string => {
-  return new Intl.NumberFormat('id-ID', {
-    style: 'decimal',
-    minimumFractionDigits: 0,
-    maximumFractionDigits: 0,
-  }).format(value);
-};
-
 export function IncomeForm({ onSuccess, initialData }: IncomeFormProps) {
-  const [amount, setAmount] = useState(initialData?.amount ? formatToIDR(initialData.amount) : '');
-  const [source, setSource] = useState(initialData?.source || INCOME_SOURCES[0]);
+  const { homeCurrency } = useCurrency();
+  const { dateLocale } = useLocale();
+  // Edited incomes keep their stored currency (rows from before currencies
+  // existed are in DEFAULT_CURRENCY); only new ones follow the home currency
+  const [pickedCurrency, setPickedCurrency] = useState<string | null>(
+    initialData?.id ? initialData.currency || DEFAULT_CURRENCY : initialData?.currency || null
+  );
+  const currency = pickedCurrency || homeCurrency;
+  const [amount, setAmount] = useState(
+    initialData?.amount ? formatAmountValue(initialData.amount, currency) : ''
+  );
+  const [source, setSource] = useState<string>(initialData?.source || INCOME_SOURCES[0]);
   const [description, setDescription] = useState(initialData?.description || '');
   const [date, setDate] = useState<Date | undefined>(
     initialData?.date ? new Date(initialData.date) : new Date(new Date().setHours(0, 0, 0, 0))
   );
   const [isCalendarOpen, setIsCalendarOpen] = useState(false);
+  const [repeat, setRepeat] = useState<RepeatValue>(NO_REPEAT);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const { sync } = useSync();
+  const isEditing = Boolean(initialData?.id);
 
   const router = useRouter();
 
-  // Parse Indonesian formatted number
-  const parseIDRNumber = (value: string): number => {
-    if (!value) return 0;
-    // Remove all non-digit characters except commas
-    const cleaned = value.replace(/[^\d,]/g, '');
-    // Handle empty string case
-    if (!cleaned) return 0;
-    // Replace all dots and then replace comma with dot for decimal
-    const numberString = cleaned.replace(/\./g, '').replace(',', '.');
-    // Use Number() instead of parseFloat for better handling of large numbers
-    const parsed = Number(numberString);
-    return isNaN(parsed) ? 0 : parsed;
-  };
-
   // Helper function to sync data after successful income addition
   async function performPostSubmitSync() {
     try {
@@ -99,14 +113,14 @@ export function IncomeForm({ onSuccess, initialData }: IncomeFormProps) {
     e.preventDefault();
     setError(null);
     
-    const parsedAmount = parseIDRNumber(amount);
+    const parsedAmount = parseAmountInput(amount);
     if (!amount || isNaN(parsedAmount) || parsedAmount <= 0) {
-      setError('Masukkan jumlah yang valid');
+      setError(t('incomeForm.errors.amountInvalid'));
       return;
     }
 
     if (!date) {
-      setError('Please select a date');
+      setError(t('incomeForm.errors.dateRequired'));
       return;
     }
 
@@ -122,25 +136,71 @@ export function IncomeForm({ onSuccess, initialData }: IncomeFormProps) {
 
       const incomeData = {
         user_id: user.id,
-        amount: parseIDRNumber(amount),
+        amount: parsedAmount,
+        currency,
         source,
         description: description || undefined,
         date: format(date || new Date(), 'yyyy-MM-dd'),
       };
 
+      if (isEditing && initialData?.id) {
+        const updated = await updateIncome(initialData.id, {
+          amount: incomeData.amount,
+          currency: incomeData.currency,
+          source: incomeData.source,
+          description: incomeData.description,
+          date: incomeData.date,
+        });
+
+        if (!updated) {
+          throw new Error('Failed to update income');
+        }
+
+        await performPostSubmitSync();
+
+        toast.success(t('incomeForm.updated'), {
+          description: t('incomeForm.updatedDescription')
+        });
+
+        onSuccess?.(updated);
+        return;
+      }
+
       const result = await addIncome(incomeData);
       
       if (!result) {
         throw new Error('Failed to add income');
       }
 
+      if (repeat.frequency !== 'none') {
+        const rule = await createRecurringRule(
+          {
+            type: 'income',
+            frequency: repeat.frequency,
+            interval: 1,
+            startDate: incomeData.date,
+            endDate: repeat.endDate || undefined,
+            amount: incomeData.amount,
+            currency: incomeData.currency,
+            source: incomeData.source,
+            description: incomeData.description,
+          },
+          { alreadyRecorded: true }
+        );
+        if (!rule) {
+          toast.error(t('incomeForm.repeatFailed'), {
+            description: t('incomeForm.repeatFailedDescription'),
+          });
+        }
+      }
+
       // Then sync
       await performPostSubmitSync();
       await new Promise(resolve => setTimeout(resolve, 300)); // Small delay to ensure sync completes
 
       // Show success toast
-      toast.success("Pendapatan ditambahkan!", {
-        description: "Pendapatanmu berhasil dicatat dan sedang disinkronisasi."
+      toast.success(t('incomeForm.added'), {
+        description: t('incomeForm.addedDescription')
       });
 
       // Reset form if this is a new income (not editing)
@@ -148,6 +208,7 @@ export function IncomeForm({ onSuccess, initialData }: IncomeFormProps) {
         setAmount('');
         setDescription('');
         setDate(new Date());
+        setRepeat(NO_REPEAT);
       }
 
       // Create the new income object with the correct types
@@ -155,6 +216,7 @@ export function IncomeForm({ onSuccess, initialData }: IncomeFormProps) {
         id: result, // The addIncome function returns the ID as a string
         user_id: user.id,
         amount: incomeData.amount,
+        currency: incomeData.currency,
         source: incomeData.source,
         description: incomeData.description,
         date: incomeData.date,
@@ -168,12 +230,15 @@ export function IncomeForm({ onSuccess, initialData }: IncomeFormProps) {
       
       // No need to refresh the page since we're updating the state directly
     } catch (err) {
-      console.error('Error adding income:', err);
-      setError('Gagal menambahkan pendapatan. Silakan coba lagi.');
+      console.error(isEditing ? 'Error updating income:' : 'Error adding income:', err);
+      const message = isEditing
+        ? t('incomeForm.updateFailed')
+        : t('incomeForm.addFailed');
+      setError(message);
       
       // Show error toast
-      toast.error("Ups! Terjadi kesalahan", {
-        description: "Gagal menambahkan pendapatan. Silakan coba lagi."
+      toast.error(t('common.error'), {
+        description: message
       });
     } finally {
       setIsSubmitting(false);
@@ -189,9 +254,11 @@ export function IncomeForm({ onSuccess, initialData }: IncomeFormProps) {
       )}
       
       <div className="space-y-2">
-        <Label htmlFor="amount">Jumlah</Label>
+        <Label htmlFor="amount">{t('incomeForm.amount')}</Label>
         <div className="relative">
-          <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">Rp</span>
+          <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">
+            {getCurrencySymbol(currency)}
+          </span>
           <Input
             id="amount"
             type="text"
@@ -200,39 +267,55 @@ export function IncomeForm({ onSuccess, initialData }: IncomeFormProps) {
             onChange={(e) => {
               const value = e.target.value;
               // Allow numbers with optional thousands separators and decimal part
-              if (/^[0-9,.]*$/.test(value) || value === '') {
+              if (/^[0-9,.]*$/.test(value)) {
                 // Format the number as the user types
-                const num = parseIDRNumber(value);
-                if (!isNaN(num) && num >= 0) {
-                  setAmount(formatToIDR(num));
-                } else if (value === '') {
-                  setAmount('');
-                }
+                setAmount(formatAmountInput(value, currency));
               }
             }}
             onBlur={(e) => {
-              const num = parseIDRNumber(e.target.value);
-              if (!isNaN(num) && num >= 0) {
-                setAmount(formatToIDR(num));
+              if (e.target.value) {
+                setAmount(formatAmountValue(parseAmountInput(e.target.value), currency));
               }
             }}
-            className="pl-10 text-base h-12 bg-background"
+            className="pl-12 pr-24 text-base h-12 bg-background"
             placeholder="0"
             disabled={isSubmitting}
           />
+          <Select value={currency} onValueChange={setPickedCurrency} disabled={isSubmitting}>
+            <SelectTrigger
+              className="absolute right-1 top-1/2 -translate-y-1/2 h-10 w-[5.5rem] border-0 bg-transparent shadow-none"
+              aria-label={t('incomeForm.currency')}
+            >
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {currencies.map((option) => (
+                <SelectItem key={option.code} value={option.code}>
+                  {option.code}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
         </div>
+        {currency !== homeCurrency && (
+          <p className="text-xs text-muted-foreground">
+            {getExchangeRate(currency) === undefined
+              ? t('add.missingRate', { currency, home: homeCurrency })
+              : `≈ ${formatCurrency(parseAmountInput(amount) * getExchangeRate(currency)!, homeCurrency)}`}
+          </p>
+        )}
       </div>
 
       <div className="space-y-2">
-        <Label htmlFor="source">Sumber</Label>
+        <Label htmlFor="source">{t('incomeForm.source')}</Label>
         <Select value={source} onValueChange={setSource} disabled={isSubmitting}>
           <SelectTrigger className="h-12 bg-background">
-            <SelectValue placeholder="Select source" />
+            <SelectValue placeholder={t('incomeForm.sourcePlaceholder')} />
           </SelectTrigger>
           <SelectContent>
             {INCOME_SOURCES.map((src) => (
               <SelectItem key={src} value={src}>
-                {src}
+                {getIncomeSourceLabel(src)}
               </SelectItem>
             ))}
           </SelectContent>
@@ -240,7 +323,7 @@ export function IncomeForm({ onSuccess, initialData }: IncomeFormProps) {
       </div>
 
       <div className="space-y-2">
-        <Label htmlFor="date">Tanggal</Label>
+        <Label htmlFor="date">{t('incomeForm.date')}</Label>
         <Popover open={isCalendarOpen} onOpenChange={setIsCalendarOpen}>
           <PopoverTrigger asChild>
             <Button
@@ -253,7 +336,7 @@ export function IncomeForm({ onSuccess, initialData }: IncomeFormProps) {
               type="button"
             >
               <CalendarIcon className="mr-2 h-4 w-4" />
-              {date ? format(date, "PPP") : <span>Pilih tanggal</span>}
+              {date ? format(date, "PPP", { locale: dateLocale }) : <span>{t('incomeForm.datePlaceholder')}</span>}
             </Button>
           </PopoverTrigger>
           <PopoverContent className="w-auto p-0" align="start">
@@ -270,14 +353,26 @@ export function IncomeForm({ onSuccess, initialData }: IncomeFormProps) {
         </Popover>
       </div>
 
+      {!isEditing && (
+        <div className="space-y-2">
+          <Label>{t('incomeForm.repeat')}</Label>
+          <RepeatSelect
+            value={repeat}
+            onChange={setRepeat}
+            minDate={date ? format(date, 'yyyy-MM-dd') : undefined}
+            disabled={isSubmitting}
+          />
+        </div>
+      )}
+
       <div className="space-y-2">
-        <Label htmlFor="description">Keterangan (Opsional)</Label>
+        <Label htmlFor="description">{t('incomeForm.notes')}</Label>
         <Textarea
           id="description"
           value={description}
           onChange={(e) => setDescription(e.target.value)}
           className="min-h-[100px] bg-background"
-          placeholder="Tambahkan catatan atau deskripsi"
+          placeholder={t('incomeForm.notesPlaceholder')}
           disabled={isSubmitting}
         />
       </div>
@@ -293,10 +388,10 @@ export function IncomeForm({ onSuccess, initialData }: IncomeFormProps) {
               <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
               <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
             </svg>
-            {initialData ? 'Updating...' : 'Adding...'}
+            {isEditing ? t('incomeForm.updating') : t('incomeForm.adding')}
           </>
         ) : (
-          <>{initialData ? 'Update Income' : 'Add Income'}</>
+          <>{isEditing ? t('incomeForm.update') : t('incomeForm.add')}</>
         )}
       </Button>
     </form>
@@ -3,7 +3,7 @@
 import type React from "react"
 
 import { useState } from "react"
-import { moods } from "@/data/moods"
+import { useMoods } from "@/hooks/use-moods"
 import { cn } from "@/lib/utils"
 import type { MoodType } from "@/types/expense"
 import { Label } from "@/components/ui/label"
@@ -15,6 +15,8 @@ interface MoodSelectorProps {
 }
 
 export function MoodSelector({ value, onChange }: MoodSelectorProps) {
+  // Archived moods stay visible only for the expense already using them
+  const moods = useMoods({ includeArchived: true }).filter((mood) => !mood.archived || mood.id === value)
   const [reason, setReason] = useState<string>("")
 
   const handleMoodChange = (mood: MoodType) => {
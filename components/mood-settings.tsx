@@ -0,0 +1,166 @@
+"use client";
+
+import { useState } from "react";
+import { Archive, ArchiveRestore, Plus } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { t } from "@/data/locales";
+import { defaultMoods } from "@/data/moods";
+import { useMoods } from "@/hooks/use-moods";
+import { archiveMood, createMood, updateMood } from "@/lib/moods";
+import type { Mood } from "@/types/expense";
+
+const DEFAULT_NEW_COLOR = "#f59e0b";
+
+function MoodRow({ mood, disabled }: { mood: Mood; disabled: boolean }) {
+  const [label, setLabel] = useState(mood.label);
+  const [emoji, setEmoji] = useState(mood.emoji);
+  const [color, setColor] = useState(mood.color);
+
+  // Fields save on blur so each keystroke or color drag isn't queued for sync
+  const saveField = async (patch: Partial<Pick<Mood, "label" | "emoji" | "color">>) => {
+    const updated = await updateMood(mood.id, patch);
+    if (!updated) {
+      toast.error(t("moodSettings.saveFailed"));
+      setLabel(mood.label);
+      setEmoji(mood.emoji);
+      setColor(mood.color);
+    }
+  };
+
+  const toggleArchived = async () => {
+    const ok = await archiveMood(mood.id, !mood.archived);
+    if (!ok) toast.error(t("moodSettings.archiveFailed"));
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <Input
+        value={emoji}
+        onChange={(e) => setEmoji(e.target.value)}
+        onBlur={() => emoji.trim() && emoji !== mood.emoji && saveField({ emoji: emoji.trim() })}
+        className="h-9 w-12 px-2 text-center"
+        aria-label={t("moodSettings.emoji")}
+        disabled={disabled}
+      />
+      <Input
+        value={label}
+        onChange={(e) => setLabel(e.target.value)}
+        onBlur={() => label.trim() && label !== mood.label && saveField({ label: label.trim() })}
+        className="h-9 flex-1"
+        aria-label={t("moodSettings.label")}
+        disabled={disabled}
+      />
+      <input
+        type="color"
+        value={color}
+        onChange={(e) => setColor(e.target.value)}
+        onBlur={() => color !== mood.color && saveField({ color })}
+        className="h-9 w-9 cursor-pointer rounded border bg-transparent p-1"
+        aria-label={t("moodSettings.color")}
+        disabled={disabled}
+      />
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-9 w-9"
+        onClick={toggleArchived}
+        disabled={disabled}
+        aria-label={t(mood.archived ? "moodSettings.restore" : "moodSettings.archive")}
+      >
+        {mood.archived ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+      </Button>
+    </div>
+  );
+}
+
+export function MoodSettings() {
+  const moods = useMoods({ includeArchived: true });
+  const [newLabel, setNewLabel] = useState("");
+  const [newEmoji, setNewEmoji] = useState("");
+  const [newColor, setNewColor] = useState(DEFAULT_NEW_COLOR);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const custom = moods.filter((mood) => !defaultMoods.some((builtIn) => builtIn.id === mood.id));
+  const active = custom.filter((mood) => !mood.archived);
+  const archived = custom.filter((mood) => mood.archived);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newLabel.trim()) return;
+
+    setIsSaving(true);
+    const created = await createMood({ label: newLabel, emoji: newEmoji.trim(), color: newColor });
+    setIsSaving(false);
+
+    if (created) {
+      toast.success(t("moodSettings.added"), { description: `${created.emoji} ${created.label}` });
+      setNewLabel("");
+      setNewEmoji("");
+    } else {
+      toast.error(t("common.error"), {
+        description: t("moodSettings.addFailed"),
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        {defaultMoods.map((mood) => (
+          <span key={mood.id} className="rounded-full bg-muted px-3 py-1 text-sm">
+            {mood.emoji} {mood.label}
+          </span>
+        ))}
+      </div>
+
+      {active.length > 0 && (
+        <div className="space-y-2">
+          {active.map((mood) => (
+            <MoodRow key={`${mood.id}:${mood.label}:${mood.emoji}:${mood.color}`} mood={mood} disabled={isSaving} />
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={handleCreate} className="flex items-center gap-2">
+        <Input
+          value={newEmoji}
+          onChange={(e) => setNewEmoji(e.target.value)}
+          placeholder="🙂"
+          className="h-9 w-12 px-2 text-center"
+          aria-label={t("moodSettings.newEmoji")}
+          disabled={isSaving}
+        />
+        <Input
+          value={newLabel}
+          onChange={(e) => setNewLabel(e.target.value)}
+          placeholder={t("moodSettings.newLabel")}
+          className="h-9 flex-1"
+          aria-label={t("moodSettings.newLabelLabel")}
+          disabled={isSaving}
+        />
+        <input
+          type="color"
+          value={newColor}
+          onChange={(e) => setNewColor(e.target.value)}
+          className="h-9 w-9 cursor-pointer rounded border bg-transparent p-1"
+          aria-label={t("moodSettings.newColor")}
+          disabled={isSaving}
+        />
+        <Button type="submit" size="icon" className="h-9 w-9" disabled={isSaving || !newLabel.trim()} aria-label={t("moodSettings.add")}>
+          <Plus className="h-4 w-4" />
+        </Button>
+      </form>
+
+      {archived.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium text-muted-foreground">{t("moodSettings.archived")}</h4>
+          {archived.map((mood) => (
+            <MoodRow key={`${mood.id}:${mood.label}:${mood.emoji}:${mood.color}`} mood={mood} disabled={isSaving} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
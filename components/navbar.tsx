@@ -8,6 +8,7 @@ import { SyncIndicator } from "./sync-indicator"
 import { ModeToggle } from "./mode-toggle"
 import { cn } from "@/lib/utils"
 import { useAuth } from "@/context/auth-context"
+import { useLocale } from "@/hooks/use-locale"
 import { Button } from "@/components/ui/button"
 import {
   DropdownMenu,
@@ -23,6 +24,7 @@ import { motion, AnimatePresence } from "framer-motion"
 export default function Navbar() {
   const pathname = usePathname()
   const { user, signOut } = useAuth()
+  const { t } = useLocale()
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false)
   const [scrolled, setScrolled] = useState(false)
 
@@ -36,11 +38,11 @@ export default function Navbar() {
   }, [])
 
   const navItems = [
-    { href: "/", label: "Dashboard", icon: Home },
-    { href: "/income", label: "Income", icon: TrendingUp },
-    { href: "/insights", label: "Insights", icon: PieChart },
-    { href: "/reports", label: "Reports", icon: FileText },
-    { href: "/settings", label: "Settings", icon: Settings },
+    { href: "/", label: t("nav.dashboard"), icon: Home },
+    { href: "/income", label: t("nav.income"), icon: TrendingUp },
+    { href: "/insights", label: t("nav.insights"), icon: PieChart },
+    { href: "/reports", label: t("nav.reports"), icon: FileText },
+    { href: "/settings", label: t("nav.settings"), icon: Settings },
   ]
 
   // Don't show the main nav items on auth pages or login page
@@ -168,7 +170,7 @@ export default function Navbar() {
                     className="cursor-pointer rounded-lg hover:bg-destructive/10 hover:text-destructive"
                   >
                     <LogOut className="mr-2 h-4 w-4" />
-                    <span>Log out</span>
+                    <span>{t("nav.logout")}</span>
                   </DropdownMenuItem>
                 </DropdownMenuContent>
               </DropdownMenu>
@@ -206,7 +208,7 @@ export default function Navbar() {
                   : "text-muted-foreground hover:bg-primary/10 hover:text-primary"
               )}
             >
-              <Link href="/income" aria-label="Income">
+              <Link href="/income" aria-label={t("nav.income")}>
                 <TrendingUp className="h-4 w-4" />
               </Link>
             </Button>
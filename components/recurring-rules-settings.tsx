@@ -0,0 +1,146 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Pause, Play, SkipForward, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { getRecurrenceLabel } from "@/components/repeat-select";
+import { getCategory } from "@/data/categories";
+import { DEFAULT_CURRENCY } from "@/data/currencies";
+import { getDateLocale, t } from "@/data/locales";
+import {
+  deleteRecurringRule,
+  getRecurringRules,
+  setRecurringRulePaused,
+  skipRecurringOccurrence,
+} from "@/lib/recurring";
+import { getNextOccurrence, parseDateKey, toDateKey } from "@/lib/recurrence";
+import { formatCurrency } from "@/lib/currency-formatter";
+import { useCategories } from "@/hooks/use-categories";
+import { useLocale } from "@/hooks/use-locale";
+import type { SyncedRecurringRule } from "@/lib/db";
+
+const formatDateKey = (key: string) => format(parseDateKey(key), "d MMM yyyy", { locale: getDateLocale() });
+
+function RecurringRuleRow({ rule }: { rule: SyncedRecurringRule }) {
+  // Occurrences up to today are already created, so "next" means after that
+  const next = getNextOccurrence(rule, rule.lastMaterializedDate || toDateKey(new Date()));
+  const category = rule.type === "expense" ? getCategory(rule.category || "other") : undefined;
+  const title = rule.type === "expense"
+    ? `${category?.icon ?? ""} ${category?.name ?? rule.category}`.trim()
+    : rule.source || t("recurringSettings.income");
+
+  const togglePaused = async () => {
+    const ok = await setRecurringRulePaused(rule.id, !rule.paused);
+    if (!ok) toast.error(t("recurringSettings.pauseFailed"));
+  };
+
+  const skipNext = async () => {
+    if (!next) return;
+    const ok = await skipRecurringOccurrence(rule.id, next);
+    if (ok) {
+      toast.success(t("recurringSettings.skipped"), { description: formatDateKey(next) });
+    } else {
+      toast.error(t("recurringSettings.skipFailed"));
+    }
+  };
+
+  const remove = async () => {
+    const ok = await deleteRecurringRule(rule.id);
+    if (!ok) toast.error(t("recurringSettings.deleteFailed"));
+  };
+
+  return (
+    <div className="flex items-center gap-2 rounded-lg border p-3">
+      <div className="min-w-0 flex-1">
+        <p className="truncate text-sm font-medium">
+          {title} · {rule.type === "income" ? "+" : "-"}
+          {formatCurrency(rule.amount, rule.currency || DEFAULT_CURRENCY)}
+        </p>
+        <p className="text-xs text-muted-foreground">
+          {getRecurrenceLabel(rule.frequency, rule.interval)}
+          {rule.endDate && ` ${t("recurringSettings.until", { date: formatDateKey(rule.endDate) })}`}
+          {" · "}
+          {rule.paused
+            ? t("recurringSettings.paused")
+            : next
+              ? t("recurringSettings.next", { date: formatDateKey(next) })
+              : t("recurringSettings.ended")}
+          {rule.skipDates.length > 0 && ` · ${t("recurringSettings.skippedCount", { count: rule.skipDates.length })}`}
+        </p>
+      </div>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-9 w-9"
+        onClick={skipNext}
+        disabled={rule.paused || !next}
+        aria-label={t("recurringSettings.skipNext")}
+      >
+        <SkipForward className="h-4 w-4" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-9 w-9"
+        onClick={togglePaused}
+        aria-label={t(rule.paused ? "recurringSettings.resume" : "recurringSettings.pause")}
+      >
+        {rule.paused ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-9 w-9 text-destructive"
+        onClick={remove}
+        aria-label={t("recurringSettings.delete")}
+      >
+        <Trash2 className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
+
+export function RecurringRulesSettings() {
+  // Re-render when category names change
+  useCategories({ includeArchived: true });
+  // Re-render dates when the language changes
+  useLocale();
+  const [rules, setRules] = useState<SyncedRecurringRule[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadRules = useCallback(async () => {
+    const stored = await getRecurringRules();
+    setRules(stored.sort((a, b) => a.createdAt.localeCompare(b.createdAt)));
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadRules();
+    window.addEventListener("recurring:changed", loadRules);
+    window.addEventListener("recurring:materialized", loadRules);
+    return () => {
+      window.removeEventListener("recurring:changed", loadRules);
+      window.removeEventListener("recurring:materialized", loadRules);
+    };
+  }, [loadRules]);
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">{t("common.loading")}</p>;
+  }
+
+  if (rules.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">{t("recurringSettings.empty")}</p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {rules.map((rule) => (
+        <RecurringRuleRow key={`${rule.id}:${rule.updatedAt}`} rule={rule} />
+      ))}
+    </div>
+  );
+}
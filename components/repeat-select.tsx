@@ -0,0 +1,74 @@
+"use client";
+
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { t } from "@/data/locales";
+import { RECURRENCE_FREQUENCIES } from "@/lib/recurrence";
+import { cn } from "@/lib/utils";
+import type { RecurrenceFrequency } from "@/types/expense";
+
+/**
+ * "Every month", or "Every 3 months" for longer intervals
+ */
+export function getRecurrenceLabel(frequency: RecurrenceFrequency, interval = 1): string {
+  return interval > 1 ? t(`recurrence.everyN.${frequency}`, { count: interval }) : t(`recurrence.${frequency}`);
+}
+
+export interface RepeatValue {
+  frequency: RecurrenceFrequency | "none";
+  // YYYY-MM-DD; empty repeats forever
+  endDate: string;
+}
+
+export const NO_REPEAT: RepeatValue = { frequency: "none", endDate: "" };
+
+interface RepeatSelectProps {
+  value: RepeatValue;
+  onChange: (value: RepeatValue) => void;
+  // Earliest allowed end date (the first occurrence)
+  minDate?: string;
+  disabled?: boolean;
+  className?: string;
+}
+
+export function RepeatSelect({ value, onChange, minDate, disabled, className }: RepeatSelectProps) {
+  return (
+    <div className={cn("flex flex-col gap-2 sm:flex-row", className)}>
+      <Select
+        value={value.frequency}
+        onValueChange={(frequency) => onChange({ ...value, frequency: frequency as RepeatValue["frequency"] })}
+        disabled={disabled}
+      >
+        <SelectTrigger className="bg-background sm:flex-1" aria-label={t("recurrence.repeat")}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="none">{t("recurrence.none")}</SelectItem>
+          {RECURRENCE_FREQUENCIES.map((frequency) => (
+            <SelectItem key={frequency} value={frequency}>
+              {t(`recurrence.${frequency}`)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {value.frequency !== "none" && (
+        <Input
+          type="date"
+          value={value.endDate}
+          min={minDate}
+          onChange={(e) => onChange({ ...value, endDate: e.target.value })}
+          className="bg-background sm:flex-1"
+          aria-label={t("recurrence.endDate")}
+          title={t("recurrence.endDate")}
+          disabled={disabled}
+        />
+      )}
+    </div>
+  );
+}
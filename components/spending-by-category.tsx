@@ -2,8 +2,9 @@
 
 import { useState, useEffect } from "react";
 import type { Expense } from "@/types/expense";
-import { categories } from "@/data/categories";
+import { useCategories } from "@/hooks/use-categories";
 import { formatCurrency } from "@/lib/utils";
+import { getHomeAmount } from "@/data/currencies";
 
 interface SpendingByCategoryProps {
   expenses: Expense[];
@@ -11,6 +12,7 @@ interface SpendingByCategoryProps {
 
 export function SpendingByCategory({ expenses }: SpendingByCategoryProps) {
   const [mounted, setMounted] = useState(false);
+  const categories = useCategories({ includeArchived: true });
 
   useEffect(() => {
     setMounted(true);
@@ -31,13 +33,14 @@ export function SpendingByCategory({ expenses }: SpendingByCategoryProps) {
         (expense) => expense.category === category.id
       );
       const total = categoryExpenses.reduce(
-        (sum, expense) => sum + expense.amount,
+        (sum, expense) => sum + getHomeAmount(expense),
         0
       );
       return {
         id: category.id,
         name: category.name,
         icon: category.icon,
+        color: category.color,
         value: total,
       };
     })
@@ -77,7 +80,7 @@ export function SpendingByCategory({ expenses }: SpendingByCategoryProps) {
       <div className="space-y-4">
         {expensesByCategory.map((item, index) => {
           const percentage = (item.value / total) * 100;
-          const color = COLORS[index % COLORS.length];
+          const color = item.color || COLORS[index % COLORS.length];
 
           return (
             <div
@@ -4,6 +4,7 @@ import { useMemo, useState, useEffect } from "react";
 import { format, parseISO } from "date-fns";
 import { formatCurrency } from "@/lib/utils";
 import type { Expense } from "@/types/expense";
+import { getHomeAmount } from "@/data/currencies";
 
 const days = [
   { id: 0, name: "Minggu", short: "Min" },
@@ -48,7 +49,7 @@ export function SpendingByDay({ expenses }: SpendingByDayProps) {
           // Find the day in our dayData array (should always find a match)
           const dayItem = dayData.find(d => d.id === dayOfWeek);
           if (dayItem) {
-            dayItem.total += expense.amount;
+            dayItem.total += getHomeAmount(expense);
             dayItem.count++;
           }
         } catch (error) {
@@ -2,8 +2,10 @@
 
 import { useState, useEffect } from "react";
 import type { Expense } from "@/types/expense";
-import { moods } from "@/data/moods";
+import { getAverageMoodIntensity, MOOD_INTENSITY_MAX } from "@/data/moods";
+import { useMoods } from "@/hooks/use-moods";
 import { formatCurrency } from "@/lib/utils";
+import { getHomeAmount } from "@/data/currencies";
 
 interface SpendingByMoodChartProps {
   expenses: Expense[];
@@ -11,6 +13,7 @@ interface SpendingByMoodChartProps {
 
 export function SpendingByMoodChart({ expenses }: SpendingByMoodChartProps) {
   const [mounted, setMounted] = useState(false);
+  const moods = useMoods({ includeArchived: true });
 
   useEffect(() => {
     setMounted(true);
@@ -31,7 +34,7 @@ export function SpendingByMoodChart({ expenses }: SpendingByMoodChartProps) {
         (expense) => expense.mood === mood.id
       );
       const total = moodExpenses.reduce(
-        (sum, expense) => sum + expense.amount,
+        (sum, expense) => sum + getHomeAmount(expense),
         0
       );
       return {
@@ -40,6 +43,7 @@ export function SpendingByMoodChart({ expenses }: SpendingByMoodChartProps) {
         emoji: mood.emoji,
         value: total,
         color: mood.color,
+        averageIntensity: getAverageMoodIntensity(moodExpenses),
       };
     })
     .filter((item) => item.value > 0)
@@ -74,6 +78,14 @@ export function SpendingByMoodChart({ expenses }: SpendingByMoodChartProps) {
                 <div className="flex items-center">
                   <span className="mr-2">{item.emoji}</span>
                   <span>{item.name}</span>
+                  {item.averageIntensity !== null && (
+                    <span
+                      className="ml-2 text-xs text-muted-foreground"
+                      title="Average intensity"
+                    >
+                      {item.averageIntensity.toFixed(1)}/{MOOD_INTENSITY_MAX}
+                    </span>
+                  )}
                 </div>
                 <div className="text-sm font-medium">
                   {formatCurrency(item.value)} ({percentage.toFixed(0)}%)
@@ -10,6 +10,7 @@ import {
   endOfDay,
   eachDayOfInterval,
 } from "date-fns";
+import { getHomeAmount } from "@/data/currencies";
 
 interface SpendingOverTimeProps {
   expenses: Expense[];
@@ -54,7 +55,7 @@ export function SpendingOverTime({ expenses }: SpendingOverTimeProps) {
           date: format(date, "MMM dd"),
           shortDate: format(date, "M/d"),
           dayName: format(date, "EEE"),
-          total: dayExpenses.reduce((sum, exp) => sum + exp.amount, 0),
+          total: dayExpenses.reduce((sum, exp) => sum + getHomeAmount(exp), 0),
           count: dayExpenses.length
         };
       });
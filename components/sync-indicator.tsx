@@ -8,26 +8,16 @@ import { Loader2, Wifi, WifiOff, AlertCircle, Check } from "lucide-react";
 import { useEffect, useState } from "react";
 // Make sure to import the Tooltip component from your UI library
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
-
-const operationLabels = {
-  push: "Saving changes...",
-  pull: "Updating data...",
-  background: "Syncing in background...",
-  gamification: "Updating stats...",
-  null: "Everything is up to date",
-} as const;
-
-const errorMessages = {
-  connection: "Connection lost. Check your internet connection.",
-  server: "Server error. Please try again later.",
-  auth: "Authentication required. Please sign in again.",
-  unknown: "An unknown error occurred."
-} as const;
+import { useLocale } from "@/hooks/use-locale";
 
 export function SyncIndicator() {
-  const { isSyncing, currentOperation, lastError } = useSyncStatus();
+  const { isSyncing, currentOperation, lastError, pendingChanges } = useSyncStatus();
+  const { t } = useLocale();
   const [showError, setShowError] = useState(false);
-  const operationLabel = operationLabels[currentOperation || 'null'];
+  const operationLabel = t(`syncIndicator.operation.${currentOperation || 'idle'}`);
+  const pendingLabel = pendingChanges === 1
+    ? t('syncIndicator.pending.one')
+    : t('syncIndicator.pending.other', { count: pendingChanges });
   
   // Show error for 5 seconds if it's a connection error, otherwise show until manually cleared
   useEffect(() => {
@@ -46,7 +36,7 @@ export function SyncIndicator() {
     }
   }, [lastError]);
   
-  const errorMessage = lastError ? (lastError.type ? errorMessages[lastError.type] : errorMessages.unknown) : '';
+  const errorMessage = lastError ? t(`syncIndicator.error.${lastError.type || 'unknown'}`) : '';
 
   return (
     <TooltipProvider>
@@ -96,7 +86,15 @@ export function SyncIndicator() {
                   exit={{ opacity: 0, scale: 0.8 }}
                   className="relative flex items-center justify-center"
                 >
-                  <div className="h-2.5 w-2.5 rounded-full bg-green-500" />
+                  <div className={cn(
+                    "h-2.5 w-2.5 rounded-full",
+                    pendingChanges > 0 ? "bg-amber-500" : "bg-green-500"
+                  )} />
+                  {pendingChanges > 0 && (
+                    <span className="absolute -top-2 -right-2.5 min-w-[14px] h-[14px] px-0.5 rounded-full bg-amber-500 text-[9px] leading-[14px] text-center font-semibold text-white">
+                      {pendingChanges > 99 ? '99+' : pendingChanges}
+                    </span>
+                  )}
                 </motion.div>
               )}
             </AnimatePresence>
@@ -113,6 +111,11 @@ export function SyncIndicator() {
               <Loader2 className="h-4 w-4 animate-spin" />
               <span>{operationLabel}</span>
             </div>
+          ) : pendingChanges > 0 ? (
+            <div className="flex items-center gap-2">
+              <WifiOff className="h-4 w-4 text-amber-500 flex-shrink-0" />
+              <span>{pendingLabel}</span>
+            </div>
           ) : (
             <div className="flex items-center gap-2">
               <Check className="h-4 w-4 text-green-500" />
@@ -3,9 +3,30 @@
 import { useEffect, useState, useCallback, useRef } from "react";
 import { useSync, type SyncResult } from "@/hooks/use-sync";
 import { Button } from "./ui/button";
-import { RefreshCw, Wifi, WifiOff, Check, AlertCircle } from "lucide-react";
+import { RefreshCw, Wifi, WifiOff, Check, AlertCircle, GitMerge, RotateCcw, Trash2 } from "lucide-react";
 import { useRouter } from "next/navigation";
 import { debounce } from 'lodash';
+import {
+  resetPullCursors,
+  getSyncConflicts,
+  resolveSyncConflict,
+  getFailedSyncEntries,
+  retryFailedSyncEntry,
+  discardFailedSyncEntry,
+  CONFLICT_FIELDS,
+  type ConflictChoice,
+  type ConflictField,
+  type SyncConflict,
+  type SyncedExpense,
+  type SyncQueueEntry,
+  type SyncQueueTable,
+} from "@/lib/db";
+import { getCategory } from "@/data/categories";
+import { getMood, MOOD_INTENSITY_MAX } from "@/data/moods";
+import { formatCurrency } from "@/lib/currency-formatter";
+import { DEFAULT_CURRENCY } from "@/data/currencies";
+import { cn } from "@/lib/utils";
+import { getIntlLocale, t } from "@/data/locales";
 
 // Debounce time in milliseconds
 const SYNC_DEBOUNCE_TIME = 1000;
@@ -22,6 +43,163 @@ interface SyncManagerProps {
   showUI?: boolean;
 }
 
+function formatConflictValue(field: ConflictField, expense: SyncedExpense): string {
+  switch (field) {
+    case "amount":
+      return formatCurrency(expense.amount, expense.currency || DEFAULT_CURRENCY);
+    case "category": {
+      const category = getCategory(expense.category);
+      return category ? `${category.icon} ${category.name}` : expense.category;
+    }
+    case "mood": {
+      const mood = getMood(expense.mood);
+      const intensity = expense.moodIntensity != null ? ` (${expense.moodIntensity}/${MOOD_INTENSITY_MAX})` : "";
+      return `${mood.emoji} ${mood.label}${intensity}`;
+    }
+    case "notes":
+      return expense.notes || "—";
+  }
+}
+
+function allChoices(choice: ConflictChoice): Record<ConflictField, ConflictChoice> {
+  return CONFLICT_FIELDS.reduce(
+    (acc, field) => ({ ...acc, [field]: choice }),
+    {} as Record<ConflictField, ConflictChoice>
+  );
+}
+
+// Outbox entries that ran out of attempts, with a way to retry or drop each
+function FailedSyncEntries({ entries }: { entries: SyncQueueEntry[] }) {
+  const [busyId, setBusyId] = useState<number | null>(null);
+
+  const run = async (id: number, action: (id: number) => Promise<void>) => {
+    setBusyId(id);
+    try {
+      await action(id);
+    } catch (error) {
+      console.error("[SyncManager] Failed to update stuck sync entry:", error);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 text-sm font-medium text-destructive">
+        <AlertCircle className="h-4 w-4" />
+        {t("syncQueue.failedTitle", { count: entries.length })}
+      </div>
+      <p className="text-xs text-muted-foreground">{t("syncQueue.failedDescription")}</p>
+      {entries.map((entry) => (
+        <div key={entry.id} className="flex items-center gap-2 rounded-md border p-2 text-xs">
+          <div className="min-w-0 flex-1">
+            <p className="font-medium">
+              {t(`syncQueue.table.${entry.table_name as SyncQueueTable}`)} · {t(`syncQueue.action.${entry.action}`)}
+            </p>
+            {entry.last_error && <p className="truncate text-muted-foreground">{entry.last_error}</p>}
+          </div>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            onClick={() => run(entry.id!, retryFailedSyncEntry)}
+            disabled={busyId === entry.id}
+            aria-label={t("syncQueue.retry")}
+          >
+            <RotateCcw className="h-3.5 w-3.5" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7 text-destructive"
+            onClick={() => run(entry.id!, discardFailedSyncEntry)}
+            disabled={busyId === entry.id}
+            aria-label={t("syncQueue.discard")}
+          >
+            <Trash2 className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+interface ConflictResolverProps {
+  conflict: SyncConflict;
+  onResolve: (recordId: string, choices: Record<ConflictField, ConflictChoice>) => Promise<void>;
+}
+
+// One conflicting expense: pick a whole version or choose per field
+function ConflictResolver({ conflict, onResolve }: ConflictResolverProps) {
+  const [choices, setChoices] = useState<Record<ConflictField, ConflictChoice>>(allChoices("local"));
+  const [isResolving, setIsResolving] = useState(false);
+
+  const resolve = async (resolved: Record<ConflictField, ConflictChoice>) => {
+    setIsResolving(true);
+    try {
+      await onResolve(conflict.record_id, resolved);
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
+  const differing = CONFLICT_FIELDS.filter(
+    (field) => (conflict.local[field] ?? "") !== (conflict.remote[field] ?? "")
+  );
+
+  return (
+    <div className="rounded-md border p-3 space-y-2">
+      <div className="text-xs text-muted-foreground">
+        {t("syncManager.conflict.description", { date: conflict.local.date })}
+      </div>
+
+      <div className="grid grid-cols-[auto_1fr_1fr] gap-x-2 gap-y-1 text-xs items-center">
+        <span />
+        <span className="font-medium">{t("syncManager.conflict.thisDevice")}</span>
+        <span className="font-medium">{t("syncManager.conflict.otherDevice")}</span>
+        {CONFLICT_FIELDS.map((field) => (
+          <div key={field} className="contents">
+            <span className="text-muted-foreground">{t(`syncManager.conflict.field.${field}`)}</span>
+            {(["local", "remote"] as const).map((side) => {
+              const expense = side === "local" ? conflict.local : conflict.remote;
+              const isDifferent = differing.includes(field);
+              return (
+                <button
+                  key={side}
+                  type="button"
+                  disabled={!isDifferent || isResolving}
+                  onClick={() => setChoices((prev) => ({ ...prev, [field]: side }))}
+                  className={cn(
+                    "truncate rounded px-2 py-1 text-left border",
+                    isDifferent && choices[field] === side
+                      ? "border-primary bg-primary/10"
+                      : "border-transparent",
+                    !isDifferent && "text-muted-foreground"
+                  )}
+                >
+                  {formatConflictValue(field, expense)}
+                </button>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <Button size="sm" variant="outline" disabled={isResolving} onClick={() => resolve(allChoices("local"))}>
+          {t("syncManager.conflict.keepMine")}
+        </Button>
+        <Button size="sm" variant="outline" disabled={isResolving} onClick={() => resolve(allChoices("remote"))}>
+          {t("syncManager.conflict.keepTheirs")}
+        </Button>
+        <Button size="sm" disabled={isResolving} onClick={() => resolve(choices)}>
+          {t("syncManager.conflict.saveMerge")}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
 export function SyncManager({ showUI = false }: SyncManagerProps = {}) {
   const { sync, isSyncing } = useSync();
   const isMounted = useRef(true);
@@ -40,11 +218,13 @@ export function SyncManager({ showUI = false }: SyncManagerProps = {}) {
   });
   const [pendingSyncCount, setPendingSyncCount] = useState<number | null>(null);
   const [isLoadingPendingCount, setIsLoadingPendingCount] = useState(true);
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [failedEntries, setFailedEntries] = useState<SyncQueueEntry[]>([]);
   const router = useRouter();
 
   const performSync = async (manual = false): Promise<SyncResult> => {
     setSyncStatus('syncing');
-    setSyncMessage(manual ? 'Syncing your data...' : 'Syncing in background...');
+    setSyncMessage(t(manual ? 'syncManager.syncingManual' : 'syncManager.syncingBackground'));
     
     try {
       const result = await sync({ force: manual });
@@ -68,7 +248,11 @@ export function SyncManager({ showUI = false }: SyncManagerProps = {}) {
           
           if (syncedItems > 0) {
             setSyncStatus('success');
-            setSyncMessage(`Synced ${syncedItems} item${syncedItems !== 1 ? 's' : ''}`);
+            setSyncMessage(
+              syncedItems === 1
+                ? t('syncManager.syncedCount.one')
+                : t('syncManager.syncedCount.other', { count: syncedItems })
+            );
           } else {
             // If no items were synced, don't show success message
             setSyncStatus('idle');
@@ -84,7 +268,7 @@ export function SyncManager({ showUI = false }: SyncManagerProps = {}) {
       } else if (result.error) {
         setLastError(result.error);
         setSyncStatus('error');
-        setSyncMessage('Sync failed. Tap to retry.');
+        setSyncMessage(t('syncManager.failed'));
       } else if (result.message) {
         console.log("[Sync]", result.message);
         setSyncStatus('idle');
@@ -98,10 +282,10 @@ export function SyncManager({ showUI = false }: SyncManagerProps = {}) {
       return result;
     } catch (error) {
       const errorMessage =
-        error instanceof Error ? error.message : "Unknown error";
+        error instanceof Error ? error.message : t("syncManager.unknownError");
       setLastError(errorMessage);
       setSyncStatus('error');
-      setSyncMessage('Sync failed. Tap to retry.');
+      setSyncMessage(t('syncManager.failed'));
       return { success: false, error: errorMessage };
     } finally {
       // Reset status after a delay if not already changed
@@ -122,6 +306,16 @@ export function SyncManager({ showUI = false }: SyncManagerProps = {}) {
     }
   };
 
+  // Escape hatch for delta pulls: forget the pull cursors and re-download everything
+  const performFullResync = async (): Promise<SyncResult> => {
+    try {
+      await resetPullCursors();
+    } catch (error) {
+      console.error("[Sync] Failed to reset pull cursors:", error);
+    }
+    return performSync(true);
+  };
+
   // Use ref to track if initial sync has been performed
   const initialSyncDone = useRef(false);
   const syncInProgress = useRef(false);
@@ -227,6 +421,57 @@ export function SyncManager({ showUI = false }: SyncManagerProps = {}) {
     };
   }, [lastSync]);
 
+  // Keep the conflict list in step with pulls and resolutions
+  useEffect(() => {
+    if (typeof window === "undefined") return;
+
+    let active = true;
+    const loadConflicts = () => {
+      getSyncConflicts().then((list) => {
+        if (active) setConflicts(list);
+      });
+    };
+
+    loadConflicts();
+    window.addEventListener("sync:conflicts", loadConflicts);
+    return () => {
+      active = false;
+      window.removeEventListener("sync:conflicts", loadConflicts);
+    };
+  }, []);
+
+  // Entries parked after too many failed attempts
+  useEffect(() => {
+    if (typeof window === "undefined") return;
+
+    let active = true;
+    const loadFailedEntries = () => {
+      getFailedSyncEntries().then((list) => {
+        if (active) setFailedEntries(list);
+      });
+    };
+
+    loadFailedEntries();
+    window.addEventListener("sync:queue", loadFailedEntries);
+    return () => {
+      active = false;
+      window.removeEventListener("sync:queue", loadFailedEntries);
+    };
+  }, []);
+
+  const handleResolveConflict = async (
+    recordId: string,
+    choices: Record<ConflictField, ConflictChoice>
+  ) => {
+    try {
+      await resolveSyncConflict(recordId, choices);
+      router.refresh();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : t("syncManager.unknownError");
+      setLastError(errorMessage);
+    }
+  };
+
   const handleManualSync = useCallback(() => {
     if (!syncInProgress.current) {
       debouncedSync(true);
@@ -266,23 +511,23 @@ export function SyncManager({ showUI = false }: SyncManagerProps = {}) {
   }, []);
 
   const formatTimeAgo = (date: Date | null) => {
-    if (!date) return "Never";
+    if (!date) return t("syncManager.never");
     
     const seconds = Math.floor((Date.now() - date.getTime()) / 1000);
     const minutes = Math.floor(seconds / 60);
     const hours = Math.floor(minutes / 60);
 
-    if (seconds < 60) return "Just now";
-    if (minutes < 60) return `${minutes}m ago`;
-    if (hours < 24) return `${hours}h ago`;
-    return date.toLocaleDateString();
+    if (seconds < 60) return t("syncManager.justNow");
+    if (minutes < 60) return t("syncManager.minutesAgo", { count: minutes });
+    if (hours < 24) return t("syncManager.hoursAgo", { count: hours });
+    return date.toLocaleDateString(getIntlLocale());
   };
 
   if (showUI) {
     return (
       <div className="space-y-4">
         <div className="flex justify-between items-center">
-          <span className="font-medium">Sync Status</span>
+          <span className="font-medium">{t("syncManager.title")}</span>
           <Button
             variant="outline"
             size="sm"
@@ -303,9 +548,9 @@ export function SyncManager({ showUI = false }: SyncManagerProps = {}) {
               <RefreshCw className="h-4 w-4" />
             )}
             <span className="min-w-[60px] text-left">
-              {syncStatus === 'syncing' ? 'Syncing...' : 
-               syncStatus === 'success' ? 'Done' : 
-               syncStatus === 'error' ? 'Error' : 'Sync Now'}
+              {syncStatus === 'syncing' ? t('syncManager.syncing') : 
+               syncStatus === 'success' ? t('syncManager.done') : 
+               syncStatus === 'error' ? t('syncManager.error') : t('syncManager.syncNow')}
             </span>
           </Button>
         </div>
@@ -320,7 +565,7 @@ export function SyncManager({ showUI = false }: SyncManagerProps = {}) {
                 {syncMessage}
               </span>
             ) : lastSync ? (
-              <span>Last sync: {formatTimeAgo(lastSync)}</span>
+              <span>{t("syncManager.lastSync", { time: formatTimeAgo(lastSync) })}</span>
             ) : null}
           </div>
 
@@ -331,44 +576,75 @@ export function SyncManager({ showUI = false }: SyncManagerProps = {}) {
               ) : (
                 <WifiOff className="h-3 w-3 text-red-500" />
               )}
-              <span>{isOnline ? "Online" : "Offline"}</span>
+              <span>{isOnline ? t("syncManager.online") : t("syncManager.offline")}</span>
             </div>
             <div className="text-xs text-muted-foreground space-y-0.5">
-              <div className="text-green-500">✓ Synced: {stats.syncedLocal + stats.syncedRemote} items</div>
+              <div className="text-green-500">✓ {t("syncManager.syncedItems", { count: stats.syncedLocal + stats.syncedRemote })}</div>
               {isLoadingPendingCount ? (
-                <div className="text-muted-foreground/50">Checking for updates...</div>
+                <div className="text-muted-foreground/50">{t("syncManager.checking")}</div>
               ) : pendingSyncCount !== null && pendingSyncCount > 0 ? (
-                <div className="text-amber-500">↻ {pendingSyncCount} item{pendingSyncCount !== 1 ? 's' : ''} to sync</div>
+                <div className="text-amber-500">↻ {pendingSyncCount === 1
+                    ? t("syncManager.pending.one")
+                    : t("syncManager.pending.other", { count: pendingSyncCount })}</div>
               ) : (
-                <div className="text-green-500">✓ Up to date</div>
+                <div className="text-green-500">✓ {t("syncManager.upToDate")}</div>
               )}
             </div>
           </div>
 
           <div className="text-xs mt-1 space-y-1">
             {stats.syncedLocal > 0 && (
-              <div>• Uploaded: {stats.syncedLocal} items</div>
+              <div>• {t("syncManager.uploaded", { count: stats.syncedLocal })}</div>
             )}
 
             {stats.syncedRemote > 0 && (
-              <div>• Downloaded: {stats.syncedRemote} items</div>
+              <div>• {t("syncManager.downloaded", { count: stats.syncedRemote })}</div>
             )}
 
-            {stats.skipped > 0 && <div>• Skipped: {stats.skipped} items</div>}
+            {stats.skipped > 0 && <div>• {t("syncManager.skipped", { count: stats.skipped })}</div>}
           </div>
 
           {lastError && (
             <div className="text-destructive text-xs mt-1">
-              Error: {lastError}
+              {t("syncManager.errorDetail", { message: lastError })}
             </div>
           )}
 
           {!isOnline && (
             <div className="text-amber-500 text-xs mt-1">
-              • Offline - changes will sync when back online
+              • {t("syncManager.offlineHint")}
             </div>
           )}
         </div>
+
+        {conflicts.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex items-center gap-2 text-sm font-medium text-amber-600">
+              <GitMerge className="h-4 w-4" />
+              {t("syncManager.conflicts", { count: conflicts.length })}
+            </div>
+            {conflicts.map((conflict) => (
+              <ConflictResolver
+                key={`${conflict.record_id}:${conflict.remote.updatedAt}`}
+                conflict={conflict}
+                onResolve={handleResolveConflict}
+              />
+            ))}
+          </div>
+        )}
+
+        {failedEntries.length > 0 && <FailedSyncEntries entries={failedEntries} />}
+
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={performFullResync}
+          disabled={isSyncing || !isOnline}
+          className="h-7 px-2 text-xs text-muted-foreground"
+        >
+          <RefreshCw className="h-3 w-3 mr-1" />
+          {t("syncManager.fullResync")}
+        </Button>
       </div>
     );
   }
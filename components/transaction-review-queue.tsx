@@ -0,0 +1,197 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Check, X } from "lucide-react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { t } from "@/data/locales";
+import { useCategories } from "@/hooks/use-categories";
+import { useLocale } from "@/hooks/use-locale";
+import { useMoods } from "@/hooks/use-moods";
+import { formatCurrency } from "@/lib/currency-formatter";
+import { loadCategorizer, type CategorySuggestion } from "@/lib/category-rules";
+import {
+  commitPendingTransaction,
+  discardPendingTransaction,
+  getPendingTransactions,
+} from "@/lib/import-queue";
+import { cn, formatDate } from "@/lib/utils";
+import type { PendingTransaction } from "@/lib/db";
+import type { MoodType } from "@/types/expense";
+
+// Enough to work through in one sitting without a long scroll
+const VISIBLE_LIMIT = 10;
+
+function ReviewRow({
+  transaction,
+  suggestion,
+}: {
+  transaction: PendingTransaction;
+  suggestion: CategorySuggestion | null;
+}) {
+  const categories = useCategories();
+  const moods = useMoods();
+  const [category, setCategory] = useState(suggestion?.category ?? "other");
+  const [mood, setMood] = useState<MoodType | null>(null);
+  const [reason, setReason] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    if (!mood) return;
+    setIsSaving(true);
+    const ok = await commitPendingTransaction(transaction.id, { category, mood, moodReason: reason });
+    if (!ok) {
+      toast.error(t("reviewQueue.saveFailed"));
+      setIsSaving(false);
+    }
+  };
+
+  const handleDiscard = async () => {
+    const ok = await discardPendingTransaction(transaction.id);
+    if (!ok) toast.error(t("reviewQueue.discardFailed"));
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border p-3">
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <p className="truncate text-sm font-medium">{transaction.description || t("reviewQueue.noDescription")}</p>
+          <p className="text-xs text-muted-foreground">
+            {formatDate(transaction.date)} · {transaction.source}
+          </p>
+        </div>
+        <div className="shrink-0 text-right">
+          <p className="text-sm font-semibold">{formatCurrency(transaction.amount, transaction.currency)}</p>
+          {transaction.duplicate_of && (
+            <Badge variant="outline" className="border-amber-500/50 text-amber-600">
+              {t("reviewQueue.possibleDuplicate")}
+            </Badge>
+          )}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-1.5" role="radiogroup" aria-label={t("reviewQueue.mood")}>
+        {moods.map((option) => (
+          <button
+            key={option.id}
+            type="button"
+            role="radio"
+            aria-checked={mood === option.id}
+            onClick={() => setMood(option.id)}
+            className={cn(
+              "flex items-center gap-1 rounded-full border px-2.5 py-1 text-xs transition-colors",
+              mood === option.id ? "border-primary bg-primary/10" : "hover:bg-muted"
+            )}
+          >
+            <span>{option.emoji}</span>
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid gap-2 sm:grid-cols-2">
+        <Select value={category} onValueChange={setCategory}>
+          <SelectTrigger className="h-9" aria-label={t("reviewQueue.category")}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {categories.map((option) => (
+              <SelectItem key={option.id} value={option.id}>
+                <span className="mr-2">{option.icon}</span>
+                {option.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          placeholder={t("reviewQueue.reasonPlaceholder")}
+          className="h-9"
+        />
+      </div>
+
+      {suggestion && category === suggestion.category && (
+        <p className="text-xs text-muted-foreground">
+          {suggestion.rule
+            ? t("categoryRules.suggestedByRule", { rule: suggestion.rule.name || t("categoryRules.unnamed") })
+            : t("categoryRules.suggestedFromHistory")}
+        </p>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button variant="ghost" size="sm" onClick={handleDiscard} disabled={isSaving}>
+          <X className="mr-1 h-4 w-4" />
+          {t("reviewQueue.discard")}
+        </Button>
+        <Button size="sm" onClick={handleSave} disabled={!mood || isSaving}>
+          <Check className="mr-1 h-4 w-4" />
+          {mood ? t("reviewQueue.save") : t("reviewQueue.pickMood")}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Imported statement transactions waiting for a mood. Nothing becomes an
+ * expense until the user says how they felt about it.
+ */
+export function TransactionReviewQueue() {
+  // Re-render labels when the language changes
+  useLocale();
+  const [transactions, setTransactions] = useState<PendingTransaction[]>([]);
+  const [suggestions, setSuggestions] = useState<Record<string, CategorySuggestion | null>>({});
+
+  // Suggestions are ready before rows mount, since each row starts from one
+  const loadQueue = useCallback(async () => {
+    const [pending, suggestCategory] = await Promise.all([getPendingTransactions(), loadCategorizer()]);
+    setSuggestions(
+      Object.fromEntries(
+        pending.map((tx) => [
+          tx.id,
+          suggestCategory({ notes: tx.description, amount: tx.amount, currency: tx.currency, date: tx.date }),
+        ])
+      )
+    );
+    setTransactions(pending);
+  }, []);
+
+  useEffect(() => {
+    loadQueue();
+    window.addEventListener("import-queue:changed", loadQueue);
+    window.addEventListener("category-rules:changed", loadQueue);
+    return () => {
+      window.removeEventListener("import-queue:changed", loadQueue);
+      window.removeEventListener("category-rules:changed", loadQueue);
+    };
+  }, [loadQueue]);
+
+  if (transactions.length === 0) return null;
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <h3 className="font-medium">{t("reviewQueue.title", { count: transactions.length })}</h3>
+        <p className="text-sm text-muted-foreground">{t("reviewQueue.description")}</p>
+      </div>
+      {transactions.slice(0, VISIBLE_LIMIT).map((transaction) => (
+        <ReviewRow key={transaction.id} transaction={transaction} suggestion={suggestions[transaction.id] ?? null} />
+      ))}
+      {transactions.length > VISIBLE_LIMIT && (
+        <p className="text-xs text-muted-foreground">
+          {t("reviewQueue.more", { count: transactions.length - VISIBLE_LIMIT })}
+        </p>
+      )}
+    </div>
+  );
+}
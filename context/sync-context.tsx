@@ -2,6 +2,7 @@
 "use client";
 
 import React, { createContext, useContext, useState, useEffect } from "react";
+import { getPendingSyncCount } from "@/lib/db";
 
 type SyncOperation = 'push' | 'pull' | 'background' | 'gamification' | null;
 type SyncErrorType = 'connection' | 'server' | 'auth' | 'unknown' | null;
@@ -15,6 +16,7 @@ type SyncContextType = {
     message: string;
     timestamp: Date;
   } | null;
+  pendingChanges: number;
   setError: (error: { type: SyncErrorType; message: string } | null) => void;
   clearError: () => void;
 };
@@ -24,6 +26,7 @@ const SyncContext = createContext<SyncContextType>({
   currentOperation: null,
   lastSyncTime: null,
   lastError: null,
+  pendingChanges: 0,
   setError: () => {},
   clearError: () => {}
 });
@@ -45,6 +48,23 @@ export function SyncStatusProvider({
     message: string;
     timestamp: Date;
   } | null>(null);
+  const [pendingChanges, setPendingChanges] = useState(0);
+
+  // Track how many local mutations are still waiting in the sync queue
+  useEffect(() => {
+    getPendingSyncCount().then(setPendingChanges).catch(() => {});
+
+    const handleQueueChange = (e: CustomEvent<{ pending: number }>) => {
+      setPendingChanges(e.detail.pending);
+    };
+
+    // @ts-ignore - Custom event with detail
+    window.addEventListener("sync:queue", handleQueueChange);
+    return () => {
+      // @ts-ignore
+      window.removeEventListener("sync:queue", handleQueueChange);
+    };
+  }, []);
 
   useEffect(() => {
     const handleSyncStart = (e: CustomEvent<{ operation: SyncOperation }>) => {
@@ -98,6 +118,7 @@ export function SyncStatusProvider({
       currentOperation,
       lastSyncTime,
       lastError,
+      pendingChanges,
       setError,
       clearError
     }}>
@@ -1,56 +1,104 @@
 import type { Category } from "@/types/expense";
 
-export const categories: Category[] = [
+// Built-in categories every user starts with. Users can rename, recolor,
+// reorder and archive them, and add their own (see lib/categories.ts).
+export const defaultCategories: Category[] = [
   {
     id: "food",
     name: "Food & Dining",
     icon: "🍔",
+    color: "#f97316",
+    order: 0,
   },
   {
     id: "transport",
     name: "Transportation",
     icon: "🚗",
+    color: "#3b82f6",
+    order: 1,
   },
   {
     id: "shopping",
     name: "Shopping",
     icon: "🛍️",
+    color: "#ec4899",
+    order: 2,
   },
   {
     id: "entertainment",
     name: "Entertainment",
     icon: "🎬",
+    color: "#a855f7",
+    order: 3,
   },
   {
     id: "health",
     name: "Health & Fitness",
     icon: "💊",
+    color: "#22c55e",
+    order: 4,
   },
   {
     id: "bills",
     name: "Bills & Utilities",
     icon: "📱",
+    color: "#eab308",
+    order: 5,
   },
   {
     id: "education",
     name: "Education",
     icon: "📚",
+    color: "#06b6d4",
+    order: 6,
   },
   {
     id: "travel",
     name: "Travel",
     icon: "✈️",
+    color: "#14b8a6",
+    order: 7,
   },
   {
     id: "other",
     name: "Other",
     icon: "📦",
+    color: "#6b7280",
+    order: 8,
   },
 ];
 
+// The user's effective categories (built-ins merged with their own),
+// kept in memory so lookups stay synchronous
+let registry: Category[] = defaultCategories;
+const listeners = new Set<() => void>();
+
+export function setCategoryRegistry(list: Category[]): void {
+  registry = [...list].sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Subscribes to category changes; returns the unsubscribe function
+ */
+export function subscribeToCategories(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Returns categories in the user's order. Archived ones are left out unless
+ * asked for (e.g. to label old expenses).
+ */
+export function getCategories({ includeArchived = false }: { includeArchived?: boolean } = {}): Category[] {
+  return includeArchived ? registry : registry.filter((category) => !category.archived);
+}
+
 export function getCategory(id: string): Category | undefined {
   return (
-    categories.find((category) => category.id === id) ||
-    categories.find((c) => c.id === "other")
+    registry.find((category) => category.id === id) ||
+    registry.find((c) => c.id === "other")
   );
 }
@@ -0,0 +1,85 @@
+// Amounts recorded before currencies existed are in Rupiah, and it stays the
+// home currency until the user picks another one in settings
+export const DEFAULT_CURRENCY = "IDR";
+
+export interface CurrencyInfo {
+  code: string;
+  name: string;
+  // Decimal places shown when formatting
+  fractionDigits: number;
+}
+
+export const currencies: CurrencyInfo[] = [
+  { code: "IDR", name: "Rupiah Indonesia", fractionDigits: 0 },
+  { code: "USD", name: "US Dollar", fractionDigits: 2 },
+  { code: "EUR", name: "Euro", fractionDigits: 2 },
+  { code: "GBP", name: "British Pound", fractionDigits: 2 },
+  { code: "SGD", name: "Singapore Dollar", fractionDigits: 2 },
+  { code: "MYR", name: "Ringgit Malaysia", fractionDigits: 2 },
+  { code: "THB", name: "Thai Baht", fractionDigits: 2 },
+  { code: "PHP", name: "Philippine Peso", fractionDigits: 2 },
+  { code: "VND", name: "Vietnamese Dong", fractionDigits: 0 },
+  { code: "JPY", name: "Japanese Yen", fractionDigits: 0 },
+  { code: "KRW", name: "Korean Won", fractionDigits: 0 },
+  { code: "CNY", name: "Chinese Yuan", fractionDigits: 2 },
+  { code: "AUD", name: "Australian Dollar", fractionDigits: 2 },
+  { code: "SAR", name: "Saudi Riyal", fractionDigits: 2 },
+];
+
+export function getCurrencyInfo(code: string): CurrencyInfo {
+  return currencies.find((currency) => currency.code === code) ?? { code, name: code, fractionDigits: 2 };
+}
+
+// The home currency and exchange rates (see lib/currency.ts), kept in memory
+// so conversions stay synchronous inside charts and totals
+let homeCurrency = DEFAULT_CURRENCY;
+let rates: Record<string, number> = {};
+const listeners = new Set<() => void>();
+
+export function setCurrencyRegistry(home: string, nextRates: Record<string, number>): void {
+  homeCurrency = home;
+  rates = { ...nextRates, [home]: 1 };
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Subscribes to home currency and rate changes; returns the unsubscribe function
+ */
+export function subscribeToCurrency(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function getHomeCurrency(): string {
+  return homeCurrency;
+}
+
+/**
+ * Units of the home currency per 1 unit of `currency`, or undefined when no
+ * rate has been entered
+ */
+export function getExchangeRate(currency: string): number | undefined {
+  return currency === homeCurrency ? 1 : rates[currency];
+}
+
+export function getExchangeRates(): Record<string, number> {
+  return rates;
+}
+
+/**
+ * Converts an amount to the home currency. Without a rate the amount is
+ * returned unchanged, so totals stay visible; settings flag the missing rate.
+ */
+export function convertToHome(amount: number, currency: string = DEFAULT_CURRENCY): number {
+  const rate = getExchangeRate(currency);
+  return rate === undefined ? amount : amount * rate;
+}
+
+/**
+ * An expense's or income's amount in the home currency
+ */
+export function getHomeAmount(record: { amount: number; currency?: string }): number {
+  return convertToHome(record.amount, record.currency || DEFAULT_CURRENCY);
+}
@@ -0,0 +1,82 @@
+import type { Locale as DateLocale } from "date-fns";
+import { enUS, id as idDateLocale } from "date-fns/locale";
+import { en } from "./messages/en";
+import { id, type MessageKey, type Messages } from "./messages/id";
+
+export type { MessageKey };
+
+export type AppLocale = "id" | "en";
+
+// The app started out in Indonesian, so it stays the default until the user
+// picks another language in settings
+export const DEFAULT_LOCALE: AppLocale = "id";
+
+export interface LocaleInfo {
+  code: AppLocale;
+  // Shown in the language picker, in the language itself
+  name: string;
+  // Used for Intl number and date formatting
+  intlLocale: string;
+  dateLocale: DateLocale;
+  // The language AI prompts ask the model to answer in
+  aiLanguage: string;
+}
+
+export const locales: LocaleInfo[] = [
+  { code: "id", name: "Bahasa Indonesia", intlLocale: "id-ID", dateLocale: idDateLocale, aiLanguage: "Bahasa Indonesia" },
+  { code: "en", name: "English", intlLocale: "en-US", dateLocale: enUS, aiLanguage: "English" },
+];
+
+const catalogues: Record<AppLocale, Messages> = { id, en };
+
+export function isAppLocale(value: unknown): value is AppLocale {
+  return locales.some((locale) => locale.code === value);
+}
+
+// The active language (see lib/locale.ts), kept in memory so t() and the
+// formatters stay synchronous
+let currentLocale: AppLocale = DEFAULT_LOCALE;
+const listeners = new Set<() => void>();
+
+export function setLocaleRegistry(locale: AppLocale): void {
+  currentLocale = locale;
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Subscribes to language changes; returns the unsubscribe function
+ */
+export function subscribeToLocale(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function getLocale(): AppLocale {
+  return currentLocale;
+}
+
+export function getLocaleInfo(locale: AppLocale = currentLocale): LocaleInfo {
+  return locales.find((info) => info.code === locale) ?? locales[0];
+}
+
+export function getIntlLocale(): string {
+  return getLocaleInfo().intlLocale;
+}
+
+export function getDateLocale(): DateLocale {
+  return getLocaleInfo().dateLocale;
+}
+
+/**
+ * Looks up a UI string in the active language, filling {placeholders} from
+ * `params`
+ */
+export function t(key: MessageKey, params?: Record<string, string | number>): string {
+  const template = catalogues[currentLocale][key] ?? id[key];
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in params ? String(params[name]) : match
+  );
+}
@@ -0,0 +1,562 @@
+import type { Messages } from "./id";
+
+// English UI strings; keys mirror ./id.ts
+export const en: Messages = {
+  "common.cancel": "Cancel",
+  "common.loading": "Loading...",
+  "common.error": "Oops! Something went wrong",
+  "common.tryAgain": "Something went wrong. Please try again.",
+
+  "nav.dashboard": "Dashboard",
+  "nav.income": "Income",
+  "nav.insights": "Insights",
+  "nav.reports": "Reports",
+  "nav.settings": "Settings",
+  "nav.add": "Add expense",
+  "nav.logout": "Log out",
+
+  "settings.title": "Settings",
+  "settings.subtitle": "Manage your app preferences",
+  "settings.appearance.title": "Appearance",
+  "settings.appearance.description": "Customize how EmoSpend looks on your device",
+  "settings.appearance.darkMode": "Dark Mode",
+  "settings.appearance.darkModeHint": "Switch between light and dark themes",
+  "settings.language.title": "Language",
+  "settings.language.description": "Language for app text, date and number formats, and AI answers",
+  "settings.language.changed": "Language changed",
+  "settings.language.failed": "Failed to change the language",
+  "settings.categories.title": "Categories",
+  "settings.categories.description": "Rename, recolor, reorder or archive categories, or add your own",
+  "settings.moods.title": "Moods",
+  "settings.moods.description": "Add your own moods alongside the built-in ones",
+  "settings.currency.title": "Currency",
+  "settings.currency.description": "Pick your home currency and set exchange rates for the others you use",
+  "settings.budgets.title": "Monthly Budgets",
+  "settings.budgets.description": "Set a spending limit for each category",
+  "settings.recurring.title": "Recurring",
+  "settings.recurring.description": "Expenses and incomes that are added automatically on a schedule",
+  "settings.categoryRules.title": "Auto-categorization",
+  "settings.categoryRules.description": "Rules that pick a category for new and imported expenses",
+  "settings.data.title": "Data Management",
+  "settings.data.description": "Manage your expense data",
+  "settings.data.clearTitle": "Clear All Data",
+  "settings.data.clearDescription": "Delete all your expense data. This action cannot be undone.",
+  "settings.data.clearButton": "Clear All Data",
+  "settings.data.dialogTitle": "⚠️ Warning: Delete All Data",
+  "settings.data.dialogIntro": "This action will permanently delete:",
+  "settings.data.dialogExpenses": "All your expense records",
+  "settings.data.dialogIncomes": "All your income records",
+  "settings.data.dialogCategories": "Any associated categories and tags",
+  "settings.data.dialogWarning": "This action cannot be undone. Your data will be permanently removed from both this device and our servers.",
+  "settings.data.clearing": "Clearing...",
+  "settings.data.confirmClear": "Yes, clear all data",
+  "settings.data.clearFailed": "Failed to clear data. Please try again.",
+  "settings.account.title": "Account",
+  "settings.account.description": "Manage your account settings",
+  "settings.account.email": "Email",
+  "settings.about.title": "About EmoSpend",
+  "settings.about.version": "Version {version}",
+  "settings.about.description": "EmoSpend helps you track your expenses and understand your emotional spending patterns.",
+  "settings.about.privacy": "Privacy Policy",
+  "settings.about.terms": "Terms of Service",
+
+  "expenseList.deleted": "Expense deleted",
+  "expenseList.deletedDescription": "The expense has been removed from your records.",
+  "expenseList.deleteFailed": "Failed to delete expense",
+  "expenseList.deleteFailedDescription": "Something went wrong while deleting the expense. Please try again.",
+  "expenseList.edit": "Edit expense",
+  "expenseList.delete": "Delete expense",
+  "expenseList.unknownCategory": "Unknown Category",
+  "expenseList.showLess": "Show less",
+  "expenseList.showAll": "Show all {count} expenses",
+
+  "add.titleNew": "Add New Expense",
+  "add.titleEdit": "Edit Expense",
+  "add.subtitle": "Record your spending and how you feel",
+  "add.amount": "Amount",
+  "add.currency": "Currency",
+  "add.missingRate": "No {currency} rate yet; set one in Settings so {home} totals are accurate.",
+  "add.category": "Category",
+  "add.categoryPlaceholder": "Select a category",
+  "add.date": "Date",
+  "add.datePlaceholder": "Pick a date",
+  "add.mood": "How are you feeling?",
+  "add.repeat": "Repeat",
+  "add.notes": "Notes (Optional)",
+  "add.notesPlaceholder": "Add any other details...",
+  "add.saving": "Saving...",
+  "add.savingExpense": "Saving expense...",
+  "add.save": "Save Expense",
+  "add.saveChanges": "Save Changes",
+  "add.errors.amountPositive": "Amount must be positive",
+  "add.errors.amountMax": "Amount is too large, the maximum is 99,999,999.99",
+  "add.errors.amountRequired": "Please enter an amount",
+  "add.errors.amountInvalid": "Please enter a valid amount",
+  "add.errors.amountFormat": "Invalid amount format. Example: 50,000",
+  "add.errors.amountCheck": "Invalid amount. Please check it again.",
+  "add.errors.categoryRequired": "Select a category",
+  "add.errors.moodRequired": "Select your mood",
+  "add.errors.attention": "Heads up",
+  "add.errors.completeForm": "Please complete the form first",
+  "add.errors.fillAmount": "Please enter the expense amount",
+  "add.errors.pickCategory": "Please select an expense category",
+  "add.notFound": "Expense not found",
+  "add.notFoundDescription": "This expense may have been deleted.",
+  "add.added": "Expense added!",
+  "add.updated": "Expense updated!",
+  "add.addedDescription": "Added an expense of {amount}",
+  "add.updatedDescription": "Updated the expense to {amount}",
+  "add.addFailed": "Failed to add expense",
+  "add.updateFailed": "Failed to update expense",
+  "add.updateFailedDescription": "Failed to update the expense. Please try again.",
+  "add.repeatFailed": "Repeat could not be saved",
+  "add.repeatFailedDescription": "The expense was saved, but it won't repeat automatically.",
+  "add.budget.overTitle": "This expense goes over budget",
+  "add.budget.nearTitle": "Budget almost used up",
+  "add.budget.near": "After this, {percent}% of this month's {category} budget is used. {remaining} left of {limit}.",
+  "add.budget.over": "This month's {category} budget ({limit}) will be exceeded by {over}. Left before this expense: {left}.",
+  "add.budget.saveAnyway": "Save anyway",
+
+  "currencySettings.home": "Home currency",
+  "currencySettings.homeHint": "Totals, charts and exports are shown in this currency. Budget limits are not converted.",
+  "currencySettings.homeChanged": "Home currency changed",
+  "currencySettings.rateMissing": "No exchange rate yet",
+  "currencySettings.rateMissingDescription": "Add a {currency} rate against {home} first.",
+  "currencySettings.missingRates": "No rate for {currencies}. These amounts are counted unconverted until a rate is added.",
+  "currencySettings.rateFor": "Rate for {currency}",
+  "currencySettings.saveFailed": "Failed to save the rate",
+  "currencySettings.saveFailedDescription": "Failed to save the rate. Please try again.",
+  "currencySettings.removeFailed": "Failed to remove the rate",
+  "currencySettings.remove": "Remove rate",
+  "currencySettings.newCurrency": "Currency",
+  "currencySettings.newRate": "Value in {home}",
+  "currencySettings.add": "Add rate",
+
+  "chat.title": "Ask Your Spending",
+  "chat.description": "Ask questions about your spending in this period. Answers are based on your own data.",
+  "chat.placeholder": "Ask something about your spending...",
+  "chat.send": "Send",
+  "chat.clear": "Clear conversation",
+  "chat.thinking": "Thinking...",
+  "chat.failed": "Couldn't get an answer",
+  "chat.interrupted": "The answer was cut off. Please try again.",
+  "chat.unavailable": "No AI service is configured.",
+  "chat.suggestion.lastWeek": "Why did I spend so much last week?",
+  "chat.suggestion.compareMood": "Compare my stressed spending to the previous period",
+  "chat.suggestion.topCategory": "Which category takes most of my money?",
+
+  "history.tab": "History",
+  "history.title": "AI Insight History",
+  "history.description": "Compare how the AI's read of your spending habits changed over time",
+  "history.empty": "No saved insights for this period yet. Generate some on the Insights tab.",
+  "history.savedAt": "Saved {date}",
+  "history.regenerate": "Regenerate",
+  "history.generatedBy": "{date} · by {model}",
+  "history.showAnalysis": "Show detailed analysis",
+  "history.hideAnalysis": "Hide detailed analysis",
+  "history.delete": "Remove from history",
+  "history.deleteFailed": "Failed to remove from history",
+  "history.period.week": "Weekly",
+  "history.period.month": "Monthly",
+  "history.period.year": "Yearly",
+
+  "insightCards.action": "Suggested step",
+  "insightCards.severity.positive": "Positive",
+  "insightCards.severity.info": "Info",
+  "insightCards.severity.warning": "Watch out",
+  "insightCards.severity.critical": "Important",
+
+  "import.title": "Import Expenses",
+  "import.description": "Bring in history from a spreadsheet, another tracker or a bank or e-wallet statement, or restore from an Excel file exported from Reports.",
+  "import.chooseFile": "Choose a CSV, Excel, OFX or QIF file",
+  "import.readFailed": "Could not read the file",
+  "import.empty": "The file has no data rows",
+  "import.rowCount": "{count} rows",
+  "import.noColumn": "— None —",
+  "import.column": "Column {number}",
+  "import.dateOrder": "Date format",
+  "import.field.date": "Date",
+  "import.field.amount": "Amount",
+  "import.field.currency": "Currency",
+  "import.field.category": "Category",
+  "import.field.mood": "Mood",
+  "import.field.moodReason": "Mood reason",
+  "import.field.notes": "Notes",
+  "import.preview": "Preview",
+  "import.summary": "{ready} ready, {duplicates} likely duplicates, {invalid} invalid",
+  "import.previewLimited": "Showing {shown} of {total} rows",
+  "import.status.title": "Status",
+  "import.status.ready": "Ready",
+  "import.status.duplicate": "Duplicate?",
+  "import.status.invalid": "Invalid",
+  "import.issue.invalidDate": "unrecognised date",
+  "import.issue.invalidAmount": "invalid amount",
+  "import.issue.negativeAmount": "negative amount, likely a refund or transfer",
+  "import.issue.unknownCategory": "unknown category, using Other",
+  "import.issue.unknownMood": "unknown mood, using Neutral",
+  "import.skipDuplicates": "Skip likely duplicates",
+  "import.confirm": "Import {count} expenses",
+  "import.importing": "Importing {done} of {total}...",
+  "import.done": "{count} expenses imported",
+  "import.partial": "{imported} imported, {failed} failed",
+  "import.statement.detected": "This looks like a {name} statement. Send its spending to the review queue to add a mood to each, or match the columns below.",
+  "import.statement.sendToReview": "Send to review queue",
+  "import.statement.empty": "No spending could be read from this file",
+  "import.statement.queued": "{count} transactions added to the review queue",
+  "import.statement.queuedDetail": "{skipped} already imported, {credits} incoming payments ignored",
+  "import.workbook.detected": "EmoSpend export workbook",
+  "import.workbook.unrecognised": "This workbook wasn't exported from EmoSpend",
+  "import.workbook.expenses": "Expenses",
+  "import.workbook.incomes": "Incomes",
+  "import.workbook.counts": "{created} new, {updated} updated, {skipped} skipped",
+  "import.workbook.failed": "{count} failed",
+  "import.workbook.invalid": "{count} unreadable rows were ignored",
+  "import.workbook.confirm": "Apply {count} changes",
+  "import.workbook.upToDate": "Everything is already up to date",
+  "import.workbook.reportTitle": "Import report",
+  "import.workbook.close": "Done",
+
+  "backup.title": "Backup & Restore",
+  "backup.description": "Save a copy of all data on this device to a JSON file, independent of the server.",
+  "backup.passphrase": "Backup passphrase (optional)",
+  "backup.passphrasePlaceholder": "Leave empty for an unencrypted file",
+  "backup.passphraseHint": "Encrypted files can only be restored with the same passphrase. A lost passphrase cannot be recovered.",
+  "backup.export": "Download backup",
+  "backup.exporting": "Preparing...",
+  "backup.exported": "Backup downloaded",
+  "backup.exportFailed": "Could not create the backup",
+  "backup.chooseFile": "Restore from file",
+  "backup.unlock": "Unlock with passphrase",
+  "backup.summary": "Backup from {date}: {expenses} expenses, {incomes} incomes, {other} other settings",
+  "backup.mode": "Restore mode",
+  "backup.mode.merge": "Merge",
+  "backup.mode.replace": "Replace",
+  "backup.mode.mergeHint": "Adds missing records and keeps whichever copy was changed most recently.",
+  "backup.mode.replaceHint": "Deletes the data on this device and replaces it with the backup.",
+  "backup.replaceTitle": "Replace all data on this device?",
+  "backup.replaceWarning": "Local data and changes that haven't synced yet will be deleted. The backup's records will be uploaded again.",
+  "backup.restore": "Restore",
+  "backup.restoring": "Restoring...",
+  "backup.restored": "{restored} records restored, {skipped} skipped",
+  "backup.restoreFailed": "Could not restore the backup",
+  "backup.errors.invalidFile": "This isn't a valid EmoSpend backup",
+  "backup.errors.unsupportedVersion": "This backup was made by a newer version of the app",
+  "backup.errors.passphraseRequired": "This backup is encrypted. Enter its passphrase and unlock it.",
+  "backup.errors.wrongPassphrase": "Wrong passphrase or damaged file",
+
+  "reviewQueue.title": "Review transactions ({count})",
+  "reviewQueue.description": "How did you feel about this spending? Pick a mood to save it as an expense.",
+  "reviewQueue.noDescription": "No description",
+  "reviewQueue.possibleDuplicate": "May already be recorded",
+  "reviewQueue.mood": "Mood",
+  "reviewQueue.category": "Category",
+  "reviewQueue.reasonPlaceholder": "Reason (optional)",
+  "reviewQueue.pickMood": "Pick a mood first",
+  "reviewQueue.save": "Save",
+  "reviewQueue.discard": "Discard",
+  "reviewQueue.saveFailed": "Could not save the transaction",
+  "reviewQueue.discardFailed": "Could not discard the transaction",
+  "reviewQueue.more": "{count} more waiting",
+
+  "categoryRules.empty": "No rules yet. Categories are still suggested from your past expenses with similar notes.",
+  "categoryRules.add": "Add rule",
+  "categoryRules.edit": "Edit rule",
+  "categoryRules.delete": "Delete rule",
+  "categoryRules.moveUp": "Move up",
+  "categoryRules.moveDown": "Move down",
+  "categoryRules.enabled": "Rule enabled",
+  "categoryRules.unnamed": "Rule",
+  "categoryRules.name": "Name (optional)",
+  "categoryRules.namePlaceholder": "e.g. Rides",
+  "categoryRules.notesContains": "Notes contain",
+  "categoryRules.notesPlaceholder": "e.g. grab, gojek",
+  "categoryRules.category": "Category",
+  "categoryRules.amountAbove": "Amount above",
+  "categoryRules.amountBelow": "Amount below",
+  "categoryRules.weekdays": "On these days",
+  "categoryRules.timeOfDay": "Time entered",
+  "categoryRules.time.any": "Any time",
+  "categoryRules.time.morning": "Morning (5–11)",
+  "categoryRules.time.afternoon": "Afternoon (11–17)",
+  "categoryRules.time.evening": "Evening (17–22)",
+  "categoryRules.time.night": "Night (22–5)",
+  "categoryRules.conditionsHint": "Every condition you fill in must match. The first matching rule in the list wins.",
+  "categoryRules.summary.notes": "notes contain “{keywords}”",
+  "categoryRules.summary.above": "over {amount}",
+  "categoryRules.summary.below": "under {amount}",
+  "categoryRules.test": "Test on past expenses",
+  "categoryRules.test.none": "No past expenses match this rule",
+  "categoryRules.test.summary": "Matches {matched} past expenses, {agreeing} of them already in {category}",
+  "categoryRules.test.conflicts": "Recent matches with another category:",
+  "categoryRules.save": "Save rule",
+  "categoryRules.saveFailed": "Could not save the rule",
+  "categoryRules.deleteFailed": "Could not delete the rule",
+  "categoryRules.suggestedByRule": "Suggested by rule “{rule}”",
+  "categoryRules.suggestedFromHistory": "Suggested from your past expenses",
+
+  "syncQueue.failedTitle": "Changes that could not be uploaded ({count})",
+  "syncQueue.failedDescription": "These stopped retrying after several failed attempts. Retry them, or discard them to keep them on this device only.",
+  "syncQueue.retry": "Retry",
+  "syncQueue.discard": "Discard",
+  "syncQueue.table.expenses": "Expense",
+  "syncQueue.table.incomes": "Income",
+  "syncQueue.table.budgets": "Budget",
+  "syncQueue.table.categories": "Category",
+  "syncQueue.table.moods": "Mood",
+  "syncQueue.table.recurringRules": "Recurring rule",
+  "syncQueue.action.create": "added",
+  "syncQueue.action.update": "changed",
+  "syncQueue.action.delete": "deleted",
+
+  "categorySettings.icon": "Icon",
+  "categorySettings.name": "Name",
+  "categorySettings.color": "Color",
+  "categorySettings.moveUp": "Move up",
+  "categorySettings.moveDown": "Move down",
+  "categorySettings.archive": "Archive",
+  "categorySettings.restore": "Restore",
+  "categorySettings.saveFailed": "Failed to save the category",
+  "categorySettings.archiveFailed": "Failed to archive the category",
+  "categorySettings.cannotArchive": "This category can't be archived",
+  "categorySettings.reorderFailed": "Failed to reorder the categories",
+  "categorySettings.added": "Category added!",
+  "categorySettings.addFailed": "Failed to add the category. Please try again.",
+  "categorySettings.newIcon": "New category icon",
+  "categorySettings.newName": "New category",
+  "categorySettings.newNameLabel": "New category name",
+  "categorySettings.newColor": "New category color",
+  "categorySettings.add": "Add category",
+  "categorySettings.archived": "Archived",
+  "categorySettings.archivedHint": "Archived categories are hidden when adding expenses but still label your past ones.",
+
+  "moodSettings.emoji": "Emoji",
+  "moodSettings.label": "Label",
+  "moodSettings.color": "Color",
+  "moodSettings.archive": "Archive",
+  "moodSettings.restore": "Restore",
+  "moodSettings.saveFailed": "Failed to save the mood",
+  "moodSettings.archiveFailed": "Failed to archive the mood",
+  "moodSettings.added": "Mood added!",
+  "moodSettings.addFailed": "Failed to add the mood. Please try again.",
+  "moodSettings.newEmoji": "New mood emoji",
+  "moodSettings.newLabel": "New mood, e.g. Anxious",
+  "moodSettings.newLabelLabel": "New mood label",
+  "moodSettings.newColor": "New mood color",
+  "moodSettings.add": "Add mood",
+  "moodSettings.archived": "Archived",
+
+  "budgetSettings.previousMonth": "Previous month",
+  "budgetSettings.nextMonth": "Next month",
+  "budgetSettings.hint": "Limits carry over to the following months until you change them. Leave empty for no limit.",
+  "budgetSettings.spentOf": "{spent} of {limit} spent",
+  "budgetSettings.save": "Save budgets",
+  "budgetSettings.saving": "Saving...",
+  "budgetSettings.saved": "Budgets saved!",
+  "budgetSettings.savedDescription": "Monthly limits for {month} updated.",
+  "budgetSettings.saveFailed": "Failed to save the budgets. Please try again.",
+
+  "budgetAlerts.overTitle": "Budget exceeded",
+  "budgetAlerts.warningTitle": "Budget almost used up",
+  "budgetAlerts.overDescription": "You're {amount} over your {limit} budget this month.",
+  "budgetAlerts.warningDescription": "{percent}% used, {remaining} of {limit} left this month.",
+  "budgetAlerts.dismiss": "Dismiss budget alert",
+
+  "ai.notEnoughData.addMore": "Add more expenses to get personalized insights into your spending patterns.",
+  "ai.notEnoughData.needMore": "We need more data to analyze your emotional spending habits.",
+  "ai.notEnoughData.trackMore": "Track a few more expenses to unlock AI-powered insights!",
+  "ai.status.signIn": "Please sign in to use the AI features.",
+  "ai.status.tooManyRequests": "Too many AI requests. Please try again later.",
+  "ai.status.unavailable": "The AI service couldn't be reached. Please try again later.",
+  "ai.analysis.notEnoughData": "Not enough expense data for a detailed analysis.",
+  "ai.analysis.failed": "A system error occurred while generating the detailed analysis.",
+
+  "recurrence.none": "Doesn't repeat",
+  "recurrence.repeat": "Repeat",
+  "recurrence.endDate": "Ends on (optional)",
+  "recurrence.daily": "Every day",
+  "recurrence.weekly": "Every week",
+  "recurrence.monthly": "Every month",
+  "recurrence.yearly": "Every year",
+  "recurrence.everyN.daily": "Every {count} days",
+  "recurrence.everyN.weekly": "Every {count} weeks",
+  "recurrence.everyN.monthly": "Every {count} months",
+  "recurrence.everyN.yearly": "Every {count} years",
+
+  "recurringSettings.income": "Income",
+  "recurringSettings.until": "until {date}",
+  "recurringSettings.paused": "Paused",
+  "recurringSettings.next": "Next {date}",
+  "recurringSettings.ended": "Ended",
+  "recurringSettings.skippedCount": "{count} skipped",
+  "recurringSettings.skipNext": "Skip next",
+  "recurringSettings.pause": "Pause",
+  "recurringSettings.resume": "Resume",
+  "recurringSettings.delete": "Delete",
+  "recurringSettings.skipped": "Skipped",
+  "recurringSettings.pauseFailed": "Failed to change the schedule",
+  "recurringSettings.skipFailed": "Failed to skip the occurrence",
+  "recurringSettings.deleteFailed": "Failed to delete the schedule",
+  "recurringSettings.empty": "No recurring rules yet. Choose a repeat option when adding an expense or income.",
+
+  "ai.insights.notConfigured": "The AI setup is incomplete, so insights can't be generated.",
+  "ai.insights.noApiKey": "No API key for the AI service was found.",
+  "ai.insights.failed": "We had trouble analyzing your spending patterns.",
+  "ai.insights.tryLater": "Try again later for personalized insights into your emotional spending.",
+  "ai.analysis.notConfigured": "No API key for the AI service is configured, so the detailed analysis can't be generated.",
+  "ai.analysis.providersFailed": "Couldn't generate the detailed analysis. The AI service couldn't be reached or returned an invalid response.",
+  "ai.chat.notConfigured": "No API key for the AI service is configured, so chat can't be used.",
+  "ai.chat.providersFailed": "Couldn't get an answer. The AI service couldn't be reached.",
+
+  "incomeForm.amount": "Amount",
+  "incomeForm.currency": "Currency",
+  "incomeForm.source": "Source",
+  "incomeForm.sourcePlaceholder": "Select a source",
+  "incomeForm.sources.salary": "Salary",
+  "incomeForm.sources.freelance": "Freelance",
+  "incomeForm.sources.business": "Business",
+  "incomeForm.sources.investment": "Investment",
+  "incomeForm.sources.gift": "Gift",
+  "incomeForm.sources.other": "Other",
+  "incomeForm.date": "Date",
+  "incomeForm.datePlaceholder": "Pick a date",
+  "incomeForm.repeat": "Repeat",
+  "incomeForm.notes": "Notes (Optional)",
+  "incomeForm.notesPlaceholder": "Add a note or description",
+  "incomeForm.adding": "Adding...",
+  "incomeForm.updating": "Updating...",
+  "incomeForm.add": "Add Income",
+  "incomeForm.update": "Update Income",
+  "incomeForm.errors.amountInvalid": "Please enter a valid amount",
+  "incomeForm.errors.dateRequired": "Please select a date",
+  "incomeForm.added": "Income added!",
+  "incomeForm.addedDescription": "Your income was recorded and is being synced.",
+  "incomeForm.updated": "Income updated!",
+  "incomeForm.updatedDescription": "Your income changes were saved.",
+  "incomeForm.addFailed": "Failed to add the income. Please try again.",
+  "incomeForm.updateFailed": "Failed to update the income. Please try again.",
+  "incomeForm.repeatFailed": "The repeat couldn't be saved",
+  "incomeForm.repeatFailedDescription": "The income was saved, but it won't repeat automatically.",
+
+  "incomePage.back": "Back",
+  "incomePage.addTab": "Add Income",
+  "incomePage.addTabShort": "Add",
+  "incomePage.listTab": "View Incomes",
+  "incomePage.listTabShort": "View",
+  "incomePage.addTitle": "Add New Income",
+  "incomePage.historyTitle": "Income History",
+  "incomePage.add": "Add Income",
+  "incomePage.current": "Current",
+  "incomePage.entries.one": "1 entry",
+  "incomePage.entries.other": "{count} entries",
+  "incomePage.addedOn": "Added: {date}",
+  "incomePage.edit": "Edit income",
+  "incomePage.delete": "Delete income",
+  "incomePage.seeMore": "See More",
+  "incomePage.empty": "No income records found",
+  "incomePage.emptyHint": "Start tracking your income to see it here",
+  "incomePage.addFirst": "Add your first income",
+  "incomePage.editTitle": "Edit Income",
+  "incomePage.editDescription": "Correct the amount, source, date or notes of this income.",
+  "incomePage.deleteTitle": "Are you absolutely sure?",
+  "incomePage.deleteDescription": "This action cannot be undone. This will permanently delete this income record.",
+  "incomePage.deleteConfirm": "Delete",
+  "incomePage.deleting": "Deleting...",
+  "incomePage.deleted": "Income deleted!",
+  "incomePage.deletedDescription": "The income was deleted and the change is being synced.",
+  "incomePage.deleteFailed": "Failed to delete the income. Please try again.",
+
+  "syncIndicator.operation.push": "Saving changes...",
+  "syncIndicator.operation.pull": "Updating data...",
+  "syncIndicator.operation.background": "Syncing in background...",
+  "syncIndicator.operation.gamification": "Updating stats...",
+  "syncIndicator.operation.idle": "Everything is up to date",
+  "syncIndicator.error.connection": "Connection lost. Check your internet connection.",
+  "syncIndicator.error.server": "Server error. Please try again later.",
+  "syncIndicator.error.auth": "Authentication required. Please sign in again.",
+  "syncIndicator.error.unknown": "An unknown error occurred.",
+  "syncIndicator.pending.one": "1 change waiting to sync",
+  "syncIndicator.pending.other": "{count} changes waiting to sync",
+
+  "syncManager.title": "Sync Status",
+  "syncManager.syncNow": "Sync Now",
+  "syncManager.syncing": "Syncing...",
+  "syncManager.done": "Done",
+  "syncManager.error": "Error",
+  "syncManager.syncingManual": "Syncing your data...",
+  "syncManager.syncingBackground": "Syncing in background...",
+  "syncManager.syncedCount.one": "Synced 1 item",
+  "syncManager.syncedCount.other": "Synced {count} items",
+  "syncManager.failed": "Sync failed. Tap to retry.",
+  "syncManager.unknownError": "Unknown error",
+  "syncManager.never": "Never",
+  "syncManager.justNow": "Just now",
+  "syncManager.minutesAgo": "{count}m ago",
+  "syncManager.hoursAgo": "{count}h ago",
+  "syncManager.lastSync": "Last sync: {time}",
+  "syncManager.online": "Online",
+  "syncManager.offline": "Offline",
+  "syncManager.syncedItems": "Synced: {count} items",
+  "syncManager.checking": "Checking for updates...",
+  "syncManager.pending.one": "1 item to sync",
+  "syncManager.pending.other": "{count} items to sync",
+  "syncManager.upToDate": "Up to date",
+  "syncManager.uploaded": "Uploaded: {count} items",
+  "syncManager.downloaded": "Downloaded: {count} items",
+  "syncManager.skipped": "Skipped: {count} items",
+  "syncManager.errorDetail": "Error: {message}",
+  "syncManager.offlineHint": "Offline - changes will sync when back online",
+  "syncManager.conflicts": "Resolve conflicts ({count})",
+  "syncManager.fullResync": "Full resync",
+  "syncManager.conflict.description": "Expense on {date} was changed on this device and on another device.",
+  "syncManager.conflict.thisDevice": "This device",
+  "syncManager.conflict.otherDevice": "Other device",
+  "syncManager.conflict.field.amount": "Amount",
+  "syncManager.conflict.field.category": "Category",
+  "syncManager.conflict.field.mood": "Mood",
+  "syncManager.conflict.field.notes": "Notes",
+  "syncManager.conflict.keepMine": "Keep mine",
+  "syncManager.conflict.keepTheirs": "Keep theirs",
+  "syncManager.conflict.saveMerge": "Save merge",
+
+  "subscriptions.title": "Likely Subscriptions",
+  "subscriptions.description": "Charges with the same amount and category at regular intervals, about {monthly} a month ({yearly} a year)",
+  "subscriptions.since": "{count}x since {date}",
+  "subscriptions.perMonth": "{amount}/month",
+  "subscriptions.perYear": "{amount}/year",
+  "subscriptions.next": "Next {date}",
+  "subscriptions.convert": "Make recurring",
+  "subscriptions.converted": "Recurring rule created!",
+  "subscriptions.convertedDescription": "The next charge will be recorded automatically.",
+  "subscriptions.convertFailed": "Failed to create the recurring rule. Please try again.",
+
+  "health.title": "Financial Health Score",
+  "health.description": "Track your financial health and get personalized recommendations",
+  "health.overview": "Your financial health overview based on your recent transactions",
+  "health.loginPrompt": "Please log in to view your financial health score",
+  "health.login": "Login",
+  "health.learnMore": "Learn more about financial health score",
+  "health.learnMoreTooltip": "Click to learn more about how your financial health score is calculated and what it means.",
+  "health.recommendations": "Recommendations",
+  "health.savingsRate": "Savings Rate",
+  "health.expenseToIncome": "Expense to Income",
+  "health.emergencyFund": "Emergency Fund",
+  "health.months": "{value} mo",
+  "health.discretionary": "Discretionary",
+  "health.status.Excellent": "Excellent",
+  "health.status.Good": "Good",
+  "health.status.Fair": "Fair",
+  "health.status.Needs Improvement": "Needs Improvement",
+  "health.status.Poor": "Poor",
+  "health.summary.noData": "No financial data available. Start adding your income and expenses to track your financial health.",
+  "health.summary.excellent": "Your finances are in great shape! Keep up the good work.",
+  "health.summary.good": "Your finances are healthy, but there's room for improvement.",
+  "health.summary.fair": "Your finances need some attention. Consider the recommendations below.",
+  "health.summary.needsImprovement": "Your financial health needs attention. Consider making some changes.",
+  "health.summary.poor": "Your financial health needs immediate attention. Please review the recommendations.",
+  "health.rec.addIncome": "Add your income sources to get started.",
+  "health.rec.trackExpenses": "Track your expenses to understand your spending habits.",
+  "health.rec.savings": "Aim to save at least 20% of your income each month.",
+  "health.rec.emergencyFund": "Build an emergency fund to cover {months} more months of expenses.",
+  "health.rec.discretionary": "Consider reducing discretionary spending to improve your savings rate.",
+  "health.rec.expenses": "Your expenses are high relative to your income. Look for ways to reduce fixed costs.",
+};
@@ -0,0 +1,565 @@
+// Indonesian UI strings. This catalogue defines the message keys; other
+// languages must translate every one of them (see ./en.ts).
+// Placeholders in braces, e.g. {amount}, are filled in by t().
+export const id = {
+  "common.cancel": "Batal",
+  "common.loading": "Memuat...",
+  "common.error": "Ups! Terjadi kesalahan",
+  "common.tryAgain": "Terjadi kesalahan. Silakan coba lagi.",
+
+  "nav.dashboard": "Dasbor",
+  "nav.income": "Pemasukan",
+  "nav.insights": "Wawasan",
+  "nav.reports": "Laporan",
+  "nav.settings": "Pengaturan",
+  "nav.add": "Tambah pengeluaran",
+  "nav.logout": "Keluar",
+
+  "settings.title": "Pengaturan",
+  "settings.subtitle": "Atur preferensi aplikasimu",
+  "settings.appearance.title": "Tampilan",
+  "settings.appearance.description": "Sesuaikan tampilan EmoSpend di perangkatmu",
+  "settings.appearance.darkMode": "Mode Gelap",
+  "settings.appearance.darkModeHint": "Beralih antara tema terang dan gelap",
+  "settings.language.title": "Bahasa",
+  "settings.language.description": "Bahasa untuk teks aplikasi, format tanggal dan angka, serta jawaban AI",
+  "settings.language.changed": "Bahasa diubah",
+  "settings.language.failed": "Gagal mengubah bahasa",
+  "settings.categories.title": "Kategori",
+  "settings.categories.description": "Ubah nama, warna, urutan, arsipkan kategori, atau tambahkan kategorimu sendiri",
+  "settings.moods.title": "Suasana Hati",
+  "settings.moods.description": "Tambahkan suasana hatimu sendiri di samping yang bawaan",
+  "settings.currency.title": "Mata Uang",
+  "settings.currency.description": "Pilih mata uang utama dan atur kurs untuk mata uang lain yang kamu pakai",
+  "settings.budgets.title": "Anggaran Bulanan",
+  "settings.budgets.description": "Tetapkan batas pengeluaran untuk tiap kategori",
+  "settings.recurring.title": "Berulang",
+  "settings.recurring.description": "Pengeluaran dan pemasukan yang ditambahkan otomatis sesuai jadwal",
+  "settings.categoryRules.title": "Kategori otomatis",
+  "settings.categoryRules.description": "Aturan yang memilih kategori untuk pengeluaran baru dan hasil impor",
+  "settings.data.title": "Manajemen Data",
+  "settings.data.description": "Kelola data pengeluaranmu",
+  "settings.data.clearTitle": "Hapus Semua Data",
+  "settings.data.clearDescription": "Hapus semua data pengeluaranmu. Tindakan ini tidak dapat dibatalkan.",
+  "settings.data.clearButton": "Hapus Semua Data",
+  "settings.data.dialogTitle": "⚠️ Peringatan: Hapus Semua Data",
+  "settings.data.dialogIntro": "Tindakan ini akan menghapus secara permanen:",
+  "settings.data.dialogExpenses": "Semua catatan pengeluaranmu",
+  "settings.data.dialogIncomes": "Semua catatan pemasukanmu",
+  "settings.data.dialogCategories": "Kategori dan tag terkait",
+  "settings.data.dialogWarning": "Tindakan ini tidak dapat dibatalkan. Datamu akan dihapus permanen dari perangkat ini dan server kami.",
+  "settings.data.clearing": "Menghapus...",
+  "settings.data.confirmClear": "Ya, hapus semua data",
+  "settings.data.clearFailed": "Gagal menghapus data. Silakan coba lagi.",
+  "settings.account.title": "Akun",
+  "settings.account.description": "Kelola pengaturan akunmu",
+  "settings.account.email": "Email",
+  "settings.about.title": "Tentang EmoSpend",
+  "settings.about.version": "Versi {version}",
+  "settings.about.description": "EmoSpend membantumu mencatat pengeluaran dan memahami pola belanja emosionalmu.",
+  "settings.about.privacy": "Kebijakan Privasi",
+  "settings.about.terms": "Ketentuan Layanan",
+
+  "expenseList.deleted": "Pengeluaran berhasil dihapus",
+  "expenseList.deletedDescription": "Pengeluaran telah dihapus dari catatan Anda.",
+  "expenseList.deleteFailed": "Gagal menghapus pengeluaran",
+  "expenseList.deleteFailedDescription": "Terjadi kesalahan saat menghapus pengeluaran. Silakan coba lagi.",
+  "expenseList.edit": "Edit pengeluaran",
+  "expenseList.delete": "Hapus pengeluaran",
+  "expenseList.unknownCategory": "Kategori Tidak Diketahui",
+  "expenseList.showLess": "Tampilkan lebih sedikit",
+  "expenseList.showAll": "Tampilkan semua {count} pengeluaran",
+
+  "add.titleNew": "Tambah Pengeluaran Baru",
+  "add.titleEdit": "Edit Pengeluaran",
+  "add.subtitle": "Catat pengeluaran dan perasaanmu",
+  "add.amount": "Jumlah",
+  "add.currency": "Mata uang",
+  "add.missingRate": "Belum ada kurs {currency}; atur di Pengaturan agar total {home} akurat.",
+  "add.category": "Kategori",
+  "add.categoryPlaceholder": "Pilih kategori",
+  "add.date": "Tanggal",
+  "add.datePlaceholder": "Pilih tanggal",
+  "add.mood": "Bagaimana perasaanmu?",
+  "add.repeat": "Ulangi",
+  "add.notes": "Catatan (Opsional)",
+  "add.notesPlaceholder": "Tambahkan detail lainnya...",
+  "add.saving": "Menyimpan...",
+  "add.savingExpense": "Menyimpan pengeluaran...",
+  "add.save": "Simpan Pengeluaran",
+  "add.saveChanges": "Simpan Perubahan",
+  "add.errors.amountPositive": "Jumlah harus positif",
+  "add.errors.amountMax": "Jumlah terlalu besar, maksimum 99.999.999,99",
+  "add.errors.amountRequired": "Mohon isi jumlah",
+  "add.errors.amountInvalid": "Mohon masukkan jumlah yang valid",
+  "add.errors.amountFormat": "Format jumlah tidak valid. Contoh: 50.000",
+  "add.errors.amountCheck": "Jumlah tidak valid. Mohon periksa kembali.",
+  "add.errors.categoryRequired": "Pilih kategori",
+  "add.errors.moodRequired": "Pilih suasana hatimu",
+  "add.errors.attention": "Perhatian",
+  "add.errors.completeForm": "Mohon lengkapi form terlebih dahulu",
+  "add.errors.fillAmount": "Mohon isi jumlah pengeluaran",
+  "add.errors.pickCategory": "Mohon pilih kategori pengeluaran",
+  "add.notFound": "Pengeluaran tidak ditemukan",
+  "add.notFoundDescription": "Pengeluaran ini mungkin sudah dihapus.",
+  "add.added": "Pengeluaran berhasil ditambahkan!",
+  "add.updated": "Pengeluaran berhasil diperbarui!",
+  "add.addedDescription": "Berhasil menambahkan pengeluaran sebesar {amount}",
+  "add.updatedDescription": "Berhasil memperbarui pengeluaran menjadi {amount}",
+  "add.addFailed": "Gagal menambahkan pengeluaran",
+  "add.updateFailed": "Gagal memperbarui pengeluaran",
+  "add.updateFailedDescription": "Gagal memperbarui pengeluaran. Silakan coba lagi.",
+  "add.repeatFailed": "Pengulangan gagal disimpan",
+  "add.repeatFailedDescription": "Pengeluaran tersimpan, tetapi tidak akan diulang otomatis.",
+  "add.budget.overTitle": "Pengeluaran ini melebihi anggaran",
+  "add.budget.nearTitle": "Anggaran hampir habis",
+  "add.budget.near": "Setelah ini, {percent}% anggaran {category} bulan ini terpakai. Sisa {remaining} dari {limit}.",
+  "add.budget.over": "Anggaran {category} bulan ini ({limit}) akan terlampaui {over}. Sisa sebelum pengeluaran ini: {left}.",
+  "add.budget.saveAnyway": "Tetap simpan",
+
+  "currencySettings.home": "Mata uang utama",
+  "currencySettings.homeHint": "Total, grafik, dan ekspor ditampilkan dalam mata uang ini. Batas anggaran tidak dikonversi.",
+  "currencySettings.homeChanged": "Mata uang utama diubah",
+  "currencySettings.rateMissing": "Kurs belum tersedia",
+  "currencySettings.rateMissingDescription": "Tambahkan kurs {currency} terhadap {home} terlebih dahulu.",
+  "currencySettings.missingRates": "Belum ada kurs untuk {currencies}. Jumlah ini dihitung tanpa konversi sampai kurs ditambahkan.",
+  "currencySettings.rateFor": "Kurs {currency}",
+  "currencySettings.saveFailed": "Gagal menyimpan kurs",
+  "currencySettings.saveFailedDescription": "Gagal menyimpan kurs. Silakan coba lagi.",
+  "currencySettings.removeFailed": "Gagal menghapus kurs",
+  "currencySettings.remove": "Hapus kurs",
+  "currencySettings.newCurrency": "Mata uang",
+  "currencySettings.newRate": "Nilai dalam {home}",
+  "currencySettings.add": "Tambah kurs",
+
+  "chat.title": "Tanya Pengeluaranmu",
+  "chat.description": "Ajukan pertanyaan tentang pengeluaranmu pada periode ini. Jawaban berdasarkan datamu sendiri.",
+  "chat.placeholder": "Tanyakan sesuatu tentang pengeluaranmu...",
+  "chat.send": "Kirim",
+  "chat.clear": "Hapus percakapan",
+  "chat.thinking": "Sedang berpikir...",
+  "chat.failed": "Gagal mendapatkan jawaban",
+  "chat.interrupted": "Jawaban terputus. Silakan coba lagi.",
+  "chat.unavailable": "Kunci API untuk layanan AI tidak dikonfigurasi.",
+  "chat.suggestion.lastWeek": "Kenapa pengeluaranku banyak minggu lalu?",
+  "chat.suggestion.compareMood": "Bandingkan pengeluaranku saat stres dengan periode sebelumnya",
+  "chat.suggestion.topCategory": "Kategori apa yang paling banyak menghabiskan uangku?",
+
+  "history.tab": "Riwayat",
+  "history.title": "Riwayat Wawasan AI",
+  "history.description": "Bandingkan bagaimana pandangan AI tentang kebiasaan belanjamu berubah dari waktu ke waktu",
+  "history.empty": "Belum ada wawasan tersimpan untuk periode ini. Buat wawasan di tab Wawasan.",
+  "history.savedAt": "Disimpan {date}",
+  "history.regenerate": "Buat ulang",
+  "history.generatedBy": "{date} · oleh {model}",
+  "history.showAnalysis": "Lihat analisis mendalam",
+  "history.hideAnalysis": "Sembunyikan analisis mendalam",
+  "history.delete": "Hapus dari riwayat",
+  "history.deleteFailed": "Gagal menghapus dari riwayat",
+  "history.period.week": "Mingguan",
+  "history.period.month": "Bulanan",
+  "history.period.year": "Tahunan",
+
+  "insightCards.action": "Langkah yang disarankan",
+  "insightCards.severity.positive": "Positif",
+  "insightCards.severity.info": "Info",
+  "insightCards.severity.warning": "Perlu diwaspadai",
+  "insightCards.severity.critical": "Penting",
+
+  "import.title": "Impor Pengeluaran",
+  "import.description": "Pindahkan riwayat dari spreadsheet, aplikasi lain, atau mutasi bank dan e-wallet, atau pulihkan dari file Excel yang diekspor dari Laporan.",
+  "import.chooseFile": "Pilih file CSV, Excel, OFX atau QIF",
+  "import.readFailed": "Gagal membaca file",
+  "import.empty": "File tidak berisi baris data",
+  "import.rowCount": "{count} baris",
+  "import.noColumn": "— Tidak ada —",
+  "import.column": "Kolom {number}",
+  "import.dateOrder": "Format tanggal",
+  "import.field.date": "Tanggal",
+  "import.field.amount": "Jumlah",
+  "import.field.currency": "Mata uang",
+  "import.field.category": "Kategori",
+  "import.field.mood": "Mood",
+  "import.field.moodReason": "Alasan mood",
+  "import.field.notes": "Catatan",
+  "import.preview": "Pratinjau",
+  "import.summary": "{ready} siap, {duplicates} kemungkinan duplikat, {invalid} tidak valid",
+  "import.previewLimited": "Menampilkan {shown} dari {total} baris",
+  "import.status.title": "Status",
+  "import.status.ready": "Siap",
+  "import.status.duplicate": "Duplikat?",
+  "import.status.invalid": "Tidak valid",
+  "import.issue.invalidDate": "tanggal tidak dikenali",
+  "import.issue.invalidAmount": "jumlah tidak valid",
+  "import.issue.negativeAmount": "jumlah negatif, mungkin pengembalian dana atau transfer",
+  "import.issue.unknownCategory": "kategori tidak dikenal, jadi Lainnya",
+  "import.issue.unknownMood": "mood tidak dikenal, jadi Netral",
+  "import.skipDuplicates": "Lewati kemungkinan duplikat",
+  "import.confirm": "Impor {count} pengeluaran",
+  "import.importing": "Mengimpor {done} dari {total}...",
+  "import.done": "{count} pengeluaran diimpor",
+  "import.partial": "{imported} diimpor, {failed} gagal",
+  "import.statement.detected": "Sepertinya ini mutasi {name}. Kirim pengeluarannya ke antrean tinjauan untuk diberi mood satu per satu, atau cocokkan kolom di bawah.",
+  "import.statement.sendToReview": "Kirim ke antrean tinjauan",
+  "import.statement.empty": "Tidak ada pengeluaran yang bisa dibaca dari file ini",
+  "import.statement.queued": "{count} transaksi masuk antrean tinjauan",
+  "import.statement.queuedDetail": "{skipped} sudah pernah diimpor, {credits} dana masuk diabaikan",
+  "import.workbook.detected": "Workbook ekspor EmoSpend",
+  "import.workbook.unrecognised": "Workbook ini bukan hasil ekspor EmoSpend",
+  "import.workbook.expenses": "Pengeluaran",
+  "import.workbook.incomes": "Pemasukan",
+  "import.workbook.counts": "{created} baru, {updated} diperbarui, {skipped} dilewati",
+  "import.workbook.failed": "{count} gagal",
+  "import.workbook.invalid": "{count} baris tidak terbaca dan diabaikan",
+  "import.workbook.confirm": "Terapkan {count} perubahan",
+  "import.workbook.upToDate": "Semua data sudah ada",
+  "import.workbook.reportTitle": "Laporan impor",
+  "import.workbook.close": "Selesai",
+
+  "backup.title": "Cadangkan & Pulihkan",
+  "backup.description": "Simpan salinan semua data di perangkat ini ke file JSON, terpisah dari server.",
+  "backup.passphrase": "Kata sandi cadangan (opsional)",
+  "backup.passphrasePlaceholder": "Biarkan kosong untuk file tanpa enkripsi",
+  "backup.passphraseHint": "File terenkripsi hanya bisa dipulihkan dengan kata sandi yang sama. Kata sandi yang hilang tidak bisa dipulihkan.",
+  "backup.export": "Unduh cadangan",
+  "backup.exporting": "Menyiapkan...",
+  "backup.exported": "Cadangan diunduh",
+  "backup.exportFailed": "Gagal membuat cadangan",
+  "backup.chooseFile": "Pulihkan dari file",
+  "backup.unlock": "Buka dengan kata sandi",
+  "backup.summary": "Cadangan {date}: {expenses} pengeluaran, {incomes} pemasukan, {other} pengaturan lain",
+  "backup.mode": "Cara memulihkan",
+  "backup.mode.merge": "Gabungkan",
+  "backup.mode.replace": "Ganti",
+  "backup.mode.mergeHint": "Menambah data yang belum ada dan menyimpan versi yang paling baru diubah.",
+  "backup.mode.replaceHint": "Menghapus data di perangkat ini lalu menggantinya dengan isi cadangan.",
+  "backup.replaceTitle": "Ganti semua data di perangkat ini?",
+  "backup.replaceWarning": "Data lokal dan perubahan yang belum tersinkron akan dihapus. Isi cadangan akan dikirim ulang ke server.",
+  "backup.restore": "Pulihkan",
+  "backup.restoring": "Memulihkan...",
+  "backup.restored": "{restored} data dipulihkan, {skipped} dilewati",
+  "backup.restoreFailed": "Gagal memulihkan cadangan",
+  "backup.errors.invalidFile": "File ini bukan cadangan EmoSpend yang valid",
+  "backup.errors.unsupportedVersion": "Cadangan ini dibuat oleh versi aplikasi yang lebih baru",
+  "backup.errors.passphraseRequired": "Cadangan ini terenkripsi. Masukkan kata sandinya lalu buka lagi.",
+  "backup.errors.wrongPassphrase": "Kata sandi salah atau file rusak",
+
+  "reviewQueue.title": "Tinjau transaksi ({count})",
+  "reviewQueue.description": "Bagaimana perasaanmu saat belanja ini? Pilih mood untuk menyimpannya sebagai pengeluaran.",
+  "reviewQueue.noDescription": "Tanpa keterangan",
+  "reviewQueue.possibleDuplicate": "Mungkin sudah dicatat",
+  "reviewQueue.mood": "Mood",
+  "reviewQueue.category": "Kategori",
+  "reviewQueue.reasonPlaceholder": "Alasan (opsional)",
+  "reviewQueue.pickMood": "Pilih mood dulu",
+  "reviewQueue.save": "Simpan",
+  "reviewQueue.discard": "Buang",
+  "reviewQueue.saveFailed": "Gagal menyimpan transaksi",
+  "reviewQueue.discardFailed": "Gagal membuang transaksi",
+  "reviewQueue.more": "{count} transaksi lainnya menunggu",
+
+  "categoryRules.empty": "Belum ada aturan. Kategori tetap disarankan dari pengeluaranmu sebelumnya dengan catatan serupa.",
+  "categoryRules.add": "Tambah aturan",
+  "categoryRules.edit": "Ubah aturan",
+  "categoryRules.delete": "Hapus aturan",
+  "categoryRules.moveUp": "Naikkan",
+  "categoryRules.moveDown": "Turunkan",
+  "categoryRules.enabled": "Aturan aktif",
+  "categoryRules.unnamed": "Aturan",
+  "categoryRules.name": "Nama (opsional)",
+  "categoryRules.namePlaceholder": "mis. Ojek online",
+  "categoryRules.notesContains": "Catatan berisi",
+  "categoryRules.notesPlaceholder": "mis. grab, gojek",
+  "categoryRules.category": "Kategori",
+  "categoryRules.amountAbove": "Jumlah di atas",
+  "categoryRules.amountBelow": "Jumlah di bawah",
+  "categoryRules.weekdays": "Pada hari",
+  "categoryRules.timeOfDay": "Waktu dicatat",
+  "categoryRules.time.any": "Kapan saja",
+  "categoryRules.time.morning": "Pagi (5–11)",
+  "categoryRules.time.afternoon": "Siang (11–17)",
+  "categoryRules.time.evening": "Sore/malam (17–22)",
+  "categoryRules.time.night": "Larut malam (22–5)",
+  "categoryRules.conditionsHint": "Semua syarat yang diisi harus cocok. Aturan teratas yang cocok yang dipakai.",
+  "categoryRules.summary.notes": "catatan berisi “{keywords}”",
+  "categoryRules.summary.above": "di atas {amount}",
+  "categoryRules.summary.below": "di bawah {amount}",
+  "categoryRules.test": "Uji pada pengeluaran lama",
+  "categoryRules.test.none": "Tidak ada pengeluaran lama yang cocok dengan aturan ini",
+  "categoryRules.test.summary": "Cocok dengan {matched} pengeluaran lama, {agreeing} di antaranya sudah berkategori {category}",
+  "categoryRules.test.conflicts": "Yang terbaru dengan kategori lain:",
+  "categoryRules.save": "Simpan aturan",
+  "categoryRules.saveFailed": "Gagal menyimpan aturan",
+  "categoryRules.deleteFailed": "Gagal menghapus aturan",
+  "categoryRules.suggestedByRule": "Disarankan oleh aturan “{rule}”",
+  "categoryRules.suggestedFromHistory": "Disarankan dari pengeluaranmu sebelumnya",
+
+  "syncQueue.failedTitle": "Perubahan yang gagal diunggah ({count})",
+  "syncQueue.failedDescription": "Ini berhenti dicoba ulang setelah beberapa kali gagal. Coba lagi, atau buang agar hanya tersimpan di perangkat ini.",
+  "syncQueue.retry": "Coba lagi",
+  "syncQueue.discard": "Buang",
+  "syncQueue.table.expenses": "Pengeluaran",
+  "syncQueue.table.incomes": "Pemasukan",
+  "syncQueue.table.budgets": "Anggaran",
+  "syncQueue.table.categories": "Kategori",
+  "syncQueue.table.moods": "Mood",
+  "syncQueue.table.recurringRules": "Aturan berulang",
+  "syncQueue.action.create": "ditambahkan",
+  "syncQueue.action.update": "diubah",
+  "syncQueue.action.delete": "dihapus",
+
+  "categorySettings.icon": "Ikon",
+  "categorySettings.name": "Nama",
+  "categorySettings.color": "Warna",
+  "categorySettings.moveUp": "Pindah ke atas",
+  "categorySettings.moveDown": "Pindah ke bawah",
+  "categorySettings.archive": "Arsipkan",
+  "categorySettings.restore": "Pulihkan",
+  "categorySettings.saveFailed": "Gagal menyimpan kategori",
+  "categorySettings.archiveFailed": "Gagal mengarsipkan kategori",
+  "categorySettings.cannotArchive": "Kategori ini tidak bisa diarsipkan",
+  "categorySettings.reorderFailed": "Gagal mengubah urutan kategori",
+  "categorySettings.added": "Kategori ditambahkan!",
+  "categorySettings.addFailed": "Gagal menambahkan kategori. Silakan coba lagi.",
+  "categorySettings.newIcon": "Ikon kategori baru",
+  "categorySettings.newName": "Kategori baru",
+  "categorySettings.newNameLabel": "Nama kategori baru",
+  "categorySettings.newColor": "Warna kategori baru",
+  "categorySettings.add": "Tambah kategori",
+  "categorySettings.archived": "Diarsipkan",
+  "categorySettings.archivedHint": "Kategori yang diarsipkan disembunyikan saat menambah pengeluaran, tetapi tetap menandai pengeluaran lamamu.",
+
+  "moodSettings.emoji": "Emoji",
+  "moodSettings.label": "Label",
+  "moodSettings.color": "Warna",
+  "moodSettings.archive": "Arsipkan",
+  "moodSettings.restore": "Pulihkan",
+  "moodSettings.saveFailed": "Gagal menyimpan mood",
+  "moodSettings.archiveFailed": "Gagal mengarsipkan mood",
+  "moodSettings.added": "Mood ditambahkan!",
+  "moodSettings.addFailed": "Gagal menambahkan mood. Silakan coba lagi.",
+  "moodSettings.newEmoji": "Emoji mood baru",
+  "moodSettings.newLabel": "Mood baru, mis. Cemas",
+  "moodSettings.newLabelLabel": "Label mood baru",
+  "moodSettings.newColor": "Warna mood baru",
+  "moodSettings.add": "Tambah mood",
+  "moodSettings.archived": "Diarsipkan",
+
+  "budgetSettings.previousMonth": "Bulan sebelumnya",
+  "budgetSettings.nextMonth": "Bulan berikutnya",
+  "budgetSettings.hint": "Batas berlaku untuk bulan-bulan berikutnya sampai kamu mengubahnya. Kosongkan jika tanpa batas.",
+  "budgetSettings.spentOf": "{spent} dari {limit} terpakai",
+  "budgetSettings.save": "Simpan anggaran",
+  "budgetSettings.saving": "Menyimpan...",
+  "budgetSettings.saved": "Anggaran disimpan!",
+  "budgetSettings.savedDescription": "Batas bulanan untuk {month} diperbarui.",
+  "budgetSettings.saveFailed": "Gagal menyimpan anggaran. Silakan coba lagi.",
+
+  "budgetAlerts.overTitle": "Anggaran terlampaui",
+  "budgetAlerts.warningTitle": "Anggaran hampir habis",
+  "budgetAlerts.overDescription": "Kamu sudah {amount} melebihi anggaran {limit} bulan ini.",
+  "budgetAlerts.warningDescription": "{percent}% terpakai, sisa {remaining} dari {limit} bulan ini.",
+  "budgetAlerts.dismiss": "Tutup peringatan anggaran",
+
+  "ai.notEnoughData.addMore": "Tambahkan lebih banyak pengeluaran untuk mendapatkan wawasan yang dipersonalisasi tentang pola pengeluaran Anda.",
+  "ai.notEnoughData.needMore": "Kami membutuhkan lebih banyak data untuk menganalisis kebiasaan belanja emosional Anda.",
+  "ai.notEnoughData.trackMore": "Lacak beberapa pengeluaran lagi untuk membuka wawasan bertenaga AI!",
+  "ai.status.signIn": "Silakan masuk untuk menggunakan fitur AI.",
+  "ai.status.tooManyRequests": "Terlalu banyak permintaan AI. Silakan coba lagi nanti.",
+  "ai.status.unavailable": "Layanan AI tidak dapat dihubungi. Silakan coba lagi nanti.",
+  "ai.analysis.notEnoughData": "Data pengeluaran tidak cukup untuk analisis mendalam.",
+  "ai.analysis.failed": "Terjadi kesalahan sistem saat mencoba menghasilkan analisis mendalam.",
+
+  "recurrence.none": "Tidak berulang",
+  "recurrence.repeat": "Ulangi",
+  "recurrence.endDate": "Berakhir pada (opsional)",
+  "recurrence.daily": "Setiap hari",
+  "recurrence.weekly": "Setiap minggu",
+  "recurrence.monthly": "Setiap bulan",
+  "recurrence.yearly": "Setiap tahun",
+  "recurrence.everyN.daily": "Setiap {count} hari",
+  "recurrence.everyN.weekly": "Setiap {count} minggu",
+  "recurrence.everyN.monthly": "Setiap {count} bulan",
+  "recurrence.everyN.yearly": "Setiap {count} tahun",
+
+  "recurringSettings.income": "Pendapatan",
+  "recurringSettings.until": "sampai {date}",
+  "recurringSettings.paused": "Dijeda",
+  "recurringSettings.next": "Berikutnya {date}",
+  "recurringSettings.ended": "Selesai",
+  "recurringSettings.skippedCount": "{count} dilewati",
+  "recurringSettings.skipNext": "Lewati berikutnya",
+  "recurringSettings.pause": "Jeda",
+  "recurringSettings.resume": "Lanjutkan",
+  "recurringSettings.delete": "Hapus",
+  "recurringSettings.skipped": "Dilewati",
+  "recurringSettings.pauseFailed": "Gagal mengubah pengulangan",
+  "recurringSettings.skipFailed": "Gagal melewati jadwal",
+  "recurringSettings.deleteFailed": "Gagal menghapus pengulangan",
+  "recurringSettings.empty": "Belum ada pengulangan. Pilih opsi ulangi saat menambah pengeluaran atau pemasukan.",
+
+  "ai.insights.notConfigured": "Konfigurasi AI tidak lengkap. Wawasan tidak dapat dibuat.",
+  "ai.insights.noApiKey": "Kunci API untuk layanan AI tidak ditemukan.",
+  "ai.insights.failed": "Kami mengalami masalah saat menganalisis pola pengeluaran Anda.",
+  "ai.insights.tryLater": "Coba lagi nanti untuk wawasan yang dipersonalisasi tentang pembelanjaan emosional Anda.",
+  "ai.analysis.notConfigured": "Kunci API untuk layanan AI tidak dikonfigurasi. Analisis mendalam tidak dapat dibuat.",
+  "ai.analysis.providersFailed": "Gagal menghasilkan analisis mendalam. Layanan AI tidak dapat dihubungi atau mengembalikan respons yang tidak valid.",
+  "ai.chat.notConfigured": "Kunci API untuk layanan AI tidak dikonfigurasi. Chat tidak dapat digunakan.",
+  "ai.chat.providersFailed": "Gagal mendapatkan jawaban. Layanan AI tidak dapat dihubungi.",
+
+  "incomeForm.amount": "Jumlah",
+  "incomeForm.currency": "Mata uang",
+  "incomeForm.source": "Sumber",
+  "incomeForm.sourcePlaceholder": "Pilih sumber",
+  "incomeForm.sources.salary": "Gaji",
+  "incomeForm.sources.freelance": "Lepas",
+  "incomeForm.sources.business": "Bisnis",
+  "incomeForm.sources.investment": "Investasi",
+  "incomeForm.sources.gift": "Hadiah",
+  "incomeForm.sources.other": "Lainnya",
+  "incomeForm.date": "Tanggal",
+  "incomeForm.datePlaceholder": "Pilih tanggal",
+  "incomeForm.repeat": "Ulangi",
+  "incomeForm.notes": "Keterangan (Opsional)",
+  "incomeForm.notesPlaceholder": "Tambahkan catatan atau deskripsi",
+  "incomeForm.adding": "Menambahkan...",
+  "incomeForm.updating": "Memperbarui...",
+  "incomeForm.add": "Tambah Pendapatan",
+  "incomeForm.update": "Perbarui Pendapatan",
+  "incomeForm.errors.amountInvalid": "Masukkan jumlah yang valid",
+  "incomeForm.errors.dateRequired": "Pilih tanggal",
+  "incomeForm.added": "Pendapatan ditambahkan!",
+  "incomeForm.addedDescription": "Pendapatanmu berhasil dicatat dan sedang disinkronisasi.",
+  "incomeForm.updated": "Pendapatan diperbarui!",
+  "incomeForm.updatedDescription": "Perubahan pendapatanmu berhasil disimpan.",
+  "incomeForm.addFailed": "Gagal menambahkan pendapatan. Silakan coba lagi.",
+  "incomeForm.updateFailed": "Gagal memperbarui pendapatan. Silakan coba lagi.",
+  "incomeForm.repeatFailed": "Pengulangan gagal disimpan",
+  "incomeForm.repeatFailedDescription": "Pendapatan tersimpan, tetapi tidak akan diulang otomatis.",
+
+  "incomePage.back": "Kembali",
+  "incomePage.addTab": "Tambah Pendapatan",
+  "incomePage.addTabShort": "Tambah",
+  "incomePage.listTab": "Lihat Pendapatan",
+  "incomePage.listTabShort": "Lihat",
+  "incomePage.addTitle": "Tambah Pendapatan Baru",
+  "incomePage.historyTitle": "Riwayat Pendapatan",
+  "incomePage.add": "Tambah Pendapatan",
+  "incomePage.current": "Bulan ini",
+  "incomePage.entries.one": "1 entri",
+  "incomePage.entries.other": "{count} entri",
+  "incomePage.addedOn": "Ditambahkan: {date}",
+  "incomePage.edit": "Ubah pendapatan",
+  "incomePage.delete": "Hapus pendapatan",
+  "incomePage.seeMore": "Lihat Lainnya",
+  "incomePage.empty": "Belum ada catatan pendapatan",
+  "incomePage.emptyHint": "Mulai catat pendapatanmu agar muncul di sini",
+  "incomePage.addFirst": "Tambah pendapatan pertamamu",
+  "incomePage.editTitle": "Ubah Pendapatan",
+  "incomePage.editDescription": "Perbaiki jumlah, sumber, tanggal, atau keterangan pendapatan ini.",
+  "incomePage.deleteTitle": "Apakah kamu yakin?",
+  "incomePage.deleteDescription": "Tindakan ini tidak dapat dibatalkan. Catatan pendapatan ini akan dihapus permanen.",
+  "incomePage.deleteConfirm": "Hapus",
+  "incomePage.deleting": "Menghapus...",
+  "incomePage.deleted": "Pendapatan dihapus!",
+  "incomePage.deletedDescription": "Pendapatan berhasil dihapus dan perubahan sedang disinkronisasi.",
+  "incomePage.deleteFailed": "Gagal menghapus pendapatan. Silakan coba lagi.",
+
+  "syncIndicator.operation.push": "Menyimpan perubahan...",
+  "syncIndicator.operation.pull": "Memperbarui data...",
+  "syncIndicator.operation.background": "Menyinkronkan di latar belakang...",
+  "syncIndicator.operation.gamification": "Memperbarui statistik...",
+  "syncIndicator.operation.idle": "Semua data sudah terbaru",
+  "syncIndicator.error.connection": "Koneksi terputus. Periksa koneksi internetmu.",
+  "syncIndicator.error.server": "Kesalahan server. Silakan coba lagi nanti.",
+  "syncIndicator.error.auth": "Perlu masuk ulang. Silakan masuk kembali.",
+  "syncIndicator.error.unknown": "Terjadi kesalahan yang tidak diketahui.",
+  "syncIndicator.pending.one": "1 perubahan menunggu sinkronisasi",
+  "syncIndicator.pending.other": "{count} perubahan menunggu sinkronisasi",
+
+  "syncManager.title": "Status Sinkronisasi",
+  "syncManager.syncNow": "Sinkronkan",
+  "syncManager.syncing": "Menyinkronkan...",
+  "syncManager.done": "Selesai",
+  "syncManager.error": "Gagal",
+  "syncManager.syncingManual": "Menyinkronkan datamu...",
+  "syncManager.syncingBackground": "Menyinkronkan di latar belakang...",
+  "syncManager.syncedCount.one": "1 item disinkronkan",
+  "syncManager.syncedCount.other": "{count} item disinkronkan",
+  "syncManager.failed": "Sinkronisasi gagal. Ketuk untuk mencoba lagi.",
+  "syncManager.unknownError": "Kesalahan tidak diketahui",
+  "syncManager.never": "Belum pernah",
+  "syncManager.justNow": "Baru saja",
+  "syncManager.minutesAgo": "{count} mnt lalu",
+  "syncManager.hoursAgo": "{count} jam lalu",
+  "syncManager.lastSync": "Sinkronisasi terakhir: {time}",
+  "syncManager.online": "Daring",
+  "syncManager.offline": "Luring",
+  "syncManager.syncedItems": "Tersinkron: {count} item",
+  "syncManager.checking": "Memeriksa pembaruan...",
+  "syncManager.pending.one": "1 item menunggu sinkronisasi",
+  "syncManager.pending.other": "{count} item menunggu sinkronisasi",
+  "syncManager.upToDate": "Sudah terbaru",
+  "syncManager.uploaded": "Diunggah: {count} item",
+  "syncManager.downloaded": "Diunduh: {count} item",
+  "syncManager.skipped": "Dilewati: {count} item",
+  "syncManager.errorDetail": "Kesalahan: {message}",
+  "syncManager.offlineHint": "Luring - perubahan akan disinkronkan saat kembali daring",
+  "syncManager.conflicts": "Selesaikan konflik ({count})",
+  "syncManager.fullResync": "Sinkronkan ulang semua",
+  "syncManager.conflict.description": "Pengeluaran pada {date} diubah di perangkat ini dan di perangkat lain.",
+  "syncManager.conflict.thisDevice": "Perangkat ini",
+  "syncManager.conflict.otherDevice": "Perangkat lain",
+  "syncManager.conflict.field.amount": "Jumlah",
+  "syncManager.conflict.field.category": "Kategori",
+  "syncManager.conflict.field.mood": "Suasana hati",
+  "syncManager.conflict.field.notes": "Catatan",
+  "syncManager.conflict.keepMine": "Pakai milikku",
+  "syncManager.conflict.keepTheirs": "Pakai yang lain",
+  "syncManager.conflict.saveMerge": "Simpan gabungan",
+
+  "subscriptions.title": "Kemungkinan Langganan",
+  "subscriptions.description": "Tagihan dengan jumlah dan kategori yang sama secara berkala, sekitar {monthly} per bulan ({yearly} per tahun)",
+  "subscriptions.since": "{count}x sejak {date}",
+  "subscriptions.perMonth": "{amount}/bulan",
+  "subscriptions.perYear": "{amount}/tahun",
+  "subscriptions.next": "Berikutnya {date}",
+  "subscriptions.convert": "Jadikan berulang",
+  "subscriptions.converted": "Pengulangan dibuat!",
+  "subscriptions.convertedDescription": "Tagihan berikutnya akan dicatat otomatis.",
+  "subscriptions.convertFailed": "Gagal membuat pengulangan. Silakan coba lagi.",
+
+  "health.title": "Skor Kesehatan Keuangan",
+  "health.description": "Pantau kesehatan keuanganmu dan dapatkan rekomendasi pribadi",
+  "health.overview": "Gambaran kesehatan keuanganmu berdasarkan transaksi terbaru",
+  "health.loginPrompt": "Silakan masuk untuk melihat skor kesehatan keuanganmu",
+  "health.login": "Masuk",
+  "health.learnMore": "Pelajari lebih lanjut tentang skor kesehatan keuangan",
+  "health.learnMoreTooltip": "Klik untuk mempelajari cara skor kesehatan keuanganmu dihitung dan artinya.",
+  "health.recommendations": "Rekomendasi",
+  "health.savingsRate": "Tingkat Tabungan",
+  "health.expenseToIncome": "Pengeluaran vs Pemasukan",
+  "health.emergencyFund": "Dana Darurat",
+  "health.months": "{value} bln",
+  "health.discretionary": "Diskresioner",
+  "health.status.Excellent": "Sangat Baik",
+  "health.status.Good": "Baik",
+  "health.status.Fair": "Cukup",
+  "health.status.Needs Improvement": "Perlu Perbaikan",
+  "health.status.Poor": "Buruk",
+  "health.summary.noData": "Belum ada data keuangan. Mulai tambahkan pemasukan dan pengeluaranmu untuk memantau kesehatan keuanganmu.",
+  "health.summary.excellent": "Keuanganmu dalam kondisi sangat baik! Pertahankan.",
+  "health.summary.good": "Keuanganmu sehat, tetapi masih bisa ditingkatkan.",
+  "health.summary.fair": "Keuanganmu perlu perhatian. Pertimbangkan rekomendasi di bawah.",
+  "health.summary.needsImprovement": "Kesehatan keuanganmu perlu perhatian. Pertimbangkan untuk melakukan beberapa perubahan.",
+  "health.summary.poor": "Kesehatan keuanganmu perlu perhatian segera. Silakan tinjau rekomendasinya.",
+  "health.rec.addIncome": "Tambahkan sumber pemasukanmu untuk memulai.",
+  "health.rec.trackExpenses": "Catat pengeluaranmu untuk memahami kebiasaan belanjamu.",
+  "health.rec.savings": "Usahakan menabung setidaknya 20% dari pemasukanmu setiap bulan.",
+  "health.rec.emergencyFund": "Bangun dana darurat untuk menutup {months} bulan pengeluaran lagi.",
+  "health.rec.discretionary": "Pertimbangkan mengurangi pengeluaran diskresioner untuk meningkatkan tabunganmu.",
+  "health.rec.expenses": "Pengeluaranmu tinggi dibanding pemasukanmu. Cari cara untuk mengurangi biaya tetap.",
+};
+
+export type MessageKey = keyof typeof id;
+export type Messages = Record<MessageKey, string>;
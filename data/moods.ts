@@ -1,6 +1,8 @@
-import type { Mood } from "@/types/expense"
+import type { Expense, Mood } from "@/types/expense"
 
-export const moods: Mood[] = [
+// Built-in moods every user starts with. Users can add their own
+// (see lib/moods.ts).
+export const defaultMoods: Mood[] = [
   {
     id: "happy",
     emoji: "😊",
@@ -39,6 +41,80 @@ export const moods: Mood[] = [
   },
 ]
 
+// Mood intensity is an optional 1-5 rating on each expense
+export const MOOD_INTENSITY_MIN = 1
+export const MOOD_INTENSITY_MAX = 5
+// Used when an expense has no intensity, e.g. ones recorded before it existed
+export const DEFAULT_MOOD_INTENSITY = 3
+
+export const MOOD_INTENSITY_LABELS: Record<number, string> = {
+  1: "Very mild",
+  2: "Mild",
+  3: "Moderate",
+  4: "Strong",
+  5: "Very strong",
+}
+
+// Built-ins plus the user's own moods, kept in memory so lookups stay synchronous
+let registry: Mood[] = defaultMoods
+const listeners = new Set<() => void>()
+
+export function setMoodRegistry(list: Mood[]): void {
+  registry = list
+  listeners.forEach((listener) => listener())
+}
+
+/**
+ * Subscribes to mood changes; returns the unsubscribe function
+ */
+export function subscribeToMoods(listener: () => void): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+/**
+ * Returns built-in moods followed by the user's own. Archived ones are left
+ * out unless asked for (e.g. to label old expenses).
+ */
+export function getMoods({ includeArchived = false }: { includeArchived?: boolean } = {}): Mood[] {
+  return includeArchived ? registry : registry.filter((mood) => !mood.archived)
+}
+
 export function getMood(id: string): Mood {
-  return moods.find((mood) => mood.id === id) || moods[5] // Default to neutral
+  return (
+    registry.find((mood) => mood.id === id) ||
+    registry.find((mood) => mood.id === "neutral") ||
+    defaultMoods[5] // Default to neutral
+  )
+}
+
+export function getMoodIntensity(expense: Pick<Expense, "moodIntensity">): number {
+  return expense.moodIntensity ?? DEFAULT_MOOD_INTENSITY
+}
+
+/**
+ * Average intensity of the expenses that have one, or null when none do
+ */
+export function getAverageMoodIntensity(expenses: Pick<Expense, "moodIntensity">[]): number | null {
+  const rated = expenses.filter((expense) => expense.moodIntensity != null)
+  if (rated.length === 0) return null
+  return rated.reduce((sum, expense) => sum + (expense.moodIntensity as number), 0) / rated.length
+}
+
+/**
+ * The mood that weighs most across expenses, where stronger feelings count
+ * for more than mild ones
+ */
+export function getDominantMood(expenses: Pick<Expense, "mood" | "moodIntensity">[]): string | null {
+  if (expenses.length === 0) return null
+  const weights: Record<string, number> = {}
+  expenses.forEach((expense) => {
+    weights[expense.mood] = (weights[expense.mood] || 0) + getMoodIntensity(expense)
+  })
+  return Object.entries(weights).reduce(
+    (max, [mood, weight]) => (weight > max.weight ? { mood, weight } : max),
+    { mood: "", weight: 0 }
+  ).mood
 }
@@ -1,2 +1,6 @@
 export { useUser } from './use-user';
+export { useCategories } from './use-categories';
+export { useMoods } from './use-moods';
+export { useCurrency } from './use-currency';
+export { useLocale } from './use-locale';
 // Export other hooks here as needed
@@ -0,0 +1,20 @@
+import { useEffect, useState } from "react";
+import { getCategories, subscribeToCategories } from "@/data/categories";
+import { ensureCategoriesLoaded } from "@/lib/categories";
+import type { Category } from "@/types/expense";
+
+/**
+ * Returns the user's categories in their order and re-renders when they change
+ */
+export function useCategories({ includeArchived = false }: { includeArchived?: boolean } = {}): Category[] {
+  const [categories, setCategories] = useState<Category[]>(() => getCategories({ includeArchived }));
+
+  useEffect(() => {
+    const update = () => setCategories(getCategories({ includeArchived }));
+    const unsubscribe = subscribeToCategories(update);
+    ensureCategoriesLoaded().then(update);
+    return unsubscribe;
+  }, [includeArchived]);
+
+  return categories;
+}
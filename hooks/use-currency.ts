@@ -0,0 +1,28 @@
+import { useEffect, useState } from "react";
+import { getExchangeRates, getHomeCurrency, subscribeToCurrency } from "@/data/currencies";
+import { ensureCurrencySettingsLoaded } from "@/lib/currency";
+
+interface CurrencyState {
+  homeCurrency: string;
+  rates: Record<string, number>;
+}
+
+/**
+ * Returns the home currency and exchange rates, re-rendering when they change
+ * so converted totals stay current
+ */
+export function useCurrency(): CurrencyState {
+  const [state, setState] = useState<CurrencyState>(() => ({
+    homeCurrency: getHomeCurrency(),
+    rates: getExchangeRates(),
+  }));
+
+  useEffect(() => {
+    const update = () => setState({ homeCurrency: getHomeCurrency(), rates: getExchangeRates() });
+    const unsubscribe = subscribeToCurrency(update);
+    ensureCurrencySettingsLoaded().then(update);
+    return unsubscribe;
+  }, []);
+
+  return state;
+}
@@ -0,0 +1,20 @@
+import { useEffect, useState } from "react";
+import { getLocale, getLocaleInfo, subscribeToLocale, t, type AppLocale } from "@/data/locales";
+import { ensureLocaleLoaded } from "@/lib/locale";
+
+/**
+ * Returns the active language and t(), re-rendering when the language changes
+ * so translated text and formatted dates update
+ */
+export function useLocale() {
+  const [locale, setLocale] = useState<AppLocale>(getLocale);
+
+  useEffect(() => {
+    const update = () => setLocale(getLocale());
+    const unsubscribe = subscribeToLocale(update);
+    ensureLocaleLoaded().then(update);
+    return unsubscribe;
+  }, []);
+
+  return { locale, t, dateLocale: getLocaleInfo(locale).dateLocale };
+}
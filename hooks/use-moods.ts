@@ -0,0 +1,20 @@
+import { useEffect, useState } from "react";
+import { getMoods, subscribeToMoods } from "@/data/moods";
+import { ensureMoodsLoaded } from "@/lib/moods";
+import type { Mood } from "@/types/expense";
+
+/**
+ * Returns built-in and custom moods and re-renders when they change
+ */
+export function useMoods({ includeArchived = false }: { includeArchived?: boolean } = {}): Mood[] {
+  const [moods, setMoods] = useState<Mood[]>(() => getMoods({ includeArchived }));
+
+  useEffect(() => {
+    const update = () => setMoods(getMoods({ includeArchived }));
+    const unsubscribe = subscribeToMoods(update);
+    ensureMoodsLoaded().then(update);
+    return unsubscribe;
+  }, [includeArchived]);
+
+  return moods;
+}
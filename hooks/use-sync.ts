@@ -1,6 +1,10 @@
 import { useCallback, useRef, useEffect, useState } from "react";
 import { syncExpenses } from "@/lib/db";
 import { syncIncomes } from "@/lib/income";
+import { syncBudgets } from "@/lib/budgets";
+import { syncCategories } from "@/lib/categories";
+import { syncMoods } from "@/lib/moods";
+import { materializeDueOccurrences, syncRecurringRules } from "@/lib/recurring";
 import { getCurrentUser } from "@/lib/db";
 import { useRouter } from "next/navigation";
 
@@ -10,6 +14,11 @@ export interface SyncResult {
   error?: string;
   syncedExpenses?: number;
   syncedIncomes?: number;
+  syncedBudgets?: number;
+  syncedCategories?: number;
+  syncedMoods?: number;
+  syncedRecurringRules?: number;
+  materializedOccurrences?: number;
   skipped?: number;
 }
 
@@ -97,11 +106,19 @@ export function useSync() {
           detail: { operation: 'push' } 
         }));
 
-        // Sync both expenses and incomes in parallel
-        const [expensesResult, incomesResult] = await Promise.all([
+        // Sync expenses, incomes, budgets, categories, moods and recurring rules in parallel
+        const [expensesResult, incomesResult, budgetsResult, categoriesResult, moodsResult, recurringResult] = await Promise.all([
           syncExpenses(),
-          syncIncomes()
+          syncIncomes(),
+          syncBudgets(),
+          syncCategories(),
+          syncMoods(),
+          syncRecurringRules()
         ]);
+
+        // Rules pulled from other devices may have occurrences due here too;
+        // the new rows are pushed on the next sync
+        const materializedOccurrences = await materializeDueOccurrences();
         
         lastSyncTimeRef.current = Date.now();
 
@@ -110,13 +127,22 @@ export function useSync() {
         }
 
         // Calculate total synced and skipped items
-        const totalSynced = (expensesResult.syncedLocal || 0) + (expensesResult.syncedRemote || 0) + (incomesResult.synced || 0);
+        const syncedBudgets = budgetsResult.pushed + budgetsResult.pulled;
+        const syncedCategories = categoriesResult.pushed + categoriesResult.pulled;
+        const syncedMoods = moodsResult.pushed + moodsResult.pulled;
+        const syncedRecurringRules = recurringResult.pushed + recurringResult.pulled;
+        const totalSynced = (expensesResult.syncedLocal || 0) + (expensesResult.syncedRemote || 0) + (incomesResult.synced || 0) + syncedBudgets + syncedCategories + syncedMoods + syncedRecurringRules;
         const totalSkipped = (expensesResult.skipped || 0) + (incomesResult.errors || 0);
 
         return { 
           success: totalSynced > 0 || totalSkipped > 0,
           syncedExpenses: (expensesResult.syncedLocal || 0) + (expensesResult.syncedRemote || 0),
           syncedIncomes: incomesResult.synced || 0,
+          syncedBudgets,
+          syncedCategories,
+          syncedMoods,
+          syncedRecurringRules,
+          materializedOccurrences,
           skipped: totalSkipped
         };
       } catch (error) {
@@ -0,0 +1,274 @@
+import type { Expense } from "@/types/expense";
+import type { AIErrorCode, AIInsightResponse, AIDetailedAnalysisResponse, AIMessage, AIPeriod } from "@/types/ai";
+import { getLocaleInfo, t } from "@/data/locales";
+import { getSupabaseBrowserClient } from "@/lib/supabase";
+import { getExpensesByDateRange, type AIInsightRun } from "@/lib/db";
+import { getDateRangeForPeriod, getPreviousDateRangeForPeriod } from "@/lib/utils";
+import {
+  findInsightRunByAnalysis,
+  findInsightRunByInput,
+  hashAIInput,
+  saveAnalysisToRun,
+  saveInsightRun,
+} from "./ai-history";
+import { prepareChatContext, prepareContextForAI, getDetailedAnalysisPrompt } from "./ai-context";
+
+// Browser side of the AI features. The prompt is built here because the data
+// lives in IndexedDB; the provider keys stay in the /api/insights and
+// /api/analysis and /api/chat route handlers.
+
+// Built per call so the text follows the language picked at the time
+const getNotEnoughDataError = (): AIInsightResponse => ({
+  insights: [t("ai.notEnoughData.addMore"), t("ai.notEnoughData.needMore"), t("ai.notEnoughData.trackMore")],
+  modelUsed: "None",
+  error: "Not enough data",
+});
+
+// The routes report failures as a code, so the text follows the user's language
+const getInsightErrorMessages = (code: AIErrorCode | undefined): string[] =>
+  code === "notConfigured"
+    ? [t("ai.insights.notConfigured"), t("ai.insights.noApiKey")]
+    : [t("ai.insights.failed"), t("ai.insights.tryLater")];
+
+const getTextErrorMessage = (purpose: "analysis" | "chat", code: AIErrorCode): string =>
+  t(code === "notConfigured" ? `ai.${purpose}.notConfigured` : `ai.${purpose}.providersFailed`);
+
+const getStatusMessage = (status: number): string => {
+  if (status === 401) return t("ai.status.signIn");
+  if (status === 429) return t("ai.status.tooManyRequests");
+  return t("ai.status.unavailable");
+};
+
+// Only the latest turns are sent; the server rejects longer conversations
+const MAX_CHAT_MESSAGES = 20;
+
+async function postToAIRoute(path: string, body: Record<string, unknown>): Promise<Response> {
+  const { data: { session } } = await getSupabaseBrowserClient().auth.getSession();
+
+  return fetch(path, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(session ? { Authorization: `Bearer ${session.access_token}` } : {}),
+    },
+    body: JSON.stringify({ ...body, language: getLocaleInfo().aiLanguage }),
+  });
+}
+
+// The analysis and chat routes answer with streamed text, or JSON on failure
+async function readTextResponse(
+  response: Response,
+  purpose: "analysis" | "chat"
+): Promise<AIDetailedAnalysisResponse> {
+  if (response.ok && response.body) {
+    return {
+      stream: response.body,
+      modelUsed: response.headers.get("X-Model-Used") || "AI",
+    };
+  }
+
+  const data = await response.json().catch(() => null);
+  return {
+    analysis: data?.errorCode ? getTextErrorMessage(purpose, data.errorCode) : getStatusMessage(response.status),
+    modelUsed: data?.modelUsed || "None (Error)",
+    error: data?.error || `Request failed with status ${response.status}`,
+  };
+}
+
+/**
+ * Whether the server has at least one AI provider key
+ */
+export async function isAIConfigured(): Promise<boolean> {
+  try {
+    const response = await fetch("/api/insights");
+    if (!response.ok) return false;
+    const data = await response.json();
+    return Boolean(data.configured);
+  } catch (error) {
+    console.error("Error checking AI configuration:", error);
+    return false;
+  }
+}
+
+// Same prompt as the insights request, so its hash identifies the data
+async function buildInsightsContext(expenses: Expense[], period: AIPeriod) {
+  const range = getDateRangeForPeriod(period);
+  const context = await prepareContextForAI(expenses, false, new Date(range.start), new Date(range.end));
+  return { range, context, inputHash: await hashAIInput(context) };
+}
+
+const fromRun = (run: AIInsightRun): AIInsightResponse => ({
+  insights: run.insights,
+  items: run.items,
+  modelUsed: run.model_used,
+  runId: run.id,
+  cachedAt: run.created_at,
+});
+
+/**
+ * The saved insights for this period's data, if it hasn't changed since they
+ * were generated. Never calls the AI.
+ */
+export async function getCachedAIInsights(
+  expenses: Expense[],
+  period: AIPeriod
+): Promise<AIInsightResponse | null> {
+  if (expenses.length < 3) return null;
+  try {
+    const { inputHash } = await buildInsightsContext(expenses, period);
+    const run = await findInsightRunByInput(inputHash);
+    return run ? fromRun(run) : null;
+  } catch (error) {
+    console.error("Error checking cached insights:", error);
+    return null;
+  }
+}
+
+export async function generateAIInsights(
+  expenses: Expense[],
+  period: AIPeriod,
+  options: { refresh?: boolean } = {} // Ask the AI again even if the data is unchanged
+): Promise<AIInsightResponse> {
+  if (expenses.length < 3) {
+    return getNotEnoughDataError();
+  }
+
+  try {
+    const { range, context, inputHash } = await buildInsightsContext(expenses, period);
+    if (!options.refresh) {
+      const cached = await findInsightRunByInput(inputHash);
+      if (cached) return fromRun(cached);
+    }
+
+    console.log(`Generating insights with ${expenses.length} expenses`);
+    const response = await postToAIRoute("/api/insights", { prompt: context });
+
+    // Failed generations still return the fallback insights as JSON
+    const data = await response.json().catch(() => null);
+    if (data?.insights) {
+      const result = data as AIInsightResponse;
+      if (result.error) return { ...result, insights: getInsightErrorMessages(result.errorCode) };
+
+      const run = await saveInsightRun({
+        period,
+        start: range.start,
+        end: range.end,
+        input_hash: inputHash,
+        insights: result.insights,
+        items: result.items,
+        model_used: result.modelUsed,
+      });
+      return { ...result, runId: run?.id };
+    }
+
+    return {
+      insights: [getStatusMessage(response.status)],
+      modelUsed: "None (Error)",
+      error: data?.error || `Request failed with status ${response.status}`,
+    };
+  } catch (error) {
+    console.error("Error requesting AI insights:", error);
+    return {
+      insights: [getStatusMessage(0)],
+      modelUsed: "None (Error)",
+      error: (error as Error).message,
+    };
+  }
+}
+
+// Reads a copy of the streamed analysis and saves it once it has finished
+async function saveStreamedAnalysis(
+  stream: ReadableStream<Uint8Array>,
+  runId: string,
+  analysisHash: string,
+  modelUsed: string
+): Promise<void> {
+  try {
+    const analysis = await new Response(stream).text();
+    if (analysis.trim()) {
+      await saveAnalysisToRun(runId, analysis, analysisHash, modelUsed);
+    }
+  } catch (error) {
+    // An interrupted stream isn't worth caching
+    console.warn("Detailed analysis not saved:", error);
+  }
+}
+
+export async function generateDetailedAnalysis(
+  expenses: Expense[],
+  insightResult: AIInsightResponse,
+  period: AIPeriod
+): Promise<AIDetailedAnalysisResponse> {
+  if (expenses.length < 3) {
+    return {
+      analysis: t("ai.analysis.notEnoughData"),
+      modelUsed: "None",
+      error: "Not enough data",
+    };
+  }
+
+  try {
+    const range = getDateRangeForPeriod(period);
+    const baseContext = await prepareContextForAI(expenses, true, new Date(range.start), new Date(range.end));
+    const prompt = `${baseContext}\n\n${getDetailedAnalysisPrompt(insightResult.insights)}`;
+    const analysisHash = await hashAIInput(prompt);
+
+    const cached = await findInsightRunByAnalysis(analysisHash);
+    if (cached?.analysis) {
+      return {
+        analysis: cached.analysis,
+        modelUsed: cached.analysis_model_used || cached.model_used,
+        cachedAt: cached.analysis_created_at,
+      };
+    }
+
+    const result = await readTextResponse(await postToAIRoute("/api/analysis", { prompt }), "analysis");
+    if (result.stream && insightResult.runId) {
+      const [forDisplay, forHistory] = result.stream.tee();
+      void saveStreamedAnalysis(forHistory, insightResult.runId, analysisHash, result.modelUsed);
+      return { stream: forDisplay, modelUsed: result.modelUsed };
+    }
+    return result;
+  } catch (error) {
+    console.error("Error requesting detailed analysis:", error);
+    return {
+      analysis: t("ai.analysis.failed"),
+      modelUsed: "None (Error)",
+      error: (error as Error).message,
+    };
+  }
+}
+
+/**
+ * Sends a spending chat to the server and streams back the answer to its
+ * last (user) message. The selected period and the one before it are
+ * summarised so answers stay grounded in the user's data.
+ */
+export async function sendChatMessage(
+  period: AIPeriod,
+  messages: AIMessage[]
+): Promise<AIDetailedAnalysisResponse> {
+  try {
+    const range = getDateRangeForPeriod(period);
+    const previousRange = getPreviousDateRangeForPeriod(period);
+    const [expenses, previousExpenses] = await Promise.all([
+      getExpensesByDateRange(range.start, range.end),
+      getExpensesByDateRange(previousRange.start, previousRange.end),
+    ]);
+
+    const context = await prepareChatContext(expenses, previousExpenses, range, previousRange);
+    // Keep the window starting on a user turn, as the server expects
+    let recent = messages.slice(-MAX_CHAT_MESSAGES);
+    if (recent[0]?.role === "assistant") recent = recent.slice(1);
+
+    const response = await postToAIRoute("/api/chat", { context, messages: recent });
+    return readTextResponse(response, "chat");
+  } catch (error) {
+    console.error("Error sending chat message:", error);
+    return {
+      analysis: getStatusMessage(0),
+      modelUsed: "None (Error)",
+      error: (error as Error).message,
+    };
+  }
+}
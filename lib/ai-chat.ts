@@ -0,0 +1,42 @@
+import type { AIMessage, AIPeriod } from "@/types/ai";
+import { getDb } from "./db";
+import { getDateRangeForPeriod } from "./utils";
+
+// One conversation per period instance, so a new month starts a fresh chat
+export function getChatHistoryId(period: AIPeriod): string {
+  return `${period}:${getDateRangeForPeriod(period).start}`;
+}
+
+export async function getChatHistory(period: AIPeriod): Promise<AIMessage[]> {
+  try {
+    const history = await getDb().chatHistories.get(getChatHistoryId(period));
+    return history?.messages ?? [];
+  } catch (error) {
+    console.error("Error loading chat history:", error);
+    return [];
+  }
+}
+
+export async function saveChatHistory(period: AIPeriod, messages: AIMessage[]): Promise<boolean> {
+  try {
+    await getDb().chatHistories.put({
+      id: getChatHistoryId(period),
+      messages,
+      updated_at: new Date().toISOString(),
+    });
+    return true;
+  } catch (error) {
+    console.error("Error saving chat history:", error);
+    return false;
+  }
+}
+
+export async function clearChatHistory(period: AIPeriod): Promise<boolean> {
+  try {
+    await getDb().chatHistories.delete(getChatHistoryId(period));
+    return true;
+  } catch (error) {
+    console.error("Error clearing chat history:", error);
+    return false;
+  }
+}
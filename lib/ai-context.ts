@@ -1,7 +1,14 @@
 import type { Expense, Income } from "@/types/expense";
 import { getCategory } from "@/data/categories";
-import { getMood } from "@/data/moods";
+import { defaultMoods, getAverageMoodIntensity, getMood, MOOD_INTENSITY_MAX } from "@/data/moods";
 import { getIncomesByDateRange } from "@/lib/income";
+import { ensureCategoriesLoaded } from "@/lib/categories";
+import { ensureMoodsLoaded } from "@/lib/moods";
+import { ensureCurrencySettingsLoaded } from "@/lib/currency";
+import { formatCurrency } from "@/lib/currency-formatter";
+import { DEFAULT_CURRENCY, getCurrencyInfo, getHomeAmount, getHomeCurrency } from "@/data/currencies";
+import { getIntlLocale, getLocaleInfo } from "@/data/locales";
+import { ensureLocaleLoaded } from "@/lib/locale";
 
 export async function prepareContextForAI(
   expenses: Expense[],
@@ -9,6 +16,16 @@ export async function prepareContextForAI(
   startDate?: Date,
   endDate?: Date
 ): Promise<string> {
+  // Category and mood names below come from the user's own lists, totals are
+  // converted to their home currency and answers use their language
+  await Promise.all([
+    ensureCategoriesLoaded(),
+    ensureMoodsLoaded(),
+    ensureCurrencySettingsLoaded(),
+    ensureLocaleLoaded(),
+  ]);
+  const homeCurrency = getCurrencyInfo(getHomeCurrency());
+
   // If date range is provided, fetch incomes for the same period
   let incomes: Income[] = [];
   if (startDate && endDate) {
@@ -24,7 +41,8 @@ export async function prepareContextForAI(
 
   let context =
     "# Analisis Data Keuangan Pengguna untuk Wawasan Emosional\n\n" +
-    "**Konteks Utama:** Data keuangan pengguna ini dalam **Rupiah Indonesia (Rp)** dan seluruh interaksi serta respons diharapkan dalam **Bahasa Indonesia**.\n" +
+    `**Konteks Utama:** Semua total dalam data keuangan pengguna ini dalam **${homeCurrency.name} (${homeCurrency.code})**; contoh transaksi memakai mata uang aslinya. ` +
+    `Seluruh interaksi serta respons diharapkan dalam **${getLocaleInfo().aiLanguage}**.\n` +
     "**Peran AI:** Anda adalah seorang penasihat keuangan yang juga memiliki keahlian sebagai psikoanalis, berfokus pada identifikasi pola keuangan emosional. Penting untuk memahami bahwa emosi pengguna bisa positif maupun negatif, dan keduanya dapat mempengaruhi pola keuangan dengan cara yang berbeda-beda.\n\n";
 
   // Add income summary if we have income data
@@ -48,6 +66,30 @@ export async function prepareContextForAI(
   return context;
 }
 
+/**
+ * Data context for the spending chat: the full summary of the selected period
+ * plus mood and category totals of the period before it, so questions like
+ * "compared to last month" can be answered from data
+ */
+export async function prepareChatContext(
+  expenses: Expense[],
+  previousExpenses: Expense[],
+  range: { start: string; end: string },
+  previousRange: { start: string; end: string }
+): Promise<string> {
+  const current = await prepareContextForAI(expenses, true, new Date(range.start), new Date(range.end));
+  const previousTotal = previousExpenses.reduce((sum, exp) => sum + getHomeAmount(exp), 0);
+
+  return `# Periode Saat Ini (${range.start} s.d. ${range.end})\n\n` +
+    current +
+    `\n\n# Periode Sebelumnya (${previousRange.start} s.d. ${previousRange.end}) untuk Perbandingan\n` +
+    `Jumlah Transaksi: ${previousExpenses.length}, Total Pengeluaran: ${formatCurrency(previousTotal)}\n\n` +
+    (previousExpenses.length > 0
+      ? generateMoodSummary(groupExpensesByMood(previousExpenses)) +
+        generateCategorySummary(groupExpensesByCategory(previousExpenses))
+      : "Tidak ada pengeluaran tercatat pada periode ini.\n");
+}
+
 function groupExpensesByMood(expenses: Expense[]): Record<string, Expense[]> {
   const expensesByMood: Record<string, Expense[]> = {};
   expenses.forEach((expense) => {
@@ -82,7 +124,7 @@ function groupExpensesByDay(expenses: Expense[]): Record<string, Expense[]> {
   return expensesByDay;
 }
 
-function groupExpensesByCategory(expenses: Expense[]): Record<string, Expense[]> {
+export function groupExpensesByCategory(expenses: Expense[]): Record<string, Expense[]> {
   const expensesByCategory: Record<string, Expense[]> = {};
   expenses.forEach((expense) => {
     if (!expensesByCategory[expense.category]) {
@@ -95,14 +137,21 @@ function groupExpensesByCategory(expenses: Expense[]): Record<string, Expense[]>
 
 function generateMoodSummary(expensesByMood: Record<string, Expense[]>): string {
   let summary = "## Ringkasan Pengeluaran Berdasarkan Suasana Hati\n" +
-    "Berikut adalah ringkasan pengeluaran yang dikelompokkan berdasarkan suasana hati yang dilaporkan pengguna:\n\n";
+    "Berikut adalah ringkasan pengeluaran yang dikelompokkan berdasarkan suasana hati yang dilaporkan pengguna. " +
+    "Sebagian suasana hati mungkin dibuat sendiri oleh pengguna. " +
+    `Intensitas (opsional) dinilai pengguna dari 1 (sangat ringan) sampai ${MOOD_INTENSITY_MAX} (sangat kuat):\n\n`;
   
   Object.entries(expensesByMood).forEach(([moodId, moodExpenses]) => {
     const moodInfo = getMood(moodId);
-    const total = moodExpenses.reduce((sum, exp) => sum + exp.amount, 0);
-    summary += `- **Suasana Hati: ${moodInfo.label} ${moodInfo.emoji}**\n`;
+    const isCustom = !defaultMoods.some((mood) => mood.id === moodId);
+    const total = moodExpenses.reduce((sum, exp) => sum + getHomeAmount(exp), 0);
+    const averageIntensity = getAverageMoodIntensity(moodExpenses);
+    summary += `- **Suasana Hati: ${moodInfo.label} ${moodInfo.emoji}**${isCustom ? " (dibuat pengguna)" : ""}\n`;
     summary += `  - Jumlah Transaksi: ${moodExpenses.length}\n`;
-    summary += `  - Total Pengeluaran: Rp${total.toLocaleString("id-ID")}\n`;
+    summary += `  - Total Pengeluaran: ${formatCurrency(total)}\n`;
+    if (averageIntensity !== null) {
+      summary += `  - Rata-rata Intensitas: ${averageIntensity.toFixed(1)} dari ${MOOD_INTENSITY_MAX}\n`;
+    }
   });
   
   return summary + "\n";
@@ -115,10 +164,10 @@ function generateDaySummary(expensesByDay: Record<string, Expense[]>): string {
   
   daysOfWeek.forEach((day) => {
     const dayExpenses = expensesByDay[day] || [];
-    const total = dayExpenses.reduce((sum, exp) => sum + exp.amount, 0);
+    const total = dayExpenses.reduce((sum, exp) => sum + getHomeAmount(exp), 0);
     summary += `- **Hari: ${day}**\n`;
     summary += `  - Jumlah Transaksi: ${dayExpenses.length}\n`;
-    summary += `  - Total Pengeluaran: Rp${total.toLocaleString("id-ID")}\n`;
+    summary += `  - Total Pengeluaran: ${formatCurrency(total)}\n`;
   });
   
   return summary + "\n";
@@ -130,12 +179,12 @@ function generateCategorySummary(expensesByCategory: Record<string, Expense[]>):
   
   Object.entries(expensesByCategory).forEach(([categoryId, categoryExpenses]) => {
     const category = getCategory(categoryId);
-    const total = categoryExpenses.reduce((sum, exp) => sum + exp.amount, 0);
+    const total = categoryExpenses.reduce((sum, exp) => sum + getHomeAmount(exp), 0);
     const categoryName = category?.name || 'Tidak Diketahui';
     const categoryIcon = category?.icon || '❓';
     summary += `- **Kategori: ${categoryName} ${categoryIcon}**\n`;
     summary += `  - Jumlah Transaksi: ${categoryExpenses.length}\n`;
-    summary += `  - Total Pengeluaran: Rp${total.toLocaleString("id-ID")}\n`;
+    summary += `  - Total Pengeluaran: ${formatCurrency(total)}\n`;
   });
   
   return summary + "\n";
@@ -149,16 +198,19 @@ function generateTransactionSamples(expenses: Expense[]): string {
   sampleExpenses.forEach((expense, index) => {
     const mood = getMood(expense.mood);
     const category = getCategory(expense.category) || { name: 'Tidak Diketahui', icon: '❓' };
-    const date = new Date(expense.date).toLocaleDateString("id-ID", {
+    const date = new Date(expense.date).toLocaleDateString(getIntlLocale(), {
       year: "numeric",
       month: "long",
       day: "numeric",
     });
     
     samples += `**Transaksi #${index + 1} (${date}):**\n`;
-    samples += `- Jumlah: Rp${expense.amount.toLocaleString("id-ID")}\n`;
+    samples += `- Jumlah: ${formatCurrency(expense.amount, expense.currency || DEFAULT_CURRENCY)}\n`;
     samples += `- Kategori: ${category.name} ${category.icon}\n`;
     samples += `- Suasana Hati Saat Belanja: ${mood.label} ${mood.emoji}\n`;
+    if (expense.moodIntensity != null) {
+      samples += `- Intensitas Suasana Hati: ${expense.moodIntensity} dari ${MOOD_INTENSITY_MAX}\n`;
+    }
 
     if (expense.moodReason?.trim()) {
       samples += `- Alasan Suasana Hati: "${expense.moodReason.trim()}"\n`;
@@ -173,23 +225,23 @@ function generateTransactionSamples(expenses: Expense[]): string {
 }
 
 function generateIncomeSummary(incomes: Income[]): string {
-  const totalIncome = incomes.reduce((sum, income) => sum + income.amount, 0);
+  const totalIncome = incomes.reduce((sum, income) => sum + getHomeAmount(income), 0);
   const incomeBySource: Record<string, number> = {};
   
   incomes.forEach(income => {
     const source = income.source || 'Lainnya';
-    incomeBySource[source] = (incomeBySource[source] || 0) + income.amount;
+    incomeBySource[source] = (incomeBySource[source] || 0) + getHomeAmount(income);
   });
 
   let summary = "## Ringkasan Pendapatan\n\n" +
-    `- **Total Pendapatan**: Rp${totalIncome.toLocaleString('id-ID')}\n`;
+    `- **Total Pendapatan**: ${formatCurrency(totalIncome)}\n`;
   
   // Add income by source
   if (Object.keys(incomeBySource).length > 0) {
     summary += "- **Sumber Pendapatan**:\n";
     Object.entries(incomeBySource).forEach(([source, amount]) => {
       const percentage = (amount / totalIncome * 100).toFixed(1);
-      summary += `  - ${source}: Rp${amount.toLocaleString('id-ID')} (${percentage}%)\n`;
+      summary += `  - ${source}: ${formatCurrency(amount)} (${percentage}%)\n`;
     });
   }
 
@@ -201,14 +253,14 @@ function generateIncomeSummary(incomes: Income[]): string {
   if (recentIncomes.length > 0) {
     summary += "\n**Contoh Pendapatan Terbaru**:\n";
     recentIncomes.forEach((income, index) => {
-      const date = new Date(income.date).toLocaleDateString('id-ID', {
+      const date = new Date(income.date).toLocaleDateString(getIntlLocale(), {
         year: 'numeric',
         month: 'short',
         day: 'numeric'
       });
       const source = income.source || 'Lainnya';
       const desc = income.description ? ` - ${income.description}` : '';
-      summary += `${index + 1}. ${date}: ${source} - Rp${income.amount.toLocaleString('id-ID')}${desc}\n`;
+      summary += `${index + 1}. ${date}: ${source} - ${formatCurrency(income.amount, income.currency || DEFAULT_CURRENCY)}${desc}\n`;
     });
   }
 
@@ -216,7 +268,7 @@ function generateIncomeSummary(incomes: Income[]): string {
 }
 
 export function getInitialInsightsPrompt(hasIncomeData: boolean = false): string {
-  let prompt = "## Instruksi untuk AI: Wawasan Awal (Format: Markdown List)\n" +
+  let prompt = "## Instruksi untuk AI: Wawasan Awal (Format: JSON)\n" +
     "Berdasarkan **semua data di atas**, lakukan hal berikut:\n";
 
   if (hasIncomeData) {
@@ -226,16 +278,27 @@ export function getInitialInsightsPrompt(hasIncomeData: boolean = false): string
     prompt += "1.  Identifikasi **3 hingga 4 pola belanja emosional** yang paling signifikan atau menarik dari data pengguna. Perhatikan baik emosi positif (seperti bahagia, puas) maupun emosi negatif (seperti sedih, stres) dan bagaimana keduanya mempengaruhi pengeluaran.\n";
   }
 
-  prompt += "**PENTING** : Buatkan hipotesa sebagai judul besarnya tanpa tulisan Hipotesa \n" +
-    (hasIncomeData ? "3" : "2") + ".  Untuk setiap pola, berikan **satu wawasan (insight)** yang singkat dan jelas dan actionable. Wawasan ini bisa berupa penguatan pola positif atau perbaikan pola negatif.\n" +
-    (hasIncomeData ? "4" : "3") + ".  Sampaikan setiap wawasan sebagai **item dalam daftar Markdown** (misalnya, diawali dengan `- ` atau `* ` atau `###` atau `>' atau `##` atau `####`).\n" +
-    (hasIncomeData ? "5" : "4") + ".  Gunakan **Bahasa Indonesia** yang empatik, santai namun profesional. Boleh sertakan emoji agar tidak terlalu kaku\n" +
-    (hasIncomeData ? "6" : "5") + ".  **PENTING:** Kembalikan **HANYA daftar Markdown berisi wawasan tersebut**. Jangan sertakan teks pembuka, penutup, judul tambahan, atau sapaan. Setiap item list harus merupakan wawasan yang diminta.\n\n" +
-    (hasIncomeData ? "7" : "6") + ".  **PENTING:** Buat singkat, padat dan jelas.\n\n" +
-    "Contoh format output yang diinginkan:\n" +
-    "- Wawasan pertama Anda ada di sini.\n" +
-    "- Wawasan kedua yang menjelaskan pola lain.\n" +
-    "- Dan seterusnya...";
+  prompt +=
+    (hasIncomeData ? "3" : "2") + ".  Untuk setiap pola, berikan **satu wawasan (insight)** yang singkat, jelas dan actionable. Wawasan ini bisa berupa penguatan pola positif atau perbaikan pola negatif.\n" +
+    (hasIncomeData ? "4" : "3") + `.  Gunakan **${getLocaleInfo().aiLanguage}** yang empatik, santai namun profesional untuk semua teks. Boleh sertakan emoji agar tidak terlalu kaku.\n` +
+    (hasIncomeData ? "5" : "4") + ".  **PENTING:** Kembalikan **HANYA satu objek JSON** dengan bentuk di bawah ini, tanpa Markdown, blok kode, atau teks lain.\n\n" +
+    "```\n" +
+    "{\n" +
+    '  "insights": [\n' +
+    "    {\n" +
+    '      "title": "Hipotesis singkat sebagai judul (maks. 10 kata, tanpa kata \'Hipotesa\')",\n' +
+    '      "body": "Penjelasan 1-3 kalimat yang merujuk angka dari data",\n' +
+    '      "severity": "positive | info | warning | critical",\n' +
+    '      "mood": "Nama suasana hati persis seperti di data, atau null",\n' +
+    '      "category": "Nama kategori persis seperti di data, atau null",\n' +
+    '      "action": "Satu langkah konkret yang bisa dilakukan pengguna, atau null"\n' +
+    "    }\n" +
+    "  ]\n" +
+    "}\n" +
+    "```\n\n" +
+    "Aturan `severity`: `positive` untuk pola sehat yang perlu dipertahankan, `info` untuk pengamatan netral, " +
+    "`warning` untuk pola yang mulai berisiko, `critical` untuk pola yang jelas merugikan keuangan. " +
+    "Berikan 3 sampai 5 item di `insights`.";
 
   return prompt;
 }
@@ -275,7 +338,7 @@ export function getDetailedAnalysisPrompt(currentInsights: string[]): string {
     `   - Jika relevan, Anda dapat menyajikan alur sederhana atau "decision tree" tekstual untuk membantu pengguna mengidentifikasi dan mengatasi dorongan belanja emosional. Contoh konseptual:\n` +
     `     \`Merasa dorongan belanja? -> Identifikasi emosi saat ini -> Apakah ada kebutuhan nyata? -> Jika tidak, coba alternatif [Aktivitas X, Y, Z] -> Evaluasi setelah 15 menit.\`\n\n` +
     `**Format Respons Keseluruhan:**\n` +
-    `-   Gunakan **Bahasa Indonesia** yang formal, empatik, dan mudah dipahami.\n` +
+    `-   Gunakan **${getLocaleInfo().aiLanguage}** yang formal, empatik, dan mudah dipahami.\n` +
     `-   Strukturkan seluruh respons Anda menggunakan **format Markdown yang baik dan jelas**. Ini termasuk penggunaan headings (misalnya, '#', '##', '###'), paragraf, bullet points (misalnya, '-' atau '*'), **tabel Markdown jika sesuai**, dan **bold/italics** untuk penekanan.\n` +
     `-   Pastikan analisis Anda mengalir secara logis dan koheren.\n` +
     `-   **PENTING:** Kembalikan **HANYA teks analisis dalam format Markdown**. Jangan sertakan sapaan, basa-basi, atau teks lain di luar analisis yang diminta.`;
@@ -0,0 +1,97 @@
+import type { AIPeriod } from "@/types/ai";
+import { getDb, type AIInsightRun } from "./db";
+
+/**
+ * SHA-256 of the prompt sent to the AI. Any change in the data, categories,
+ * currency or language changes the prompt and therefore the hash.
+ */
+export async function hashAIInput(input: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(input));
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+export async function findInsightRunByInput(inputHash: string): Promise<AIInsightRun | undefined> {
+  try {
+    const runs = await getDb().aiInsightRuns.where("input_hash").equals(inputHash).sortBy("created_at");
+    return runs[runs.length - 1];
+  } catch (error) {
+    console.error("Error reading cached insights:", error);
+    return undefined;
+  }
+}
+
+export async function findInsightRunByAnalysis(analysisHash: string): Promise<AIInsightRun | undefined> {
+  try {
+    return await getDb().aiInsightRuns.where("analysis_hash").equals(analysisHash).first();
+  } catch (error) {
+    console.error("Error reading cached analysis:", error);
+    return undefined;
+  }
+}
+
+export async function saveInsightRun(
+  run: Omit<AIInsightRun, "id" | "created_at">
+): Promise<AIInsightRun | null> {
+  const saved: AIInsightRun = {
+    ...run,
+    id: crypto.randomUUID(),
+    created_at: new Date().toISOString(),
+  };
+  try {
+    await getDb().aiInsightRuns.add(saved);
+    return saved;
+  } catch (error) {
+    console.error("Error saving insights to history:", error);
+    return null;
+  }
+}
+
+/**
+ * Attaches a finished detailed analysis to the insight set it expands on.
+ * A later analysis of the same set replaces the earlier one.
+ */
+export async function saveAnalysisToRun(
+  runId: string,
+  analysis: string,
+  analysisHash: string,
+  modelUsed: string
+): Promise<boolean> {
+  try {
+    const updated = await getDb().aiInsightRuns.update(runId, {
+      analysis,
+      analysis_hash: analysisHash,
+      analysis_model_used: modelUsed,
+      analysis_created_at: new Date().toISOString(),
+    });
+    return updated > 0;
+  } catch (error) {
+    console.error("Error saving analysis to history:", error);
+    return false;
+  }
+}
+
+/**
+ * Saved runs for a period type, newest period first and newest run first
+ * within a period
+ */
+export async function getInsightHistory(period: AIPeriod): Promise<AIInsightRun[]> {
+  try {
+    const runs = await getDb().aiInsightRuns.where("period").equals(period).toArray();
+    return runs.sort((a, b) => b.start.localeCompare(a.start) || b.created_at.localeCompare(a.created_at));
+  } catch (error) {
+    console.error("Error loading insight history:", error);
+    return [];
+  }
+}
+
+export async function deleteInsightRun(id: string): Promise<boolean> {
+  try {
+    await getDb().aiInsightRuns.delete(id);
+    return true;
+  } catch (error) {
+    console.error("Error deleting insight run:", error);
+    return false;
+  }
+}
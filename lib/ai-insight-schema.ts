@@ -0,0 +1,57 @@
+import { z } from "zod";
+import type { AIInsight } from "@/types/ai";
+
+// Models sometimes send empty strings or null for optional fields
+const optionalText = z
+  .string()
+  .nullish()
+  .transform((value) => value?.trim() || undefined);
+
+export const aiInsightSchema: z.ZodType<AIInsight, z.ZodTypeDef, unknown> = z.object({
+  title: z.string().trim().min(1).max(200),
+  body: z.string().trim().min(1).max(1500),
+  severity: z.enum(["positive", "info", "warning", "critical"]),
+  mood: optionalText,
+  category: optionalText,
+  action: optionalText,
+});
+
+export const aiInsightListSchema = z.object({
+  insights: z.array(aiInsightSchema).min(1).max(5),
+});
+
+export type ParsedInsights =
+  | { success: true; items: AIInsight[] }
+  | { success: false; error: string };
+
+/**
+ * Reads the model's answer as the insight JSON. Tolerates a ```json fence or
+ * text around the object, but not a different shape.
+ */
+export function parseInsightsJSON(text: string): ParsedInsights {
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  if (start === -1 || end <= start) {
+    return { success: false, error: "No JSON object found in the response." };
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(text.slice(start, end + 1));
+  } catch (error) {
+    return { success: false, error: `Invalid JSON: ${(error as Error).message}` };
+  }
+
+  const parsed = aiInsightListSchema.safeParse(data);
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .slice(0, 5)
+      .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+      .join("; ");
+    return { success: false, error: `Schema mismatch: ${issues}` };
+  }
+  return { success: true, items: parsed.data.insights };
+}
+
+// Plain-text form used by the detailed analysis prompt and old history entries
+export const insightToText = (insight: AIInsight): string => `${insight.title}: ${insight.body}`;
@@ -1,209 +1,176 @@
-import { getExpenses } from "@/lib/db";
-import type { Expense } from "@/types/expense";
-import type { AIInsightResponse, AIDetailedAnalysisResponse } from "@/types/ai";
-import { callGeminiAPI } from "./gemini-client";
-import { callDeepSeekAPI } from "./deepseek-client";
-import { prepareContextForAI, getDetailedAnalysisPrompt } from "./ai-context";
-
-// Error messages and default responses
-const genericErrorInsights = [
-  "Kami mengalami masalah saat menganalisis pola pengeluaran Anda.",
-  "Coba lagi nanti untuk wawasan yang dipersonalisasi tentang pembelanjaan emosional Anda.",
-];
-
-const noApiKeyError = {
-  insights: [
-    "Konfigurasi AI tidak lengkap. Wawasan tidak dapat dibuat.",
-    "Kunci API untuk layanan AI tidak ditemukan.",
-  ],
+import type { AIInsightResponse, AIDetailedAnalysisResponse, AIMessage } from "@/types/ai";
+import { getAIProviderChain, type AIPurpose } from "./ai-providers";
+import { insightToText, parseInsightsJSON } from "./ai-insight-schema";
+
+// Server-side only: the provider keys never leave the server. The browser
+// builds the prompt from its local data and posts it to /api/insights or
+// /api/analysis (see lib/ai-api.ts). Providers are tried in the order
+// configured in lib/ai-providers.ts until one answers.
+
+export function isAIConfigured(): boolean {
+  return getAIProviderChain("insights").length > 0;
+}
+
+// Failures carry only a code; the browser writes the message in the user's
+// language (see lib/ai-api.ts)
+const noApiKeyError: AIInsightResponse = {
+  insights: [],
   modelUsed: "None",
   error: "No API keys configured",
+  errorCode: "notConfigured",
 };
 
-const notEnoughDataError = {
-  insights: [
-    "Tambahkan lebih banyak pengeluaran untuk mendapatkan wawasan yang dipersonalisasi tentang pola pengeluaran Anda.",
-    "Kami membutuhkan lebih banyak data untuk menganalisis kebiasaan belanja emosional Anda.",
-    "Lacak beberapa pengeluaran lagi untuk membuka wawasan bertenaga AI!",
-  ],
-  modelUsed: "None",
-  error: "Not enough data",
-};
+// Sent back to the same provider once when its answer doesn't match the schema
+const getRepairInstruction = (error: string, language: string) =>
+  `Your previous answer could not be used (${error}). Reply again with ONLY the JSON object in the requested shape: ` +
+  `{"insights": [{"title", "body", "severity": "positive" | "info" | "warning" | "critical", "mood", "category", "action"}]}, ` +
+  `with 1 to 5 insights and the text in ${language}.`;
+
+const getDetailedInstruction = (language: string) =>
+  `\n\nProvide a deeper psychoanalytical explanation of the user's emotional spending habits. Focus on underlying motivations, potential triggers, and offer actionable advice. Respond in ${language}. Format as a cohesive paragraph or a few paragraphs. Return only the analysis text.`;
+
+const getChatInstruction = (language: string) =>
+  `\n\n## Chat\nYou are chatting with the user about their spending. Answer only from the data above; if it doesn't cover the question, say so instead of guessing. Keep answers short and concrete, quote amounts from the data, and use Markdown where it helps. Respond in ${language}.`;
 
 export async function generateAIInsights(
-  geminiApiKey: string | undefined,
-  deepSeekApiKey: string | undefined,
-  providedExpenses?: Expense[], // Add optional parameter for expenses
-  startDate?: Date, // Add optional start date parameter
-  endDate?: Date // Add optional end date parameter
+  context: string, // Built in the browser by prepareContextForAI
+  language: string
 ): Promise<AIInsightResponse> {
-  if (!geminiApiKey && !deepSeekApiKey) {
-    console.error("Neither Gemini nor DeepSeek API key is configured.");
+  const providers = getAIProviderChain("insights");
+  if (providers.length === 0) {
+    console.error("No AI provider is configured.");
     return noApiKeyError;
   }
 
-  try {
-    // Use provided expenses if available, otherwise fetch all expenses
-    const expenses = providedExpenses || await getExpenses();
-    console.log(`Generating insights with ${expenses.length} expenses`);
+  const request: AIMessage[] = [{ role: "user", content: context }];
+  const options = { maxTokens: 1500, json: true };
+
+  for (const provider of providers) {
+    try {
+      console.log(`Attempting to use ${provider.name} (${provider.model}) for insights...`);
+      const answer = await provider.generate(request, options);
+      let parsed = parseInsightsJSON(answer);
+
+      if (!parsed.success) {
+        console.warn(`${provider.name} returned malformed insights, asking it to repair:`, parsed.error);
+        const repaired = await provider.generate(
+          [...request, { role: "assistant", content: answer }, { role: "user", content: getRepairInstruction(parsed.error, language) }],
+          options
+        );
+        parsed = parseInsightsJSON(repaired);
+      }
 
-    if (expenses.length < 3) {
-      return notEnoughDataError;
+      if (parsed.success) {
+        console.log(`Successfully generated insights with ${provider.name}.`);
+        return { insights: parsed.items.map(insightToText), items: parsed.items, modelUsed: provider.name };
+      }
+      console.warn(`${provider.name} returned no usable insights:`, parsed.error);
+    } catch (error) {
+      console.warn(`${provider.name} call for insights failed. Error:`, (error as Error).message);
     }
+  }
 
-    const context = await prepareContextForAI(expenses, false, startDate, endDate); // false for not detailed
-    let result;
+  console.error("All AI API calls failed.");
+  return {
+    insights: [],
+    modelUsed: "None (All Failed)",
+    error: "All AI API calls failed.",
+    errorCode: "providersFailed",
+  };
+}
 
-    if (geminiApiKey) {
-      console.log("Attempting to use Gemini API for insights...");
-      result = await callGeminiAPI(geminiApiKey, context, false);
-      // The client functions should already handle splitting lines and cleaning up if AI returns markdown list items
-      if (!result.error && result.insights && result.insights.length > 0) {
-        console.log("Successfully generated insights with Gemini.");
-        return { insights: result.insights, modelUsed: result.modelUsed };
+// Tries each provider for the purpose in turn, streaming when asked and the
+// provider supports it. Returns null when every provider failed.
+async function respondWithProviders(
+  purpose: AIPurpose,
+  messages: AIMessage[],
+  stream: boolean
+): Promise<AIDetailedAnalysisResponse | null> {
+  const options = { maxTokens: 2000 };
+
+  for (const provider of getAIProviderChain(purpose)) {
+    try {
+      console.log(`Using ${provider.name} (${provider.model}) for ${purpose}...`);
+
+      // A stream only fails at connect time here; errors mid-stream end the response
+      if (stream && provider.stream) {
+        return { stream: await provider.stream(messages, options), modelUsed: provider.name };
       }
-      console.warn(
-        "Gemini API call for insights failed or returned no insights. Error:",
-        result.error
-      );
-    }
 
-    if (deepSeekApiKey) {
-      console.log("Falling back to DeepSeek API for insights...");
-      result = await callDeepSeekAPI(deepSeekApiKey, context, false);
-      if (!result.error && result.insights && result.insights.length > 0) {
-        console.log("Successfully generated insights with DeepSeek.");
-        return { insights: result.insights, modelUsed: result.modelUsed };
+      const analysis = await provider.generate(messages, options);
+      if (analysis) {
+        console.log(`Successfully generated ${purpose} with ${provider.name}.`);
+        return { analysis, modelUsed: provider.name };
       }
-      console.warn(
-        "DeepSeek API call for insights failed or returned no insights. Error:",
-        result.error
-      );
+    } catch (error) {
+      console.warn(`${provider.name} call for ${purpose} failed. Error:`, (error as Error).message);
     }
-
-    console.error(
-      "All AI API calls failed or no suitable API key was available."
-    );
-    return {
-      insights: genericErrorInsights,
-      modelUsed: "None (All Failed)",
-      error: "All AI API calls failed.",
-    };
-  } catch (error) {
-    console.error("Error in generateAIInsights orchestrator:", error);
-    return {
-      insights: genericErrorInsights,
-      modelUsed: "None (Error)",
-      error: (error as Error).message,
-    };
   }
+
+  return null;
 }
 
 export async function generateDetailedAnalysis(
-  geminiApiKey: string | undefined,
-  deepSeekApiKey: string | undefined,
-  currentInsights: string[],
-  stream: boolean = true, // Add stream parameter, default to true
-  startDate?: Date, // Add optional start date parameter
-  endDate?: Date // Add optional end date parameter
+  detailedContext: string, // Data context plus getDetailedAnalysisPrompt, built in the browser
+  language: string,
+  stream: boolean = true
 ): Promise<AIDetailedAnalysisResponse> {
-  if (!geminiApiKey && !deepSeekApiKey) {
-    console.error(
-      "Neither Gemini nor DeepSeek API key is configured for detailed analysis."
-    );
+  if (getAIProviderChain("analysis").length === 0) {
+    console.error("No AI provider is configured for detailed analysis.");
     return {
-      analysis:
-        "Kunci API untuk layanan AI tidak dikonfigurasi. Analisis mendalam tidak dapat dibuat.",
+      analysis: "",
       modelUsed: "None",
       error: "No API keys configured",
+      errorCode: "notConfigured",
     };
   }
 
-  try {
-    const expenses = await getExpenses();
-    if (expenses.length < 3) {
-      return {
-        analysis: "Data pengeluaran tidak cukup untuk analisis mendalam.",
-        modelUsed: "None",
-        error: "Not enough data",
-      };
-    }
-
-    const baseContext = await prepareContextForAI(expenses, true, startDate, endDate);
-    const detailedContext = getDetailedAnalysisPrompt(currentInsights);
-
-    let result;
-
-    // Use DeepSeek directly for detailed analysis
-    if (deepSeekApiKey) {
-      console.log("Using DeepSeek API for detailed analysis...");
-      result = await callDeepSeekAPI(deepSeekApiKey, detailedContext, true, stream);
-      
-      // If streaming is enabled and we have a stream in the response, return it directly
-      if (stream && result.stream) {
-        return {
-          stream: result.stream,
-          modelUsed: result.modelUsed,
-        };
-      }
-      
-      // Handle non-streaming response
-      if (!result.error && result.text) {
-        console.log("Successfully generated detailed analysis with DeepSeek.");
-        return { 
-          analysis: result.text, 
-          modelUsed: result.modelUsed 
-        };
-      }
-      console.warn(
-        "DeepSeek API call for detailed analysis failed. Error:",
-        result.error
-      );
-    }
-    
-    // Fall back to Gemini only if DeepSeek is not available or fails
-    if (geminiApiKey) {
-      console.log("Falling back to Gemini API for detailed analysis...");
-      result = await callGeminiAPI(geminiApiKey, detailedContext, true);
-      
-      // If streaming is enabled and we have a stream in the response, return it directly
-      if (stream && result.stream) {
-        return {
-          stream: result.stream,
-          modelUsed: result.modelUsed,
-        };
-      }
-      
-      // Handle non-streaming response
-      if (!result.error && result.text) {
-        console.log("Successfully generated detailed analysis with Gemini.");
-        return { 
-          analysis: result.text, 
-          modelUsed: result.modelUsed 
-        };
-      }
-      console.warn(
-        "Gemini API call for detailed analysis failed. Error:",
-        result.error
-      );
-    }
+  const prompt = detailedContext + getDetailedInstruction(language);
+  const result = await respondWithProviders("analysis", [{ role: "user", content: prompt }], stream);
+  if (result) return result;
+
+  console.error("All AI API calls for detailed analysis failed.");
+  return {
+    analysis: "",
+    modelUsed: "None (All Failed)",
+    error: "All AI API calls for detailed analysis failed.",
+    errorCode: "providersFailed",
+  };
+}
 
-    console.error("All AI API calls for detailed analysis failed.");
-    return {
-      analysis:
-        "Gagal menghasilkan analisis mendalam. Layanan AI tidak dapat dihubungi atau mengembalikan respons yang tidak valid.",
-      modelUsed: "None (All Failed)",
-      error: "All AI API calls for detailed analysis failed.",
-    };
-  } catch (error) {
-    console.error("Error in generateDetailedAnalysis orchestrator:", error);
+/**
+ * Answers the latest question in a spending chat. The data context is put in
+ * front of the first question so every turn stays grounded in it.
+ */
+export async function generateChatReply(
+  context: string, // Built in the browser by prepareChatContext
+  messages: AIMessage[],
+  language: string
+): Promise<AIDetailedAnalysisResponse> {
+  if (getAIProviderChain("chat").length === 0) {
+    console.error("No AI provider is configured for chat.");
     return {
-      analysis:
-        "Terjadi kesalahan sistem saat mencoba menghasilkan analisis mendalam.",
-      modelUsed: "None (Error)",
-      error: (error as Error).message,
+      analysis: "",
+      modelUsed: "None",
+      error: "No API keys configured",
+      errorCode: "notConfigured",
     };
   }
-}
-
 
+  const [first, ...rest] = messages;
+  const grounded: AIMessage[] = [
+    { role: "user", content: `${context}${getChatInstruction(language)}\n\n${first.content}` },
+    ...rest,
+  ];
+
+  const result = await respondWithProviders("chat", grounded, true);
+  if (result) return result;
+
+  console.error("All AI API calls for chat failed.");
+  return {
+    analysis: "",
+    modelUsed: "None (All Failed)",
+    error: "All AI API calls for chat failed.",
+    errorCode: "providersFailed",
+  };
+}
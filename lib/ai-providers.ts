@@ -0,0 +1,104 @@
+// /lib/ai-providers.ts
+// Server-side registry of AI providers. Built-in adapters are registered from
+// the environment on first use; the order they are tried in is configurable:
+//
+//   AI_PROVIDER_ORDER=gemini,deepseek,openai-compatible            (insights)
+//   AI_ANALYSIS_PROVIDER_ORDER=deepseek,gemini,openai-compatible   (detailed analysis)
+//   AI_CHAT_PROVIDER_ORDER=deepseek,gemini,openai-compatible       (spending chat)
+//
+// Providers missing from the order are not used; unconfigured ones are skipped.
+import type { AIMessage } from "@/types/ai";
+import { createGeminiProvider } from "./gemini-client";
+import { createOpenAICompatibleProvider } from "./openai-compatible-client";
+
+export interface AIGenerateOptions {
+  maxTokens: number;
+  /** Ask the provider for a JSON object, where it supports that */
+  json?: boolean;
+}
+
+export interface AIProvider {
+  /** Registry key and the label reported as `modelUsed` */
+  name: string;
+  model: string;
+  /** Resolves with the full response text; throws when the call fails */
+  generate(messages: AIMessage[], options: AIGenerateOptions): Promise<string>;
+  /** Resolves with a stream of response text; providers without it fall back to generate */
+  stream?(messages: AIMessage[], options: AIGenerateOptions): Promise<ReadableStream<Uint8Array>>;
+}
+
+export type AIPurpose = "insights" | "analysis" | "chat";
+
+const DEFAULT_ORDER: Record<AIPurpose, string> = {
+  insights: "gemini,deepseek,openai-compatible",
+  analysis: "deepseek,gemini,openai-compatible",
+  chat: "deepseek,gemini,openai-compatible",
+};
+
+const ORDER_ENV: Record<AIPurpose, string> = {
+  insights: "AI_PROVIDER_ORDER",
+  analysis: "AI_ANALYSIS_PROVIDER_ORDER",
+  chat: "AI_CHAT_PROVIDER_ORDER",
+};
+
+const providers = new Map<string, AIProvider>();
+let builtInsRegistered = false;
+
+const toKey = (name: string) => name.trim().toLowerCase();
+
+/**
+ * Adds or replaces a provider. Its name is what AI_PROVIDER_ORDER refers to.
+ */
+export function registerAIProvider(provider: AIProvider): void {
+  providers.set(toKey(provider.name), provider);
+}
+
+function registerBuiltInProviders(): void {
+  if (builtInsRegistered) return;
+  builtInsRegistered = true;
+
+  if (process.env.GEMINI_API_KEY) {
+    registerAIProvider(
+      createGeminiProvider({
+        apiKey: process.env.GEMINI_API_KEY,
+        model: process.env.GEMINI_MODEL || "gemini-1.5-flash-latest",
+      })
+    );
+  }
+
+  if (process.env.DEEPSEEK_API_KEY) {
+    registerAIProvider(
+      createOpenAICompatibleProvider({
+        name: "DeepSeek",
+        baseUrl: "https://api.deepseek.com/v1",
+        apiKey: process.env.DEEPSEEK_API_KEY,
+        model: process.env.DEEPSEEK_MODEL || "deepseek-chat",
+      })
+    );
+  }
+
+  // Any server speaking the OpenAI chat completions API: Ollama
+  // (http://localhost:11434/v1), llama.cpp's server, or scripts/ai-stub-server.js
+  if (process.env.OPENAI_COMPATIBLE_BASE_URL && process.env.OPENAI_COMPATIBLE_MODEL) {
+    registerAIProvider(
+      createOpenAICompatibleProvider({
+        name: "OpenAI-compatible",
+        baseUrl: process.env.OPENAI_COMPATIBLE_BASE_URL,
+        apiKey: process.env.OPENAI_COMPATIBLE_API_KEY,
+        model: process.env.OPENAI_COMPATIBLE_MODEL,
+      })
+    );
+  }
+}
+
+/**
+ * Registered providers in the configured priority order for the given purpose
+ */
+export function getAIProviderChain(purpose: AIPurpose): AIProvider[] {
+  registerBuiltInProviders();
+  const order = (process.env[ORDER_ENV[purpose]] || DEFAULT_ORDER[purpose]).split(",").map(toKey);
+
+  return order
+    .map((name) => providers.get(name))
+    .filter((provider): provider is AIProvider => Boolean(provider));
+}
@@ -0,0 +1,89 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import type { AIDetailedAnalysisResponse } from "@/types/ai"
+import { getRequestUser } from "@/lib/api-auth"
+import { checkRateLimit } from "@/lib/rate-limit"
+
+// Prompts are built in the browser from the user's own data; the caps only
+// guard the providers against oversized requests
+export const aiPromptSchema = z.object({
+  prompt: z.string().min(1).max(100_000),
+  language: z.string().min(1).max(50),
+})
+
+export const aiChatSchema = z.object({
+  context: z.string().min(1).max(100_000),
+  language: z.string().min(1).max(50),
+  messages: z
+    .array(
+      z.object({
+        role: z.enum(["user", "assistant"]),
+        content: z.string().min(1).max(8_000),
+      })
+    )
+    .min(1)
+    .max(40)
+    .refine((messages) => messages[0].role === "user" && messages[messages.length - 1].role === "user", {
+      message: "Conversation must start and end with a user message",
+    }),
+})
+
+interface RateLimitOptions {
+  name: string
+  limit: number
+  windowMs: number
+}
+
+/**
+ * Shared checks for the AI route handlers: a signed-in user, the per-user
+ * rate limit and a valid body. Returns either the body or the error response.
+ */
+export async function parseAIRequest<T>(
+  request: Request,
+  schema: z.ZodType<T>,
+  rateLimit: RateLimitOptions
+): Promise<{ body: T; error?: never } | { error: NextResponse; body?: never }> {
+  const user = await getRequestUser(request)
+  if (!user) {
+    return { error: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) }
+  }
+
+  const { allowed, retryAfterSeconds } = checkRateLimit(
+    `${rateLimit.name}:${user.id}`,
+    rateLimit.limit,
+    rateLimit.windowMs
+  )
+  if (!allowed) {
+    return {
+      error: NextResponse.json(
+        { error: "Too many requests" },
+        { status: 429, headers: { "Retry-After": String(retryAfterSeconds) } }
+      ),
+    }
+  }
+
+  const parsed = schema.safeParse(await request.json().catch(() => null))
+  if (!parsed.success) {
+    return { error: NextResponse.json({ error: "Invalid request body" }, { status: 400 }) }
+  }
+
+  return { body: parsed.data }
+}
+
+/**
+ * Sends a streamed or complete answer as plain text, with the provider that
+ * answered in the X-Model-Used header. Failures come back as JSON.
+ */
+export function toTextResponse(result: AIDetailedAnalysisResponse): Response {
+  if (result.error || (!result.stream && !result.analysis)) {
+    return NextResponse.json(result, { status: 502 })
+  }
+
+  return new Response(result.stream ?? result.analysis, {
+    headers: {
+      "Content-Type": "text/plain; charset=utf-8",
+      "Cache-Control": "no-store",
+      "X-Model-Used": result.modelUsed,
+    },
+  })
+}
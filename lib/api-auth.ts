@@ -0,0 +1,21 @@
+import type { User } from "@supabase/supabase-js"
+import { createServerClient } from "@/lib/supabase"
+
+/**
+ * Resolves the Supabase user from the `Authorization: Bearer <access token>`
+ * header sent by the browser. Returns null when the token is missing or invalid.
+ */
+export async function getRequestUser(request: Request): Promise<User | null> {
+  const header = request.headers.get("authorization")
+  const token = header?.startsWith("Bearer ") ? header.slice(7) : null
+  if (!token) return null
+
+  try {
+    const { data, error } = await createServerClient().auth.getUser(token)
+    if (error) return null
+    return data.user
+  } catch (error) {
+    console.error("Error verifying session:", error)
+    return null
+  }
+}
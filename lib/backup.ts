@@ -0,0 +1,299 @@
+import { z } from "zod";
+import {
+  getCurrentUser,
+  getDb,
+  enqueueSyncOperation,
+  notifySyncConflictsChanged,
+  notifySyncQueueChanged,
+  processSyncQueue,
+  type SyncQueueTable,
+} from "./db";
+
+const BACKUP_FORMAT = "emospend-backup";
+// Bump when the file layout changes; older files must stay restorable
+export const BACKUP_VERSION = 1;
+
+// Tables that are pushed to Supabase, so restored rows are queued for sync
+const SYNCED_TABLES = ["expenses", "incomes", "categories", "moods", "budgets", "recurringRules"] as const satisfies readonly SyncQueueTable[];
+
+// Device-only tables, keyed by the field in KEY_FIELDS
+const LOCAL_TABLES = ["exchangeRates", "preferences", "chatHistories", "aiInsightRuns", "pendingTransactions", "categoryRules"] as const;
+
+// The outbox, pull cursors and conflicts describe this device's sync progress.
+// They are backed up for completeness but never restored: restored rows get
+// queued afresh instead.
+const SYNC_STATE_TABLES = ["syncStatus", "syncQueue", "syncCursors", "syncConflicts"] as const;
+
+type SyncedTable = (typeof SYNCED_TABLES)[number];
+type LocalTable = (typeof LOCAL_TABLES)[number];
+export type BackupTable = SyncedTable | LocalTable | (typeof SYNC_STATE_TABLES)[number];
+
+const KEY_FIELDS: Record<SyncedTable | LocalTable, string> = {
+  expenses: "id",
+  incomes: "id",
+  categories: "id",
+  moods: "id",
+  budgets: "id",
+  recurringRules: "id",
+  exchangeRates: "currency",
+  preferences: "key",
+  chatHistories: "id",
+  aiInsightRuns: "id",
+  pendingTransactions: "id",
+  categoryRules: "id",
+};
+
+type BackupRow = Record<string, unknown>;
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  // Dexie schema version of the database the backup was taken from
+  schemaVersion: number;
+  createdAt: string;
+  tables: Partial<Record<BackupTable, BackupRow[]>>;
+}
+
+interface EncryptedBackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  encrypted: {
+    salt: string;
+    iv: string;
+    iterations: number;
+    data: string;
+  };
+}
+
+export type RestoreMode = "merge" | "replace";
+
+export interface RestoreResult {
+  restored: number;
+  skipped: number;
+  queued: number;
+}
+
+export type BackupErrorCode = "invalidFile" | "unsupportedVersion" | "passphraseRequired" | "wrongPassphrase";
+
+export class BackupError extends Error {
+  constructor(public code: BackupErrorCode, message: string) {
+    super(message);
+    this.name = "BackupError";
+  }
+}
+
+const rowSchema = z.record(z.unknown());
+
+const backupFileSchema = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  version: z.number().int().positive(),
+  schemaVersion: z.number().int().positive(),
+  createdAt: z.string(),
+  tables: z.record(z.array(rowSchema)),
+});
+
+const encryptedBackupFileSchema = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  version: z.number().int().positive(),
+  encrypted: z.object({
+    salt: z.string(),
+    iv: z.string(),
+    iterations: z.number().int().positive(),
+    data: z.string(),
+  }),
+});
+
+const PBKDF2_ITERATIONS = 250_000;
+
+// Chunked so large backups don't overflow the argument limit of fromCharCode
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string): Uint8Array => Uint8Array.from(atob(text), (char) => char.charCodeAt(0));
+
+async function deriveKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey("raw", new TextEncoder().encode(passphrase), "PBKDF2", false, ["deriveKey"]);
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt, iterations, hash: "SHA-256" },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+async function encryptBackup(backup: BackupFile, passphrase: string): Promise<EncryptedBackupFile> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const data = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, new TextEncoder().encode(JSON.stringify(backup)));
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    encrypted: {
+      salt: toBase64(salt),
+      iv: toBase64(iv),
+      iterations: PBKDF2_ITERATIONS,
+      data: toBase64(new Uint8Array(data)),
+    },
+  };
+}
+
+async function decryptBackup(file: EncryptedBackupFile, passphrase: string): Promise<unknown> {
+  const { salt, iv, iterations, data } = file.encrypted;
+  try {
+    const key = await deriveKey(passphrase, fromBase64(salt), iterations);
+    const plain = await crypto.subtle.decrypt({ name: "AES-GCM", iv: fromBase64(iv) }, key, fromBase64(data));
+    return JSON.parse(new TextDecoder().decode(plain));
+  } catch {
+    // AES-GCM can't tell a wrong passphrase from tampered data
+    throw new BackupError("wrongPassphrase", "Could not decrypt the backup");
+  }
+}
+
+/**
+ * Serialises every local table plus preferences into a versioned backup,
+ * encrypted with AES-GCM when a passphrase is given
+ */
+export async function createBackup(passphrase?: string): Promise<string> {
+  const db = getDb();
+  const tables: BackupFile["tables"] = {};
+
+  for (const name of [...SYNCED_TABLES, ...LOCAL_TABLES, ...SYNC_STATE_TABLES]) {
+    const rows: BackupRow[] = await db.table(name).toArray();
+    // Pending deletes are not data the user wants back
+    tables[name] = rows.filter((row) => !row.deletedAt);
+  }
+
+  const backup: BackupFile = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    schemaVersion: db.verno,
+    createdAt: new Date().toISOString(),
+    tables,
+  };
+
+  return JSON.stringify(passphrase ? await encryptBackup(backup, passphrase) : backup);
+}
+
+export function isEncryptedBackup(text: string): boolean {
+  try {
+    return encryptedBackupFileSchema.safeParse(JSON.parse(text)).success;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parses and validates a backup file, decrypting it first when needed
+ * @throws BackupError when the file isn't a backup this version can restore
+ */
+export async function readBackup(text: string, passphrase?: string): Promise<BackupFile> {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new BackupError("invalidFile", "Backup is not valid JSON");
+  }
+
+  const encrypted = encryptedBackupFileSchema.safeParse(json);
+  if (encrypted.success) {
+    if (!passphrase) throw new BackupError("passphraseRequired", "Backup is encrypted");
+    json = await decryptBackup(encrypted.data, passphrase);
+  }
+
+  const parsed = backupFileSchema.safeParse(json);
+  if (!parsed.success) throw new BackupError("invalidFile", "Backup does not match the expected format");
+  if (parsed.data.version > BACKUP_VERSION || parsed.data.schemaVersion > getDb().verno) {
+    throw new BackupError("unsupportedVersion", "Backup was made by a newer version of the app");
+  }
+
+  return parsed.data as BackupFile;
+}
+
+const updatedAtOf = (row: BackupRow): string =>
+  String(row.updatedAt ?? row.updated_at ?? row.createdAt ?? row.created_at ?? "");
+
+/**
+ * Writes a backup into the local database and queues its synced rows for
+ * upload. "replace" clears this device's data first; "merge" keeps whichever
+ * copy of a record was updated last and leaves local preferences alone.
+ */
+export async function restoreBackup(backup: BackupFile, mode: RestoreMode): Promise<RestoreResult> {
+  const db = getDb();
+  const user = await getCurrentUser();
+  const result: RestoreResult = { restored: 0, skipped: 0, queued: 0 };
+  const tables = [...SYNCED_TABLES, ...LOCAL_TABLES].map((name) => db.table(name));
+
+  await db.transaction("rw", [...tables, db.syncStatus, db.syncQueue, db.syncConflicts], async () => {
+    if (mode === "replace") {
+      await Promise.all([...tables, db.syncStatus, db.syncQueue, db.syncConflicts].map((table) => table.clear()));
+    }
+
+    for (const name of [...SYNCED_TABLES, ...LOCAL_TABLES]) {
+      const table = db.table(name);
+      const keyField = KEY_FIELDS[name];
+      const synced = (SYNCED_TABLES as readonly string[]).includes(name);
+
+      for (const backupRow of backup.tables[name] ?? []) {
+        const key = backupRow[keyField];
+        if (typeof key !== "string" || key === "") {
+          result.skipped++;
+          continue;
+        }
+
+        if (mode === "merge") {
+          const existing: BackupRow | undefined = await table.get(key);
+          const keepExisting = name === "preferences" || updatedAtOf(existing ?? {}) >= updatedAtOf(backupRow);
+          if (existing && keepExisting) {
+            result.skipped++;
+            continue;
+          }
+        }
+
+        // A backup from another account is restored as the signed-in user's data
+        const row: BackupRow = synced
+          ? { ...backupRow, synced: false, ...(user && "user_id" in backupRow && { user_id: user.id }) }
+          : backupRow;
+        await table.put(row);
+        result.restored++;
+
+        if (synced) {
+          if (name === "expenses") {
+            await db.syncStatus.put({ id: key, synced: false, lastAttempt: new Date().toISOString() });
+          }
+          // Upserted remotely, so "update" is right whether or not the row exists there.
+          // No snapshot needed: the row was just written and the replay reads it
+          await enqueueSyncOperation(name as SyncedTable, key, "update", null);
+          result.queued++;
+        }
+      }
+    }
+  });
+
+  await notifySyncQueueChanged();
+  await notifySyncConflictsChanged();
+  if (navigator.onLine) {
+    processSyncQueue().catch((error) => console.error("[Backup] Error syncing restored data:", error));
+  }
+
+  return result;
+}
+
+export function downloadBackup(content: string, filename: string): void {
+  const blob = new Blob([content], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.style.visibility = "hidden";
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,146 @@
+import type { Budget, Expense } from "@/types/expense";
+import { getHomeAmount } from "@/data/currencies";
+
+// Share of a monthly budget after which spending counts as "warning"
+export const BUDGET_WARNING_THRESHOLD = 0.8;
+
+export type BudgetLevel = 'ok' | 'warning' | 'over';
+
+export interface BudgetStatus {
+  category: string;
+  limit: number;
+  spent: number;
+  remaining: number;
+  percentUsed: number; // 0-100+, relative to limit
+  level: BudgetLevel;
+}
+
+/**
+ * Returns the YYYY-MM month key for a date or a YYYY-MM-DD / ISO string
+ */
+export function getMonthKey(date: string | Date = new Date()): string {
+  if (typeof date === 'string' && /^\d{4}-\d{2}/.test(date)) {
+    return date.slice(0, 7);
+  }
+  const d = typeof date === 'string' ? new Date(date) : date;
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+}
+
+/**
+ * Picks the budget that applies to each category in a month: the entry for
+ * that month, or else the latest earlier one. Categories whose applicable
+ * limit is 0 have no budget.
+ */
+export function resolveBudgetsForMonth<T extends Budget>(budgets: T[], month: string): T[] {
+  const latest = new Map<string, T>();
+  for (const budget of budgets) {
+    if (budget.month > month) continue;
+    const current = latest.get(budget.category);
+    if (
+      !current ||
+      budget.month > current.month ||
+      (budget.month === current.month && budget.updatedAt > current.updatedAt)
+    ) {
+      latest.set(budget.category, budget);
+    }
+  }
+  return Array.from(latest.values()).filter(budget => budget.amount > 0);
+}
+
+export function getBudgetLevel(spent: number, limit: number): BudgetLevel {
+  if (limit <= 0) return 'ok';
+  if (spent > limit) return 'over';
+  if (spent >= limit * BUDGET_WARNING_THRESHOLD) return 'warning';
+  return 'ok';
+}
+
+export interface BudgetImpact {
+  category: string;
+  limit: number;
+  spentBefore: number;
+  spentAfter: number;
+  remaining: number; // Left after the expense; negative when over
+  percentUsed: number; // After the expense
+  level: BudgetLevel; // After the expense
+  crossesThreshold: boolean; // Moves the category into 'warning' or 'over'
+}
+
+const LEVEL_RANK: Record<BudgetLevel, number> = { ok: 0, warning: 1, over: 2 };
+
+/**
+ * Evaluates what adding `amount` to a category's month-to-date spending does
+ * to its budget
+ */
+export function evaluateBudgetImpact(
+  category: string,
+  limit: number,
+  spentBefore: number,
+  amount: number
+): BudgetImpact {
+  const spentAfter = spentBefore + amount;
+  const levelBefore = getBudgetLevel(spentBefore, limit);
+  const level = getBudgetLevel(spentAfter, limit);
+  return {
+    category,
+    limit,
+    spentBefore,
+    spentAfter,
+    remaining: limit - spentAfter,
+    percentUsed: limit > 0 ? (spentAfter / limit) * 100 : 0,
+    level,
+    crossesThreshold: LEVEL_RANK[level] > LEVEL_RANK[levelBefore],
+  };
+}
+
+/**
+ * Compares month-to-date spending against each resolved budget. Limits are
+ * in the home currency, so spending is converted to it.
+ * @param budgets - Budgets already resolved for `month`
+ * @param expenses - Expenses of any range; only those in `month` are counted
+ */
+export function calculateBudgetStatuses(
+  budgets: Budget[],
+  expenses: Pick<Expense, 'amount' | 'currency' | 'category' | 'date'>[],
+  month: string
+): BudgetStatus[] {
+  const spentByCategory = new Map<string, number>();
+  for (const expense of expenses) {
+    if (getMonthKey(expense.date) !== month) continue;
+    spentByCategory.set(
+      expense.category,
+      (spentByCategory.get(expense.category) || 0) + (getHomeAmount(expense) || 0)
+    );
+  }
+
+  return budgets.map(budget => {
+    const spent = spentByCategory.get(budget.category) || 0;
+    return {
+      category: budget.category,
+      limit: budget.amount,
+      spent,
+      remaining: budget.amount - spent,
+      percentUsed: budget.amount > 0 ? (spent / budget.amount) * 100 : 0,
+      level: getBudgetLevel(spent, budget.amount),
+    };
+  });
+}
+
+/**
+ * "Budget master": budgets have been in place for at least a week and no
+ * budgeted category is over its limit this month
+ */
+export function hasStayedWithinBudgets(
+  budgets: Budget[],
+  expenses: Pick<Expense, 'amount' | 'currency' | 'category' | 'date'>[],
+  today: Date = new Date()
+): boolean {
+  const month = getMonthKey(today);
+  const active = resolveBudgetsForMonth(budgets, month);
+  if (active.length === 0) return false;
+
+  const weekAgo = today.getTime() - 7 * 24 * 60 * 60 * 1000;
+  const oldest = Math.min(...active.map(budget => new Date(budget.createdAt).getTime()));
+  if (!(oldest <= weekAgo)) return false;
+
+  return calculateBudgetStatuses(active, expenses, month).every(status => status.level !== 'over');
+}
@@ -0,0 +1,244 @@
+import {
+  getDb,
+  getCurrentUser,
+  enqueueSyncOperation,
+  notifySyncQueueChanged,
+  processSyncQueue,
+  removeTombstonedRecord,
+  fetchChangedRows,
+  getCursorAfter,
+  getPullCursor,
+  setPullCursor,
+  getExpensesByDateRange,
+  type SyncedBudget,
+} from './db';
+import { ensureCurrencySettingsLoaded } from './currency';
+import { getHomeAmount } from '@/data/currencies';
+import {
+  calculateBudgetStatuses,
+  evaluateBudgetImpact,
+  getMonthKey,
+  resolveBudgetsForMonth,
+  type BudgetImpact,
+  type BudgetStatus,
+} from './budget-calculations';
+
+interface RemoteBudget {
+  id: string;
+  user_id: string;
+  category_id: string;
+  month: string;
+  amount: number | string;
+  created_at?: string;
+  updated_at?: string;
+  deleted_at?: string | null;
+}
+
+export interface BudgetSyncResult {
+  pushed: number;
+  pulled: number;
+  failed: number;
+}
+
+function notifyBudgetsChanged(): void {
+  if (typeof window !== 'undefined') {
+    window.dispatchEvent(new CustomEvent('budgets:changed'));
+  }
+}
+
+/**
+ * Returns every stored budget entry (all months), excluding tombstones
+ */
+export async function getBudgets(): Promise<SyncedBudget[]> {
+  try {
+    const db = getDb();
+    return await db.budgets.filter(budget => !budget.deletedAt).toArray();
+  } catch (error) {
+    console.error('Error fetching budgets:', error);
+    return [];
+  }
+}
+
+/**
+ * Returns the budget that applies to each category in a month (YYYY-MM),
+ * carrying earlier months' limits forward
+ */
+export async function getBudgetsForMonth(month: string): Promise<SyncedBudget[]> {
+  const budgets = await getBudgets();
+  return resolveBudgetsForMonth(budgets, month);
+}
+
+function getMonthRange(month: string): { start: string; end: string } {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return {
+    start: new Date(year, monthIndex - 1, 1).toISOString(),
+    end: new Date(year, monthIndex, 0, 23, 59, 59, 999).toISOString(),
+  };
+}
+
+/**
+ * Returns spending against each budgeted category for a month (YYYY-MM)
+ */
+export async function getBudgetStatusesForMonth(month: string = getMonthKey()): Promise<BudgetStatus[]> {
+  const { start, end } = getMonthRange(month);
+  const [budgets, expenses] = await Promise.all([
+    getBudgetsForMonth(month),
+    getExpensesByDateRange(start, end),
+    ensureCurrencySettingsLoaded(),
+  ]);
+  return calculateBudgetStatuses(budgets, expenses, month);
+}
+
+/**
+ * Checks whether saving an expense would push its category past 80% or 100%
+ * of the monthly budget
+ * @param amount - The new expense's amount in the home currency
+ * @param excludeExpenseId - The expense being edited, so its old amount isn't counted twice
+ * @returns The impact when a threshold would be crossed, otherwise null
+ */
+export async function checkBudgetImpact(
+  category: string,
+  date: string,
+  amount: number,
+  excludeExpenseId?: string
+): Promise<BudgetImpact | null> {
+  try {
+    const month = getMonthKey(date);
+    const budget = (await getBudgetsForMonth(month)).find(entry => entry.category === category);
+    if (!budget) return null;
+
+    const { start, end } = getMonthRange(month);
+    const [expenses] = await Promise.all([
+      getExpensesByDateRange(start, end),
+      ensureCurrencySettingsLoaded(),
+    ]);
+    const spentBefore = expenses
+      .filter(expense => expense.category === category && expense.id !== excludeExpenseId)
+      .filter(expense => getMonthKey(expense.date) === month)
+      .reduce((sum, expense) => sum + (getHomeAmount(expense) || 0), 0);
+
+    const impact = evaluateBudgetImpact(category, budget.amount, spentBefore, amount);
+    return impact.crossesThreshold ? impact : null;
+  } catch (error) {
+    // Never block saving an expense because the budget check failed
+    console.error('Error checking budget impact:', error);
+    return null;
+  }
+}
+
+/**
+ * Sets the monthly limit for a category from `month` onward. An amount of 0
+ * removes the limit. Saved locally first and pushed through the sync queue.
+ */
+export async function setBudget(
+  category: string,
+  month: string,
+  amount: number
+): Promise<SyncedBudget | null> {
+  const user = await getCurrentUser();
+  if (!user) {
+    console.error('Cannot save budget: user not authenticated');
+    return null;
+  }
+
+  const db = getDb();
+  const now = new Date().toISOString();
+
+  try {
+    const budget = await db.transaction('rw', db.budgets, db.syncQueue, async () => {
+      const existing = await db.budgets
+        .where('[month+category]')
+        .equals([month, category])
+        .filter(entry => !entry.deletedAt)
+        .first();
+
+      const next: SyncedBudget = existing
+        ? { ...existing, amount, updatedAt: now, synced: false }
+        : {
+            id: crypto.randomUUID(),
+            user_id: user.id,
+            category,
+            month,
+            amount,
+            createdAt: now,
+            updatedAt: now,
+            synced: false,
+          };
+
+      await db.budgets.put(next);
+      await enqueueSyncOperation('budgets', next.id, existing ? 'update' : 'create', next);
+      return next;
+    });
+
+    await notifySyncQueueChanged();
+    notifyBudgetsChanged();
+
+    if (navigator.onLine) {
+      processSyncQueue('budgets').catch(error => {
+        console.error('Error syncing budget with Supabase:', error);
+      });
+    }
+    return budget;
+  } catch (error) {
+    console.error('Error saving budget:', error);
+    return null;
+  }
+}
+
+/**
+ * Pulls budgets changed since the last pull cursor
+ */
+export async function pullBudgetsFromSupabase(): Promise<number> {
+  const user = await getCurrentUser();
+  if (!user || (typeof navigator !== 'undefined' && !navigator.onLine)) return 0;
+
+  const db = getDb();
+  // Anything past the limit is picked up by the next pull
+  const data = await fetchChangedRows<RemoteBudget>('budgets', user.id, await getPullCursor('budgets'), 1000);
+  if (data.length === 0) return 0;
+
+  let pulled = 0;
+  for (const remote of data) {
+    if (remote.deleted_at) {
+      await removeTombstonedRecord('budgets', remote.id);
+      pulled++;
+      continue;
+    }
+
+    // Local edits not yet pushed win; the push will overwrite the remote copy
+    const local = await db.budgets.get(remote.id);
+    if (local && !local.synced) continue;
+
+    await db.budgets.put({
+      id: remote.id,
+      user_id: remote.user_id,
+      category: remote.category_id,
+      month: remote.month,
+      amount: Number(remote.amount) || 0,
+      createdAt: remote.created_at || new Date().toISOString(),
+      updatedAt: remote.updated_at || new Date().toISOString(),
+      synced: true,
+    });
+    pulled++;
+  }
+
+  const next = getCursorAfter(data);
+  if (next) await setPullCursor('budgets', next);
+
+  if (pulled > 0) notifyBudgetsChanged();
+  return pulled;
+}
+
+/**
+ * Pushes queued budget changes, then pulls remote ones
+ */
+export async function syncBudgets(): Promise<BudgetSyncResult> {
+  const { processed, failed } = await processSyncQueue('budgets');
+  let pulled = 0;
+  try {
+    pulled = await pullBudgetsFromSupabase();
+  } catch (error) {
+    console.error('[Pull] Error pulling budgets:', error);
+  }
+  return { pushed: processed, pulled, failed };
+}
@@ -0,0 +1,316 @@
+import {
+  getDb,
+  getCurrentUser,
+  enqueueSyncOperation,
+  notifySyncQueueChanged,
+  processSyncQueue,
+  removeTombstonedRecord,
+  fetchChangedRows,
+  getCursorAfter,
+  getPullCursor,
+  setPullCursor,
+  type SyncedCategory,
+} from './db';
+import { defaultCategories, getCategories, setCategoryRegistry } from '@/data/categories';
+import type { Category } from '@/types/expense';
+
+interface RemoteCategory {
+  id: string;
+  user_id: string | null;
+  name: string;
+  icon: string;
+  color: string | null;
+  sort_order: number | null;
+  archived: boolean | null;
+  created_at?: string;
+  updated_at?: string;
+  deleted_at?: string | null;
+}
+
+export interface CategorySyncResult {
+  pushed: number;
+  pulled: number;
+  failed: number;
+}
+
+export type CategoryInput = Pick<Category, 'name' | 'icon' | 'color'>;
+
+// Expenses fall back to this category, so it can't be archived
+const FALLBACK_CATEGORY_ID = 'other';
+
+let loadPromise: Promise<Category[]> | null = null;
+
+function notifyCategoriesChanged(): void {
+  if (typeof window !== 'undefined') {
+    window.dispatchEvent(new CustomEvent('categories:changed'));
+  }
+}
+
+/**
+ * Overlays the user's stored rows on the built-in categories and appends
+ * their own ones
+ */
+function buildRegistry(stored: SyncedCategory[]): Category[] {
+  const byId = new Map(stored.map(row => [row.id, row]));
+  const builtIns = defaultCategories.map(category => {
+    const row = byId.get(category.id);
+    byId.delete(category.id);
+    return row ? toCategory(row, category) : category;
+  });
+  const custom = Array.from(byId.values()).map(row => toCategory(row));
+  return [...builtIns, ...custom];
+}
+
+function toCategory(row: SyncedCategory, fallback?: Category): Category {
+  return {
+    id: row.id,
+    name: row.name || fallback?.name || row.id,
+    icon: row.icon || fallback?.icon || '📦',
+    color: row.color || fallback?.color,
+    order: row.order ?? fallback?.order ?? defaultCategories.length,
+    archived: row.id === FALLBACK_CATEGORY_ID ? false : Boolean(row.archived),
+  };
+}
+
+/**
+ * Reads categories from IndexedDB into the in-memory registry used by
+ * getCategory()/getCategories()
+ */
+export async function loadCategories(): Promise<Category[]> {
+  try {
+    const db = getDb();
+    const stored = await db.categories.toArray();
+    const list = buildRegistry(stored);
+    setCategoryRegistry(list);
+    return list;
+  } catch (error) {
+    console.error('Error loading categories:', error);
+    return getCategories({ includeArchived: true });
+  }
+}
+
+/**
+ * Loads the registry once per page load. Call before resolving category
+ * names outside React (exports, AI context).
+ */
+export function ensureCategoriesLoaded(): Promise<Category[]> {
+  if (typeof window === 'undefined') {
+    return Promise.resolve(getCategories({ includeArchived: true }));
+  }
+  if (!loadPromise) {
+    loadPromise = loadCategories();
+  }
+  return loadPromise;
+}
+
+async function refreshRegistry(): Promise<void> {
+  loadPromise = loadCategories();
+  await loadPromise;
+  notifyCategoriesChanged();
+}
+
+/**
+ * Writes category rows locally and queues them for Supabase. Built-in
+ * categories get a stored row the first time they're customised.
+ */
+async function saveCategoryRows(
+  changes: { id: string; patch: Partial<Category> }[]
+): Promise<SyncedCategory[] | null> {
+  const user = await getCurrentUser();
+  if (!user) {
+    console.error('Cannot save category: user not authenticated');
+    return null;
+  }
+
+  const db = getDb();
+  const now = new Date().toISOString();
+
+  try {
+    const rows = await db.transaction('rw', db.categories, db.syncQueue, async () => {
+      const saved: SyncedCategory[] = [];
+      for (const { id, patch } of changes) {
+        const existing = await db.categories.get(id);
+        const base = existing || getCategories({ includeArchived: true }).find(category => category.id === id);
+        if (!base) {
+          throw new Error(`Unknown category: ${id}`);
+        }
+
+        const next: SyncedCategory = {
+          id,
+          name: base.name,
+          icon: base.icon,
+          color: base.color,
+          order: base.order,
+          archived: base.archived,
+          ...patch,
+          user_id: user.id,
+          createdAt: existing?.createdAt || now,
+          updatedAt: now,
+          synced: false,
+        };
+
+        await db.categories.put(next);
+        await enqueueSyncOperation('categories', id, existing ? 'update' : 'create', next);
+        saved.push(next);
+      }
+      return saved;
+    });
+
+    await notifySyncQueueChanged();
+    await refreshRegistry();
+
+    if (navigator.onLine) {
+      processSyncQueue('categories').catch(error => {
+        console.error('Error syncing categories with Supabase:', error);
+      });
+    }
+    return rows;
+  } catch (error) {
+    console.error('Error saving categories:', error);
+    return null;
+  }
+}
+
+/**
+ * Adds a user-defined category at the end of the list
+ */
+export async function createCategory(input: CategoryInput): Promise<Category | null> {
+  const user = await getCurrentUser();
+  if (!user) {
+    console.error('Cannot create category: user not authenticated');
+    return null;
+  }
+
+  const db = getDb();
+  const now = new Date().toISOString();
+  const existing = getCategories({ includeArchived: true });
+  const category: SyncedCategory = {
+    id: crypto.randomUUID(),
+    user_id: user.id,
+    name: input.name.trim(),
+    icon: input.icon || '🏷️',
+    color: input.color,
+    order: existing.reduce((max, c) => Math.max(max, c.order ?? 0), -1) + 1,
+    archived: false,
+    createdAt: now,
+    updatedAt: now,
+    synced: false,
+  };
+
+  try {
+    await db.transaction('rw', db.categories, db.syncQueue, async () => {
+      await db.categories.add(category);
+      await enqueueSyncOperation('categories', category.id, 'create', category);
+    });
+
+    await notifySyncQueueChanged();
+    await refreshRegistry();
+
+    if (navigator.onLine) {
+      processSyncQueue('categories').catch(error => {
+        console.error('Error syncing category with Supabase:', error);
+      });
+    }
+    return toCategory(category);
+  } catch (error) {
+    console.error('Error creating category:', error);
+    return null;
+  }
+}
+
+/**
+ * Renames, recolors or changes the icon of a category
+ */
+export async function updateCategory(
+  id: string,
+  patch: Partial<CategoryInput>
+): Promise<Category | null> {
+  const rows = await saveCategoryRows([{ id, patch }]);
+  return rows?.[0] ? toCategory(rows[0]) : null;
+}
+
+/**
+ * Hides a category from pickers while keeping it for existing expenses
+ */
+export async function archiveCategory(id: string, archived = true): Promise<boolean> {
+  if (id === FALLBACK_CATEGORY_ID && archived) {
+    console.error('Cannot archive the fallback category');
+    return false;
+  }
+  const rows = await saveCategoryRows([{ id, patch: { archived } }]);
+  return Boolean(rows);
+}
+
+/**
+ * Stores a new order. Only categories whose position changed are written.
+ */
+export async function reorderCategories(orderedIds: string[]): Promise<boolean> {
+  const current = new Map(getCategories({ includeArchived: true }).map(category => [category.id, category]));
+  const changes = orderedIds
+    .map((id, order) => ({ id, patch: { order } }))
+    .filter(({ id, patch }) => current.has(id) && current.get(id)!.order !== patch.order);
+  if (changes.length === 0) return true;
+
+  const rows = await saveCategoryRows(changes);
+  return Boolean(rows);
+}
+
+/**
+ * Pulls categories changed since the last pull cursor
+ */
+export async function pullCategoriesFromSupabase(): Promise<number> {
+  const user = await getCurrentUser();
+  if (!user || (typeof navigator !== 'undefined' && !navigator.onLine)) return 0;
+
+  const db = getDb();
+  // Anything past the limit is picked up by the next pull
+  const data = await fetchChangedRows<RemoteCategory>('categories', user.id, await getPullCursor('categories'), 1000);
+  if (data.length === 0) return 0;
+
+  let pulled = 0;
+  for (const remote of data) {
+    if (remote.deleted_at) {
+      await removeTombstonedRecord('categories', remote.id);
+      pulled++;
+      continue;
+    }
+
+    // Local edits not yet pushed win; the push will overwrite the remote copy
+    const local = await db.categories.get(remote.id);
+    if (local && !local.synced) continue;
+
+    await db.categories.put({
+      id: remote.id,
+      user_id: remote.user_id || user.id,
+      name: remote.name,
+      icon: remote.icon,
+      color: remote.color || undefined,
+      order: remote.sort_order ?? undefined,
+      archived: Boolean(remote.archived),
+      createdAt: remote.created_at || new Date().toISOString(),
+      updatedAt: remote.updated_at || new Date().toISOString(),
+      synced: true,
+    });
+    pulled++;
+  }
+
+  const next = getCursorAfter(data);
+  if (next) await setPullCursor('categories', next);
+
+  if (pulled > 0) await refreshRegistry();
+  return pulled;
+}
+
+/**
+ * Pushes queued category changes, then pulls remote ones
+ */
+export async function syncCategories(): Promise<CategorySyncResult> {
+  const { processed, failed } = await processSyncQueue('categories');
+  let pulled = 0;
+  try {
+    pulled = await pullCategoriesFromSupabase();
+  } catch (error) {
+    console.error('[Pull] Error pulling categories:', error);
+  }
+  return { pushed: processed, pulled, failed };
+}
@@ -0,0 +1,255 @@
+import { getCategories } from '@/data/categories';
+import { convertToHome, DEFAULT_CURRENCY } from '@/data/currencies';
+import { ensureCategoriesLoaded } from './categories';
+import { ensureCurrencySettingsLoaded } from './currency';
+import { getDb, getExpenses } from './db';
+import type { CategoryRule, Expense, TimeOfDay } from '@/types/expense';
+
+export type CategoryRuleInput = Omit<CategoryRule, 'id' | 'order' | 'createdAt' | 'updatedAt'>;
+
+// What is known about an expense while its category is being suggested
+export interface CategorizationInput {
+  notes?: string;
+  amount?: number;
+  currency?: string;
+  date?: string; // YYYY-MM-DD
+  // Unknown for imported lines, so time-of-day rules never match them
+  enteredAt?: Date;
+}
+
+export interface CategorySuggestion {
+  category: string;
+  source: 'rule' | 'history';
+  rule?: CategoryRule;
+  // Share of the note's words that point at the category, history only
+  confidence?: number;
+}
+
+// Per word in past notes, how often each category was picked
+export type CategoryModel = Map<string, Map<string, number>>;
+
+export interface RuleTestResult {
+  matched: number;
+  // Matched expenses that already have the rule's category
+  agreeing: number;
+  // Newest matches that have a different category, to spot a rule too broad
+  conflicts: Expense[];
+}
+
+export const TIMES_OF_DAY: TimeOfDay[] = ['morning', 'afternoon', 'evening', 'night'];
+
+// A word must have shown up this often before it says anything about a category
+const MIN_WORD_SUPPORT = 2;
+const MIN_CONFIDENCE = 0.6;
+const CONFLICT_SAMPLE_SIZE = 5;
+
+function notifyCategoryRulesChanged(): void {
+  if (typeof window !== 'undefined') {
+    window.dispatchEvent(new CustomEvent('category-rules:changed'));
+  }
+}
+
+export function getTimeOfDay(date: Date): TimeOfDay {
+  const hour = date.getHours();
+  if (hour >= 5 && hour < 11) return 'morning';
+  if (hour >= 11 && hour < 17) return 'afternoon';
+  if (hour >= 17 && hour < 22) return 'evening';
+  return 'night';
+}
+
+// "grab, gojek" matches notes containing either word
+export const splitKeywords = (value: string | undefined): string[] =>
+  (value ?? '')
+    .split(',')
+    .map((keyword) => keyword.trim().toLowerCase())
+    .filter(Boolean);
+
+export function hasConditions(rule: Pick<CategoryRule, 'notesContains' | 'amountBelow' | 'amountAbove' | 'weekdays' | 'timeOfDay'>): boolean {
+  return (
+    splitKeywords(rule.notesContains).length > 0 ||
+    rule.amountBelow !== undefined ||
+    rule.amountAbove !== undefined ||
+    (rule.weekdays?.length ?? 0) > 0 ||
+    rule.timeOfDay !== undefined
+  );
+}
+
+/** True when every condition the rule sets holds; a rule without any never matches */
+export function matchesRule(rule: CategoryRule, input: CategorizationInput): boolean {
+  if (!hasConditions(rule)) return false;
+
+  const keywords = splitKeywords(rule.notesContains);
+  if (keywords.length > 0) {
+    const notes = (input.notes ?? '').toLowerCase();
+    if (!keywords.some((keyword) => notes.includes(keyword))) return false;
+  }
+
+  if (rule.amountBelow !== undefined || rule.amountAbove !== undefined) {
+    if (!input.amount) return false;
+    const amount = convertToHome(input.amount, input.currency || DEFAULT_CURRENCY);
+    if (rule.amountBelow !== undefined && !(amount < rule.amountBelow)) return false;
+    if (rule.amountAbove !== undefined && !(amount > rule.amountAbove)) return false;
+  }
+
+  if (rule.weekdays?.length) {
+    if (!input.date) return false;
+    // Parse YYYY-MM-DD as a local date to avoid timezone shifts
+    const day = new Date(`${input.date.slice(0, 10)}T00:00:00`).getDay();
+    if (!rule.weekdays.includes(day)) return false;
+  }
+
+  if (rule.timeOfDay && (!input.enteredAt || getTimeOfDay(input.enteredAt) !== rule.timeOfDay)) {
+    return false;
+  }
+
+  return true;
+}
+
+// Words of three or more letters; amounts and reference numbers say nothing
+const tokenize = (text: string | undefined): string[] =>
+  [...new Set((text ?? '').toLowerCase().split(/[^\p{L}\p{N}]+/u))].filter(
+    (word) => word.length >= 3 && !/^\d+$/.test(word)
+  );
+
+/** Learns which categories the user picks for the words in their notes */
+export function learnCategoryModel(expenses: Pick<Expense, 'notes' | 'category'>[]): CategoryModel {
+  const model: CategoryModel = new Map();
+  for (const expense of expenses) {
+    for (const word of tokenize(expense.notes)) {
+      const counts = model.get(word) ?? new Map<string, number>();
+      counts.set(expense.category, (counts.get(expense.category) ?? 0) + 1);
+      model.set(word, counts);
+    }
+  }
+  return model;
+}
+
+/**
+ * Each known word votes for categories in proportion to how often the user
+ * picked them; the winner needs most of the votes to be suggested
+ */
+export function predictFromHistory(model: CategoryModel, notes: string | undefined): CategorySuggestion | null {
+  const scores = new Map<string, number>();
+  let voters = 0;
+
+  for (const word of tokenize(notes)) {
+    const counts = model.get(word);
+    const total = counts ? [...counts.values()].reduce((sum, count) => sum + count, 0) : 0;
+    if (!counts || total < MIN_WORD_SUPPORT) continue;
+    voters++;
+    counts.forEach((count, category) => scores.set(category, (scores.get(category) ?? 0) + count / total));
+  }
+
+  let best: [string, number] | null = null;
+  for (const entry of scores) {
+    if (!best || entry[1] > best[1]) best = entry;
+  }
+  if (!best) return null;
+
+  const confidence = best[1] / voters;
+  return confidence >= MIN_CONFIDENCE ? { category: best[0], source: 'history', confidence } : null;
+}
+
+/**
+ * The user's rules first, in order, then what their history suggests.
+ * Rules pointing at a deleted or archived category are ignored.
+ */
+export function suggestCategory(
+  input: CategorizationInput,
+  rules: CategoryRule[],
+  model?: CategoryModel
+): CategorySuggestion | null {
+  const active = new Set(getCategories().map((category) => category.id));
+  const rule = rules.find((rule) => rule.enabled && active.has(rule.category) && matchesRule(rule, input));
+  if (rule) return { category: rule.category, source: 'rule', rule };
+
+  const learned = model ? predictFromHistory(model, input.notes) : null;
+  return learned && active.has(learned.category) ? learned : null;
+}
+
+/**
+ * Loads the rules and learns from past expenses once, for suggesting many
+ * categories in a row. Pass the expenses when they are already loaded.
+ */
+export async function loadCategorizer(
+  expenses?: Expense[]
+): Promise<(input: CategorizationInput) => CategorySuggestion | null> {
+  await Promise.all([ensureCategoriesLoaded(), ensureCurrencySettingsLoaded()]);
+  const [rules, history] = await Promise.all([getCategoryRules(), expenses ?? getExpenses()]);
+  const model = learnCategoryModel(history);
+  return (input) => suggestCategory(input, rules, model);
+}
+
+/** Runs a rule over past expenses, as if they were being entered again */
+export function testCategoryRule(rule: CategoryRule, expenses: Expense[]): RuleTestResult {
+  const result: RuleTestResult = { matched: 0, agreeing: 0, conflicts: [] };
+  const newestFirst = [...expenses].sort((a, b) => b.date.localeCompare(a.date));
+
+  for (const expense of newestFirst) {
+    const input = { ...expense, enteredAt: new Date(expense.createdAt) };
+    if (!matchesRule(rule, input)) continue;
+    result.matched++;
+    if (expense.category === rule.category) {
+      result.agreeing++;
+    } else if (result.conflicts.length < CONFLICT_SAMPLE_SIZE) {
+      result.conflicts.push(expense);
+    }
+  }
+
+  return result;
+}
+
+export async function getCategoryRules(): Promise<CategoryRule[]> {
+  try {
+    return await getDb().categoryRules.orderBy('order').toArray();
+  } catch (error) {
+    console.error('Error loading category rules:', error);
+    return [];
+  }
+}
+
+/** Creates a rule at the end of the list, or updates the one with `id` */
+export async function saveCategoryRule(input: CategoryRuleInput, id?: string): Promise<CategoryRule> {
+  const db = getDb();
+  const now = new Date().toISOString();
+  const existing = id ? await db.categoryRules.get(id) : undefined;
+  const last = existing ? undefined : await db.categoryRules.orderBy('order').last();
+
+  const rule: CategoryRule = {
+    ...input,
+    id: existing?.id ?? crypto.randomUUID(),
+    order: existing?.order ?? (last ? last.order + 1 : 0),
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+
+  await db.categoryRules.put(rule);
+  notifyCategoryRulesChanged();
+  return rule;
+}
+
+export async function setCategoryRuleEnabled(id: string, enabled: boolean): Promise<void> {
+  await getDb().categoryRules.update(id, { enabled, updatedAt: new Date().toISOString() });
+  notifyCategoryRulesChanged();
+}
+
+/** Swaps a rule with its neighbour, since the first matching rule wins */
+export async function moveCategoryRule(id: string, direction: -1 | 1): Promise<void> {
+  const db = getDb();
+  await db.transaction('rw', db.categoryRules, async () => {
+    const rules = await db.categoryRules.orderBy('order').toArray();
+    const index = rules.findIndex((rule) => rule.id === id);
+    const other = rules[index + direction];
+    if (index === -1 || !other) return;
+
+    const now = new Date().toISOString();
+    await db.categoryRules.update(id, { order: other.order, updatedAt: now });
+    await db.categoryRules.update(other.id, { order: rules[index].order, updatedAt: now });
+  });
+  notifyCategoryRulesChanged();
+}
+
+export async function deleteCategoryRule(id: string): Promise<void> {
+  await getDb().categoryRules.delete(id);
+  notifyCategoryRulesChanged();
+}
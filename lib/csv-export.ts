@@ -1,18 +1,23 @@
 import { getExpenses } from "@/lib/db"
 import { formatDate } from "@/lib/utils"
 import { getCategory } from "@/data/categories"
+import { ensureCategoriesLoaded } from "@/lib/categories"
+import { ensureMoodsLoaded } from "@/lib/moods"
 import { getMood } from "@/data/moods"
+import { DEFAULT_CURRENCY, getHomeAmount, getHomeCurrency } from "@/data/currencies"
+import { ensureCurrencySettingsLoaded } from "@/lib/currency"
 import type { Expense } from "@/types/expense"
 
 export async function exportExpensesToCSV(): Promise<string> {
   // Get all expenses
   const expenses = await getExpenses()
+  await Promise.all([ensureCategoriesLoaded(), ensureMoodsLoaded(), ensureCurrencySettingsLoaded()])
 
   // Sort by date (newest first)
   expenses.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
 
   // Create CSV header
-  const header = ["Date", "Amount", "Category", "Mood", "Mood Reason", "Notes"]
+  const header = ["Date", "Amount", "Currency", `Amount (${getHomeCurrency()})`, "Category", "Mood", "Mood Reason", "Notes"]
 
   // Create CSV rows
   const rows = expenses.map((expense: Expense) => {
@@ -22,6 +27,8 @@ export async function exportExpensesToCSV(): Promise<string> {
     return [
       formatDate(expense.date),
       expense.amount.toString(),
+      expense.currency || DEFAULT_CURRENCY,
+      getHomeAmount(expense).toString(),
       category?.name || "",
       mood.label,
       expense.moodReason || "",
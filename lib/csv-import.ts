@@ -0,0 +1,80 @@
+import type { ImportTable } from "@/lib/expense-import"
+
+const DELIMITERS = [",", ";", "\t"]
+
+// Spreadsheets in comma-decimal locales (like Indonesia) save CSV with
+// semicolons, so pick whichever delimiter splits the header line the most
+function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? ""
+  let best = ","
+  let bestCount = 0
+  for (const delimiter of DELIMITERS) {
+    const count = firstLine.split(delimiter).length - 1
+    if (count > bestCount) {
+      best = delimiter
+      bestCount = count
+    }
+  }
+  return best
+}
+
+/**
+ * Splits CSV text into rows of cells, handling quoted cells with embedded
+ * delimiters, doubled quotes and line breaks
+ */
+export function parseCSV(text: string, delimiter: string = detectDelimiter(text)): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ""
+  let inQuotes = false
+
+  // Excel prepends a byte order mark to UTF-8 exports
+  const input = text.replace(/^﻿/, "")
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          cell += '"'
+          i++
+        } else {
+          inQuotes = false
+        }
+      } else {
+        cell += char
+      }
+      continue
+    }
+
+    if (char === '"') {
+      inQuotes = true
+    } else if (char === delimiter) {
+      row.push(cell)
+      cell = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ""
+    } else {
+      cell += char
+    }
+  }
+
+  if (cell !== "" || row.length > 0) {
+    row.push(cell)
+    rows.push(row)
+  }
+
+  // Drop blank lines
+  return rows.filter((cells) => cells.some((value) => value.trim() !== ""))
+}
+
+/** Reads a CSV file into a header row and data rows */
+export async function readCSVFile(file: File): Promise<ImportTable> {
+  const [headers = [], ...rows] = parseCSV(await file.text())
+  return { headers: headers.map((header) => header.trim()), rows }
+}
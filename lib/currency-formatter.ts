@@ -1,26 +1,42 @@
+import { getCurrencyInfo, getHomeCurrency } from '@/data/currencies';
+import { getIntlLocale } from '@/data/locales';
+
+// Group and decimal separators of the active language, e.g. "." and "," in Indonesian
+function getSeparators(): { group: string; decimal: string } {
+  const parts = new Intl.NumberFormat(getIntlLocale()).formatToParts(1234.5);
+  return {
+    group: parts.find(part => part.type === 'group')?.value || '.',
+    decimal: parts.find(part => part.type === 'decimal')?.value || ',',
+  };
+}
+
 /**
- * Formats a number as Indonesian Rupiah currency
+ * Formats a number as currency, in the user's home currency unless another
+ * is given. Amounts must already be converted to that currency.
  * @param amount - The amount to format
- * @returns Formatted currency string in IDR format
+ * @param currency - ISO 4217 code, defaults to the home currency
+ * @returns Formatted currency string (e.g. Rp 50.000, US$ 12,50)
  */
-export function formatCurrency(amount: number): string {
-  return new Intl.NumberFormat('id-ID', {
+export function formatCurrency(amount: number, currency: string = getHomeCurrency()): string {
+  const { fractionDigits } = getCurrencyInfo(currency);
+  return new Intl.NumberFormat(getIntlLocale(), {
     style: 'currency',
-    currency: 'IDR',
+    currency,
     minimumFractionDigits: 0,
-    maximumFractionDigits: 0,
+    maximumFractionDigits: fractionDigits,
   }).format(amount);
 }
 
 /**
- * Formats a number as a compact Indonesian Rupiah currency (e.g., 1.2jt, 1.5M)
+ * Formats a number as compact currency (e.g., Rp 1,2 jt, Rp 1,5 M)
  * @param amount - The amount to format
- * @returns Formatted compact currency string in IDR format
+ * @param currency - ISO 4217 code, defaults to the home currency
+ * @returns Formatted compact currency string
  */
-export function formatCompactCurrency(amount: number): string {
-  return new Intl.NumberFormat('id-ID', {
+export function formatCompactCurrency(amount: number, currency: string = getHomeCurrency()): string {
+  return new Intl.NumberFormat(getIntlLocale(), {
     style: 'currency',
-    currency: 'IDR',
+    currency,
     notation: 'compact',
     minimumFractionDigits: 0,
     maximumFractionDigits: 1,
@@ -28,3 +44,48 @@ export function formatCompactCurrency(amount: number): string {
     .format(amount)
     .replace('Rp', 'Rp '); // Add space after Rp for better readability
 }
+
+/**
+ * The symbol shown before amount inputs, e.g. "Rp" or "US$"
+ */
+export function getCurrencySymbol(currency: string = getHomeCurrency()): string {
+  const parts = new Intl.NumberFormat(getIntlLocale(), { style: 'currency', currency }).formatToParts(0);
+  return parts.find(part => part.type === 'currency')?.value || currency;
+}
+
+/**
+ * Formats a number for an amount input (locale grouping, no symbol), with
+ * decimals only for currencies that have them
+ */
+export function formatAmountValue(value: number, currency: string = getHomeCurrency()): string {
+  return new Intl.NumberFormat(getIntlLocale(), {
+    minimumFractionDigits: 0,
+    maximumFractionDigits: getCurrencyInfo(currency).fractionDigits,
+  }).format(value);
+}
+
+/**
+ * Re-formats what the user is typing in an amount input, keeping a trailing
+ * decimal separator and decimals so values like "12,5" can be entered
+ */
+export function formatAmountInput(input: string, currency: string = getHomeCurrency()): string {
+  const { fractionDigits } = getCurrencyInfo(currency);
+  const { decimal } = getSeparators();
+  const [whole, ...rest] = input.split(decimal).map(part => part.replace(/\D/g, ''));
+  const digits = whole.replace(/^0+(?=\d)/, '');
+  const grouped = digits ? new Intl.NumberFormat(getIntlLocale()).format(Number(digits)) : '';
+  if (fractionDigits === 0 || rest.length === 0) return grouped;
+  return `${grouped || '0'}${decimal}${rest.join('').slice(0, fractionDigits)}`;
+}
+
+/**
+ * Parses an amount formatted for the active language ("1.234,5" in
+ * Indonesian, "1,234.5" in English) into a number
+ */
+export function parseAmountInput(input: string): number {
+  const { decimal } = getSeparators();
+  const [whole, ...rest] = input.split(decimal).map(part => part.replace(/\D/g, ''));
+  const cleaned = rest.length > 0 ? `${whole}.${rest.join('')}` : whole;
+  const parsed = Number(cleaned);
+  return cleaned && !isNaN(parsed) ? parsed : 0;
+}
@@ -0,0 +1,137 @@
+import { getDb } from './db';
+import {
+  DEFAULT_CURRENCY,
+  getExchangeRates,
+  getHomeCurrency,
+  setCurrencyRegistry,
+} from '@/data/currencies';
+
+const HOME_CURRENCY_KEY = 'homeCurrency';
+
+let loadPromise: Promise<void> | null = null;
+
+function notifyCurrencyChanged(): void {
+  if (typeof window !== 'undefined') {
+    window.dispatchEvent(new CustomEvent('currency:changed'));
+  }
+}
+
+/**
+ * Reads the home currency and exchange rates from IndexedDB into the
+ * in-memory registry used by convertToHome()/formatCurrency()
+ */
+export async function loadCurrencySettings(): Promise<void> {
+  try {
+    const db = getDb();
+    const [home, rates] = await Promise.all([
+      db.preferences.get(HOME_CURRENCY_KEY),
+      db.exchangeRates.toArray(),
+    ]);
+    setCurrencyRegistry(
+      home?.value || DEFAULT_CURRENCY,
+      Object.fromEntries(rates.map(rate => [rate.currency, rate.rate]))
+    );
+  } catch (error) {
+    console.error('Error loading currency settings:', error);
+  }
+}
+
+/**
+ * Loads the settings once per page load. Call before converting amounts
+ * outside React (exports, AI context, financial health).
+ */
+export function ensureCurrencySettingsLoaded(): Promise<void> {
+  if (typeof window === 'undefined') return Promise.resolve();
+  if (!loadPromise) {
+    loadPromise = loadCurrencySettings();
+  }
+  return loadPromise;
+}
+
+async function refreshRegistry(): Promise<void> {
+  loadPromise = loadCurrencySettings();
+  await loadPromise;
+  notifyCurrencyChanged();
+}
+
+/**
+ * Sets or replaces the rate for a currency: how many units of the home
+ * currency one unit of it is worth
+ */
+export async function setExchangeRate(currency: string, rate: number): Promise<boolean> {
+  if (!Number.isFinite(rate) || rate <= 0 || currency === getHomeCurrency()) return false;
+  try {
+    await getDb().exchangeRates.put({ currency, rate, updatedAt: new Date().toISOString() });
+    await refreshRegistry();
+    return true;
+  } catch (error) {
+    console.error('Error saving exchange rate:', error);
+    return false;
+  }
+}
+
+export async function removeExchangeRate(currency: string): Promise<boolean> {
+  try {
+    await getDb().exchangeRates.delete(currency);
+    await refreshRegistry();
+    return true;
+  } catch (error) {
+    console.error('Error removing exchange rate:', error);
+    return false;
+  }
+}
+
+/**
+ * Switches the home currency. Stored rates are re-expressed against the new
+ * home currency, so a rate to it must exist first. Budgets are not converted;
+ * their limits are read in the new currency.
+ */
+export async function setHomeCurrency(currency: string): Promise<boolean> {
+  const previous = getHomeCurrency();
+  if (currency === previous) return true;
+
+  const rates = getExchangeRates();
+  const pivot = rates[currency];
+  if (!pivot) {
+    console.error(`Cannot switch home currency to ${currency}: no exchange rate`);
+    return false;
+  }
+
+  const db = getDb();
+  const now = new Date().toISOString();
+  try {
+    await db.transaction('rw', db.exchangeRates, db.preferences, async () => {
+      await db.exchangeRates.clear();
+      await db.exchangeRates.bulkPut(
+        Object.entries({ ...rates, [previous]: 1 })
+          .filter(([code]) => code !== currency)
+          .map(([code, rate]) => ({ currency: code, rate: rate / pivot, updatedAt: now }))
+      );
+      await db.preferences.put({ key: HOME_CURRENCY_KEY, value: currency });
+    });
+    await refreshRegistry();
+    return true;
+  } catch (error) {
+    console.error('Error changing home currency:', error);
+    return false;
+  }
+}
+
+/**
+ * Currencies recorded on expenses or incomes, so settings can point out the
+ * ones still missing a rate
+ */
+export async function getCurrenciesInUse(): Promise<string[]> {
+  try {
+    const db = getDb();
+    const [expenses, incomes] = await Promise.all([
+      db.expenses.filter(expense => !expense.deletedAt).toArray(),
+      db.incomes.filter(income => !income.deletedAt).toArray(),
+    ]);
+    const used = new Set([...expenses, ...incomes].map(record => record.currency || DEFAULT_CURRENCY));
+    return [...used].sort();
+  } catch (error) {
+    console.error('Error reading currencies in use:', error);
+    return [];
+  }
+}
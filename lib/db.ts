@@ -1,12 +1,20 @@
 import Dexie, { type Table } from "dexie";
-import type { Expense as AppExpense, MoodType, Income as AppIncome } from "@/types/expense";
+import type { AIInsight, AIMessage, AIPeriod } from "@/types/ai";
+import type { Expense as AppExpense, MoodType, Income as AppIncome, Budget as AppBudget, Category as AppCategory, Mood as AppMood, RecurringRule as AppRecurringRule, ExchangeRate, CategoryRule } from "@/types/expense";
 import { getSupabaseBrowserClient } from "./supabase";
 import { User } from "@supabase/supabase-js";
 import { Mutex } from 'async-mutex';
+import { hasStayedWithinBudgets } from "./budget-calculations";
+import { defaultCategories, setCategoryRegistry } from "@/data/categories";
+import { defaultMoods, setMoodRegistry } from "@/data/moods";
+import { DEFAULT_CURRENCY } from "@/data/currencies";
 
 // Debug logging disabled in production
 const DEBUG = false;
 
+const getErrorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
+
 /**
  * Safely parses a date string, returning a Date object or epoch start if invalid
  * @param dateStr - Date string to parse
@@ -18,12 +26,94 @@ function safeDateParse(dateStr: string | undefined | null): Date {
 
 export interface SyncedExpense extends AppExpense {
   synced: boolean;
+  deletedAt?: string; // Tombstone: deleted locally, remote delete still pending
+  // Server updated_at of the version this device last pushed or pulled, so a
+  // pull can tell another device's change from its own upload coming back
+  remoteUpdatedAt?: string;
 }
 
 export interface SyncedIncome extends Omit<AppIncome, 'synced'> {
   synced: boolean;
   // Add any additional fields that might be needed for the local database
   userId?: string; // Alias for user_id for consistency
+  // addIncome also stores the snake_case timestamps it sends
+  created_at?: string;
+  updated_at?: string;
+  deletedAt?: string; // Tombstone: deleted locally, remote delete still pending
+}
+
+export interface SyncedBudget extends Omit<AppBudget, 'synced'> {
+  synced: boolean;
+  deletedAt?: string; // Tombstone: deleted locally, remote delete still pending
+}
+
+export interface SyncedRecurringRule extends Omit<AppRecurringRule, 'synced'> {
+  synced: boolean;
+  deletedAt?: string; // Tombstone: deleted locally, remote delete still pending
+}
+
+// A user's own category, or their customisation of a built-in one (same id)
+export interface SyncedCategory extends AppCategory {
+  user_id?: string;
+  createdAt: string;
+  updatedAt: string;
+  synced: boolean;
+}
+
+// A user's own mood; built-in moods are never stored
+export interface SyncedMood extends AppMood {
+  user_id?: string;
+  createdAt: string;
+  updatedAt: string;
+  synced: boolean;
+}
+
+// Device-local settings that aren't synced, such as the home currency
+export interface Preference {
+  key: string;
+  value: string;
+}
+
+// Spending chat kept on this device, one conversation per insights period
+// (e.g. "month:2025-06-01")
+export interface ChatHistory {
+  id: string;
+  messages: AIMessage[];
+  updated_at: string;
+}
+
+// A generated insight set, kept on this device for reuse and the history view.
+// The hashes fingerprint the prompt sent, so unchanged data hits the cache.
+export interface AIInsightRun {
+  id: string;
+  period: AIPeriod;
+  start: string; // YYYY-MM-DD, as from getDateRangeForPeriod
+  end: string;
+  input_hash: string;
+  insights: string[];
+  items?: AIInsight[]; // Structured form; runs saved before it have only insights
+  model_used: string;
+  created_at: string;
+  analysis?: string;
+  analysis_hash?: string;
+  analysis_model_used?: string;
+  analysis_created_at?: string;
+}
+
+// A statement transaction in the review queue, waiting for a mood before it
+// is saved as an expense (see lib/import-queue.ts). Reviewed rows are kept so
+// importing the same statement again doesn't bring them back.
+export interface PendingTransaction {
+  id: string; // From the statement, stable across re-imports
+  status: 'pending' | 'committed' | 'discarded';
+  source: string; // File name it came from
+  date: string; // YYYY-MM-DD
+  amount: number;
+  currency: string;
+  description: string;
+  imported_at: string;
+  duplicate_of?: string; // An existing expense with the same date and amount
+  expense_id?: string; // Set once committed
 }
 
 export interface SyncStatusEntry {
@@ -32,20 +122,110 @@ export interface SyncStatusEntry {
   lastAttempt?: string;
 }
 
+export type SyncQueueTable = 'expenses' | 'incomes' | 'budgets' | 'categories' | 'moods' | 'recurringRules';
+
+// Supabase table behind each local table, where the names differ
+const REMOTE_TABLE_NAMES: Record<SyncQueueTable, string> = {
+  expenses: 'expenses',
+  incomes: 'incomes',
+  budgets: 'budgets',
+  categories: 'categories',
+  moods: 'moods',
+  recurringRules: 'recurring_rules',
+};
+export type SyncQueueAction = 'create' | 'update' | 'delete';
+
+/**
+ * A pending mutation waiting to be replayed against Supabase.
+ * Entries are replayed in insertion order; failed entries are retried
+ * with exponential backoff based on attempts/next_attempt_at, and parked
+ * with failed_at once SYNC_QUEUE_MAX_ATTEMPTS is reached.
+ */
+interface SyncQueueEntryBase {
+  id?: number;
+  record_id: string;
+  action: SyncQueueAction;
+  created_at: string;
+  // Bumped when a later edit is merged in, so a send that was already in
+  // flight doesn't settle the entry
+  revision?: number;
+  attempts?: number;
+  next_attempt_at?: string;
+  last_error?: string;
+  // Gave up retrying; waits for the user to retry or discard it
+  failed_at?: string;
+  // Create that must not overwrite a row already on the server, for rows
+  // whose id every device derives alike (recurring occurrences)
+  insert_only?: boolean;
+}
+
+// The local row each outbox table replays
+export interface SyncQueueRows {
+  expenses: SyncedExpense;
+  incomes: SyncedIncome;
+  budgets: SyncedBudget;
+  categories: SyncedCategory;
+  moods: SyncedMood;
+  recurringRules: SyncedRecurringRule;
+}
+
+// One variant per table, so checking table_name narrows data. data is the
+// row at enqueue time, only sent when the local row is gone.
+export type SyncQueueEntry = {
+  [T in SyncQueueTable]: SyncQueueEntryBase & { table_name: T; data: SyncQueueRows[T] | null };
+}[SyncQueueTable];
+
+/**
+ * High-water mark for incremental pulls: the (updated_at, id) of the newest
+ * remote row already applied locally for a table.
+ */
+export interface SyncCursor {
+  table_name: string;
+  last_pulled_at: string;
+  // Tie-breaker for rows sharing last_pulled_at; missing in cursors saved before it
+  last_pulled_id?: string;
+}
+
+// Position in a table's (updated_at, id) order that the next pull continues after
+export interface PullCursor {
+  updatedAt: string;
+  id?: string;
+}
+
+/** Expense fields the user can merge individually when resolving a conflict */
+export const CONFLICT_FIELDS = ['amount', 'category', 'mood', 'notes'] as const;
+export type ConflictField = typeof CONFLICT_FIELDS[number];
+export type ConflictChoice = 'local' | 'remote';
+
+/**
+ * A record edited locally (not yet pushed) that was also changed on another
+ * device since the last pull. Both versions are kept until the user picks.
+ */
+export interface SyncConflict {
+  record_id: string;
+  table_name: SyncQueueTable;
+  local: SyncedExpense;
+  remote: SyncedExpense;
+  detected_at: string;
+}
+
 export class EmoSpendDatabase extends Dexie {
   expenses!: Table<SyncedExpense, string>;
   incomes!: Table<SyncedIncome, string>;
   syncStatus!: Table<SyncStatusEntry, string>;
-  categories!: Table<{ id: string; name: string; icon: string; color: string }, string>;
-  moods!: Table<{ id: string; name: string; emoji: string; color: string }, string>;
-  syncQueue!: Table<{
-    id?: number;
-    table_name: string;
-    record_id: string;
-    action: 'create' | 'update' | 'delete';
-    data: any;
-    created_at: string;
-  }, number>;
+  categories!: Table<SyncedCategory, string>;
+  moods!: Table<SyncedMood, string>;
+  syncQueue!: Table<SyncQueueEntry, number>;
+  syncCursors!: Table<SyncCursor, string>;
+  syncConflicts!: Table<SyncConflict, string>;
+  budgets!: Table<SyncedBudget, string>;
+  recurringRules!: Table<SyncedRecurringRule, string>;
+  exchangeRates!: Table<ExchangeRate, string>;
+  preferences!: Table<Preference, string>;
+  chatHistories!: Table<ChatHistory, string>;
+  aiInsightRuns!: Table<AIInsightRun, string>;
+  pendingTransactions!: Table<PendingTransaction, string>;
+  categoryRules!: Table<CategoryRule, string>;
 
   constructor() {
     super("emoSpendDb");
@@ -96,6 +276,176 @@ export class EmoSpendDatabase extends Dexie {
           }).catch(console.error);
         }
       });
+
+    // Version 4 - syncQueue becomes the outbox; queue existing unsynced rows
+    this.version(4)
+      .stores({
+        expenses: 'id, user_id, date, category, mood, [user_id+date], [date], synced',
+        incomes: 'id, user_id, date, source, [user_id+date], [date], synced',
+        categories: 'id, user_id, name, icon, color, synced',
+        moods: 'id, user_id, name, emoji, color, synced',
+        syncStatus: 'id, synced, lastAttempt',
+        syncQueue: '++id, table_name, record_id, action, created_at'
+      })
+      .upgrade(async tx => {
+        const now = new Date().toISOString();
+        for (const table of ['expenses', 'incomes']) {
+          const unsynced = await tx.table(table)
+            .filter(record => record.synced === false)
+            .toArray()
+            .catch(() => []);
+          for (const record of unsynced) {
+            await tx.table('syncQueue').add({
+              table_name: table,
+              record_id: record.id,
+              action: 'update',
+              data: record,
+              created_at: now,
+              attempts: 0,
+            });
+          }
+        }
+      });
+
+    // Version 5 - Per-table pull cursors for delta pulls
+    this.version(5).stores({
+      expenses: 'id, user_id, date, category, mood, [user_id+date], [date], synced',
+      incomes: 'id, user_id, date, source, [user_id+date], [date], synced',
+      categories: 'id, user_id, name, icon, color, synced',
+      moods: 'id, user_id, name, emoji, color, synced',
+      syncStatus: 'id, synced, lastAttempt',
+      syncQueue: '++id, table_name, record_id, action, created_at',
+      syncCursors: 'table_name'
+    });
+
+    // Version 6 - Conflicting local/remote versions awaiting user review
+    this.version(6).stores({
+      expenses: 'id, user_id, date, category, mood, [user_id+date], [date], synced',
+      incomes: 'id, user_id, date, source, [user_id+date], [date], synced',
+      categories: 'id, user_id, name, icon, color, synced',
+      moods: 'id, user_id, name, emoji, color, synced',
+      syncStatus: 'id, synced, lastAttempt',
+      syncQueue: '++id, table_name, record_id, action, created_at',
+      syncCursors: 'table_name',
+      syncConflicts: 'record_id, table_name, detected_at'
+    });
+
+    // Version 7 - Monthly budgets per category
+    this.version(7).stores({
+      expenses: 'id, user_id, date, category, mood, [user_id+date], [date], synced',
+      incomes: 'id, user_id, date, source, [user_id+date], [date], synced',
+      categories: 'id, user_id, name, icon, color, synced',
+      moods: 'id, user_id, name, emoji, color, synced',
+      syncStatus: 'id, synced, lastAttempt',
+      syncQueue: '++id, table_name, record_id, action, created_at',
+      syncCursors: 'table_name',
+      syncConflicts: 'record_id, table_name, detected_at',
+      budgets: 'id, user_id, month, category, [month+category], synced'
+    });
+
+    // Version 8 - Recurring expense and income rules
+    this.version(8).stores({
+      expenses: 'id, user_id, date, category, mood, [user_id+date], [date], synced',
+      incomes: 'id, user_id, date, source, [user_id+date], [date], synced',
+      categories: 'id, user_id, name, icon, color, synced',
+      moods: 'id, user_id, name, emoji, color, synced',
+      syncStatus: 'id, synced, lastAttempt',
+      syncQueue: '++id, table_name, record_id, action, created_at',
+      syncCursors: 'table_name',
+      syncConflicts: 'record_id, table_name, detected_at',
+      budgets: 'id, user_id, month, category, [month+category], synced',
+      recurringRules: 'id, user_id, type, synced'
+    });
+
+    // Version 9 - Exchange rates and device preferences (home currency)
+    this.version(9).stores({
+      expenses: 'id, user_id, date, category, mood, [user_id+date], [date], synced',
+      incomes: 'id, user_id, date, source, [user_id+date], [date], synced',
+      categories: 'id, user_id, name, icon, color, synced',
+      moods: 'id, user_id, name, emoji, color, synced',
+      syncStatus: 'id, synced, lastAttempt',
+      syncQueue: '++id, table_name, record_id, action, created_at',
+      syncCursors: 'table_name',
+      syncConflicts: 'record_id, table_name, detected_at',
+      budgets: 'id, user_id, month, category, [month+category], synced',
+      recurringRules: 'id, user_id, type, synced',
+      exchangeRates: 'currency',
+      preferences: 'key'
+    });
+
+    // Version 10 - Local spending chat history
+    this.version(10).stores({
+      expenses: 'id, user_id, date, category, mood, [user_id+date], [date], synced',
+      incomes: 'id, user_id, date, source, [user_id+date], [date], synced',
+      categories: 'id, user_id, name, icon, color, synced',
+      moods: 'id, user_id, name, emoji, color, synced',
+      syncStatus: 'id, synced, lastAttempt',
+      syncQueue: '++id, table_name, record_id, action, created_at',
+      syncCursors: 'table_name',
+      syncConflicts: 'record_id, table_name, detected_at',
+      budgets: 'id, user_id, month, category, [month+category], synced',
+      recurringRules: 'id, user_id, type, synced',
+      exchangeRates: 'currency',
+      preferences: 'key',
+      chatHistories: 'id'
+    });
+
+    // Version 11 - Cached AI insights and their history
+    this.version(11).stores({
+      expenses: 'id, user_id, date, category, mood, [user_id+date], [date], synced',
+      incomes: 'id, user_id, date, source, [user_id+date], [date], synced',
+      categories: 'id, user_id, name, icon, color, synced',
+      moods: 'id, user_id, name, emoji, color, synced',
+      syncStatus: 'id, synced, lastAttempt',
+      syncQueue: '++id, table_name, record_id, action, created_at',
+      syncCursors: 'table_name',
+      syncConflicts: 'record_id, table_name, detected_at',
+      budgets: 'id, user_id, month, category, [month+category], synced',
+      recurringRules: 'id, user_id, type, synced',
+      exchangeRates: 'currency',
+      preferences: 'key',
+      chatHistories: 'id',
+      aiInsightRuns: 'id, period, input_hash, analysis_hash, created_at'
+    });
+
+    // Version 12 - Review queue for imported bank statements
+    this.version(12).stores({
+      expenses: 'id, user_id, date, category, mood, [user_id+date], [date], synced',
+      incomes: 'id, user_id, date, source, [user_id+date], [date], synced',
+      categories: 'id, user_id, name, icon, color, synced',
+      moods: 'id, user_id, name, emoji, color, synced',
+      syncStatus: 'id, synced, lastAttempt',
+      syncQueue: '++id, table_name, record_id, action, created_at',
+      syncCursors: 'table_name',
+      syncConflicts: 'record_id, table_name, detected_at',
+      budgets: 'id, user_id, month, category, [month+category], synced',
+      recurringRules: 'id, user_id, type, synced',
+      exchangeRates: 'currency',
+      preferences: 'key',
+      chatHistories: 'id',
+      aiInsightRuns: 'id, period, input_hash, analysis_hash, created_at',
+      pendingTransactions: 'id, status, date, imported_at'
+    });
+
+    // Version 13 - Auto-categorization rules, kept on this device
+    this.version(13).stores({
+      expenses: 'id, user_id, date, category, mood, [user_id+date], [date], synced',
+      incomes: 'id, user_id, date, source, [user_id+date], [date], synced',
+      categories: 'id, user_id, name, icon, color, synced',
+      moods: 'id, user_id, name, emoji, color, synced',
+      syncStatus: 'id, synced, lastAttempt',
+      syncQueue: '++id, table_name, record_id, action, created_at',
+      syncCursors: 'table_name',
+      syncConflicts: 'record_id, table_name, detected_at',
+      budgets: 'id, user_id, month, category, [month+category], synced',
+      recurringRules: 'id, user_id, type, synced',
+      exchangeRates: 'currency',
+      preferences: 'key',
+      chatHistories: 'id',
+      aiInsightRuns: 'id, period, input_hash, analysis_hash, created_at',
+      pendingTransactions: 'id, status, date, imported_at',
+      categoryRules: 'id, order'
+    });
   }
 }
 
@@ -211,11 +561,730 @@ export async function getCurrentUser(): Promise<User | null> {
   }
 }
 
+// --- Sync queue (outbox) ---------------------------------------------------
+
+const syncQueueMutex = new Mutex();
+const SYNC_QUEUE_BASE_DELAY = 2000; // 2 seconds
+const SYNC_QUEUE_MAX_DELAY = 5 * 60 * 1000; // 5 minutes
+// About 25 minutes of backoff before an entry is parked for the user
+const SYNC_QUEUE_MAX_ATTEMPTS = 10;
+
+/**
+ * Formats a date string as YYYY-MM-DD for Supabase date columns
+ */
+function formatDateForSupabase(dateStr: string): string {
+  try {
+    const date = new Date(dateStr);
+    if (isNaN(date.getTime())) return dateStr; // Return as-is if invalid
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+  } catch (e) {
+    console.warn('[DB] Error formatting date for Supabase:', e);
+    return dateStr;
+  }
+}
+
+// An expenses row as stored in Supabase
+interface RemoteExpense {
+  id: string;
+  user_id: string;
+  amount: number;
+  currency: string | null;
+  category_id: string;
+  mood_id: string;
+  mood_reason: string | null;
+  mood_intensity: number | null;
+  date: string;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+  deleted_at?: string | null;
+}
+
+// The toRemote* mappers build upserts, which always send deleted_at: null: a
+// row being written from this device is live, even if it was deleted remotely
+// before (e.g. restored from a backup), and a tombstone left on the server
+// would delete it again on the next pull
+function toRemoteExpense(expense: SyncedExpense, userId: string) {
+  const { synced, deletedAt, remoteUpdatedAt, category, mood, moodReason, moodIntensity, currency, createdAt, updatedAt, date, ...baseData } = expense;
+  return {
+    ...baseData,
+    currency: currency || DEFAULT_CURRENCY,
+    date: formatDateForSupabase(date),
+    category_id: category,
+    mood_id: mood,
+    mood_reason: moodReason,
+    mood_intensity: moodIntensity ?? null,
+    created_at: createdAt,
+    updated_at: updatedAt || createdAt,
+    deleted_at: null,
+    user_id: userId,
+  };
+}
+
+function toRemoteIncome(income: SyncedIncome, userId: string) {
+  const now = new Date().toISOString();
+  return {
+    id: income.id,
+    user_id: userId,
+    amount: Number(income.amount) || 0,
+    currency: income.currency || DEFAULT_CURRENCY,
+    source: income.source || 'Other',
+    description: income.description || null,
+    date: income.date,
+    created_at: income.createdAt || income.created_at || now,
+    updated_at: income.updatedAt || income.updated_at || now,
+    deleted_at: null,
+  };
+}
+
+function toRemoteBudget(budget: SyncedBudget, userId: string) {
+  const now = new Date().toISOString();
+  return {
+    id: budget.id,
+    user_id: userId,
+    category_id: budget.category,
+    month: budget.month,
+    amount: Number(budget.amount) || 0,
+    created_at: budget.createdAt || now,
+    updated_at: budget.updatedAt || now,
+    deleted_at: null,
+  };
+}
+
+function toRemoteCategory(category: SyncedCategory, userId: string) {
+  const now = new Date().toISOString();
+  return {
+    id: category.id,
+    user_id: userId,
+    name: category.name,
+    icon: category.icon,
+    color: category.color || null,
+    sort_order: category.order ?? 0,
+    archived: Boolean(category.archived),
+    created_at: category.createdAt || now,
+    updated_at: category.updatedAt || now,
+    deleted_at: null,
+  };
+}
+
+function toRemoteMood(mood: SyncedMood, userId: string) {
+  const now = new Date().toISOString();
+  return {
+    id: mood.id,
+    user_id: userId,
+    label: mood.label,
+    emoji: mood.emoji,
+    color: mood.color,
+    archived: Boolean(mood.archived),
+    created_at: mood.createdAt || now,
+    updated_at: mood.updatedAt || now,
+    deleted_at: null,
+  };
+}
+
+function toRemoteRecurringRule(rule: SyncedRecurringRule, userId: string) {
+  const now = new Date().toISOString();
+  return {
+    id: rule.id,
+    user_id: userId,
+    type: rule.type,
+    frequency: rule.frequency,
+    interval: Math.max(1, rule.interval || 1),
+    start_date: rule.startDate,
+    end_date: rule.endDate || null,
+    skip_dates: rule.skipDates || [],
+    last_materialized_date: rule.lastMaterializedDate || null,
+    amount: Number(rule.amount) || 0,
+    currency: rule.currency || DEFAULT_CURRENCY,
+    category_id: rule.category || null,
+    mood_id: rule.mood || null,
+    mood_reason: rule.moodReason || null,
+    notes: rule.notes || null,
+    source: rule.source || null,
+    description: rule.description || null,
+    paused: Boolean(rule.paused),
+    created_at: rule.createdAt || now,
+    updated_at: rule.updatedAt || now,
+    deleted_at: null,
+  };
+}
+
+/**
+ * Broadcasts the current outbox size as a `sync:queue` event
+ */
+export async function notifySyncQueueChanged(): Promise<void> {
+  if (typeof window === "undefined") return;
+  const pending = await getPendingSyncCount();
+  window.dispatchEvent(new CustomEvent("sync:queue", {
+    detail: { pending }
+  }));
+}
+
+/**
+ * Returns the number of local mutations that haven't reached Supabase yet
+ */
+export async function getPendingSyncCount(): Promise<number> {
+  try {
+    return await getDb().syncQueue.count();
+  } catch (error) {
+    return 0;
+  }
+}
+
+/**
+ * Returns the position of the last successful pull for a table, or null
+ * when the next pull must be a full one
+ */
+export async function getPullCursor(table: SyncQueueTable): Promise<PullCursor | null> {
+  try {
+    const cursor = await getDb().syncCursors.get(table);
+    return cursor ? { updatedAt: cursor.last_pulled_at, id: cursor.last_pulled_id } : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+export async function setPullCursor(table: SyncQueueTable, cursor: PullCursor): Promise<void> {
+  await getDb().syncCursors.put({ table_name: table, last_pulled_at: cursor.updatedAt, last_pulled_id: cursor.id });
+}
+
+/**
+ * The cursor just past the last of a page of rows fetched by
+ * fetchChangedRows, or null when there is nothing to advance to
+ */
+export function getCursorAfter(rows: { id: string; updated_at?: string | null }[]): PullCursor | null {
+  const last = rows[rows.length - 1];
+  return last?.updated_at ? { updatedAt: last.updated_at, id: last.id } : null;
+}
+
+/**
+ * Moves a table's pull cursor back so the next pull brings the row stamped
+ * `updatedAt` again (and anything changed after it)
+ */
+async function rewindPullCursor(table: SyncQueueTable, updatedAt: string): Promise<void> {
+  const cursor = await getPullCursor(table);
+  // Without an id the cursor is inclusive, so the row itself comes back
+  if (cursor && cursor.updatedAt >= updatedAt) await setPullCursor(table, { updatedAt });
+}
+
+/**
+ * Fetches the user's rows changed after `cursor`, oldest first. Rows are
+ * ordered by (updated_at, id) and paged on both, so any number of rows
+ * sharing one updated_at (as a bulk import or restore produces) still pages
+ * through instead of returning the same first page forever.
+ *
+ * updated_at must be stamped by the server (see the trigger in the SQL notes
+ * below): a device's own clock would let an edit pushed late land behind a
+ * cursor another device has already passed.
+ */
+export async function fetchChangedRows<T extends { id: string; updated_at?: string | null }>(
+  table: SyncQueueTable,
+  userId: string,
+  cursor: PullCursor | null,
+  limit: number
+): Promise<T[]> {
+  let query = getSupabaseBrowserClient()
+    .from(REMOTE_TABLE_NAMES[table])
+    .select('*')
+    .eq('user_id', userId);
+
+  if (cursor?.id) {
+    // Quoted because timestamps contain the "." and ":" PostgREST filters split on
+    const at = `"${cursor.updatedAt}"`;
+    query = query.or(`updated_at.gt.${at},and(updated_at.eq.${at},id.gt."${cursor.id}")`);
+  } else if (cursor) {
+    // Older cursors have no id: re-read the boundary timestamp once
+    query = query.gte('updated_at', cursor.updatedAt);
+  }
+
+  const { data, error } = await query
+    .order('updated_at', { ascending: true })
+    .order('id', { ascending: true })
+    .limit(limit);
+
+  if (error) throw new Error(`Supabase error: ${error.message}`);
+  return (data ?? []) as T[];
+}
+
+/**
+ * Forgets all pull cursors so the next sync re-downloads everything
+ */
+export async function resetPullCursors(): Promise<void> {
+  await getDb().syncCursors.clear();
+}
+
+/**
+ * Returns true when the user-visible fields of two versions differ
+ */
+function hasConflictingFields(local: SyncedExpense, remote: SyncedExpense): boolean {
+  return (
+    CONFLICT_FIELDS.some(field => (local[field] ?? '') !== (remote[field] ?? '')) ||
+    (local.moodIntensity ?? null) !== (remote.moodIntensity ?? null) ||
+    (local.currency || DEFAULT_CURRENCY) !== (remote.currency || DEFAULT_CURRENCY)
+  );
+}
+
+export async function notifySyncConflictsChanged(): Promise<void> {
+  if (typeof window === "undefined") return;
+  const count = await getDb().syncConflicts.count().catch(() => 0);
+  window.dispatchEvent(new CustomEvent("sync:conflicts", {
+    detail: { count }
+  }));
+}
+
+/**
+ * Returns all unresolved conflicts, oldest first
+ */
+export async function getSyncConflicts(): Promise<SyncConflict[]> {
+  try {
+    return await getDb().syncConflicts.orderBy("detected_at").toArray();
+  } catch (error) {
+    console.error("[DB] Error fetching sync conflicts:", error);
+    return [];
+  }
+}
+
+/**
+ * Resolves a conflict by building a merged version from the per-field
+ * choices (unspecified fields keep the local value) and queueing it as a
+ * regular update, so the merge wins on every device.
+ * @returns false if the conflict no longer exists
+ */
+export async function resolveSyncConflict(
+  recordId: string,
+  choices: Partial<Record<ConflictField, ConflictChoice>>
+): Promise<boolean> {
+  const db = getDb();
+  const conflict = await db.syncConflicts.get(recordId);
+  if (!conflict) return false;
+
+  const current = await db.expenses.get(recordId);
+
+  // Deleted locally or remotely in the meantime: the delete wins
+  if (!current || current.deletedAt) {
+    await db.syncConflicts.delete(recordId);
+    await notifySyncConflictsChanged();
+    return true;
+  }
+
+  const merged: SyncedExpense = { ...current };
+  for (const field of CONFLICT_FIELDS) {
+    if (choices[field] === 'remote') {
+      Object.assign(merged, { [field]: conflict.remote[field] });
+    }
+  }
+  // The mood reason and intensity belong to the mood they describe
+  if (choices.mood === 'remote') {
+    merged.moodReason = conflict.remote.moodReason;
+    merged.moodIntensity = conflict.remote.moodIntensity;
+  }
+  // An amount is meaningless without its currency
+  if (choices.amount === 'remote') {
+    merged.currency = conflict.remote.currency;
+  }
+  merged.updatedAt = new Date().toISOString();
+  merged.synced = false;
+  // The merge already takes the remote version into account
+  merged.remoteUpdatedAt = conflict.remote.remoteUpdatedAt;
+
+  await db.transaction("rw", [db.expenses, db.syncStatus, db.syncQueue, db.syncConflicts], async () => {
+    await db.expenses.put(merged);
+    await db.syncStatus.put({
+      id: recordId,
+      synced: false,
+      lastAttempt: merged.updatedAt,
+    });
+    await enqueueSyncOperation('expenses', recordId, 'update', merged);
+    await db.syncConflicts.delete(recordId);
+  });
+
+  await notifySyncConflictsChanged();
+  await notifySyncQueueChanged();
+
+  if (navigator.onLine) {
+    processSyncQueue('expenses').catch(error => {
+      console.error(`[DB] Error syncing resolved expense ${recordId}:`, error);
+    });
+  }
+  return true;
+}
+
+/**
+ * Records a local mutation in the outbox. Must be called inside a
+ * transaction that includes db.syncQueue when atomicity with the local
+ * write matters.
+ *
+ * Pending entries for the same record are coalesced: create/update entries
+ * replay the latest local row, so a later update is redundant, and a delete
+ * replaces them. The delete is queued even when a create is pending, since
+ * that create may be in flight or may have landed with its response lost;
+ * a soft delete of a row the server never got is harmless.
+ */
+export async function enqueueSyncOperation<T extends SyncQueueTable>(
+  tableName: T,
+  recordId: string,
+  action: SyncQueueAction,
+  data: SyncQueueRows[T] | null,
+  { insertOnly = false }: { insertOnly?: boolean } = {}
+): Promise<void> {
+  const db = getDb();
+  const pending = await db.syncQueue
+    .where("record_id")
+    .equals(recordId)
+    .filter(entry => entry.table_name === tableName)
+    .toArray();
+
+  const pendingUpsert = pending.find(entry => entry.action !== 'delete');
+
+  if (action === 'update' && pendingUpsert?.id !== undefined) {
+    // A new edit gets a fresh set of attempts, even for a parked entry, and
+    // is the user's own, so it may overwrite the remote row
+    await db.syncQueue.update(pendingUpsert.id, {
+      data,
+      revision: (pendingUpsert.revision ?? 0) + 1,
+      attempts: 0,
+      next_attempt_at: undefined,
+      failed_at: undefined,
+      insert_only: undefined,
+    });
+    return;
+  }
+
+  if (action === 'delete') {
+    const pendingIds = pending
+      .filter(entry => entry.action !== 'delete')
+      .map(entry => entry.id!)
+      .filter(id => id !== undefined);
+    await db.syncQueue.bulkDelete(pendingIds);
+  }
+
+  // TS can't tie a generic table name to its variant of the union
+  await db.syncQueue.add({
+    table_name: tableName,
+    record_id: recordId,
+    action,
+    data,
+    created_at: new Date().toISOString(),
+    attempts: 0,
+    ...(insertOnly && { insert_only: true }),
+  } as SyncQueueEntry);
+}
+
+/**
+ * Removes a record locally after it was deleted remotely, dropping any
+ * pending outbox entries so they don't resurrect it.
+ */
+export async function removeTombstonedRecord(tableName: SyncQueueTable, recordId: string): Promise<void> {
+  const db = getDb();
+  await db.transaction("rw", [db.expenses, db.incomes, db.budgets, db.categories, db.moods, db.recurringRules, db.syncStatus, db.syncQueue, db.syncConflicts], async () => {
+    if (tableName === 'expenses') {
+      await db.expenses.delete(recordId);
+      await db.syncStatus.delete(recordId);
+      await db.syncConflicts.delete(recordId);
+    } else if (tableName === 'budgets') {
+      await db.budgets.delete(recordId);
+    } else if (tableName === 'categories') {
+      await db.categories.delete(recordId);
+    } else if (tableName === 'moods') {
+      await db.moods.delete(recordId);
+    } else if (tableName === 'recurringRules') {
+      await db.recurringRules.delete(recordId);
+    } else {
+      await db.incomes.delete(recordId);
+    }
+    await db.syncQueue
+      .where("record_id")
+      .equals(recordId)
+      .filter(entry => entry.table_name === tableName)
+      .delete();
+  });
+}
+
+/**
+ * An insert-only create found the row already on the server, made by another
+ * device: that version wins, so the pull cursor is moved back for the next
+ * pull to replace the local copy with it (or drop it if it was deleted)
+ */
+async function refetchExistingRow(entry: SyncQueueEntry, userId: string): Promise<void> {
+  const { data, error } = await getSupabaseBrowserClient()
+    .from(REMOTE_TABLE_NAMES[entry.table_name])
+    .select("updated_at")
+    .eq("id", entry.record_id)
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  if (data?.updated_at) await rewindPullCursor(entry.table_name, data.updated_at);
+}
+
+async function applySyncQueueEntry(entry: SyncQueueEntry, userId: string): Promise<void> {
+  const db = getDb();
+  const supabase = getSupabaseBrowserClient();
+
+  if (entry.action === 'delete') {
+    // Soft delete so other devices learn about it on their next pull
+    const { error } = await supabase
+      .from(REMOTE_TABLE_NAMES[entry.table_name])
+      .update({
+        deleted_at: entry.created_at,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", entry.record_id)
+      .eq("user_id", userId);
+    if (error) throw new Error(error.message);
+    return;
+  }
+
+  if (entry.table_name === 'expenses') {
+    // Replay the latest local state rather than the enqueue-time snapshot
+    const expense = (await db.expenses.get(entry.record_id)) || entry.data;
+    if (!expense) return;
+    const { data, error } = await supabase
+      .from("expenses")
+      .upsert(toRemoteExpense(expense, userId), { onConflict: "id", ignoreDuplicates: entry.insert_only })
+      .select("updated_at")
+      .maybeSingle();
+    if (error) throw new Error(error.message);
+    if (!data) {
+      await refetchExistingRow(entry, userId);
+      return;
+    }
+    // The server stamps updated_at; remember it so this upload isn't taken
+    // for someone else's change when the next pull brings it back
+    await db.expenses.update(entry.record_id, { remoteUpdatedAt: data.updated_at });
+    return;
+  }
+
+  if (entry.table_name === 'incomes') {
+    const income = (await db.incomes.get(entry.record_id)) || entry.data;
+    if (!income) return;
+    const { data, error } = await supabase
+      .from("incomes")
+      .upsert(toRemoteIncome(income, userId), { onConflict: "id", ignoreDuplicates: entry.insert_only })
+      .select("id");
+    if (error) throw new Error(error.message);
+    if (data.length === 0) await refetchExistingRow(entry, userId);
+    return;
+  }
+
+  if (entry.table_name === 'categories') {
+    const category = (await db.categories.get(entry.record_id)) || entry.data;
+    if (!category) return;
+    // Built-in ids like "food" repeat across users, so rows are keyed per user
+    const { error } = await supabase
+      .from("categories")
+      .upsert(toRemoteCategory(category, userId), { onConflict: "user_id,id" });
+    if (error) throw new Error(error.message);
+    return;
+  }
+
+  if (entry.table_name === 'moods') {
+    const mood = (await db.moods.get(entry.record_id)) || entry.data;
+    if (!mood) return;
+    const { error } = await supabase
+      .from("moods")
+      .upsert(toRemoteMood(mood, userId), { onConflict: "id" });
+    if (error) throw new Error(error.message);
+    return;
+  }
+
+  if (entry.table_name === 'recurringRules') {
+    const rule = (await db.recurringRules.get(entry.record_id)) || entry.data;
+    if (!rule) return;
+    const { error } = await supabase
+      .from("recurring_rules")
+      .upsert(toRemoteRecurringRule(rule, userId), { onConflict: "id" });
+    if (error) throw new Error(error.message);
+    return;
+  }
+
+  if (entry.table_name === 'budgets') {
+    const budget = (await db.budgets.get(entry.record_id)) || entry.data;
+    if (!budget) return;
+    const { error } = await supabase
+      .from("budgets")
+      .upsert(toRemoteBudget(budget, userId), { onConflict: "id" });
+    if (error) throw new Error(error.message);
+    return;
+  }
+
+  // Entries left by an older version may name a table that is gone
+  const unknown = entry as SyncQueueEntryBase & { table_name: string };
+  console.warn(`[SyncQueue] Unknown table ${unknown.table_name}, dropping entry ${unknown.id}`);
+}
+
+async function markRecordSynced(entry: SyncQueueEntry): Promise<void> {
+  // The remote tombstone is in place, the local one is no longer needed
+  if (entry.action === 'delete') {
+    await removeTombstonedRecord(entry.table_name, entry.record_id);
+    return;
+  }
+
+  const db = getDb();
+  const now = new Date().toISOString();
+  // One transaction with the outbox, so an edit enqueued in between can't be
+  // marked synced before it is sent
+  await db.transaction("rw", [db.syncQueue, db.expenses, db.syncStatus, db.incomes, db.budgets, db.categories, db.moods, db.recurringRules], async () => {
+    const remaining = await db.syncQueue
+      .where("record_id")
+      .equals(entry.record_id)
+      .filter(e => e.table_name === entry.table_name)
+      .count();
+    if (remaining > 0) return;
+
+    if (entry.table_name === 'expenses') {
+      await db.expenses.update(entry.record_id, { synced: true });
+      await db.syncStatus.put({ id: entry.record_id, synced: true, lastAttempt: now });
+    } else if (entry.table_name === 'incomes') {
+      await db.incomes.update(entry.record_id, { synced: true });
+    } else if (entry.table_name === 'budgets') {
+      await db.budgets.update(entry.record_id, { synced: true });
+    } else if (entry.table_name === 'categories') {
+      await db.categories.update(entry.record_id, { synced: true });
+    } else if (entry.table_name === 'moods') {
+      await db.moods.update(entry.record_id, { synced: true });
+    } else if (entry.table_name === 'recurringRules') {
+      await db.recurringRules.update(entry.record_id, { synced: true });
+    }
+  });
+}
+
+/**
+ * Deletes a sent entry unless a later edit was merged into it while it was
+ * in flight; that entry stays queued so the newer version is sent too.
+ * @returns true if the entry was settled
+ */
+async function settleSyncQueueEntry(entry: SyncQueueEntry): Promise<boolean> {
+  const db = getDb();
+  return db.transaction("rw", db.syncQueue, async () => {
+    const current = await db.syncQueue.get(entry.id!);
+    if (current && (current.revision ?? 0) !== (entry.revision ?? 0)) return false;
+    await db.syncQueue.delete(entry.id!);
+    return true;
+  });
+}
+
+/**
+ * Entries that ran out of attempts, oldest first
+ */
+export async function getFailedSyncEntries(): Promise<SyncQueueEntry[]> {
+  try {
+    return (await getDb().syncQueue.toArray()).filter(entry => entry.failed_at);
+  } catch (error) {
+    console.error("[DB] Error fetching failed sync entries:", error);
+    return [];
+  }
+}
+
+/**
+ * Gives a parked entry a fresh set of attempts and replays the outbox
+ */
+export async function retryFailedSyncEntry(id: number): Promise<void> {
+  await getDb().syncQueue.update(id, {
+    attempts: 0,
+    next_attempt_at: undefined,
+    failed_at: undefined,
+  });
+  await notifySyncQueueChanged();
+  await processSyncQueue();
+}
+
+/**
+ * Drops a parked entry. The local copy is kept as it is, except that a
+ * discarded delete still removes the record from this device.
+ */
+export async function discardFailedSyncEntry(id: number): Promise<void> {
+  const db = getDb();
+  const entry = await db.syncQueue.get(id);
+  if (!entry) return;
+
+  if (entry.action === 'delete') {
+    await removeTombstonedRecord(entry.table_name, entry.record_id);
+  } else {
+    await db.syncQueue.delete(id);
+  }
+  await notifySyncQueueChanged();
+}
+
+/**
+ * Replays pending outbox entries against Supabase in insertion order.
+ * A failing entry is rescheduled with exponential backoff and blocks later
+ * entries for the same record so their order is preserved. After
+ * SYNC_QUEUE_MAX_ATTEMPTS it is parked until the user retries or discards it.
+ * @param tableName - Only replay entries for this table
+ */
+export async function processSyncQueue(
+  tableName?: SyncQueueTable
+): Promise<{ processed: number; failed: number; pending: number }> {
+  if (typeof window === "undefined") {
+    return { processed: 0, failed: 0, pending: 0 };
+  }
+
+  if (!navigator.onLine) {
+    return { processed: 0, failed: 0, pending: await getPendingSyncCount() };
+  }
+
+  const user = await getCurrentUser();
+  if (!user) {
+    return { processed: 0, failed: 0, pending: await getPendingSyncCount() };
+  }
+
+  return syncQueueMutex.runExclusive(async () => {
+    const db = getDb();
+    const entries = (await db.syncQueue.toArray())
+      .filter(entry => !tableName || entry.table_name === tableName);
+
+    const now = Date.now();
+    // Records awaiting conflict resolution must not overwrite the remote copy
+    const conflicts = await db.syncConflicts.toArray();
+    const blocked = new Set<string>(conflicts.map(conflict => `${conflict.table_name}:${conflict.record_id}`));
+    let processed = 0;
+    let failed = 0;
+
+    for (const entry of entries) {
+      const key = `${entry.table_name}:${entry.record_id}`;
+      if (blocked.has(key)) continue;
+
+      if (entry.failed_at) {
+        blocked.add(key);
+        continue;
+      }
+
+      if (entry.next_attempt_at && new Date(entry.next_attempt_at).getTime() > now) {
+        blocked.add(key);
+        continue;
+      }
+
+      try {
+        await applySyncQueueEntry(entry, user.id);
+        // Edited again mid-send: the entry stays for the next run
+        if (await settleSyncQueueEntry(entry)) {
+          await markRecordSynced(entry);
+        }
+        processed++;
+      } catch (error: unknown) {
+        const attempts = (entry.attempts || 0) + 1;
+        const delay = Math.min(SYNC_QUEUE_BASE_DELAY * Math.pow(2, attempts - 1), SYNC_QUEUE_MAX_DELAY);
+        console.error(`[SyncQueue] Failed to replay ${entry.action} on ${key} (attempt ${attempts}):`, getErrorMessage(error));
+        await db.syncQueue.update(entry.id!, {
+          attempts,
+          next_attempt_at: new Date(Date.now() + delay).toISOString(),
+          last_error: getErrorMessage(error),
+          ...(attempts >= SYNC_QUEUE_MAX_ATTEMPTS && { failed_at: new Date().toISOString() }),
+        }).catch(console.error);
+        blocked.add(key);
+        failed++;
+      }
+    }
+
+    await notifySyncQueueChanged();
+    return { processed, failed, pending: await getPendingSyncCount() };
+  });
+}
+
 export async function addExpense(
   expenseData: Omit<AppExpense, "id" | "createdAt">
 ): Promise<string | null> {
   const db = getDb();
-  const supabase = getSupabaseBrowserClient();
   const id = crypto.randomUUID();
   const createdAtDate = new Date();
   
@@ -237,67 +1306,24 @@ export async function addExpense(
     // Start sync operation
     dispatchSyncEvent('push');
     
-    // First, save locally
-    await db.transaction("rw", db.expenses, db.syncStatus, async () => {
+    // First, save locally and record the mutation in the outbox
+    await db.transaction("rw", db.expenses, db.syncStatus, db.syncQueue, async () => {
       await db.expenses.add(localExpense);
       await db.syncStatus.put({
         id,
         synced: false,
         lastAttempt: new Date().toISOString(),
       });
+      await enqueueSyncOperation('expenses', id, 'create', localExpense);
     });
 
     result = id; // Mark as successful so far
+    await notifySyncQueueChanged();
 
-    // Try to sync immediately if online
-    const user = await getCurrentUser();
-    if (user && navigator.onLine) {
+    // Try to push immediately if online; the outbox retries otherwise
+    if (navigator.onLine) {
       try {
-        const { synced, category, mood, moodReason, createdAt, date, ...baseData } = localExpense;
-        
-        // Ensure date is in YYYY-MM-DD format for Supabase
-        const formatDateForSupabase = (dateStr: string): string => {
-          try {
-            const date = new Date(dateStr);
-            if (isNaN(date.getTime())) return dateStr; // Return as-is if invalid
-            return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
-          } catch (e) {
-            console.warn('[DB] Error formatting date for Supabase:', e);
-            return dateStr;
-          }
-        };
-
-        const expenseToSync = {
-          ...baseData,
-          date: formatDateForSupabase(date), // Ensure proper date format
-          category_id: category,
-          mood_id: mood,
-          mood_reason: moodReason,
-          created_at: createdAt,
-          user_id: user.id,
-        };
-
-        const { error: supabaseError } = await supabase
-          .from("expenses")
-          .upsert(expenseToSync);
-
-        if (supabaseError) {
-          console.error(
-            `[DB] Error syncing new expense ${id} to Supabase:`,
-            supabaseError.message,
-            supabaseError.details
-          );
-          throw supabaseError;
-        }
-
-        // Update sync status if successful
-        await db.transaction("rw", db.expenses, db.syncStatus, async () => {
-          await db.expenses.update(id, { synced: true });
-          await db.syncStatus.update(id, {
-            synced: true,
-            lastAttempt: new Date().toISOString(),
-          });
-        });
+        await processSyncQueue('expenses');
       } catch (syncError) {
         console.error(`[DB] Error during immediate sync of expense ${id}:`, syncError);
         // Don't rethrow - we'll let the background sync handle retries
@@ -310,13 +1336,13 @@ export async function addExpense(
     });
 
     return id;
-  } catch (error: any) {
-    console.error(`[DB] Error in addExpense for ${id}:`, error.message);
+  } catch (error: unknown) {
+    console.error(`[DB] Error in addExpense for ${id}:`, getErrorMessage(error));
     
     if (typeof window !== "undefined") {
       window.dispatchEvent(new CustomEvent("sync:error", { 
         detail: { 
-          message: error.message,
+          message: getErrorMessage(error),
           operation: 'push',
           expenseId: id
         } 
@@ -333,15 +1359,73 @@ export async function addExpense(
   }
 }
 
+/**
+ * Adds many expenses at once, e.g. from an import: all rows are written and
+ * queued in one transaction, so either all of them are saved or none, and
+ * pushed with a single sync pass
+ * @returns the ids of the new expenses
+ */
+export async function addExpenses(
+  expensesData: Omit<AppExpense, "id" | "createdAt">[],
+  onProgress?: (done: number, total: number) => void
+): Promise<string[]> {
+  const db = getDb();
+  const createdAt = new Date().toISOString();
+  const localExpenses: SyncedExpense[] = expensesData.map(expenseData => ({
+    ...expenseData,
+    id: crypto.randomUUID(),
+    createdAt,
+    synced: false,
+  }));
+
+  try {
+    dispatchSyncEvent('push');
+
+    await db.transaction("rw", db.expenses, db.syncStatus, db.syncQueue, async () => {
+      await db.expenses.bulkAdd(localExpenses);
+      await db.syncStatus.bulkPut(
+        localExpenses.map(expense => ({ id: expense.id, synced: false, lastAttempt: createdAt }))
+      );
+      for (const [index, expense] of localExpenses.entries()) {
+        await enqueueSyncOperation('expenses', expense.id, 'create', expense);
+        onProgress?.(index + 1, localExpenses.length);
+      }
+    });
+
+    await notifySyncQueueChanged();
+
+    // Saved locally either way; the outbox retries a failed push
+    if (navigator.onLine) {
+      try {
+        await processSyncQueue('expenses');
+      } catch (syncError) {
+        console.error("[DB] Error during sync of added expenses:", syncError);
+      }
+    }
+
+    syncGamificationData().catch(gamificationError => {
+      console.error("[DB] Error syncing gamification data:", gamificationError);
+    });
+
+    return localExpenses.map(expense => expense.id);
+  } finally {
+    dispatchSyncEvent(null);
+  }
+}
+
 export async function getExpenses(): Promise<SyncedExpense[]> {
   const db = getDb();
   try {
-    return await db.expenses.orderBy("date").reverse().toArray();
-  } catch (error: any) {
+    return await db.expenses
+      .orderBy("date")
+      .reverse()
+      .filter(expense => !expense.deletedAt)
+      .toArray();
+  } catch (error: unknown) {
     console.error(
       "--- [DB getExpenses() ERROR] --- Error getting all expenses:",
-      error.message,
-      error.stack
+      getErrorMessage(error),
+      error instanceof Error ? error.stack : undefined
     );
     return [];
   }
@@ -373,6 +1457,7 @@ export async function getExpensesByDateRange(
       .toCollection()
       .filter(expense => {
         try {
+          if (expense.deletedAt) return false;
           // Direct string comparison since we're storing dates as YYYY-MM-DD
           return expense.date >= startDateStr && expense.date <= endDateStr;
         } catch (e) {
@@ -383,11 +1468,11 @@ export async function getExpensesByDateRange(
       .toArray();
     
     return expenses;
-  } catch (error: any) {
+  } catch (error: unknown) {
     console.error(
       "[DB getExpensesByDateRange ERROR] Error getting expenses by date range:",
-      error.message,
-      error.stack
+      getErrorMessage(error),
+      error instanceof Error ? error.stack : undefined
     );
     
     // Fallback to client-side filtering with date objects if string comparison fails
@@ -398,6 +1483,7 @@ export async function getExpensesByDateRange(
       
       return allExpenses.filter(expense => {
         try {
+          if (expense.deletedAt) return false;
           const expenseDate = new Date(expense.date);
           return expenseDate >= start && expenseDate <= end;
         } catch (e) {
@@ -420,55 +1506,128 @@ export async function getExpensesByMood(
     return await db.expenses
       .where("mood")
       .equals(mood as string)
+      .filter(expense => !expense.deletedAt)
       .toArray();
-  } catch (error: any) {
+  } catch (error: unknown) {
     console.error(
       "--- [DB getExpensesByMood() ERROR] --- Error getting expenses by mood:",
-      error.message,
-      error.stack
+      getErrorMessage(error),
+      error instanceof Error ? error.stack : undefined
     );
     return [];
   }
 }
 
+export async function getExpenseById(id: string): Promise<SyncedExpense | undefined> {
+  const db = getDb();
+  try {
+    const expense = await db.expenses.get(id);
+    return expense && !expense.deletedAt ? expense : undefined;
+  } catch (error: unknown) {
+    console.error(`[DB] Error getting expense ${id}:`, getErrorMessage(error));
+    return undefined;
+  }
+}
+
+/**
+ * Updates an existing expense locally and marks it for sync.
+ * The original createdAt is preserved; updatedAt is bumped so the
+ * change wins over older remote copies during the next pull.
+ * @param id - ID of the expense to update
+ * @param patch - Fields to change
+ * @returns true if the local update succeeded
+ */
+export async function updateExpense(
+  id: string,
+  patch: Partial<Omit<AppExpense, "id" | "createdAt" | "updatedAt">>
+): Promise<boolean> {
+  const db = getDb();
+  if (typeof id !== "string" || id.trim() === "") {
+    console.error("[DB] Attempted to update expense with invalid ID:", id);
+    return false;
+  }
+
+  const updatedAt = new Date().toISOString();
+  let updated: SyncedExpense | undefined;
+
+  try {
+    dispatchSyncEvent('push');
+
+    await db.transaction("rw", db.expenses, db.syncStatus, db.syncQueue, async () => {
+      const existing = await db.expenses.get(id);
+      if (!existing || existing.deletedAt) return;
+
+      updated = { ...existing, ...patch, id, updatedAt, synced: false };
+      await db.expenses.put(updated);
+      await db.syncStatus.put({
+        id,
+        synced: false,
+        lastAttempt: updatedAt,
+      });
+      await enqueueSyncOperation('expenses', id, 'update', updated);
+    });
+
+    if (!updated) {
+      console.error(`[DB] Expense ${id} not found for update`);
+      return false;
+    }
+    await notifySyncQueueChanged();
+
+    // Try to push immediately if online; the outbox retries otherwise
+    if (navigator.onLine) {
+      try {
+        await processSyncQueue('expenses');
+      } catch (syncError) {
+        console.error(`[DB] Error during immediate sync of updated expense ${id}:`, syncError);
+        // Don't rethrow - we'll let the background sync handle retries
+      }
+    }
+
+    return true;
+  } catch (error: unknown) {
+    console.error(`[DB] Error updating expense ${id}:`, getErrorMessage(error));
+    return false;
+  } finally {
+    dispatchSyncEvent(null);
+  }
+}
+
 export async function deleteExpense(id: string): Promise<boolean> {
   const db = getDb();
-  const supabase = getSupabaseBrowserClient();
   if (typeof id !== "string" || id.trim() === "") {
     console.error("[DB] Attempted to delete expense with invalid ID:", id);
     return false;
   }
   try {
-    await db.transaction("rw", db.expenses, db.syncStatus, async () => {
-      await db.expenses.delete(id);
-      await db.syncStatus.delete(id);
+    // Tombstone locally and queue the remote delete so it survives going
+    // offline and isn't resurrected by a pull before the push goes out
+    await db.transaction("rw", [db.expenses, db.syncStatus, db.syncQueue, db.syncConflicts], async () => {
+      const existing = await db.expenses.get(id);
+      await enqueueSyncOperation('expenses', id, 'delete', existing ?? null);
+      await db.syncConflicts.delete(id); // Deleting settles any open conflict
+      if (!existing) {
+        await db.expenses.delete(id);
+        await db.syncStatus.delete(id);
+        return;
+      }
+
+      const now = new Date().toISOString();
+      await db.expenses.put({ ...existing, deletedAt: now, updatedAt: now, synced: false });
+      await db.syncStatus.put({ id, synced: false, lastAttempt: now });
     });
+    await notifySyncQueueChanged();
+    await notifySyncConflictsChanged();
 
-    const user = await getCurrentUser();
-    if (user && navigator.onLine) {
-      const { error: supabaseError } = await supabase
-        .from("expenses")
-        .delete()
-        .eq("id", id)
-        .eq("user_id", user.id);
-      if (supabaseError) {
-        console.error(
-          `[DB] Error deleting expense ${id} from Supabase:`,
-          supabaseError.message
-        );
-        return false;
-      } else {
+    if (navigator.onLine) {
+      try {
+        await processSyncQueue('expenses');
+      } catch (syncError) {
+        console.error(`[DB] Error deleting expense ${id} from Supabase:`, syncError);
       }
-    } else {
-      console.warn(
-        `[DB] Deletion of ${id} from Supabase skipped (User: ${!!user}, Online: ${
-          navigator.onLine
-        }).`
-      );
     }
     return true;
-  } catch (error: any) {
-    console.error(`[DB] Error deleting expense ${id}:`, error.message);
+  } catch (error: unknown) {
+    console.error(`[DB] Error deleting expense ${id}:`, getErrorMessage(error));
     return false;
   }
 }
@@ -483,13 +1642,28 @@ export async function clearLocalUserData(): Promise<void> {
     // Assuming a single-user app for now, clearing all tables is safe.
     // If you had multiple users on the same browser AND stored data per user,
     // you'd need to filter by user_id before clearing.
-    await db.transaction("rw", db.expenses, db.incomes, db.syncStatus, async () => {
+    await db.transaction("rw", [db.expenses, db.incomes, db.budgets, db.categories, db.moods, db.recurringRules, db.syncStatus, db.syncQueue, db.syncCursors, db.syncConflicts, db.chatHistories, db.aiInsightRuns, db.pendingTransactions, db.categoryRules], async () => {
       await db.expenses.clear(); // Clears all expenses
       await db.incomes.clear();  // Clears all incomes
+      await db.budgets.clear();  // Clears all budgets
+      await db.categories.clear(); // Clears custom categories
+      await db.moods.clear(); // Clears custom moods
+      await db.recurringRules.clear(); // Clears recurring rules
       await db.syncStatus.clear(); // Clears all sync statuses
+      await db.syncQueue.clear(); // Pending mutations belong to the signed-out user
+      await db.syncCursors.clear(); // Next user starts with a full pull
+      await db.syncConflicts.clear();
+      await db.chatHistories.clear(); // Chats quote the signed-out user's spending
+      await db.aiInsightRuns.clear();
+      await db.pendingTransactions.clear(); // Statement lines of the signed-out user
+      await db.categoryRules.clear(); // Rules point at the signed-out user's categories
     });
-  } catch (error: any) {
-    console.error("[DB] Error clearing local user data:", error.message);
+    await notifySyncQueueChanged();
+    await notifySyncConflictsChanged();
+    setCategoryRegistry(defaultCategories);
+    setMoodRegistry(defaultMoods);
+  } catch (error: unknown) {
+    console.error("[DB] Error clearing local user data:", getErrorMessage(error));
     // Important: Do not re-throw here. We want logout to proceed even if local clear fails.
   }
 }
@@ -512,12 +1686,19 @@ export async function clearAllLocalAndRemoteData(): Promise<void> {
           error.message
         );
     }
-    await db.transaction("rw", db.expenses, db.syncStatus, async () => {
+    await db.transaction("rw", [db.expenses, db.syncStatus, db.syncQueue, db.syncCursors, db.syncConflicts, db.chatHistories, db.aiInsightRuns], async () => {
       await db.expenses.clear();
+      await db.chatHistories.clear(); // Answers would refer to deleted expenses
+      await db.aiInsightRuns.clear();
       await db.syncStatus.clear();
+      await db.syncQueue.where("table_name").equals("expenses").delete();
+      await db.syncCursors.delete("expenses");
+      await db.syncConflicts.where("table_name").equals("expenses").delete();
     });
-  } catch (error: any) {
-    console.error("[DB] Error clearing data:", error.message);
+    await notifySyncQueueChanged();
+    await notifySyncConflictsChanged();
+  } catch (error: unknown) {
+    console.error("[DB] Error clearing data:", getErrorMessage(error));
     throw error; // Re-throw if this is a "hard reset" function
   }
 }
@@ -560,8 +1741,6 @@ async function actualSyncOperation(signal: AbortSignal) {
   }, 30000); // 30 seconds timeout
 
   try {
-    const db = getDb();
-    const supabase = getSupabaseBrowserClient();
     const user = await getCurrentUser();
     
     // Initialize counters
@@ -588,118 +1767,10 @@ async function actualSyncOperation(signal: AbortSignal) {
     syncedRemote = pullResult.synced;
     skipped = pullResult.skipped;
 
-    // Find all local changes that need to be synced
-    // console.log('[Sync] Finding unsynced local changes...');
-    let unsyncedStatusEntries: SyncStatusEntry[] = [];
-    try {
-      const allStatusEntries = await db.syncStatus.toArray();
-      unsyncedStatusEntries = allStatusEntries.filter(entry => 
-        entry.id && entry.id.trim() !== "" && entry.synced === false
-      );
-    } catch (error: any) {
-      const errorMsg = `Error finding unsynced changes: ${error.message}`;
-      // console.error('[Sync]', errorMsg);
-      window.dispatchEvent(new CustomEvent("sync:error", { 
-        detail: { 
-          operation: 'sync',
-          error: errorMsg
-        } 
-      }));
-      return { syncedLocal: 0, syncedRemote, skipped };
-    }
-
-    // If no local changes, we're done
-    if (unsyncedStatusEntries.length === 0) {
-      // console.log('[Sync] No local changes to sync');
-      return { syncedLocal: 0, syncedRemote, skipped };
-    }
-
-    // console.log(`[Sync] Found ${unsyncedStatusEntries.length} unsynced items`);
-
-    // Get the actual expense data for unsynced items
-    const validExpenseIds = unsyncedStatusEntries.map(s => s.id).filter(Boolean) as string[];
-    const potentialExpenses = await db.expenses.bulkGet(validExpenseIds);
-    
-    // Process each potential expense
-    const localExpensesToSync: SyncedExpense[] = [];
-    for (let i = 0; i < potentialExpenses.length; i++) {
-      const expense = potentialExpenses[i];
-      const statusEntry = unsyncedStatusEntries[i];
-      
-      if (!expense) {
-        // Clean up orphaned sync status
-        if (statusEntry) {
-          await db.syncStatus.delete(statusEntry.id).catch(console.error);
-        }
-        continue;
-      }
-      
-      // Skip if already synced (could have been synced by another tab/device)
-      if (expense.synced) {
-        await db.syncStatus.update(expense.id, {
-          synced: true,
-          lastAttempt: new Date().toISOString(),
-        }).catch(console.error);
-        continue;
-      }
-      
-      // Add to sync queue
-      if (expense.id) {
-        localExpensesToSync.push(expense);
-      }
-    }
-
-    if (localExpensesToSync.length === 0) {
-      // console.log('[Sync] No valid local changes to sync after processing');
-      return { syncedLocal: 0, syncedRemote, skipped };
-    }
-
-    // console.log(`[Sync] Syncing ${localExpensesToSync.length} local changes...`);
-
-    // Prepare the payload for Supabase
-    const syncTimestamp = new Date().toISOString();
-    const supabasePayload = localExpensesToSync.map((exp) => {
-      const { synced, category, mood, moodReason, createdAt, updatedAt, ...baseData } = exp;
-      return {
-        ...baseData,
-        category_id: category,
-        mood_id: mood,
-        mood_reason: moodReason,
-        created_at: createdAt,
-        updated_at: updatedAt || syncTimestamp,
-        user_id: user.id,
-      };
-    });
-
-    // Send to Supabase
-    const { error: supabaseError } = await supabase
-      .from("expenses")
-      .upsert(supabasePayload, { onConflict: "id" });
-
-    if (supabaseError) {
-      throw new Error(`Supabase error: ${supabaseError.message}`);
-    }
-
-    // Update local sync status for successful syncs
-    for (const expense of localExpensesToSync) {
-      try {
-        await db.transaction("rw", [db.expenses, db.syncStatus], async () => {
-          await db.expenses.update(expense.id, { 
-            synced: true,
-            updatedAt: syncTimestamp
-          });
-          await db.syncStatus.update(expense.id, {
-            synced: true,
-            lastAttempt: syncTimestamp,
-          });
-        });
-        syncedLocal++;
-      } catch (updateError) {
-        console.error(`[Sync] Failed to update local status for ${expense.id}:`, updateError);
-      }
-    }
+    // Then replay pending local mutations from the outbox
+    const queueResult = await processSyncQueue('expenses');
+    syncedLocal = queueResult.processed;
 
-    // console.log(`[Sync] Successfully synced ${syncedLocal} expenses`);
     return { 
       syncedLocal, 
       syncedRemote, 
@@ -750,25 +1821,22 @@ export async function pullExpensesFromSupabase(attempt = 1): Promise<{ synced: n
       return { synced: 0, skipped: 0 };
     }
 
-    // console.log('[Pull] Fetching expenses from Supabase...');
-    
+    // Only fetch rows changed since the last successful pull
+    const cursor = await getPullCursor('expenses');
+    let position = cursor;
+
     let page = 0;
     let hasMore = true;
     let totalSynced = 0;
     let totalSkipped = 0;
 
     while (hasMore) {
-      // console.log(`[Pull] Fetching page ${page + 1}`);
-      
-      const { data, error, count } = await supabase
-        .from("expenses")
-        .select("*", { count: 'exact' })
-        .eq("user_id", user.id)
-        .order('updated_at', { ascending: false })
-        .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1);
-
-      if (error) {
-        if(error.message.includes('rate limit') || error.message.includes('quota')) {
+      let data: RemoteExpense[];
+      try {
+        data = await fetchChangedRows<RemoteExpense>('expenses', user.id, position, PAGE_SIZE);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : '';
+        if (message.includes('rate limit') || message.includes('quota')) {
           console.error('[Pull] Supabase free tier limit reached');
           window.dispatchEvent(new CustomEvent("sync:error", { 
             detail: { 
@@ -785,17 +1853,23 @@ export async function pullExpensesFromSupabase(attempt = 1): Promise<{ synced: n
       page++;
 
       // Process page data
-      const { synced, skipped } = await processPageData(data);
+      const { synced, skipped } = await processPageData(data, cursor?.updatedAt ?? null);
       totalSynced += synced;
       totalSkipped += skipped;
 
-      // Send progress event every 500ms
+      // Each page is stored before the cursor moves past it, so an
+      // interrupted pull resumes where it stopped
+      const next = getCursorAfter(data);
+      if (next) {
+        position = next;
+        await setPullCursor('expenses', next);
+      }
+
       window.dispatchEvent(new CustomEvent('sync:progress', {
         detail: {
           operation: 'pull',
           currentPage: page,
-          totalItems: count,
-          processedItems: page * PAGE_SIZE
+          processedItems: (page - 1) * PAGE_SIZE + data.length
         }
       }));
     }
@@ -828,79 +1902,233 @@ export async function pullExpensesFromSupabase(attempt = 1): Promise<{ synced: n
   }
 }
 
-async function processPageData(data: any[]) {
+/**
+ * Applies one page of remote expenses. A remote row whose updated_at differs
+ * from the version the local copy is based on was changed on another device,
+ * so if the local copy also has unpushed edits both versions are kept as a
+ * conflict. `cursor` is the updated_at of the previous pull, used for local
+ * rows that don't record their version yet.
+ */
+async function processPageData(data: RemoteExpense[], cursor: string | null) {
   const db = getDb();
-  const supabase = getSupabaseBrowserClient();
-  const user = await getCurrentUser();
 
   let syncedCount = 0;
   let skippedCount = 0;
+  let conflictCount = 0;
 
-  for (const [index, remote] of data.entries()) {
+  // Format date to YYYY-MM-DD if it's not already in that format
+  const formatDate = (dateStr: string): string => {
     try {
-      // Add a small delay every 10 items to prevent UI freezing
-      if (index > 0 && index % 10 === 0) {
-        await new Promise(resolve => setTimeout(resolve, 50));
-      }
+      const date = new Date(dateStr);
+      if (isNaN(date.getTime())) return dateStr; // Return as-is if invalid date
+      return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+    } catch (e) {
+      console.warn(`[DB] Error formatting date ${dateStr}:`, e);
+      return dateStr;
+    }
+  };
+
+  // Deleted on another device: drop the local copies
+  for (const remote of data.filter(row => row.deleted_at)) {
+    try {
+      await removeTombstonedRecord('expenses', remote.id);
+      syncedCount++;
+    } catch (expenseError) {
+      // console.error(`[Pull] Error removing expense ${remote?.id}:`, expenseError);
+    }
+  }
 
-      const local = await db.expenses.get(remote.id);
-      const remoteUpdated = new Date(remote.updated_at || 0);
-      const localUpdated = local ? new Date(local.updatedAt || 0) : new Date(0);
+  const live = data.filter(row => !row.deleted_at);
+  if (live.length === 0) {
+    return { synced: syncedCount, skipped: skippedCount, conflicts: conflictCount };
+  }
 
-      // Skip if local version is newer and already synced
-      if (local && local.synced && localUpdated > remoteUpdated) {
-        skippedCount++;
-        continue;
-      }
+  try {
+    const ids = live.map(remote => remote.id);
+    const locals = await db.expenses.bulkGet(ids);
+    const openConflicts = await db.syncConflicts.bulkGet(ids);
+    const toPut: SyncedExpense[] = [];
+    const conflicts: SyncConflict[] = [];
+    const detectedAt = new Date().toISOString();
 
-      // Format date to YYYY-MM-DD if it's not already in that format
-      const formatDate = (dateStr: string): string => {
-        try {
-          const date = new Date(dateStr);
-          if (isNaN(date.getTime())) return dateStr; // Return as-is if invalid date
-          return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
-        } catch (e) {
-          console.warn(`[DB] Error formatting date ${dateStr}:`, e);
-          return dateStr;
-        }
-      };
+    live.forEach((remote, index) => {
+      const local = locals[index];
 
       // Convert remote format to local format
-      const expense: SyncedExpense = {
+      const remoteExpense: SyncedExpense = {
         id: remote.id,
         amount: remote.amount,
         category: remote.category_id,
         mood: remote.mood_id,
-        moodReason: remote.mood_reason,
+        moodReason: remote.mood_reason ?? undefined,
+        moodIntensity: remote.mood_intensity ?? undefined,
+        currency: remote.currency || undefined,
         date: formatDate(remote.date),
         notes: remote.notes || '',
         createdAt: remote.created_at,
         updatedAt: remote.updated_at || new Date().toISOString(),
+        remoteUpdatedAt: remote.updated_at,
         synced: true
       };
 
-      // Update or create the expense
-      await db.expenses.put(expense);
-      await db.syncStatus.put({
-        id: expense.id,
-        synced: true,
-        lastAttempt: new Date().toISOString(),
-      });
+      // Still waiting for the user: refresh the remote side, keep the local edit
+      const openConflict = openConflicts[index];
+      if (openConflict) {
+        conflicts.push({ ...openConflict, remote: remoteExpense });
+        return;
+      }
 
-      syncedCount++;
+      if (local && !local.synced) {
+        // Both sides changed since the version this device last pushed or
+        // pulled: keep both for the user to resolve. Rows stored before that
+        // version was tracked fall back to the pull cursor.
+        const remoteChanged = local.remoteUpdatedAt
+          ? remote.updated_at !== local.remoteUpdatedAt
+          : !cursor || remote.updated_at > cursor;
+        if (!local.deletedAt && remoteChanged && hasConflictingFields(local, remoteExpense)) {
+          conflicts.push({
+            record_id: remote.id,
+            table_name: 'expenses',
+            local,
+            remote: remoteExpense,
+            detected_at: detectedAt,
+          });
+          return;
+        }
 
-    } catch (expenseError) {
-      // console.error(`[Pull] Error processing expense ${remote?.id}:`, expenseError);
+        // Otherwise the pending local edit wins; the push phase will send it
+        skippedCount++;
+        return;
+      }
+
+      // Already holds this server version. Only server timestamps are compared:
+      // updatedAt comes from the device clock, which may run ahead.
+      if (local && local.synced && local.remoteUpdatedAt === remote.updated_at) {
+        skippedCount++;
+        return;
+      }
+
+      toPut.push(remoteExpense);
+    });
+
+    if (conflicts.length > 0) {
+      await db.syncConflicts.bulkPut(conflicts);
+      conflictCount = conflicts.length;
+      await notifySyncConflictsChanged();
     }
+
+    if (toPut.length > 0) {
+      const now = new Date().toISOString();
+      await db.transaction("rw", db.expenses, db.syncStatus, async () => {
+        await db.expenses.bulkPut(toPut);
+        await db.syncStatus.bulkPut(toPut.map(expense => ({
+          id: expense.id,
+          synced: true,
+          lastAttempt: now,
+        })));
+      });
+      syncedCount += toPut.length;
+    }
+  } catch (pageError) {
+    console.error('[Pull] Error applying expense page:', pageError);
+    throw pageError; // Don't advance the cursor past rows that weren't stored
   }
 
-  return { synced: syncedCount, skipped: skippedCount };
+  return { synced: syncedCount, skipped: skippedCount, conflicts: conflictCount };
 }
 
-// Recommended Supabase SQL index for better performance:
-// CREATE INDEX IF NOT EXISTS expenses_user_updated_idx ON expenses (user_id, updated_at DESC);
+// Recommended Supabase SQL indexes for the delta pull (user_id = ? AND (updated_at, id) > cursor):
+// CREATE INDEX IF NOT EXISTS expenses_user_updated_idx ON expenses (user_id, updated_at, id);
+// CREATE INDEX IF NOT EXISTS incomes_user_updated_idx ON incomes (user_id, updated_at, id);
 // Run this in your Supabase SQL editor for better query performance
 
+// Required Supabase SQL so pull cursors never skip a change: the server stamps
+// updated_at on every write, whatever time the pushing device sent. A change
+// made offline and pushed late then still sorts after every other device's cursor.
+// CREATE OR REPLACE FUNCTION set_updated_at() RETURNS trigger AS $$
+// BEGIN
+//   NEW.updated_at = now();
+//   RETURN NEW;
+// END;
+// $$ LANGUAGE plpgsql;
+// CREATE OR REPLACE TRIGGER expenses_set_updated_at BEFORE INSERT OR UPDATE ON expenses FOR EACH ROW EXECUTE FUNCTION set_updated_at();
+// CREATE OR REPLACE TRIGGER incomes_set_updated_at BEFORE INSERT OR UPDATE ON incomes FOR EACH ROW EXECUTE FUNCTION set_updated_at();
+// CREATE OR REPLACE TRIGGER budgets_set_updated_at BEFORE INSERT OR UPDATE ON budgets FOR EACH ROW EXECUTE FUNCTION set_updated_at();
+// CREATE OR REPLACE TRIGGER categories_set_updated_at BEFORE INSERT OR UPDATE ON categories FOR EACH ROW EXECUTE FUNCTION set_updated_at();
+// CREATE OR REPLACE TRIGGER moods_set_updated_at BEFORE INSERT OR UPDATE ON moods FOR EACH ROW EXECUTE FUNCTION set_updated_at();
+// CREATE OR REPLACE TRIGGER recurring_rules_set_updated_at BEFORE INSERT OR UPDATE ON recurring_rules FOR EACH ROW EXECUTE FUNCTION set_updated_at();
+
+// Required Supabase SQL for budgets:
+// CREATE TABLE IF NOT EXISTS budgets (
+//   id uuid PRIMARY KEY,
+//   user_id uuid NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE,
+//   category_id text NOT NULL,
+//   month text NOT NULL, -- YYYY-MM
+//   amount numeric NOT NULL DEFAULT 0,
+//   created_at timestamptz NOT NULL DEFAULT now(),
+//   updated_at timestamptz NOT NULL DEFAULT now(),
+//   deleted_at timestamptz
+// );
+// CREATE INDEX IF NOT EXISTS budgets_user_updated_idx ON budgets (user_id, updated_at, id);
+// ALTER TABLE budgets ENABLE ROW LEVEL SECURITY;
+// CREATE POLICY "Users manage their own budgets" ON budgets FOR ALL USING (auth.uid() = user_id);
+
+// Required Supabase SQL for per-user categories (built-in rows keep user_id NULL):
+// ALTER TABLE categories ADD COLUMN IF NOT EXISTS user_id uuid REFERENCES auth.users (id) ON DELETE CASCADE;
+// ALTER TABLE categories ADD COLUMN IF NOT EXISTS color text;
+// ALTER TABLE categories ADD COLUMN IF NOT EXISTS sort_order integer NOT NULL DEFAULT 0;
+// ALTER TABLE categories ADD COLUMN IF NOT EXISTS archived boolean NOT NULL DEFAULT false;
+// ALTER TABLE categories ADD COLUMN IF NOT EXISTS updated_at timestamptz NOT NULL DEFAULT now();
+// ALTER TABLE categories ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+// ALTER TABLE categories DROP CONSTRAINT IF EXISTS categories_pkey;
+// CREATE UNIQUE INDEX IF NOT EXISTS categories_user_id_id_idx ON categories (user_id, id);
+// CREATE INDEX IF NOT EXISTS categories_user_updated_idx ON categories (user_id, updated_at, id);
+
+// Required Supabase SQL for custom moods and mood intensity (built-in rows keep user_id NULL):
+// ALTER TABLE moods ADD COLUMN IF NOT EXISTS user_id uuid REFERENCES auth.users (id) ON DELETE CASCADE;
+// ALTER TABLE moods ADD COLUMN IF NOT EXISTS archived boolean NOT NULL DEFAULT false;
+// ALTER TABLE moods ADD COLUMN IF NOT EXISTS updated_at timestamptz NOT NULL DEFAULT now();
+// ALTER TABLE moods ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+// CREATE INDEX IF NOT EXISTS moods_user_updated_idx ON moods (user_id, updated_at, id);
+// ALTER TABLE expenses ADD COLUMN IF NOT EXISTS mood_intensity smallint CHECK (mood_intensity BETWEEN 1 AND 5);
+// -- expenses.mood_id may now reference a custom mood, so drop any FK/CHECK limiting it to built-ins
+
+// Required Supabase SQL for recurring rules:
+// CREATE TABLE IF NOT EXISTS recurring_rules (
+//   id uuid PRIMARY KEY,
+//   user_id uuid NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE,
+//   type text NOT NULL CHECK (type IN ('expense', 'income')),
+//   frequency text NOT NULL CHECK (frequency IN ('daily', 'weekly', 'monthly', 'yearly')),
+//   interval integer NOT NULL DEFAULT 1,
+//   start_date date NOT NULL,
+//   end_date date,
+//   skip_dates date[] NOT NULL DEFAULT '{}',
+//   last_materialized_date date,
+//   amount numeric NOT NULL,
+//   category_id text,
+//   mood_id text,
+//   mood_reason text,
+//   notes text,
+//   source text,
+//   description text,
+//   paused boolean NOT NULL DEFAULT false,
+//   created_at timestamptz NOT NULL DEFAULT now(),
+//   updated_at timestamptz NOT NULL DEFAULT now(),
+//   deleted_at timestamptz
+// );
+// CREATE INDEX IF NOT EXISTS recurring_rules_user_updated_idx ON recurring_rules (user_id, updated_at, id);
+// ALTER TABLE recurring_rules ENABLE ROW LEVEL SECURITY;
+// CREATE POLICY "Users manage their own recurring rules" ON recurring_rules FOR ALL USING (auth.uid() = user_id);
+
+// Required Supabase SQL for multi-currency amounts (existing rows are Rupiah):
+// ALTER TABLE expenses ADD COLUMN IF NOT EXISTS currency text NOT NULL DEFAULT 'IDR';
+// ALTER TABLE incomes ADD COLUMN IF NOT EXISTS currency text NOT NULL DEFAULT 'IDR';
+// ALTER TABLE recurring_rules ADD COLUMN IF NOT EXISTS currency text NOT NULL DEFAULT 'IDR';
+
+// Required Supabase SQL for deletion tracking (soft deletes):
+// ALTER TABLE expenses ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+// ALTER TABLE incomes ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+
 export type SyncOperation = 'push' | 'pull' | 'background' | 'gamification' | null;
 
 function dispatchSyncEvent(operation: SyncOperation) {
@@ -963,12 +2191,19 @@ const performFullSync = async (reason: string) => {
     
     // Run sync operations in sequence
     await pullExpensesFromSupabase();
+    // Pull rules before materializing so another device's progress is seen;
+    // loaded lazily since lib/recurring imports this module
+    const { syncRecurringRules, materializeDueOccurrences } = await import('./recurring');
+    await syncRecurringRules();
+    await materializeDueOccurrences();
     await syncExpenses();
+    // Replay whatever is left in the outbox (incomes and retried entries)
+    await processSyncQueue();
     await syncGamificationData();
     
     // console.log('[Sync] Sync completed successfully');
-  } catch (error: any) {
-    // console.error(`[Sync] Error during sync (${reason}):`, error.message);
+  } catch (error: unknown) {
+    // console.error(`[Sync] Error during sync (${reason}):`, getErrorMessage(error));
   } finally {
     if (timeout) clearTimeout(timeout);
     if (release) {
@@ -1047,8 +2282,8 @@ export async function fixStreakBadge(): Promise<void> {
     }
     
     return;
-  } catch (error: any) {
-    console.error("[Badge Fix] Error:", error.message);
+  } catch (error: unknown) {
+    console.error("[Badge Fix] Error:", getErrorMessage(error));
   }
 }
 
@@ -1102,7 +2337,8 @@ export async function syncGamificationData(): Promise<void> {
     }
     
     // Sync badges based on local calculations
-    const badges = calculateBadges(expenses, calculatedStreak);
+    const budgets = await db.budgets.filter(budget => !budget.deletedAt).toArray().catch(() => []);
+    const badges = calculateBadges(expenses, calculatedStreak, budgets);
     // console.log("[Gamification] Calculated badges:", badges);
     // console.log("[Gamification] Current streak:", calculatedStreak);
     
@@ -1126,13 +2362,13 @@ export async function syncGamificationData(): Promise<void> {
         }, { onConflict: 'user_id,badge_id' });
       }
     }
-  } catch (error: any) {
-    // console.error("[GAMIFICATION] Error syncing gamification data:", error.message);
+  } catch (error: unknown) {
+    // console.error("[GAMIFICATION] Error syncing gamification data:", getErrorMessage(error));
     // Dispatch sync error event
     if (typeof window !== "undefined") {
       window.dispatchEvent(new CustomEvent("sync:error", { 
         detail: { 
-          message: error.message,
+          message: getErrorMessage(error),
           operation: 'gamification'
         } 
       }));
@@ -1198,7 +2434,7 @@ function calculateStreak(expenses: SyncedExpense[]): number {
 }
 
 // Helper function to calculate badges
-function calculateBadges(expenses: SyncedExpense[], streak: number): {
+function calculateBadges(expenses: SyncedExpense[], streak: number, budgets: SyncedBudget[] = []): {
   id: string;
   earned: boolean;
 }[] {
@@ -1214,7 +2450,7 @@ function calculateBadges(expenses: SyncedExpense[], streak: number): {
     },
     {
       id: "budget-master",
-      earned: false, // This requires budget data
+      earned: hasStayedWithinBudgets(budgets, expenses),
     },
     {
       id: "no-impulse",
@@ -2,8 +2,17 @@ import * as XLSX from 'xlsx-js-style';
 import type { CellStyleColor } from 'xlsx-js-style';
 import { getIncomesByDateRange } from './income';
 import { getExpensesByDateRange } from './db';
+import { getBudgets } from './budgets';
+import { ensureCategoriesLoaded } from './categories';
+import { ensureMoodsLoaded } from './moods';
+import { ensureCurrencySettingsLoaded } from './currency';
+import { formatCurrency, getCurrencySymbol } from './currency-formatter';
+import { getMonthKey, getBudgetLevel, resolveBudgetsForMonth } from './budget-calculations';
+import { getCategory } from '@/data/categories';
+import { getMood } from '@/data/moods';
+import { DEFAULT_CURRENCY, getCurrencyInfo, getHomeAmount, getHomeCurrency } from '@/data/currencies';
 import { format, startOfMonth, endOfMonth, eachMonthOfInterval, subMonths } from 'date-fns';
-import type { Expense } from "@/types/expense";
+import type { Budget, Expense } from "@/types/expense";
 import type { Income } from "@/types/expense";
 
 // Professional color palette
@@ -75,6 +84,11 @@ interface FinancialSummary {
   insights: string[];
 }
 
+// Sheets lib/excel-import.ts reads back. Their last column holds record ids,
+// so importing the same workbook again updates rows instead of duplicating them
+export const DETAILED_EXPENSES_SHEET = '💳 Detailed Expenses';
+export const INCOME_ANALYSIS_SHEET = '💰 Income Analysis';
+
 // Professional cell creation functions
 function createCell(
   value: string | number | Date | boolean,
@@ -148,7 +162,19 @@ function createMetricLabelCell(text: string): XLSX.CellObject {
   });
 }
 
-function createPositiveValueCell(value: number, format = '"Rp"#,##0;[Red]"Rp"#,##0'): XLSX.CellObject {
+// Number format with the currency's symbol and decimals, e.g. "Rp"#,##0 or "$"#,##0.00
+function getMoneyFormat(currency: string = getHomeCurrency()): string {
+  const decimals = getCurrencyInfo(currency).fractionDigits;
+  const symbol = getCurrencySymbol(currency).replace(/"/g, '');
+  return `"${symbol}"#,##0${decimals > 0 ? '.' + '0'.repeat(decimals) : ''}`;
+}
+
+function getSignedMoneyFormat(currency: string = getHomeCurrency()): string {
+  const money = getMoneyFormat(currency);
+  return `${money};[Red]${money}`;
+}
+
+function createPositiveValueCell(value: number, format = getSignedMoneyFormat()): XLSX.CellObject {
   return createCell(value, {
     numFmt: format,
     font: { bold: true, color: { rgb: value >= 0 ? COLORS.success : COLORS.accent }, sz: 10 },
@@ -156,7 +182,7 @@ function createPositiveValueCell(value: number, format = '"Rp"#,##0;[Red]"Rp"#,#
   });
 }
 
-function createValueCell(value: number, format = '"Rp"#,##0;[Red]"Rp"#,##0'): XLSX.CellObject {
+function createValueCell(value: number, format = getSignedMoneyFormat()): XLSX.CellObject {
   return createCell(value, {
     numFmt: format,
     font: { sz: 10, color: { rgb: COLORS.text } },
@@ -171,8 +197,8 @@ async function generateEnhancedFinancialSummary(
   startDate: Date,
   endDate: Date
 ): Promise<FinancialSummary> {
-  const totalIncome = incomes.reduce((sum, income) => sum + parseFloat(income.amount.toString()), 0);
-  const totalExpenses = expenses.reduce((sum, expense) => sum + parseFloat(expense.amount.toString()), 0);
+  const totalIncome = incomes.reduce((sum, income) => sum + getHomeAmount(income), 0);
+  const totalExpenses = expenses.reduce((sum, expense) => sum + getHomeAmount(expense), 0);
   const netSavings = totalIncome - totalExpenses;
   const savingsRate = totalIncome > 0 ? (netSavings / totalIncome) * 100 : 0;
   const expenseToIncomeRatio = totalIncome > 0 ? (totalExpenses / totalIncome) * 100 : 0;
@@ -190,7 +216,7 @@ async function generateEnhancedFinancialSummary(
   const essentialCategories = ['bills', 'transport', 'health'];
   const discretionaryExpenses = expenses
     .filter(expense => !essentialCategories.includes(expense.category))
-    .reduce((sum, exp) => sum + exp.amount, 0);
+    .reduce((sum, exp) => sum + getHomeAmount(exp), 0);
 
   const discretionarySpending = totalExpenses > 0 
     ? (discretionaryExpenses / totalExpenses) * 100 
@@ -199,13 +225,13 @@ async function generateEnhancedFinancialSummary(
   // Enhanced category analysis
   const categoryTotals = expenses.reduce((acc, expense) => {
     const category = expense.category || 'Uncategorized';
-    acc[category] = (acc[category] || 0) + parseFloat(expense.amount.toString());
+    acc[category] = (acc[category] || 0) + getHomeAmount(expense);
     return acc;
   }, {} as Record<string, number>);
 
   const topExpenseCategories = Object.entries(categoryTotals)
     .map(([category, amount]) => ({
-      category,
+      category: getCategory(category)?.name || category,
       amount,
       percentage: (amount / totalExpenses) * 100
     }))
@@ -214,11 +240,12 @@ async function generateEnhancedFinancialSummary(
 
   // Mood analysis with percentages
   const expensesByMood = expenses.reduce((acc, expense) => {
-    const mood = expense.mood || 'Neutral';
+    // Custom mood ids are opaque, so group by label
+    const mood = expense.mood ? getMood(expense.mood).label : 'Neutral';
     if (!acc[mood]) {
       acc[mood] = { amount: 0, count: 0, percentage: 0 };
     }
-    acc[mood].amount += parseFloat(expense.amount.toString());
+    acc[mood].amount += getHomeAmount(expense);
     acc[mood].count++;
     return acc;
   }, {} as Record<string, { amount: number; count: number; percentage: number }>);
@@ -241,14 +268,14 @@ async function generateEnhancedFinancialSummary(
         const incomeDate = new Date(income.date);
         return incomeDate >= monthStart && incomeDate <= monthEnd;
       })
-      .reduce((sum, income) => sum + parseFloat(income.amount.toString()), 0);
+      .reduce((sum, income) => sum + getHomeAmount(income), 0);
 
     const monthExpenses = expenses
       .filter(expense => {
         const expenseDate = new Date(expense.date);
         return expenseDate >= monthStart && expenseDate <= monthEnd;
       })
-      .reduce((sum, expense) => sum + parseFloat(expense.amount.toString()), 0);
+      .reduce((sum, expense) => sum + getHomeAmount(expense), 0);
 
     const monthSavings = monthIncomes - monthExpenses;
     const monthSavingsRate = monthIncomes > 0 ? (monthSavings / monthIncomes) * 100 : 0;
@@ -312,7 +339,7 @@ async function generateEnhancedFinancialSummary(
   const avgMonthlySavings = monthlyTrends.reduce((sum, month) => sum + month.savings, 0) / monthlyTrends.length;
   if (avgMonthlySavings > 0) {
     const yearlyProjection = avgMonthlySavings * 12;
-    insights.push(`📈 At current rate, you'll save Rp${yearlyProjection.toFixed(0)} annually.`);
+    insights.push(`📈 At current rate, you'll save ${formatCurrency(yearlyProjection)} annually.`);
   }
 
   return {
@@ -442,8 +469,11 @@ function createDetailedExpensesWorksheet(expenses: Expense[]) {
     createHeaderCell('Description'),
     createHeaderCell('Category'),
     createHeaderCell('Amount'),
+    createHeaderCell('Currency'),
+    createHeaderCell(`Amount (${getHomeCurrency()})`),
     createHeaderCell('Mood'),
-    createHeaderCell('Payment Method')
+    createHeaderCell('Payment Method'),
+    createHeaderCell('ID')
   ]);
 
   // Sort expenses by date (newest first)
@@ -465,29 +495,39 @@ function createDetailedExpensesWorksheet(expenses: Expense[]) {
         alignment: { horizontal: 'left', wrapText: true },
         ...rowStyle
       }),
-      createCell(expense.category || 'Uncategorized', rowStyle),
+      createCell(expense.category ? getCategory(expense.category)?.name || expense.category : 'Uncategorized', rowStyle),
       createCell(parseFloat(expense.amount.toString()), { 
-        numFmt: '"Rp"#,##0',
+        numFmt: getMoneyFormat(expense.currency || DEFAULT_CURRENCY),
         font: { color: { rgb: COLORS.accent } },
         ...rowStyle
       }),
-      createCell(expense.mood || 'Neutral', rowStyle),
-      createCell('Card', rowStyle) // Assuming default payment method
+      createCell(expense.currency || DEFAULT_CURRENCY, rowStyle),
+      createCell(getHomeAmount(expense), {
+        numFmt: getMoneyFormat(),
+        font: { color: { rgb: COLORS.accent } },
+        ...rowStyle
+      }),
+      createCell(expense.mood ? getMood(expense.mood).label : 'Neutral', rowStyle),
+      createCell('Card', rowStyle), // Assuming default payment method
+      createCell(expense.id, { font: { sz: 8, color: { rgb: COLORS.neutral } }, ...rowStyle })
     ]);
   });
 
-  // Add total row
-  const totalExpenses = expenses.reduce((sum, expense) => sum + parseFloat(expense.amount.toString()), 0);
+  // Add total row, in the home currency
+  const totalExpenses = expenses.reduce((sum, expense) => sum + getHomeAmount(expense), 0);
   rows.push([
     createCell('TOTAL', { font: { bold: true, sz: 11 } }),
     createCell(''),
     createCell(''),
+    createCell(''),
+    createCell(''),
     createCell(totalExpenses, { 
-      numFmt: '"Rp"#,##0',
+      numFmt: getMoneyFormat(),
       font: { bold: true, color: { rgb: COLORS.accent } },
       border: { top: { style: 'thick', color: { rgb: COLORS.primary } } }
     }),
     createCell(''),
+    createCell(''),
     createCell('')
   ]);
 
@@ -500,13 +540,16 @@ function createDetailedExpensesWorksheet(expenses: Expense[]) {
     { wch: 40 }, // Description
     { wch: 20 }, // Category
     { wch: 15 }, // Amount
+    { wch: 10 }, // Currency
+    { wch: 15 }, // Amount (home)
     { wch: 15 }, // Mood
-    { wch: 18 }  // Payment Method
+    { wch: 18 }, // Payment Method
+    { wch: 38 }  // ID
   ];
 
   // Merge title cell
   ws['!merges'] = [
-    { s: { r: 0, c: 0 }, e: { r: 0, c: 5 } }
+    { s: { r: 0, c: 0 }, e: { r: 0, c: 8 } }
   ];
   
   return ws;
@@ -527,7 +570,10 @@ function createIncomeAnalysisWorksheet(incomes: Income[]) {
     createHeaderCell('Description'),
     createHeaderCell('Source'),
     createHeaderCell('Amount'),
-    createHeaderCell('Type')
+    createHeaderCell('Currency'),
+    createHeaderCell(`Amount (${getHomeCurrency()})`),
+    createHeaderCell('Type'),
+    createHeaderCell('ID')
   ]);
 
   // Sort incomes by date (newest first)
@@ -551,25 +597,35 @@ function createIncomeAnalysisWorksheet(incomes: Income[]) {
       }),
       createCell(income.source || 'Other', rowStyle),
       createCell(parseFloat(income.amount.toString()), { 
-        numFmt: '"Rp"#,##0',
+        numFmt: getMoneyFormat(income.currency || DEFAULT_CURRENCY),
+        font: { color: { rgb: COLORS.success } },
+        ...rowStyle
+      }),
+      createCell(income.currency || DEFAULT_CURRENCY, rowStyle),
+      createCell(getHomeAmount(income), {
+        numFmt: getMoneyFormat(),
         font: { color: { rgb: COLORS.success } },
         ...rowStyle
       }),
-      createCell('Regular', rowStyle) // Assuming default type
+      createCell('Regular', rowStyle), // Assuming default type
+      createCell(income.id, { font: { sz: 8, color: { rgb: COLORS.neutral } }, ...rowStyle })
     ]);
   });
 
-  // Add total row
-  const totalIncome = incomes.reduce((sum, income) => sum + parseFloat(income.amount.toString()), 0);
+  // Add total row, in the home currency
+  const totalIncome = incomes.reduce((sum, income) => sum + getHomeAmount(income), 0);
   rows.push([
     createCell('TOTAL', { font: { bold: true, sz: 11 } }),
     createCell(''),
     createCell(''),
+    createCell(''),
+    createCell(''),
     createCell(totalIncome, { 
-      numFmt: '"Rp"#,##0',
+      numFmt: getMoneyFormat(),
       font: { bold: true, color: { rgb: COLORS.success } },
       border: { top: { style: 'thick', color: { rgb: COLORS.primary } } }
     }),
+    createCell(''),
     createCell('')
   ]);
 
@@ -582,12 +638,15 @@ function createIncomeAnalysisWorksheet(incomes: Income[]) {
     { wch: 40 }, // Description
     { wch: 20 }, // Source
     { wch: 15 }, // Amount
-    { wch: 15 }  // Type
+    { wch: 10 }, // Currency
+    { wch: 15 }, // Amount (home)
+    { wch: 15 }, // Type
+    { wch: 38 }  // ID
   ];
 
   // Merge title cell
   ws['!merges'] = [
-    { s: { r: 0, c: 0 }, e: { r: 0, c: 4 } }
+    { s: { r: 0, c: 0 }, e: { r: 0, c: 7 } }
   ];
   
   return ws;
@@ -623,9 +682,9 @@ function createTrendsAnalysisWorksheet(summary: FinancialSummary) {
 
     rows.push([
       createCell(trend.month),
-      createValueCell(trend.income, '"Rp"#,##0'),
-      createValueCell(trend.expenses, '"Rp"#,##0'),
-      createPositiveValueCell(trend.savings, '"Rp"#,##0'),
+      createValueCell(trend.income, getMoneyFormat()),
+      createValueCell(trend.expenses, getMoneyFormat()),
+      createPositiveValueCell(trend.savings, getMoneyFormat()),
       createPositiveValueCell(trend.savingsRate / 100, '0.0%'),
       createCell(trendDirection)
     ]);
@@ -649,9 +708,9 @@ function createTrendsAnalysisWorksheet(summary: FinancialSummary) {
     summary.quarterlyAnalysis.forEach(quarter => {
       rows.push([
         createCell(quarter.quarter),
-        createValueCell(quarter.income, '"Rp"#,##0'),
-        createValueCell(quarter.expenses, '"Rp"#,##0'),
-        createPositiveValueCell(quarter.savings, '"Rp"#,##0'),
+        createValueCell(quarter.income, getMoneyFormat()),
+        createValueCell(quarter.expenses, getMoneyFormat()),
+        createPositiveValueCell(quarter.savings, getMoneyFormat()),
         createPositiveValueCell(quarter.growth / 100, '0.0%')
       ]);
     });
@@ -687,9 +746,13 @@ export async function exportExpensesToExcel(
     const startDateStr = startDate.toISOString();
     const endDateStr = endDate.toISOString();
     
-    const [expenses, incomes] = await Promise.all([
+    const [expenses, incomes, budgets] = await Promise.all([
       getExpensesByDateRange(startDateStr, endDateStr),
-      getIncomesByDateRange(startDateStr, endDateStr)
+      getIncomesByDateRange(startDateStr, endDateStr),
+      getBudgets(),
+      ensureCategoriesLoaded(),
+      ensureMoodsLoaded(),
+      ensureCurrencySettingsLoaded()
     ]);
 
     // Generate enhanced financial summary
@@ -710,9 +773,9 @@ export async function exportExpensesToExcel(
     XLSX.utils.book_append_sheet(wb, createExecutiveSummaryWorksheet(summary, startDate, endDate), '📊 Executive Summary');
     XLSX.utils.book_append_sheet(wb, createDashboardWorksheet(summary, startDate, endDate), '📈 Dashboard');
     XLSX.utils.book_append_sheet(wb, createTrendsAnalysisWorksheet(summary), '📉 Trends & Forecasting');
-    XLSX.utils.book_append_sheet(wb, createBudgetComparisonWorksheet(summary, expenses), '🎯 Budget Analysis');
-    XLSX.utils.book_append_sheet(wb, createDetailedExpensesWorksheet(expenses), '💳 Detailed Expenses');
-    XLSX.utils.book_append_sheet(wb, createIncomeAnalysisWorksheet(incomes), '💰 Income Analysis');
+    XLSX.utils.book_append_sheet(wb, createBudgetComparisonWorksheet(expenses, budgets, startDate, endDate), '🎯 Budget Analysis');
+    XLSX.utils.book_append_sheet(wb, createDetailedExpensesWorksheet(expenses), DETAILED_EXPENSES_SHEET);
+    XLSX.utils.book_append_sheet(wb, createIncomeAnalysisWorksheet(incomes), INCOME_ANALYSIS_SHEET);
 
     // Generate Excel file with enhanced options
     const excelBuffer = XLSX.write(wb, { 
@@ -938,10 +1001,10 @@ function createDashboardWorksheet(summary: FinancialSummary, startDate: Date, en
     cumulativeSavings += trend.savings;
     rows.push([
       createCell(trend.month),
-      createValueCell(trend.income, '"Rp"#,##0'),
-      createValueCell(trend.expenses, '"Rp"#,##0'),
-      createPositiveValueCell(trend.savings, '"Rp"#,##0'),
-      createValueCell(cumulativeSavings, '"Rp"#,##0')
+      createValueCell(trend.income, getMoneyFormat()),
+      createValueCell(trend.expenses, getMoneyFormat()),
+      createPositiveValueCell(trend.savings, getMoneyFormat()),
+      createValueCell(cumulativeSavings, getMoneyFormat())
     ]);
   });
 
@@ -965,9 +1028,9 @@ function createDashboardWorksheet(summary: FinancialSummary, startDate: Date, en
       const avgPerTransaction = data.count > 0 ? data.amount / data.count : 0;
       rows.push([
         createCell(mood),
-        createValueCell(data.amount, '"Rp"#,##0'),
+        createValueCell(data.amount, getMoneyFormat()),
 createCell(data.count),
-createValueCell(avgPerTransaction, '"Rp"#,##0'),
+createValueCell(avgPerTransaction, getMoneyFormat()),
         createValueCell(data.percentage / 100, '0.0%')
       ]);
     });
@@ -992,8 +1055,29 @@ createValueCell(avgPerTransaction, '"Rp"#,##0'),
   return ws;
 }
 
+// Sums the monthly limit that applied to each category over every month in the range
+function getBudgetTotalsForRange(budgets: Budget[], expenses: Expense[], startDate: Date, endDate: Date) {
+  // The "all time" export starts at the epoch; begin at the first expense instead
+  const firstExpense = expenses.reduce<Date | null>((earliest, expense) => {
+    const date = new Date(expense.date);
+    return !earliest || date < earliest ? date : earliest;
+  }, null);
+  const rangeStart = firstExpense && firstExpense > startDate ? firstExpense : startDate;
+  const months = rangeStart <= endDate
+    ? eachMonthOfInterval({ start: rangeStart, end: endDate }).map(month => getMonthKey(month))
+    : [getMonthKey(endDate)];
+
+  const totals: Record<string, number> = {};
+  months.forEach(month => {
+    resolveBudgetsForMonth(budgets, month).forEach(budget => {
+      totals[budget.category] = (totals[budget.category] || 0) + budget.amount;
+    });
+  });
+  return { totals, monthCount: months.length };
+}
+
 // Create budget vs actual comparison worksheet
-function createBudgetComparisonWorksheet(summary: FinancialSummary, expenses: Expense[]) {
+function createBudgetComparisonWorksheet(expenses: Expense[], budgets: Budget[], startDate: Date, endDate: Date) {
   const ws: XLSX.WorkSheet = {};
   const rows: any[][] = [];
 
@@ -1001,22 +1085,19 @@ function createBudgetComparisonWorksheet(summary: FinancialSummary, expenses: Ex
   rows.push([createTitleCell('BUDGET VS ACTUAL COMPARISON')]);
   rows.push([{ v: '', t: 's' }]);
 
-  // Note about budget setup
-  rows.push([createCell('Note: Set up category budgets in your app for detailed comparison', {
-    font: { sz: 10, color: { rgb: COLORS.neutral }, i: true },
-    alignment: { horizontal: 'center' }
-  })]);
-  rows.push([{ v: '', t: 's' }]);
+  const { totals: budgetTotals, monthCount } = getBudgetTotalsForRange(budgets, expenses, startDate, endDate);
+  const hasBudgets = Object.keys(budgetTotals).length > 0;
 
-  // Sample budget comparison (you can customize this based on your app's budget feature)
-  const sampleBudgets = {
-    'Food': 800,
-    'Transportation': 400,
-    'Entertainment': 300,
-    'Shopping': 500,
-    'Bills': 1200,
-    'Healthcare': 200
-  };
+  rows.push([createCell(
+    hasBudgets
+      ? `Budgets summed over ${monthCount} month${monthCount !== 1 ? 's' : ''} in this report`
+      : 'Note: Set up category budgets in Settings for a detailed comparison',
+    {
+      font: { sz: 10, color: { rgb: COLORS.neutral }, i: true },
+      alignment: { horizontal: 'center' }
+    }
+  )]);
+  rows.push([{ v: '', t: 's' }]);
 
   rows.push([createSubHeaderCell('CATEGORY BUDGET ANALYSIS')]);
   rows.push([{ v: '', t: 's' }]);
@@ -1030,18 +1111,30 @@ function createBudgetComparisonWorksheet(summary: FinancialSummary, expenses: Ex
     createHeaderCell('Status')
   ]);
 
-  summary.topExpenseCategories.forEach(category => {
-    const budget = sampleBudgets[category.category as keyof typeof sampleBudgets] || 0;
-    const actual = category.amount;
+  const actualTotals = expenses.reduce((acc, expense) => {
+    const category = expense.category || 'Uncategorized';
+    acc[category] = (acc[category] || 0) + getHomeAmount(expense);
+    return acc;
+  }, {} as Record<string, number>);
+
+  // Budgeted categories first, then unbudgeted spending
+  const categoryIds = Array.from(new Set([...Object.keys(budgetTotals), ...Object.keys(actualTotals)]))
+    .sort((a, b) => (budgetTotals[b] ? 1 : 0) - (budgetTotals[a] ? 1 : 0) || (actualTotals[b] || 0) - (actualTotals[a] || 0));
+
+  categoryIds.forEach(categoryId => {
+    const category = getCategory(categoryId);
+    const budget = budgetTotals[categoryId] || 0;
+    const actual = actualTotals[categoryId] || 0;
     const variance = budget - actual;
     const percentUsed = budget > 0 ? (actual / budget) * 100 : 0;
-    const status = percentUsed > 100 ? '🔴 Over' : percentUsed > 80 ? '🟡 Warning' : '🟢 On Track';
+    const level = getBudgetLevel(actual, budget);
+    const status = budget === 0 ? '⚪ No Budget' : level === 'over' ? '🔴 Over' : level === 'warning' ? '🟡 Warning' : '🟢 On Track';
 
     rows.push([
-      createCell(category.category),
-      createValueCell(budget, '"Rp"#,##0'),
-      createValueCell(actual, '"Rp"#,##0'),
-      createPositiveValueCell(variance, '"Rp"#,##0'),
+      createCell(category ? `${category.icon} ${category.name}` : categoryId),
+      createValueCell(budget, getMoneyFormat()),
+      createValueCell(actual, getMoneyFormat()),
+      createPositiveValueCell(variance, getMoneyFormat()),
       createCell(percentUsed / 100, { numFmt: '0%' }),
       createCell(status)
     ]);
@@ -0,0 +1,275 @@
+import * as XLSX from 'xlsx-js-style';
+import { getExpenses, getCurrentUser, addExpenses, updateExpense } from './db';
+import { addIncomes, getIncomesByDateRange, updateIncome } from './income';
+import { ensureCategoriesLoaded } from './categories';
+import { ensureMoodsLoaded } from './moods';
+import { DETAILED_EXPENSES_SHEET, INCOME_ANALYSIS_SHEET } from './excel-export';
+import { findCategoryId, findMoodId, parseImportAmount, parseImportDate, type ExpenseDraft } from './expense-import';
+import { DEFAULT_CURRENCY } from '@/data/currencies';
+import type { Expense, Income } from '@/types/expense';
+
+export type WorkbookImportAction = 'create' | 'update' | 'skip';
+
+type IncomeDraft = Pick<Income, 'amount' | 'currency' | 'source' | 'description' | 'date'>;
+
+interface WorkbookRow<T> {
+  action: WorkbookImportAction;
+  // The local record to update, when the row's ID matches one
+  id?: string;
+  record: T;
+}
+
+export interface WorkbookImportPlan {
+  expenses: WorkbookRow<ExpenseDraft>[];
+  incomes: WorkbookRow<IncomeDraft>[];
+  // Rows in the sheets that could not be read (bad date or amount)
+  invalid: number;
+}
+
+export interface WorkbookImportCounts {
+  created: number;
+  updated: number;
+  skipped: number;
+  failed: number;
+}
+
+export interface WorkbookImportReport {
+  expenses: WorkbookImportCounts;
+  incomes: WorkbookImportCounts;
+  invalid: number;
+}
+
+export class NotAnExportWorkbookError extends Error {
+  constructor() {
+    super('This workbook was not exported from the app');
+    this.name = 'NotAnExportWorkbookError';
+  }
+}
+
+// Sheet names start with an emoji that spreadsheet apps sometimes drop on save
+const findSheet = (wb: XLSX.WorkBook, name: string): XLSX.WorkSheet | undefined => {
+  const title = name.replace(/^\S+\s/, '');
+  const sheetName = wb.SheetNames.find((sheet) => sheet === name || sheet.trim().endsWith(title));
+  return sheetName ? wb.Sheets[sheetName] : undefined;
+};
+
+/**
+ * Exported dates are written as UTC midnight, which the sheet reader turns
+ * back into exactly that instant. Dates typed into the sheet by hand come back
+ * as local midnight instead, so only the exact instant is read in UTC.
+ */
+function cellToDateKey(value: unknown): string | null {
+  if (value instanceof Date) {
+    if (isNaN(value.getTime())) return null;
+    const isUTCMidnight = value.getUTCHours() === 0 && value.getUTCMinutes() === 0;
+    const [year, month, day] = isUTCMidnight
+      ? [value.getUTCFullYear(), value.getUTCMonth() + 1, value.getUTCDate()]
+      : [value.getFullYear(), value.getMonth() + 1, value.getDate()];
+    return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+  }
+  return typeof value === 'string' ? parseImportDate(value) : null;
+}
+
+function cellToAmount(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) && value > 0 ? value : null;
+  return typeof value === 'string' ? parseImportAmount(value) : null;
+}
+
+const cellToText = (value: unknown): string => (value === undefined || value === null ? '' : String(value).trim());
+
+/**
+ * Reads the table under a sheet's header row into objects keyed by header,
+ * stopping at the TOTAL row
+ */
+function readSheetTable(ws: XLSX.WorkSheet): Record<string, unknown>[] {
+  const rows = XLSX.utils.sheet_to_json<unknown[]>(ws, { header: 1, raw: true, defval: '' });
+  const headerIndex = rows.findIndex((row) => row[0] === 'Date' && row.includes('Amount'));
+  if (headerIndex === -1) return [];
+
+  const headers = rows[headerIndex].map(cellToText);
+  const records: Record<string, unknown>[] = [];
+  for (const row of rows.slice(headerIndex + 1)) {
+    if (row[0] === 'TOTAL' || row.every((cell) => cellToText(cell) === '')) break;
+    records.push(Object.fromEntries(headers.map((header, i) => [header, row[i]])));
+  }
+  return records;
+}
+
+// Identifies a record when the sheet has no ID for it (older exports), so
+// re-importing such a sheet still doesn't duplicate rows
+const expenseKey = (e: Pick<Expense, 'date' | 'amount' | 'currency' | 'category' | 'notes'>) =>
+  [e.date.slice(0, 10), Math.round(e.amount * 100), e.currency || DEFAULT_CURRENCY, e.category, e.notes || ''].join('|');
+
+const incomeKey = (i: IncomeDraft) =>
+  [i.date.slice(0, 10), Math.round(i.amount * 100), i.currency || DEFAULT_CURRENCY, i.source, i.description || ''].join('|');
+
+const sameExpense = (existing: Expense, draft: ExpenseDraft) =>
+  expenseKey(existing) === expenseKey(draft) && existing.mood === draft.mood;
+
+// Counts records per key, so two identical rows (two coffees on one day) match
+// two existing records rather than both matching the first
+const countKeys = (keys: string[]) => {
+  const counts = new Map<string, number>();
+  for (const key of keys) counts.set(key, (counts.get(key) ?? 0) + 1);
+  return counts;
+};
+
+const takeMatch = (counts: Map<string, number>, key: string): boolean => {
+  const count = counts.get(key) ?? 0;
+  if (count > 0) counts.set(key, count - 1);
+  return count > 0;
+};
+
+/**
+ * Reads the Detailed Expenses and Income Analysis sheets of a workbook from
+ * exportExpensesToExcel and works out which rows create, update or match
+ * existing records
+ */
+export async function planWorkbookImport(file: File): Promise<WorkbookImportPlan> {
+  const wb = XLSX.read(await file.arrayBuffer(), { type: 'array', cellDates: true });
+  const expenseSheet = findSheet(wb, DETAILED_EXPENSES_SHEET);
+  const incomeSheet = findSheet(wb, INCOME_ANALYSIS_SHEET);
+  if (!expenseSheet && !incomeSheet) throw new NotAnExportWorkbookError();
+
+  await Promise.all([ensureCategoriesLoaded(), ensureMoodsLoaded()]);
+  const [existingExpenses, existingIncomes] = await Promise.all([
+    getExpenses(),
+    getIncomesByDateRange(new Date(0).toISOString(), new Date(9999, 11, 31).toISOString()),
+  ]);
+  const expensesById = new Map<string, Expense>(existingExpenses.map((e) => [e.id, e]));
+  const expenseKeys = countKeys(existingExpenses.map(expenseKey));
+  const incomesById = new Map(existingIncomes.map((i) => [i.id, i]));
+  const incomeKeys = countKeys(existingIncomes.map(incomeKey));
+
+  const plan: WorkbookImportPlan = { expenses: [], incomes: [], invalid: 0 };
+
+  for (const row of expenseSheet ? readSheetTable(expenseSheet) : []) {
+    const date = cellToDateKey(row['Date']);
+    const amount = cellToAmount(row['Amount']);
+    if (!date || amount === null) {
+      plan.invalid++;
+      continue;
+    }
+
+    const existing = expensesById.get(cellToText(row['ID']));
+    // Unknown names keep what the record already has rather than resetting it
+    const category = findCategoryId(cellToText(row['Category'])) ?? existing?.category ?? 'other';
+    const mood = findMoodId(cellToText(row['Mood'])) ?? existing?.mood ?? 'neutral';
+    const record: ExpenseDraft = {
+      ...(existing && { moodReason: existing.moodReason, moodIntensity: existing.moodIntensity }),
+      date,
+      amount,
+      currency: cellToText(row['Currency']).toUpperCase() || DEFAULT_CURRENCY,
+      category,
+      mood,
+      notes: cellToText(row['Description']),
+    };
+
+    if (existing) {
+      plan.expenses.push({ action: sameExpense(existing, record) ? 'skip' : 'update', id: existing.id, record });
+    } else {
+      plan.expenses.push({ action: takeMatch(expenseKeys, expenseKey(record)) ? 'skip' : 'create', record });
+    }
+  }
+
+  for (const row of incomeSheet ? readSheetTable(incomeSheet) : []) {
+    const date = cellToDateKey(row['Date']);
+    const amount = cellToAmount(row['Amount']);
+    if (!date || amount === null) {
+      plan.invalid++;
+      continue;
+    }
+
+    const record: IncomeDraft = {
+      date,
+      amount,
+      currency: cellToText(row['Currency']).toUpperCase() || DEFAULT_CURRENCY,
+      source: cellToText(row['Source']) || 'Other',
+      description: cellToText(row['Description']),
+    };
+
+    const existing = incomesById.get(cellToText(row['ID']));
+    if (existing) {
+      plan.incomes.push({ action: incomeKey(existing) === incomeKey(record) ? 'skip' : 'update', id: existing.id, record });
+    } else {
+      plan.incomes.push({ action: takeMatch(incomeKeys, incomeKey(record)) ? 'skip' : 'create', record });
+    }
+  }
+
+  return plan;
+}
+
+const emptyCounts = (): WorkbookImportCounts => ({ created: 0, updated: 0, skipped: 0, failed: 0 });
+
+/**
+ * Applies a plan so every change is queued for sync: new rows are saved in
+ * one transaction per sheet and pushed once, edited rows go through the
+ * normal update path
+ */
+export async function applyWorkbookImport(
+  plan: WorkbookImportPlan,
+  onProgress?: (done: number, total: number) => void
+): Promise<WorkbookImportReport> {
+  const report: WorkbookImportReport = { expenses: emptyCounts(), incomes: emptyCounts(), invalid: plan.invalid };
+  const total = plan.expenses.length + plan.incomes.length;
+  let done = 0;
+
+  const run = async (counts: WorkbookImportCounts, action: WorkbookImportAction, apply: () => Promise<unknown>) => {
+    if (action === 'skip') {
+      counts.skipped++;
+    } else {
+      try {
+        if (await apply()) counts[action === 'create' ? 'created' : 'updated']++;
+        else counts.failed++;
+      } catch (error) {
+        console.error('[Import] Failed to apply workbook row:', error);
+        counts.failed++;
+      }
+    }
+    onProgress?.(++done, total);
+  };
+
+  // All new rows of a sheet are added together, or counted as failed together
+  const createAll = async <T>(
+    counts: WorkbookImportCounts,
+    rows: WorkbookRow<T>[],
+    add: (records: T[], onAdded: (added: number) => void) => Promise<string[]>
+  ) => {
+    if (rows.length === 0) return;
+    const start = done;
+    try {
+      counts.created += (await add(rows.map((row) => row.record), (added) => onProgress?.(start + added, total))).length;
+    } catch (error) {
+      console.error('[Import] Failed to add workbook rows:', error);
+      counts.failed += rows.length;
+    }
+    done = start + rows.length;
+    onProgress?.(done, total);
+  };
+
+  await createAll(
+    report.expenses,
+    plan.expenses.filter((row) => row.action === 'create'),
+    addExpenses
+  );
+  for (const row of plan.expenses) {
+    if (row.action === 'create') continue;
+    await run(report.expenses, row.action, () => updateExpense(row.id!, row.record));
+  }
+
+  await createAll(
+    report.incomes,
+    plan.incomes.filter((row) => row.action === 'create'),
+    async (records, onAdded) => {
+      const user = await getCurrentUser();
+      if (!user) throw new Error('Not signed in');
+      return addIncomes(records.map((record) => ({ ...record, user_id: user.id })), onAdded);
+    }
+  );
+  for (const row of plan.incomes) {
+    if (row.action === 'create') continue;
+    await run(report.incomes, row.action, () => updateIncome(row.id!, row.record));
+  }
+
+  return report;
+}
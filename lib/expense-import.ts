@@ -0,0 +1,246 @@
+import { isValid, parse } from "date-fns"
+import { getCategories } from "@/data/categories"
+import { getMoods } from "@/data/moods"
+import { DEFAULT_CURRENCY, getHomeCurrency } from "@/data/currencies"
+import { locales } from "@/data/locales"
+import { ensureCategoriesLoaded } from "@/lib/categories"
+import { ensureMoodsLoaded } from "@/lib/moods"
+import { ensureCurrencySettingsLoaded } from "@/lib/currency"
+import { loadCategorizer } from "@/lib/category-rules"
+import { addExpenses, getExpenses } from "@/lib/db"
+import type { Expense } from "@/types/expense"
+
+export type ImportField = "date" | "amount" | "currency" | "category" | "mood" | "moodReason" | "notes"
+
+export const IMPORT_FIELDS: ImportField[] = ["date", "amount", "currency", "category", "mood", "moodReason", "notes"]
+
+// A column index per field, or undefined when the file has no such column
+export type ImportColumnMapping = Partial<Record<ImportField, number>>
+
+// Day-first is what Indonesian banks and spreadsheets use
+export type ImportDateOrder = "dmy" | "mdy"
+
+export interface ImportTable {
+  headers: string[]
+  rows: string[][]
+}
+
+export type ExpenseDraft = Omit<Expense, "id" | "createdAt">
+
+// Invalid rows cannot be imported; unknown categories fall back to a suggested
+// category or "other", unknown moods to "neutral", and both are only flagged.
+// Negative amounts are usually refunds or incoming transfers, so they are
+// left out rather than saved as spending.
+export type ImportIssue = "invalidDate" | "invalidAmount" | "negativeAmount" | "unknownCategory" | "unknownMood"
+
+export interface ImportRow {
+  // 1-based row number in the source file, for the preview
+  line: number
+  expense?: ExpenseDraft
+  issues: ImportIssue[]
+  duplicate: boolean
+}
+
+export interface ImportResult {
+  imported: number
+  failed: number
+}
+
+// Header names we recognise, in English, Indonesian and our own export format
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  date: ["date", "tanggal", "tgl", "transaction date", "posted date"],
+  amount: ["amount", "jumlah", "nominal", "total", "value", "debit"],
+  currency: ["currency", "mata uang", "curr"],
+  category: ["category", "kategori"],
+  mood: ["mood", "suasana hati"],
+  moodReason: ["mood reason", "alasan mood", "alasan"],
+  notes: ["notes", "note", "catatan", "description", "keterangan", "memo"],
+}
+
+const normalise = (value: string) => value.trim().toLowerCase()
+
+/** Pre-selects columns whose header matches a known name for each field */
+export function guessColumnMapping(headers: string[]): ImportColumnMapping {
+  const mapping: ImportColumnMapping = {}
+  const normalised = headers.map(normalise)
+
+  for (const field of IMPORT_FIELDS) {
+    const index = normalised.findIndex(
+      (header, i) => HEADER_ALIASES[field].includes(header) && !Object.values(mapping).includes(i)
+    )
+    if (index !== -1) mapping[field] = index
+  }
+
+  return mapping
+}
+
+/**
+ * Parses amounts like "Rp 1.250.000", "1,250.50" or "(45,00)". A lone
+ * separator followed by exactly three digits is read as a thousands
+ * separator, since whole Rupiah amounts are far more common than fractions.
+ * Returns the size of the amount; callers decide what a sign means.
+ */
+export function parseImportAmount(value: string): number | null {
+  const cleaned = value.replace(/[^\d.,]/g, "")
+  if (!/\d/.test(cleaned)) return null
+
+  const lastDot = cleaned.lastIndexOf(".")
+  const lastComma = cleaned.lastIndexOf(",")
+  let decimalSeparator: string | null = null
+
+  if (lastDot !== -1 && lastComma !== -1) {
+    decimalSeparator = lastDot > lastComma ? "." : ","
+  } else if (lastDot !== -1 || lastComma !== -1) {
+    const separator = lastDot !== -1 ? "." : ","
+    const occurrences = cleaned.split(separator).length - 1
+    const decimals = cleaned.length - cleaned.lastIndexOf(separator) - 1
+    if (occurrences === 1 && decimals !== 3) decimalSeparator = separator
+  }
+
+  const digits = decimalSeparator
+    ? cleaned.replace(new RegExp(`[^\\d${decimalSeparator === "." ? "\\." : ","}]`, "g"), "").replace(",", ".")
+    : cleaned.replace(/\D/g, "")
+  const amount = Number(digits)
+
+  return Number.isFinite(amount) && amount > 0 ? amount : null
+}
+
+// A minus before the digits or accounting parentheses; the trailing dash in
+// "Rp 10.000,-" only marks a whole Rupiah amount
+const isNegativeAmount = (value: string) => /^\s*\(.*\)\s*$/.test(value) || /^[^\d]*-/.test(value)
+
+const toDateKey = (year: number, month: number, day: number): string | null => {
+  const date = new Date(year, month - 1, day)
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) return null
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`
+}
+
+// Formats our CSV export writes dates in, e.g. "19 Okt 2026" or "Oct 19, 2026"
+const NAMED_MONTH_FORMATS = ["d MMM yyyy", "d MMMM yyyy", "MMM d, yyyy", "MMMM d, yyyy"]
+
+/** Parses an imported date into the YYYY-MM-DD form expenses are stored in */
+export function parseImportDate(value: string, order: ImportDateOrder = "dmy"): string | null {
+  const trimmed = value.trim()
+
+  const iso = trimmed.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/)
+  if (iso) return toDateKey(Number(iso[1]), Number(iso[2]), Number(iso[3]))
+
+  const numeric = trimmed.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})\b/)
+  if (numeric) {
+    const [first, second] = [Number(numeric[1]), Number(numeric[2])]
+    const year = numeric[3].length === 2 ? 2000 + Number(numeric[3]) : Number(numeric[3])
+    return order === "dmy" ? toDateKey(year, second, first) : toDateKey(year, first, second)
+  }
+
+  // Intl abbreviates August as "Agu" in Indonesian where date-fns expects "Agt"
+  const named = trimmed.replace(/\.(?=\s)/, "").replace(/\bAgu\b/i, "Agt")
+  for (const { dateLocale } of locales) {
+    for (const format of NAMED_MONTH_FORMATS) {
+      const date = parse(named, format, new Date(), { locale: dateLocale })
+      if (isValid(date)) return toDateKey(date.getFullYear(), date.getMonth() + 1, date.getDate())
+    }
+  }
+
+  return null
+}
+
+// Matches by id or by the name shown in the app, ignoring case
+export function findCategoryId(value: string): string | undefined {
+  const wanted = normalise(value)
+  return getCategories({ includeArchived: true }).find(
+    (category) => category.id === wanted || normalise(category.name) === wanted
+  )?.id
+}
+
+export function findMoodId(value: string): string | undefined {
+  const wanted = normalise(value)
+  return getMoods({ includeArchived: true }).find(
+    (mood) => mood.id === wanted || normalise(mood.label) === wanted
+  )?.id
+}
+
+const duplicateKey = (expense: Pick<Expense, "date" | "amount" | "currency" | "category">) =>
+  `${expense.date.slice(0, 10)}|${Math.round(expense.amount * 100)}|${expense.currency || DEFAULT_CURRENCY}|${expense.category}`
+
+/**
+ * Turns mapped rows into expense drafts and flags the ones that look like an
+ * expense already recorded on the same date with the same amount, currency
+ * and category
+ */
+export async function buildImportRows(
+  table: ImportTable,
+  mapping: ImportColumnMapping,
+  { dateOrder = "dmy", firstLine = 2 }: { dateOrder?: ImportDateOrder; firstLine?: number } = {}
+): Promise<ImportRow[]> {
+  await Promise.all([ensureCategoriesLoaded(), ensureMoodsLoaded(), ensureCurrencySettingsLoaded()])
+  const expenses = await getExpenses()
+  const existing = new Set(expenses.map(duplicateKey))
+  const suggestCategory = await loadCategorizer(expenses)
+  const homeCurrency = getHomeCurrency()
+
+  return table.rows.map((cells, index) => {
+    const cell = (field: ImportField) => {
+      const column = mapping[field]
+      return column === undefined ? "" : (cells[column] ?? "").trim()
+    }
+    const issues: ImportIssue[] = []
+
+    const date = parseImportDate(cell("date"), dateOrder)
+    if (!date) issues.push("invalidDate")
+
+    const amount = parseImportAmount(cell("amount"))
+    const negative = isNegativeAmount(cell("amount"))
+    if (amount === null) issues.push("invalidAmount")
+    else if (negative) issues.push("negativeAmount")
+
+    let category = cell("category") ? findCategoryId(cell("category")) : undefined
+    if (cell("category") && !category) issues.push("unknownCategory")
+
+    let mood = "neutral"
+    if (cell("mood")) {
+      const found = findMoodId(cell("mood"))
+      if (found) mood = found
+      else issues.push("unknownMood")
+    }
+
+    const code = cell("currency").toUpperCase()
+    const currency = /^[A-Z]{3}$/.test(code) ? code : homeCurrency
+    const line = firstLine + index
+
+    if (!date || amount === null || negative) {
+      return { line, issues, duplicate: false }
+    }
+
+    // Files without a category column get one from the user's rules and history
+    category ??= suggestCategory({ notes: cell("notes"), amount, currency, date })?.category ?? "other"
+
+    const expense: ExpenseDraft = {
+      date,
+      amount,
+      currency,
+      category,
+      mood,
+      moodReason: cell("moodReason"),
+      notes: cell("notes"),
+    }
+
+    return { line, expense, issues, duplicate: existing.has(duplicateKey(expense)) }
+  })
+}
+
+/**
+ * Saves all drafts in one transaction and syncs them once; if saving fails,
+ * none of them are imported
+ */
+export async function importExpenses(
+  drafts: ExpenseDraft[],
+  onProgress?: (done: number, total: number) => void
+): Promise<ImportResult> {
+  try {
+    const ids = await addExpenses(drafts, onProgress)
+    return { imported: ids.length, failed: 0 }
+  } catch (error) {
+    console.error("[Import] Failed to add expenses:", error)
+    return { imported: 0, failed: drafts.length }
+  }
+}
@@ -1,5 +1,9 @@
 import { getIncomesByDateRange } from './income';
 import { getExpensesByDateRange } from '@/lib/db';
+import { ensureCurrencySettingsLoaded } from './currency';
+import { getHomeAmount } from '@/data/currencies';
+import { t } from '@/data/locales';
+import { ensureLocaleLoaded } from './locale';
 import type { Expense, Income } from '@/types/expense';
 
 export interface FinancialHealthScore {
@@ -27,11 +31,13 @@ export async function calculateFinancialHealth(
   const [incomes, expenses] = await Promise.all([
     getIncomesByDateRange(startDate.toISOString(), endDate.toISOString()),
     getExpensesByDateRange(startDate.toISOString(), endDate.toISOString()),
+    ensureCurrencySettingsLoaded(),
+    ensureLocaleLoaded(),
   ]);
 
-  // Calculate totals
-  const totalIncome = incomes.reduce((sum: number, income: Income) => sum + income.amount, 0);
-  const totalExpenses = expenses.reduce((sum: number, expense: Expense) => sum + expense.amount, 0);
+  // Calculate totals in the home currency
+  const totalIncome = incomes.reduce((sum: number, income: Income) => sum + getHomeAmount(income), 0);
+  const totalExpenses = expenses.reduce((sum: number, expense: Expense) => sum + getHomeAmount(expense), 0);
   const savings = totalIncome - totalExpenses;
   
   // If there's no data, return a score of 0
@@ -39,10 +45,10 @@ export async function calculateFinancialHealth(
     return {
       score: 0,
       status: 'Poor',
-      summary: 'No financial data available. Start adding your income and expenses to track your financial health.',
+      summary: t('health.summary.noData'),
       recommendations: [
-        'Add your income sources to get started.',
-        'Track your expenses to understand your spending habits.'
+        t('health.rec.addIncome'),
+        t('health.rec.trackExpenses')
       ],
       metrics: {
         savingsRate: 0,
@@ -66,7 +72,7 @@ export async function calculateFinancialHealth(
   const essentialCategories = ['bills', 'transport', 'health'];
   const discretionaryExpenses = expenses
     .filter((expense: Expense) => !essentialCategories.includes(expense.category))
-    .reduce((sum: number, exp: Expense) => sum + exp.amount, 0);
+    .reduce((sum: number, exp: Expense) => sum + getHomeAmount(exp), 0);
   
   const discretionarySpending = totalExpenses > 0 
     ? (discretionaryExpenses / totalExpenses) * 100 
@@ -98,19 +104,19 @@ export async function calculateFinancialHealth(
   
   if (score >= 80) {
     status = 'Excellent';
-    summary = 'Your finances are in great shape! Keep up the good work.';
+    summary = t('health.summary.excellent');
   } else if (score >= 65) {
     status = 'Good';
-    summary = 'Your finances are healthy, but there\'s room for improvement.';
+    summary = t('health.summary.good');
   } else if (score >= 50) {
     status = 'Fair';
-    summary = 'Your finances need some attention. Consider the recommendations below.';
+    summary = t('health.summary.fair');
   } else if (score >= 30) {
     status = 'Needs Improvement';
-    summary = 'Your financial health needs attention. Consider making some changes.';
+    summary = t('health.summary.needsImprovement');
   } else {
     status = 'Poor';
-    summary = 'Your financial health needs immediate attention. Please review the recommendations.';
+    summary = t('health.summary.poor');
   }
 
   // Generate recommendations
@@ -118,19 +124,19 @@ export async function calculateFinancialHealth(
   
   // Only show savings rate recommendation if there's income
   if (totalIncome > 0 && savingsRate < 20) {
-    recommendations.push('Aim to save at least 20% of your income each month.');
+    recommendations.push(t('health.rec.savings'));
   }
   
   if (emergencyFundMonths < 3) {
-    recommendations.push(`Build an emergency fund to cover ${3 - Math.ceil(emergencyFundMonths)} more months of expenses.`);
+    recommendations.push(t('health.rec.emergencyFund', { months: 3 - Math.ceil(emergencyFundMonths) }));
   }
   
   if (discretionarySpending > 30) {
-    recommendations.push('Consider reducing discretionary spending to improve your savings rate.');
+    recommendations.push(t('health.rec.discretionary'));
   }
   
   if (expenseToIncomeRatio > 70) {
-    recommendations.push('Your expenses are high relative to your income. Look for ways to reduce fixed costs.');
+    recommendations.push(t('health.rec.expenses'));
   }
 
   return {
@@ -1,58 +1,46 @@
 // /lib/gemini-client.ts
-import type { AIResponse } from "@/types/ai"; // We'll define this type soon
+import type { AIMessage } from "@/types/ai";
+import type { AIGenerateOptions, AIProvider } from "./ai-providers";
+import { parseSSEStream } from "./sse";
 
 const GEMINI_API_URL_BASE =
   "https://generativelanguage.googleapis.com/v1beta/models/";
-// Use gemini-1.5-flash as it's generally available and cost-effective for this.
-// The user's example used gemini-2.0-flash, but 1.5-flash is a very capable alternative.
-// If gemini-2.0-flash is indeed what they have access to and prefer, they can change this.
-const GEMINI_MODEL = "gemini-1.5-flash-latest"; // Or "gemini-pro"
 
-export async function callGeminiAPI(
-  apiKey: string,
-  prompt: string,
-  isDetailedAnalysis: boolean = false
-): Promise<AIResponse> {
-  const modelUrl = `${GEMINI_API_URL_BASE}${GEMINI_MODEL}:generateContent?key=${apiKey}`;
+interface GeminiConfig {
+  apiKey: string;
+  /** e.g. gemini-1.5-flash-latest; set GEMINI_MODEL to change it */
+  model: string;
+}
 
-  // Slightly different prompt structure for detailed analysis to guide the AI better
-  const systemInstruction = isDetailedAnalysis
-    ? "You are a compassionate financial psychologist. Provide a deep, empathetic, and actionable psychoanalytical explanation of the user's emotional spending habits based on their spending data and initial insights. Focus on underlying motivations, potential triggers, and offer constructive advice. The response must be in Bahasa Indonesia, formatted as a cohesive paragraph or a few paragraphs. Return only the analysis text."
-    : "Provide a deeper psychoanalytical explanation of the user's emotional spending habits. Focus on underlying motivations, potential triggers, and offer actionable advice. Format as a cohesive paragraph or a few paragraphs. Return only the analysis text with proper Markdown.";
+interface GeminiChunk {
+  candidates?: {
+    content?: {
+      parts?: { text?: string }[];
+    };
+  }[];
+}
 
-  try {
-    const response = await fetch(modelUrl, {
+const getText = (data: GeminiChunk) => data.candidates?.[0]?.content?.parts?.[0]?.text;
+
+export function createGeminiProvider(config: GeminiConfig): AIProvider {
+  const request = async (messages: AIMessage[], options: AIGenerateOptions, stream: boolean) => {
+    const method = stream ? "streamGenerateContent?alt=sse&" : "generateContent?";
+    const response = await fetch(`${GEMINI_API_URL_BASE}${config.model}:${method}key=${config.apiKey}`, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
       },
       body: JSON.stringify({
-        contents: [
-          {
-            role: "user", 
-            parts: [
-              {
-                text:
-                  systemInstruction +
-                  "\n\nHere is the user's data and request:\n\n" +
-                  prompt,
-              },
-            ],
-          },
-        ],
+        // Gemini calls the assistant side of the conversation "model"
+        contents: messages.map((message) => ({
+          role: message.role === "assistant" ? "model" : "user",
+          parts: [{ text: message.content }],
+        })),
         generationConfig: {
           temperature: 1.0,
-          maxOutputTokens: isDetailedAnalysis ? 1000 : 500, // More tokens for detailed analysis
-          // topP: 0.9, // Optional: nucleus sampling
-          // topK: 40, // Optional: top-k sampling
+          maxOutputTokens: options.maxTokens,
+          ...(options.json ? { responseMimeType: "application/json" } : {}),
         },
-        // Safety settings (optional, defaults are usually reasonable)
-        // safetySettings: [
-        //   { category: "HARM_CATEGORY_HARASSMENT", threshold: "BLOCK_MEDIUM_AND_ABOVE" },
-        //   { category: "HARM_CATEGORY_HATE_SPEECH", threshold: "BLOCK_MEDIUM_AND_ABOVE" },
-        //   { category: "HARM_CATEGORY_SEXUALLY_EXPLICIT", threshold: "BLOCK_MEDIUM_AND_ABOVE" },
-        //   { category: "HARM_CATEGORY_DANGEROUS_CONTENT", threshold: "BLOCK_MEDIUM_AND_ABOVE" },
-        // ]
       }),
     });
 
@@ -64,47 +52,29 @@ export async function callGeminiAPI(
       );
     }
 
-    const data = await response.json();
+    return response;
+  };
 
-    if (
-      !data.candidates ||
-      data.candidates.length === 0 ||
-      !data.candidates[0].content ||
-      !data.candidates[0].content.parts ||
-      data.candidates[0].content.parts.length === 0 ||
-      !data.candidates[0].content.parts[0].text
-    ) {
-      console.error("Gemini API response format unexpected:", data);
-      throw new Error("Invalid response format from Gemini API.");
-    }
+  return {
+    name: "Gemini",
+    model: config.model,
 
-    const rawText = data.candidates[0].content.parts[0].text;
-    if (isDetailedAnalysis) {
-      return { text: rawText, modelUsed: "Gemini" };
-    }
-
-    const insights = rawText
-      .split("\n")
-      .map((line: string) => line.trim().replace(/^- /, ""))
-      .filter((line: string) => line.length > 0);
+    async generate(messages, options) {
+      const data = await (await request(messages, options, false)).json();
+      const text = getText(data);
+      if (!text) {
+        console.error("Gemini API response format unexpected:", data);
+        throw new Error("Invalid response format from Gemini API.");
+      }
+      return text;
+    },
 
-    return { insights: insights.slice(0, 5), modelUsed: "Gemini" };
-  } catch (error) {
-    console.error("Error in callGeminiAPI:", error);
-    if (isDetailedAnalysis) {
-      return {
-        text: "Gagal terhubung ke layanan Gemini AI untuk analisis mendalam.",
-        modelUsed: "Gemini (Error)",
-        error: (error as Error).message,
-      };
-    }
-    return {
-      insights: [
-        "Gagal terhubung ke layanan Gemini AI untuk analisis.",
-        "Wawasan tidak dapat dibuat saat ini menggunakan Gemini, silakan coba lagi nanti.",
-      ],
-      modelUsed: "Gemini (Error)",
-      error: (error as Error).message,
-    };
-  }
+    async stream(messages, options) {
+      const response = await request(messages, options, true);
+      if (!response.body) {
+        throw new Error("Gemini API returned an empty stream.");
+      }
+      return parseSSEStream(response.body, (chunk) => getText(chunk as GeminiChunk));
+    },
+  };
 }
@@ -0,0 +1,111 @@
+import { addExpense, getDb, getExpenses, type PendingTransaction } from './db';
+import type { StatementTransaction } from './statement-import';
+import { DEFAULT_CURRENCY } from '@/data/currencies';
+import type { MoodType } from '@/types/expense';
+
+export interface QueueResult {
+  queued: number;
+  // Already in the queue, or reviewed after an earlier import
+  skipped: number;
+}
+
+export interface ReviewInput {
+  category: string;
+  mood: MoodType;
+  moodReason?: string;
+}
+
+function notifyImportQueueChanged(): void {
+  if (typeof window !== 'undefined') {
+    window.dispatchEvent(new CustomEvent('import-queue:changed'));
+  }
+}
+
+const duplicateKey = (date: string, amount: number, currency: string) =>
+  `${date.slice(0, 10)}|${Math.round(amount * 100)}|${currency}`;
+
+/**
+ * Adds statement transactions to the review queue. Ones seen in an earlier
+ * import are skipped; ones matching an expense's date, amount and currency
+ * are flagged so the user can discard them instead of recording them twice.
+ */
+export async function queueStatementTransactions(
+  transactions: StatementTransaction[],
+  source: string
+): Promise<QueueResult> {
+  const db = getDb();
+  const known = new Set(await db.pendingTransactions.where('id').anyOf(transactions.map((tx) => tx.id)).primaryKeys());
+  const expensesByKey = new Map(
+    (await getExpenses()).map((expense) => [
+      duplicateKey(expense.date, expense.amount, expense.currency || DEFAULT_CURRENCY),
+      expense.id,
+    ])
+  );
+  const now = new Date().toISOString();
+
+  const rows: PendingTransaction[] = transactions
+    .filter((tx) => !known.has(tx.id))
+    .map((tx) => ({
+      ...tx,
+      status: 'pending',
+      source,
+      imported_at: now,
+      duplicate_of: expensesByKey.get(duplicateKey(tx.date, tx.amount, tx.currency)),
+    }));
+
+  await db.pendingTransactions.bulkPut(rows);
+  notifyImportQueueChanged();
+  return { queued: rows.length, skipped: transactions.length - rows.length };
+}
+
+/** Transactions still waiting for review, newest first */
+export async function getPendingTransactions(): Promise<PendingTransaction[]> {
+  try {
+    const rows = await getDb().pendingTransactions.where('status').equals('pending').toArray();
+    return rows.sort((a, b) => b.date.localeCompare(a.date));
+  } catch (error) {
+    console.error('Error loading the import review queue:', error);
+    return [];
+  }
+}
+
+/**
+ * Saves a reviewed transaction as an expense through addExpense, so it syncs
+ * like one entered by hand
+ */
+export async function commitPendingTransaction(id: string, review: ReviewInput): Promise<boolean> {
+  const db = getDb();
+  const tx = await db.pendingTransactions.get(id);
+  if (!tx || tx.status !== 'pending') return false;
+
+  try {
+    const expenseId = await addExpense({
+      date: tx.date,
+      amount: tx.amount,
+      currency: tx.currency,
+      category: review.category,
+      mood: review.mood,
+      moodReason: review.moodReason || '',
+      notes: tx.description,
+    });
+    if (!expenseId) return false;
+
+    await db.pendingTransactions.update(id, { status: 'committed', expense_id: expenseId });
+    notifyImportQueueChanged();
+    return true;
+  } catch (error) {
+    console.error('Error saving reviewed transaction:', error);
+    return false;
+  }
+}
+
+export async function discardPendingTransaction(id: string): Promise<boolean> {
+  try {
+    await getDb().pendingTransactions.update(id, { status: 'discarded' });
+    notifyImportQueueChanged();
+    return true;
+  } catch (error) {
+    console.error('Error discarding transaction:', error);
+    return false;
+  }
+}
@@ -1,4 +1,4 @@
-import { getDb, getCurrentUser } from './db';
+import { getDb, getCurrentUser, enqueueSyncOperation, notifySyncQueueChanged, processSyncQueue, removeTombstonedRecord, fetchChangedRows, getCursorAfter, getPullCursor, setPullCursor } from './db';
 import { getSupabaseBrowserClient } from './supabase';
 import { Income, Transaction } from '@/types/expense';
 import { SyncedIncome } from './db';
@@ -15,7 +15,6 @@ type IncomeWithSync = Omit<Income, 'synced'> & { synced: boolean };
 
 export async function addIncome(income: Omit<Income, 'id' | 'createdAt' | 'updatedAt' | 'synced'>): Promise<string | null> {
   const db = getDb();
-  const supabase = getSupabaseBrowserClient();
   const id = crypto.randomUUID();
   const now = new Date().toISOString();
   
@@ -36,32 +35,24 @@ export async function addIncome(income: Omit<Income, 'id' | 'createdAt' | 'updat
   } as const;
 
   try {
-    // Add to local IndexedDB with camelCase fields
-    await db.incomes.add({
+    // Add to local IndexedDB with camelCase fields and queue it for Supabase
+    const localIncome = {
       ...newIncome,
       // Map back to camelCase for local storage
       createdAt: newIncome.created_at,
       updatedAt: newIncome.updated_at,
-    } as SyncedIncome);
+    } as SyncedIncome;
+    await db.transaction('rw', db.incomes, db.syncQueue, async () => {
+      await db.incomes.add(localIncome);
+      await enqueueSyncOperation('incomes', id, 'create', localIncome);
+    });
+    await notifySyncQueueChanged();
     
-    // Sync with Supabase if online
-    const { data: { user } } = await supabase.auth.getUser();
-    if (user && navigator.onLine) {
-      // Create a new object without the 'synced' field for Supabase
-      const { synced, ...incomeForSupabase } = newIncome;
-      
-      const { error } = await supabase
-        .from('incomes')
-        .insert({
-          ...incomeForSupabase,
-          // Ensure we're not sending any undefined values
-          description: incomeForSupabase.description || null,
-        });
-      
-      if (error) throw error;
-      
-      // Update local record to mark as synced
-      await db.incomes.update(id, { synced: true });
+    // Push right away if online; the outbox retries otherwise
+    if (navigator.onLine) {
+      await processSyncQueue('incomes').catch(error => {
+        console.error('Error syncing new income with Supabase:', error);
+      });
     }
     
     // Dispatch sync end event on success
@@ -79,6 +70,113 @@ export async function addIncome(income: Omit<Income, 'id' | 'createdAt' | 'updat
   }
 }
 
+/**
+ * Adds several incomes in one transaction and pushes them once; if saving
+ * fails, none of them are added
+ */
+export async function addIncomes(
+  incomes: Omit<Income, 'id' | 'createdAt' | 'updatedAt' | 'synced'>[],
+  onProgress?: (done: number, total: number) => void
+): Promise<string[]> {
+  const db = getDb();
+  const now = new Date().toISOString();
+  const localIncomes: SyncedIncome[] = incomes.map(income => ({
+    ...income,
+    id: crypto.randomUUID(),
+    createdAt: now,
+    updatedAt: now,
+    synced: false,
+  }));
+
+  if (typeof window !== 'undefined') {
+    window.dispatchEvent(new CustomEvent('sync:start', {
+      detail: { operation: 'push' }
+    }));
+  }
+
+  try {
+    await db.transaction('rw', db.incomes, db.syncQueue, async () => {
+      await db.incomes.bulkAdd(localIncomes);
+      for (const [index, income] of localIncomes.entries()) {
+        await enqueueSyncOperation('incomes', income.id, 'create', income);
+        onProgress?.(index + 1, localIncomes.length);
+      }
+    });
+    await notifySyncQueueChanged();
+
+    // Saved locally either way; the outbox retries a failed push
+    if (navigator.onLine) {
+      await processSyncQueue('incomes').catch(error => {
+        console.error('Error syncing added incomes with Supabase:', error);
+      });
+    }
+
+    return localIncomes.map(income => income.id);
+  } finally {
+    if (typeof window !== 'undefined') {
+      window.dispatchEvent(new CustomEvent('sync:end'));
+    }
+  }
+}
+
+export async function updateIncome(
+  incomeId: string,
+  patch: Partial<Pick<Income, 'amount' | 'currency' | 'source' | 'description' | 'date'>>
+): Promise<Income | null> {
+  const db = getDb();
+  const now = new Date().toISOString();
+
+  // Dispatch sync start event
+  if (typeof window !== 'undefined') {
+    window.dispatchEvent(new CustomEvent('sync:start', {
+      detail: { operation: 'push' }
+    }));
+  }
+
+  try {
+    const existing = await db.incomes.get(incomeId);
+    if (!existing || existing.deletedAt) {
+      throw new Error(`Income ${incomeId} not found`);
+    }
+
+    // Update local IndexedDB first and queue the change
+    const updated: SyncedIncome = {
+      ...existing,
+      ...patch,
+      updatedAt: now,
+      synced: false
+    };
+    await db.transaction('rw', db.incomes, db.syncQueue, async () => {
+      await db.incomes.put(updated);
+      await enqueueSyncOperation('incomes', incomeId, 'update', updated);
+    });
+    await notifySyncQueueChanged();
+
+    // Push right away if online; the outbox retries otherwise
+    if (navigator.onLine) {
+      await processSyncQueue('incomes');
+      const stored = await db.incomes.get(incomeId);
+      updated.synced = stored?.synced ?? false;
+    }
+
+    // Dispatch sync end event on success
+    if (typeof window !== 'undefined') {
+      window.dispatchEvent(new CustomEvent('sync:end'));
+    }
+    return {
+      ...updated,
+      user_id: updated.user_id || updated.userId || '',
+    };
+  } catch (error) {
+    // Dispatch sync end event on error
+    if (typeof window !== 'undefined') {
+      window.dispatchEvent(new CustomEvent('sync:end'));
+    }
+    console.error('Error updating income:', error);
+    return null;
+  }
+}
+
 export async function getIncomesByDateRange(startDate: string, endDate: string): Promise<Income[]> {
   // console.group(`[getIncomesByDateRange] Starting for range: ${startDate} to ${endDate}`);
   const db = getDb();
@@ -124,8 +222,9 @@ export async function getIncomesByDateRange(startDate: string, endDate: string):
       // });
     }
     
-    // Filter by user ID
+    // Filter by user ID, skipping tombstoned incomes
     const userIncomes = allIncomes.filter(income => {
+      if (income.deletedAt) return false;
       const incomeUserId = income.user_id || (income as any).userId;
       const matchesUser = incomeUserId === user.id;
       if (!matchesUser) {
@@ -159,7 +258,7 @@ export async function getIncomesByDateRange(startDate: string, endDate: string):
       try {
         // Use the date field if available, otherwise fall back to createdAt
         // Handle both camelCase and snake_case field names with type assertion
-        const dateStr = income.date || income.createdAt || (income as any).created_at;
+        const dateStr = income.date || income.createdAt || income.created_at;
         if (!dateStr) {
           console.warn(`[Income] Income ${income.id} is missing date information`, income);
           return false;
@@ -196,8 +295,8 @@ export async function getIncomesByDateRange(startDate: string, endDate: string):
       try {
         // Handle both snake_case and camelCase field names
         const dateValue = income.date || (income as any).date_created;
-        const createdAt = income.createdAt || (income as any).created_at || new Date().toISOString();
-        const updatedAt = income.updatedAt || (income as any).updated_at || new Date().toISOString();
+        const createdAt = income.createdAt || income.created_at || new Date().toISOString();
+        const updatedAt = income.updatedAt || income.updated_at || new Date().toISOString();
         const userId = (income as any).user_id || (income as any).userId || '';
         
         // Format the date as YYYY-MM-DD
@@ -222,6 +321,7 @@ export async function getIncomesByDateRange(startDate: string, endDate: string):
           id: income.id,
           user_id: userId,
           amount: income.amount,
+          currency: income.currency,
           source: income.source || 'Other',
           description: income.description || undefined,
           date: formattedDate,
@@ -260,35 +360,29 @@ export async function getIncomesByDateRange(startDate: string, endDate: string):
 
 export async function deleteIncome(incomeId: string): Promise<boolean> {
   const db = getDb();
-  const supabase = getSupabaseBrowserClient();
   
   try {
-    // First, get the income to store in sync queue if needed
-    const income = await db.incomes.get(incomeId);
-    
-    // Delete from local IndexedDB
-    await db.incomes.delete(incomeId);
+    // Tombstone locally and queue the remote delete so it survives going
+    // offline and isn't resurrected by a pull before the push goes out
+    await db.transaction('rw', db.incomes, db.syncQueue, async () => {
+      const income = await db.incomes.get(incomeId);
+      await enqueueSyncOperation('incomes', incomeId, 'delete', income ?? null);
+      if (!income) {
+        await db.incomes.delete(incomeId);
+        return;
+      }
+
+      const now = new Date().toISOString();
+      await db.incomes.put({ ...income, deletedAt: now, updatedAt: now, synced: false });
+    });
+    await notifySyncQueueChanged();
     
     // Try to delete from Supabase if online
-    try {
-      const { error } = await supabase
-        .from('incomes')
-        .delete()
-        .eq('id', incomeId);
-      
-      if (error) throw error;
-      
-    } catch (error) {
-      console.error('Error syncing delete with Supabase, adding to sync queue:', error);
-      // Add to sync queue if there was an error or offline
-      if (income) {
-        await db.syncQueue.add({
-          table_name: 'incomes',
-          record_id: incomeId,
-          action: 'delete',
-          data: income,
-          created_at: new Date().toISOString()
-        });
+    if (navigator.onLine) {
+      try {
+        await processSyncQueue('incomes');
+      } catch (error) {
+        console.error('Error syncing delete with Supabase, will retry from sync queue:', error);
       }
     }
     
@@ -341,6 +435,9 @@ export async function getTransactionsByDateRange(startDate: string, endDate: str
 
 export interface SyncResult {
   synced: number;
+  pushed?: number;
+  pulled?: number;
+  failed?: number;
   skipped?: number;
   errors: number;
   success?: boolean;
@@ -352,12 +449,15 @@ interface RemoteIncome {
   id: string;
   user_id: string;
   amount: number;
+  currency?: string | null;
   source?: string;
   date: string;
+  description?: string | null;
   notes?: string;
   category?: string;
   updated_at?: string;
   created_at?: string;
+  deleted_at?: string | null;
 }
 
 export async function pullIncomesFromSupabase(): Promise<SyncResult> {
@@ -460,20 +560,17 @@ export async function pullIncomesFromSupabase(): Promise<SyncResult> {
       return { synced: 0, skipped: 0, errors: 1 };
     }
     
-    // Fetch remote incomes with error handling and timeout
-    const { data: supabaseData, error: supabaseError } = await supabase
-      .from('incomes')
-      .select('*')
-      .eq('user_id', user.id)
-      .order('updated_at', { ascending: false })
-      .limit(1000);
-
-    if (supabaseError) {
+    // Only fetch rows changed since the last successful pull, oldest first,
+    // so anything past the limit is picked up by the next pull
+    let supabaseData: RemoteIncome[];
+    try {
+      supabaseData = await fetchChangedRows<RemoteIncome>('incomes', user.id, await getPullCursor('incomes'), 1000);
+    } catch (supabaseError) {
       console.error('[Pull] Error fetching from Supabase:', supabaseError);
-      throw new Error(`Supabase error: ${supabaseError.message}`);
+      throw supabaseError;
     }
 
-    if (!Array.isArray(supabaseData) || supabaseData.length === 0) {
+    if (supabaseData.length === 0) {
       // console.log('[Pull] No remote incomes found for user');
       console.groupEnd();
       return { synced: 0, skipped: 0, errors: 0 };
@@ -509,27 +606,34 @@ export async function pullIncomesFromSupabase(): Promise<SyncResult> {
       supabaseData.map(
         async (remote: RemoteIncome): Promise<SyncResultItem> => {
           try {
+            // Deleted on another device: drop the local copy
+            if (remote.id && remote.deleted_at) {
+              await removeTombstonedRecord('incomes', remote.id);
+              return { success: true, id: remote.id };
+            }
+
             // Validate required fields
             if (!remote.id || !remote.user_id || !remote.amount || !remote.date) {
               console.warn('[Pull] Skipping invalid income record:', remote);
               return { success: false, id: remote.id || 'unknown', reason: 'Missing required fields' };
             }
             
+            // Local edits not yet pushed win; the push will overwrite the remote
+            // copy. Synced rows take the server version: the pull only returns
+            // rows changed since the cursor, and the local updatedAt comes from
+            // the device clock, so it can't be compared with the server's.
             const local = localMap.get(remote.id);
-            const remoteUpdatedAt = remote.updated_at ? new Date(remote.updated_at).getTime() : 0;
-            const localUpdatedAt = local?.updatedAt ? new Date(local.updatedAt).getTime() : 0;
-
-            // Skip if local version is up-to-date
-            if (local && remoteUpdatedAt <= localUpdatedAt) {
-              return { success: false, id: remote.id, reason: 'Local version is up to date' };
+            if (local && !local.synced) {
+              return { success: false, id: remote.id, reason: 'Local changes not pushed yet' };
             }
 
             // Prepare data for storage
             const incomeData: Omit<Income, 'id'> = {
               amount: Number(remote.amount) || 0,
+              currency: remote.currency || undefined,
               source: remote.source?.toString() || 'Other',
               date: remote.date,
-              description: remote.notes?.toString() || '',
+              description: (remote.description ?? remote.notes)?.toString() || '',
               synced: true,
               updatedAt: remote.updated_at || new Date().toISOString(),
               user_id: remote.user_id,
@@ -597,6 +701,14 @@ export async function pullIncomesFromSupabase(): Promise<SyncResult> {
       }
     } else {
     }
+
+    // Advance the cursor only when every row was stored, so failures are retried
+    const failedRows = fulfilledResults.filter(r => hasError(r.value)).length
+      + (results.length - fulfilledResults.length);
+    const next = getCursorAfter(supabaseData);
+    if (failedRows === 0 && next) {
+      await setPullCursor('incomes', next);
+    }
     
     return { synced, skipped, errors: 0 };
     
@@ -607,7 +719,21 @@ export async function pullIncomesFromSupabase(): Promise<SyncResult> {
   }
 }
 
-export async function syncIncomes(): Promise<{ synced: number; errors: number }> {
+/**
+ * Pushes incomes that were saved locally but never reached Supabase
+ * (e.g. added while offline) by replaying their entries in the sync queue.
+ */
+export async function pushIncomesToSupabase(): Promise<SyncResult> {
+  const { processed, failed } = await processSyncQueue('incomes');
+  return {
+    synced: processed,
+    pushed: processed,
+    failed,
+    errors: failed,
+  };
+}
+
+export async function syncIncomes(): Promise<SyncResult> {
   // Don't log sync start to reduce console noise
   const db = getDb();
   const supabase = getSupabaseBrowserClient();
@@ -624,6 +750,17 @@ export async function syncIncomes(): Promise<{ synced: number; errors: number }>
       return { synced: 0, errors: 0 }; // Not an error, just not authenticated
     }
     
+    // Push local changes first so the pull doesn't see them as stale
+    let pushResult: SyncResult = { synced: 0, pushed: 0, failed: 0, errors: 0 };
+    try {
+      pushResult = await pushIncomesToSupabase();
+    } catch (error) {
+      console.error('[Sync] Error pushing incomes:', error);
+      pushResult = { synced: 0, pushed: 0, failed: 0, errors: 1 };
+    }
+    const pushed = pushResult.pushed || 0;
+    const failed = pushResult.failed || 0;
+
     // Add retry counter
     let retryCount = 0;
     const maxRetries = 2; // Reduced from 3 to 2 for faster failure
@@ -634,7 +771,14 @@ export async function syncIncomes(): Promise<{ synced: number; errors: number }>
         
         // Return if we got data or this is the last attempt
         if (pullResult.synced > 0 || retryCount === maxRetries - 1) {
-          return pullResult;
+          return {
+            ...pullResult,
+            synced: pushed + pullResult.synced,
+            pushed,
+            pulled: pullResult.synced,
+            failed,
+            errors: pullResult.errors + pushResult.errors,
+          };
         }
         
         // Wait before retrying with exponential backoff
@@ -643,14 +787,14 @@ export async function syncIncomes(): Promise<{ synced: number; errors: number }>
       } catch (error) {
         // Don't log errors to reduce console noise
         if (retryCount === maxRetries - 1) {
-          return { synced: 0, errors: 1 };
+          return { synced: pushed, pushed, pulled: 0, failed, errors: 1 + pushResult.errors };
         }
         await new Promise(resolve => setTimeout(resolve, 500 * Math.pow(2, retryCount)));
         retryCount++;
       }
     }
     
-    return { synced: 0, errors: 1 };
+    return { synced: pushed, pushed, pulled: 0, failed, errors: 1 + pushResult.errors };
   } catch (error) {
     // Catch any unexpected errors and fail silently
     return { synced: 0, errors: 1 };
@@ -0,0 +1,60 @@
+import { getDb } from './db';
+import {
+  DEFAULT_LOCALE,
+  getLocaleInfo,
+  isAppLocale,
+  setLocaleRegistry,
+  type AppLocale,
+} from '@/data/locales';
+
+const LOCALE_KEY = 'locale';
+
+let loadPromise: Promise<void> | null = null;
+
+function applyLocale(locale: AppLocale): void {
+  setLocaleRegistry(locale);
+  if (typeof document !== 'undefined') {
+    document.documentElement.lang = getLocaleInfo(locale).code;
+  }
+}
+
+/**
+ * Reads the language preference from IndexedDB into the in-memory registry
+ * used by t() and the formatters
+ */
+export async function loadLocaleSettings(): Promise<void> {
+  try {
+    const stored = (await getDb().preferences.get(LOCALE_KEY))?.value;
+    applyLocale(isAppLocale(stored) ? stored : DEFAULT_LOCALE);
+  } catch (error) {
+    console.error('Error loading language preference:', error);
+  }
+}
+
+/**
+ * Loads the preference once per page load. Call before building text
+ * outside React (AI prompts, financial-health summaries).
+ */
+export function ensureLocaleLoaded(): Promise<void> {
+  if (typeof window === 'undefined') return Promise.resolve();
+  if (!loadPromise) {
+    loadPromise = loadLocaleSettings();
+  }
+  return loadPromise;
+}
+
+/**
+ * Switches the UI language. Stored on this device only, like the theme.
+ */
+export async function setLocale(locale: AppLocale): Promise<boolean> {
+  try {
+    await getDb().preferences.put({ key: LOCALE_KEY, value: locale });
+    loadPromise = Promise.resolve();
+    applyLocale(locale);
+    window.dispatchEvent(new CustomEvent('locale:changed'));
+    return true;
+  } catch (error) {
+    console.error('Error saving language preference:', error);
+    return false;
+  }
+}
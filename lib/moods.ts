@@ -0,0 +1,236 @@
+import {
+  getDb,
+  getCurrentUser,
+  enqueueSyncOperation,
+  notifySyncQueueChanged,
+  processSyncQueue,
+  removeTombstonedRecord,
+  fetchChangedRows,
+  getCursorAfter,
+  getPullCursor,
+  setPullCursor,
+  type SyncedMood,
+} from './db';
+import { defaultMoods, getMoods, setMoodRegistry } from '@/data/moods';
+import type { Mood } from '@/types/expense';
+
+interface RemoteMood {
+  id: string;
+  user_id: string | null;
+  label: string;
+  emoji: string;
+  color: string;
+  archived: boolean | null;
+  created_at?: string;
+  updated_at?: string;
+  deleted_at?: string | null;
+}
+
+export interface MoodSyncResult {
+  pushed: number;
+  pulled: number;
+  failed: number;
+}
+
+export type MoodInput = Pick<Mood, 'label' | 'emoji' | 'color'>;
+
+let loadPromise: Promise<Mood[]> | null = null;
+
+function notifyMoodsChanged(): void {
+  if (typeof window !== 'undefined') {
+    window.dispatchEvent(new CustomEvent('moods:changed'));
+  }
+}
+
+function toMood(row: SyncedMood): Mood {
+  return {
+    id: row.id,
+    label: row.label,
+    emoji: row.emoji || '🙂',
+    color: row.color,
+    archived: Boolean(row.archived),
+  };
+}
+
+/**
+ * Reads the user's moods from IndexedDB into the in-memory registry used by
+ * getMood()/getMoods()
+ */
+export async function loadMoods(): Promise<Mood[]> {
+  try {
+    const db = getDb();
+    const stored = await db.moods.toArray();
+    const custom = stored
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .map(toMood);
+    const list = [...defaultMoods, ...custom];
+    setMoodRegistry(list);
+    return list;
+  } catch (error) {
+    console.error('Error loading moods:', error);
+    return getMoods({ includeArchived: true });
+  }
+}
+
+/**
+ * Loads the registry once per page load. Call before resolving moods
+ * outside React (exports, AI context).
+ */
+export function ensureMoodsLoaded(): Promise<Mood[]> {
+  if (typeof window === 'undefined') {
+    return Promise.resolve(getMoods({ includeArchived: true }));
+  }
+  if (!loadPromise) {
+    loadPromise = loadMoods();
+  }
+  return loadPromise;
+}
+
+async function refreshRegistry(): Promise<void> {
+  loadPromise = loadMoods();
+  await loadPromise;
+  notifyMoodsChanged();
+}
+
+/**
+ * Saves a mood locally and queues it for Supabase
+ */
+async function saveMood(mood: SyncedMood, action: 'create' | 'update'): Promise<Mood | null> {
+  const db = getDb();
+  try {
+    await db.transaction('rw', db.moods, db.syncQueue, async () => {
+      await db.moods.put(mood);
+      await enqueueSyncOperation('moods', mood.id, action, mood);
+    });
+
+    await notifySyncQueueChanged();
+    await refreshRegistry();
+
+    if (navigator.onLine) {
+      processSyncQueue('moods').catch(error => {
+        console.error('Error syncing mood with Supabase:', error);
+      });
+    }
+    return toMood(mood);
+  } catch (error) {
+    console.error('Error saving mood:', error);
+    return null;
+  }
+}
+
+/**
+ * Adds a user-defined mood
+ */
+export async function createMood(input: MoodInput): Promise<Mood | null> {
+  const user = await getCurrentUser();
+  if (!user) {
+    console.error('Cannot create mood: user not authenticated');
+    return null;
+  }
+
+  const now = new Date().toISOString();
+  return saveMood(
+    {
+      id: crypto.randomUUID(),
+      user_id: user.id,
+      label: input.label.trim(),
+      emoji: input.emoji || '🙂',
+      color: input.color,
+      archived: false,
+      createdAt: now,
+      updatedAt: now,
+      synced: false,
+    },
+    'create'
+  );
+}
+
+/**
+ * Edits one of the user's own moods. Built-in moods can't be changed.
+ */
+export async function updateMood(
+  id: string,
+  patch: Partial<MoodInput> & { archived?: boolean }
+): Promise<Mood | null> {
+  const existing = await getDb().moods.get(id);
+  if (!existing) {
+    console.error(`Cannot update mood ${id}: not a custom mood`);
+    return null;
+  }
+
+  return saveMood(
+    {
+      ...existing,
+      ...patch,
+      updatedAt: new Date().toISOString(),
+      synced: false,
+    },
+    'update'
+  );
+}
+
+/**
+ * Hides a custom mood from selectors while keeping it for existing expenses
+ */
+export async function archiveMood(id: string, archived = true): Promise<boolean> {
+  return Boolean(await updateMood(id, { archived }));
+}
+
+/**
+ * Pulls the user's moods changed since the last pull cursor
+ */
+export async function pullMoodsFromSupabase(): Promise<number> {
+  const user = await getCurrentUser();
+  if (!user || (typeof navigator !== 'undefined' && !navigator.onLine)) return 0;
+
+  const db = getDb();
+  // Anything past the limit is picked up by the next pull
+  const data = await fetchChangedRows<RemoteMood>('moods', user.id, await getPullCursor('moods'), 1000);
+  if (data.length === 0) return 0;
+
+  let pulled = 0;
+  for (const remote of data) {
+    if (remote.deleted_at) {
+      await removeTombstonedRecord('moods', remote.id);
+      pulled++;
+      continue;
+    }
+
+    // Local edits not yet pushed win; the push will overwrite the remote copy
+    const local = await db.moods.get(remote.id);
+    if (local && !local.synced) continue;
+
+    await db.moods.put({
+      id: remote.id,
+      user_id: remote.user_id || user.id,
+      label: remote.label,
+      emoji: remote.emoji,
+      color: remote.color,
+      archived: Boolean(remote.archived),
+      createdAt: remote.created_at || new Date().toISOString(),
+      updatedAt: remote.updated_at || new Date().toISOString(),
+      synced: true,
+    });
+    pulled++;
+  }
+
+  const next = getCursorAfter(data);
+  if (next) await setPullCursor('moods', next);
+
+  if (pulled > 0) await refreshRegistry();
+  return pulled;
+}
+
+/**
+ * Pushes queued mood changes, then pulls remote ones
+ */
+export async function syncMoods(): Promise<MoodSyncResult> {
+  const { processed, failed } = await processSyncQueue('moods');
+  let pulled = 0;
+  try {
+    pulled = await pullMoodsFromSupabase();
+  } catch (error) {
+    console.error('[Pull] Error pulling moods:', error);
+  }
+  return { pushed: processed, pulled, failed };
+}
@@ -0,0 +1,82 @@
+// /lib/openai-compatible-client.ts
+// Adapter for the OpenAI chat completions API. DeepSeek uses it, and so can
+// self-hosted models (Ollama, llama.cpp) behind any base URL.
+import type { AIMessage } from "@/types/ai";
+import type { AIGenerateOptions, AIProvider } from "./ai-providers";
+import { parseSSEStream } from "./sse";
+
+interface OpenAICompatibleConfig {
+  name: string;
+  /** Base URL including the version segment, e.g. http://localhost:11434/v1 */
+  baseUrl: string;
+  model: string;
+  /** Optional: local servers usually don't need one */
+  apiKey?: string;
+}
+
+interface StreamChunk {
+  choices?: {
+    delta?: {
+      content?: string;
+    };
+  }[];
+}
+
+export function createOpenAICompatibleProvider(config: OpenAICompatibleConfig): AIProvider {
+  const url = `${config.baseUrl.replace(/\/+$/, "")}/chat/completions`;
+
+  const request = async (messages: AIMessage[], options: AIGenerateOptions, stream: boolean) => {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: stream ? "text/event-stream" : "application/json",
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: config.model,
+        messages,
+        temperature: 0.7,
+        max_tokens: options.maxTokens,
+        stream,
+        ...(options.json ? { response_format: { type: "json_object" } } : {}),
+      }),
+    });
+
+    if (!response.ok) {
+      const errorBody = await response.text();
+      console.error(`${config.name} API Error:`, response.status, errorBody);
+      throw new Error(
+        `${config.name} API request failed with status ${response.status}: ${errorBody}`
+      );
+    }
+
+    return response;
+  };
+
+  return {
+    name: config.name,
+    model: config.model,
+
+    async generate(messages, options) {
+      const data = await (await request(messages, options, false)).json();
+      const content = data.choices?.[0]?.message?.content;
+      if (!content) {
+        console.error(`${config.name} API response format unexpected:`, data);
+        throw new Error(`Invalid response format from ${config.name} API.`);
+      }
+      return content;
+    },
+
+    async stream(messages, options) {
+      const response = await request(messages, options, true);
+      if (!response.body) {
+        throw new Error(`${config.name} API returned an empty stream.`);
+      }
+      return parseSSEStream(
+        response.body,
+        (chunk) => (chunk as StreamChunk).choices?.[0]?.delta?.content
+      );
+    },
+  };
+}
@@ -0,0 +1,38 @@
+interface RateWindow {
+  count: number;
+  resetAt: number;
+}
+
+// Kept in memory per server instance; enough to stop one account from
+// draining the AI quota, not a billing-grade limiter
+const windows = new Map<string, RateWindow>();
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterSeconds: number;
+}
+
+/**
+ * Fixed-window limiter: allows `limit` hits per `windowMs` for each key
+ * (e.g. `insights:<userId>`)
+ */
+export function checkRateLimit(key: string, limit: number, windowMs: number): RateLimitResult {
+  const now = Date.now();
+  // Drop windows that ran out, so keys of users who stopped calling don't pile up
+  windows.forEach((entry, windowKey) => {
+    if (entry.resetAt <= now) windows.delete(windowKey);
+  });
+  const current = windows.get(key);
+
+  if (!current || current.resetAt <= now) {
+    windows.set(key, { count: 1, resetAt: now + windowMs });
+    return { allowed: true, retryAfterSeconds: 0 };
+  }
+
+  if (current.count >= limit) {
+    return { allowed: false, retryAfterSeconds: Math.ceil((current.resetAt - now) / 1000) };
+  }
+
+  current.count += 1;
+  return { allowed: true, retryAfterSeconds: 0 };
+}
@@ -0,0 +1,86 @@
+import { addDays, addMonths, addWeeks, addYears, format } from "date-fns";
+import { v5 as uuidv5 } from "uuid";
+import type { RecurrenceFrequency, RecurringRule } from "@/types/expense";
+
+// Guards against runaway loops on malformed rules (e.g. interval 0)
+const MAX_OCCURRENCE_SCAN = 10000;
+
+// Namespace for occurrence ids; changing it would duplicate materialized rows
+const OCCURRENCE_NAMESPACE = 'd7f41af8-0535-4c14-9a08-394b3139d1b7';
+
+export const RECURRENCE_FREQUENCIES: RecurrenceFrequency[] = ['daily', 'weekly', 'monthly', 'yearly'];
+
+export function toDateKey(date: Date): string {
+  return format(date, 'yyyy-MM-dd');
+}
+
+export function parseDateKey(key: string): Date {
+  return new Date(`${key.slice(0, 10)}T00:00:00`);
+}
+
+/**
+ * Returns the nth occurrence (0 = start date). Each one is computed from the
+ * start date, so a rule on the 31st lands on the last day of shorter months
+ * and returns to the 31st afterwards.
+ */
+export function getNthOccurrence(
+  rule: Pick<RecurringRule, 'frequency' | 'interval' | 'startDate'>,
+  n: number
+): string {
+  const start = parseDateKey(rule.startDate);
+  const step = n * Math.max(1, rule.interval || 1);
+  switch (rule.frequency) {
+    case 'daily':
+      return toDateKey(addDays(start, step));
+    case 'weekly':
+      return toDateKey(addWeeks(start, step));
+    case 'monthly':
+      return toDateKey(addMonths(start, step));
+    case 'yearly':
+      return toDateKey(addYears(start, step));
+  }
+}
+
+/**
+ * Lists occurrence dates after `after` (exclusive) up to `until` (inclusive),
+ * honouring the rule's end date. Skipped dates are included so callers can
+ * advance past them; filter with `rule.skipDates` to get the ones to create.
+ */
+export function getOccurrenceDates(
+  rule: Pick<RecurringRule, 'frequency' | 'interval' | 'startDate' | 'endDate'>,
+  after: string | undefined,
+  until: string
+): string[] {
+  const last = rule.endDate && rule.endDate < until ? rule.endDate : until;
+  const dates: string[] = [];
+  for (let n = 0; n < MAX_OCCURRENCE_SCAN; n++) {
+    const date = getNthOccurrence(rule, n);
+    if (date > last) break;
+    if (!after || date > after) dates.push(date);
+  }
+  return dates;
+}
+
+/**
+ * The first occurrence after `after` that isn't skipped, or null once the
+ * rule has ended
+ */
+export function getNextOccurrence(
+  rule: Pick<RecurringRule, 'frequency' | 'interval' | 'startDate' | 'endDate' | 'skipDates'>,
+  after: string
+): string | null {
+  for (let n = 0; n < MAX_OCCURRENCE_SCAN; n++) {
+    const date = getNthOccurrence(rule, n);
+    if (rule.endDate && date > rule.endDate) return null;
+    if (date > after && !rule.skipDates.includes(date)) return date;
+  }
+  return null;
+}
+
+/**
+ * Derives a stable UUID for a rule's occurrence on a date, so every device
+ * materializing it writes the same row instead of a duplicate
+ */
+export function getOccurrenceId(ruleId: string, date: string): string {
+  return uuidv5(`${ruleId}|${date}`, OCCURRENCE_NAMESPACE);
+}
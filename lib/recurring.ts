@@ -0,0 +1,411 @@
+import { Mutex } from 'async-mutex';
+import { subDays } from 'date-fns';
+import {
+  getDb,
+  getCurrentUser,
+  enqueueSyncOperation,
+  notifySyncQueueChanged,
+  processSyncQueue,
+  removeTombstonedRecord,
+  fetchChangedRows,
+  getCursorAfter,
+  getPullCursor,
+  setPullCursor,
+  type SyncedExpense,
+  type SyncedIncome,
+  type SyncedRecurringRule,
+} from './db';
+import { getOccurrenceDates, getOccurrenceId, toDateKey } from './recurrence';
+import type { RecurrenceFrequency, RecurringRule } from '@/types/expense';
+
+interface RemoteRecurringRule {
+  id: string;
+  user_id: string;
+  type: 'expense' | 'income';
+  frequency: RecurrenceFrequency;
+  interval: number | null;
+  start_date: string;
+  end_date: string | null;
+  skip_dates: string[] | null;
+  last_materialized_date: string | null;
+  amount: number | string;
+  currency: string | null;
+  category_id: string | null;
+  mood_id: string | null;
+  mood_reason: string | null;
+  notes: string | null;
+  source: string | null;
+  description: string | null;
+  paused: boolean | null;
+  created_at?: string;
+  updated_at?: string;
+  deleted_at?: string | null;
+}
+
+export interface RecurringRuleSyncResult {
+  pushed: number;
+  pulled: number;
+  failed: number;
+}
+
+export type RecurringRuleInput = Omit<
+  RecurringRule,
+  'id' | 'user_id' | 'skipDates' | 'lastMaterializedDate' | 'createdAt' | 'updatedAt' | 'synced'
+>;
+
+// App start and a background sync can both trigger materialization
+const materializeMutex = new Mutex();
+
+function notifyRecurringRulesChanged(): void {
+  if (typeof window !== 'undefined') {
+    window.dispatchEvent(new CustomEvent('recurring:changed'));
+  }
+}
+
+/**
+ * Returns all recurring rules, excluding tombstones
+ */
+export async function getRecurringRules(): Promise<SyncedRecurringRule[]> {
+  try {
+    const db = getDb();
+    return await db.recurringRules.filter(rule => !rule.deletedAt).toArray();
+  } catch (error) {
+    console.error('Error fetching recurring rules:', error);
+    return [];
+  }
+}
+
+async function saveRecurringRule(
+  rule: SyncedRecurringRule,
+  action: 'create' | 'update'
+): Promise<SyncedRecurringRule | null> {
+  const db = getDb();
+  try {
+    await db.transaction('rw', db.recurringRules, db.syncQueue, async () => {
+      await db.recurringRules.put(rule);
+      await enqueueSyncOperation('recurringRules', rule.id, action, rule);
+    });
+
+    await notifySyncQueueChanged();
+    notifyRecurringRulesChanged();
+
+    if (navigator.onLine) {
+      processSyncQueue('recurringRules').catch(error => {
+        console.error('Error syncing recurring rule with Supabase:', error);
+      });
+    }
+    return rule;
+  } catch (error) {
+    console.error('Error saving recurring rule:', error);
+    return null;
+  }
+}
+
+/**
+ * Creates a rule. When `alreadyRecorded` is set, the first occurrence was
+ * saved by the caller (e.g. the add form) and isn't materialized again.
+ */
+export async function createRecurringRule(
+  input: RecurringRuleInput,
+  { alreadyRecorded = false }: { alreadyRecorded?: boolean } = {}
+): Promise<SyncedRecurringRule | null> {
+  const user = await getCurrentUser();
+  if (!user) {
+    console.error('Cannot save recurring rule: user not authenticated');
+    return null;
+  }
+
+  const now = new Date().toISOString();
+  const rule = await saveRecurringRule(
+    {
+      ...input,
+      id: crypto.randomUUID(),
+      user_id: user.id,
+      interval: Math.max(1, input.interval || 1),
+      skipDates: [],
+      lastMaterializedDate: alreadyRecorded ? input.startDate : undefined,
+      createdAt: now,
+      updatedAt: now,
+      synced: false,
+    },
+    'create'
+  );
+
+  if (rule) {
+    materializeDueOccurrences().catch(error => {
+      console.error('Error materializing recurring rule:', error);
+    });
+  }
+  return rule;
+}
+
+/**
+ * Updates a rule's schedule or template. Occurrences already created keep
+ * their values.
+ */
+export async function updateRecurringRule(
+  id: string,
+  patch: Partial<RecurringRuleInput>
+): Promise<SyncedRecurringRule | null> {
+  const existing = await getDb().recurringRules.get(id);
+  if (!existing || existing.deletedAt) {
+    console.error(`Recurring rule ${id} not found`);
+    return null;
+  }
+
+  return saveRecurringRule(
+    { ...existing, ...patch, updatedAt: new Date().toISOString(), synced: false },
+    'update'
+  );
+}
+
+/**
+ * Pauses or resumes a rule. Occurrences that fell due while it was paused
+ * aren't created on resume.
+ */
+export async function setRecurringRulePaused(id: string, paused: boolean): Promise<boolean> {
+  const existing = await getDb().recurringRules.get(id);
+  if (!existing || existing.deletedAt) return false;
+
+  const yesterday = toDateKey(subDays(new Date(), 1));
+  const lastMaterializedDate =
+    !paused && (!existing.lastMaterializedDate || existing.lastMaterializedDate < yesterday)
+      ? yesterday
+      : existing.lastMaterializedDate;
+
+  const saved = await saveRecurringRule(
+    {
+      ...existing,
+      paused,
+      lastMaterializedDate,
+      updatedAt: new Date().toISOString(),
+      synced: false,
+    },
+    'update'
+  );
+  if (saved && !paused) {
+    materializeDueOccurrences().catch(error => {
+      console.error('Error materializing recurring rule:', error);
+    });
+  }
+  return Boolean(saved);
+}
+
+/**
+ * Skips a single occurrence (YYYY-MM-DD) without ending the rule
+ */
+export async function skipRecurringOccurrence(id: string, date: string): Promise<boolean> {
+  const existing = await getDb().recurringRules.get(id);
+  if (!existing || existing.deletedAt) return false;
+  if (existing.skipDates.includes(date)) return true;
+
+  const saved = await saveRecurringRule(
+    {
+      ...existing,
+      skipDates: [...existing.skipDates, date].sort(),
+      updatedAt: new Date().toISOString(),
+      synced: false,
+    },
+    'update'
+  );
+  return Boolean(saved);
+}
+
+/**
+ * Deletes a rule. Occurrences it already created are kept.
+ */
+export async function deleteRecurringRule(id: string): Promise<boolean> {
+  const db = getDb();
+  const deletedAt = new Date().toISOString();
+  try {
+    // Tombstone so a pull before the push doesn't bring the rule back
+    await db.transaction('rw', db.recurringRules, db.syncQueue, async () => {
+      const existing = await db.recurringRules.get(id);
+      await enqueueSyncOperation('recurringRules', id, 'delete', existing ?? null);
+      if (!existing) {
+        await db.recurringRules.delete(id);
+        return;
+      }
+      await db.recurringRules.put({ ...existing, deletedAt, updatedAt: deletedAt, synced: false });
+    });
+
+    await notifySyncQueueChanged();
+    notifyRecurringRulesChanged();
+
+    if (navigator.onLine) {
+      processSyncQueue('recurringRules').catch(error => {
+        console.error('Error syncing recurring rule deletion:', error);
+      });
+    }
+    return true;
+  } catch (error) {
+    console.error('Error deleting recurring rule:', error);
+    return false;
+  }
+}
+
+/**
+ * Creates the expense or income rows for every occurrence that is due.
+ * Occurrence ids are derived from the rule and date, so running this on
+ * several devices (or twice on one) never duplicates a row, and each rule
+ * remembers how far it got so deleted occurrences aren't recreated. Run it
+ * after pulling the rules; the creates are insert-only, so a row another
+ * device already made (and maybe edited or deleted) is kept.
+ * @returns The number of rows created
+ */
+export async function materializeDueOccurrences(today: Date = new Date()): Promise<number> {
+  if (typeof window === 'undefined') return 0;
+  const user = await getCurrentUser();
+  if (!user) return 0;
+
+  const created = await materializeMutex.runExclusive(async () => {
+    const db = getDb();
+    const todayKey = toDateKey(today);
+    const rules = (await getRecurringRules()).filter(rule => !rule.paused && rule.user_id === user.id);
+    let count = 0;
+
+    for (const rule of rules) {
+      const due = getOccurrenceDates(rule, rule.lastMaterializedDate, todayKey);
+      if (due.length === 0) continue;
+
+      const toCreate = due.filter(date => !rule.skipDates.includes(date));
+      const ids = toCreate.map(date => getOccurrenceId(rule.id, date));
+      const now = new Date().toISOString();
+
+      await db.transaction(
+        'rw',
+        [db.expenses, db.incomes, db.syncStatus, db.syncQueue, db.recurringRules],
+        async () => {
+          for (const [index, date] of toCreate.entries()) {
+            const id = ids[index];
+
+            if (rule.type === 'expense') {
+              // Present (even as a tombstone) means this device already handled it
+              if (await db.expenses.get(id)) continue;
+              const expense: SyncedExpense = {
+                id,
+                amount: rule.amount,
+                currency: rule.currency,
+                category: rule.category || 'other',
+                mood: rule.mood || 'neutral',
+                moodReason: rule.moodReason || '',
+                notes: rule.notes || '',
+                date,
+                createdAt: now,
+                updatedAt: now,
+                synced: false,
+              };
+              await db.expenses.add(expense);
+              await db.syncStatus.put({ id, synced: false, lastAttempt: now });
+              await enqueueSyncOperation('expenses', id, 'create', expense, { insertOnly: true });
+            } else {
+              if (await db.incomes.get(id)) continue;
+              const income: SyncedIncome = {
+                id,
+                user_id: rule.user_id,
+                amount: rule.amount,
+                currency: rule.currency,
+                source: rule.source || 'Other',
+                description: rule.description,
+                date,
+                createdAt: now,
+                updatedAt: now,
+                synced: false,
+              };
+              await db.incomes.add(income);
+              await enqueueSyncOperation('incomes', id, 'create', income, { insertOnly: true });
+            }
+            count++;
+          }
+
+          const next: SyncedRecurringRule = {
+            ...rule,
+            lastMaterializedDate: due[due.length - 1],
+            updatedAt: now,
+            synced: false,
+          };
+          await db.recurringRules.put(next);
+          await enqueueSyncOperation('recurringRules', rule.id, 'update', next);
+        }
+      );
+    }
+    return count;
+  });
+
+  await notifySyncQueueChanged();
+  if (created > 0 && typeof window !== 'undefined') {
+    window.dispatchEvent(new CustomEvent('recurring:materialized', { detail: { created } }));
+  }
+  return created;
+}
+
+/**
+ * Pulls recurring rules changed since the last pull cursor
+ */
+export async function pullRecurringRulesFromSupabase(): Promise<number> {
+  const user = await getCurrentUser();
+  if (!user || (typeof navigator !== 'undefined' && !navigator.onLine)) return 0;
+
+  const db = getDb();
+  // Anything past the limit is picked up by the next pull
+  const data = await fetchChangedRows<RemoteRecurringRule>('recurringRules', user.id, await getPullCursor('recurringRules'), 1000);
+  if (data.length === 0) return 0;
+
+  let pulled = 0;
+  for (const remote of data) {
+    if (remote.deleted_at) {
+      await removeTombstonedRecord('recurringRules', remote.id);
+      pulled++;
+      continue;
+    }
+
+    // Local edits not yet pushed win; the push will overwrite the remote copy
+    const local = await db.recurringRules.get(remote.id);
+    if (local && !local.synced) continue;
+
+    await db.recurringRules.put({
+      id: remote.id,
+      user_id: remote.user_id,
+      type: remote.type,
+      frequency: remote.frequency,
+      interval: remote.interval || 1,
+      startDate: remote.start_date,
+      endDate: remote.end_date || undefined,
+      skipDates: remote.skip_dates || [],
+      lastMaterializedDate: remote.last_materialized_date || undefined,
+      paused: Boolean(remote.paused),
+      amount: Number(remote.amount) || 0,
+      currency: remote.currency || undefined,
+      category: remote.category_id || undefined,
+      mood: remote.mood_id || undefined,
+      moodReason: remote.mood_reason || undefined,
+      notes: remote.notes || undefined,
+      source: remote.source || undefined,
+      description: remote.description || undefined,
+      createdAt: remote.created_at || new Date().toISOString(),
+      updatedAt: remote.updated_at || new Date().toISOString(),
+      synced: true,
+    });
+    pulled++;
+  }
+
+  const next = getCursorAfter(data);
+  if (next) await setPullCursor('recurringRules', next);
+
+  if (pulled > 0) notifyRecurringRulesChanged();
+  return pulled;
+}
+
+/**
+ * Pushes queued rule changes, then pulls remote ones
+ */
+export async function syncRecurringRules(): Promise<RecurringRuleSyncResult> {
+  const { processed, failed } = await processSyncQueue('recurringRules');
+  let pulled = 0;
+  try {
+    pulled = await pullRecurringRulesFromSupabase();
+  } catch (error) {
+    console.error('[Pull] Error pulling recurring rules:', error);
+  }
+  return { pushed: processed, pulled, failed };
+}
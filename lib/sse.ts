@@ -0,0 +1,46 @@
+/**
+ * Turns a server-sent events body into a stream of the text each event
+ * carries. `extractText` receives every parsed `data:` payload.
+ */
+export function parseSSEStream(
+  stream: ReadableStream<Uint8Array>,
+  extractText: (data: unknown) => string | undefined
+): ReadableStream<Uint8Array> {
+  const decoder = new TextDecoder();
+  const encoder = new TextEncoder();
+  let buffer = "";
+
+  const emit = (event: string, controller: TransformStreamDefaultController<Uint8Array>) => {
+    if (!event.startsWith("data: ")) return;
+    const data = event.slice(6).trim(); // Remove 'data: ' prefix
+    if (data === "[DONE]") return;
+
+    try {
+      const text = extractText(JSON.parse(data));
+      if (text) controller.enqueue(encoder.encode(text));
+    } catch (e) {
+      console.error("Error parsing stream chunk:", e);
+    }
+  };
+
+  return stream.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        // Normalise CRLF so events split the same way for every server
+        buffer += decoder.decode(chunk, { stream: true }).replace(/\r\n/g, "\n");
+
+        let eventEndIndex;
+        while ((eventEndIndex = buffer.indexOf("\n\n")) !== -1) {
+          const event = buffer.slice(0, eventEndIndex).trim();
+          buffer = buffer.slice(eventEndIndex + 2);
+          emit(event, controller);
+        }
+      },
+
+      flush(controller) {
+        // Process any remaining data in the buffer
+        if (buffer.trim()) emit(buffer.trim(), controller);
+      },
+    })
+  );
+}
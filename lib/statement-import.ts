@@ -0,0 +1,270 @@
+import { getHomeCurrency } from "@/data/currencies"
+import { ensureCurrencySettingsLoaded } from "@/lib/currency"
+import { parseCSV } from "@/lib/csv-import"
+import { parseImportAmount, parseImportDate, type ImportDateOrder } from "@/lib/expense-import"
+
+// A debit from a bank or e-wallet statement, waiting for a mood before it
+// becomes an expense
+export interface StatementTransaction {
+  // Stable across re-imports of the same statement, so nothing is queued twice
+  id: string
+  date: string // YYYY-MM-DD
+  amount: number // Always positive
+  currency: string
+  description: string
+}
+
+export interface StatementParseResult {
+  transactions: StatementTransaction[]
+  // Incoming money (salary, top-ups, refunds) is not an expense
+  credits: number
+  invalid: number
+}
+
+export type StatementFormat = "ofx" | "qif" | "csv"
+
+export interface StatementPreset {
+  id: string
+  name: string
+  date: string[]
+  description: string[]
+  // Either a signed amount column (with an optional direction column or a
+  // DB/CR suffix), or separate debit and credit columns
+  amount?: string[]
+  direction?: string[]
+  debit?: string[]
+  credit?: string[]
+}
+
+// Header names as they appear in common Indonesian statement exports. The
+// first preset whose columns are all present wins, so stricter ones go first.
+export const STATEMENT_PRESETS: StatementPreset[] = [
+  {
+    id: "bca",
+    name: "BCA",
+    date: ["tanggal transaksi", "tanggal"],
+    description: ["keterangan"],
+    amount: ["jumlah", "mutasi"],
+    direction: ["db/cr", "jenis"],
+  },
+  {
+    id: "bri",
+    name: "BRI",
+    date: ["tanggal transaksi", "tanggal"],
+    description: ["uraian transaksi"],
+    debit: ["debet"],
+    credit: ["kredit"],
+  },
+  {
+    id: "mandiri",
+    name: "Mandiri / BNI",
+    date: ["tanggal", "tanggal transaksi", "posting date", "tgl. transaksi"],
+    description: ["keterangan", "remarks", "description", "uraian"],
+    debit: ["debit", "debet", "dana keluar", "uang keluar"],
+    credit: ["kredit", "credit", "dana masuk", "uang masuk"],
+  },
+  {
+    id: "ewallet",
+    name: "GoPay / OVO / DANA / ShopeePay",
+    date: ["waktu", "tanggal", "date", "waktu transaksi"],
+    description: ["deskripsi", "detail", "jenis transaksi", "description", "keterangan"],
+    amount: ["nominal", "jumlah", "amount", "total"],
+    direction: ["tipe", "type", "arah", "status dana"],
+  },
+]
+
+// Values of a direction column, or suffixes on an amount, meaning money out
+const DEBIT_MARKERS = /^(db|d|debit|debet|keluar|uang keluar|dana keluar|out|outgoing|pembayaran|payment)$/i
+const DEBIT_SUFFIX = /\s*(db|dr)\s*$/i
+const CREDIT_SUFFIX = /\s*(cr)\s*$/i
+// "10.000,-" writes out a whole amount; the dash is not a minus sign
+const ZERO_DECIMAL_SUFFIX = /[.,]-$/
+
+/**
+ * Reads a signed amount: "-25.000", "(25,000.00)", "25.000-" and "25,000.00 DB"
+ * are all spending and come back negative, while "25.000,-" is not
+ */
+function parseSignedAmount(value: string): number | null {
+  const trimmed = value.trim()
+  const bare = trimmed.replace(DEBIT_SUFFIX, "").replace(CREDIT_SUFFIX, "").replace(ZERO_DECIMAL_SUFFIX, "")
+  const magnitude = parseImportAmount(bare)
+  if (magnitude === null) return null
+  const negative = /^-|^\(.*\)$|-$/.test(bare) || DEBIT_SUFFIX.test(trimmed)
+  return negative ? -magnitude : magnitude
+}
+
+// Counts repeats so two identical coffees on one day get distinct ids
+function createIdFactory(prefix: string) {
+  const seen = new Map<string, number>()
+  return (date: string, amount: number, description: string) => {
+    const base = `${date}|${Math.round(amount * 100)}|${description.toLowerCase()}`
+    const count = (seen.get(base) ?? 0) + 1
+    seen.set(base, count)
+    return `${prefix}:${base}|${count}`
+  }
+}
+
+const normalise = (value: string) => value.trim().toLowerCase()
+
+const findColumn = (headers: string[], aliases?: string[]) =>
+  aliases ? headers.findIndex((header) => aliases.includes(normalise(header))) : -1
+
+export function detectStatementPreset(headers: string[]): StatementPreset | undefined {
+  return STATEMENT_PRESETS.find((preset) => {
+    const has = (aliases?: string[]) => findColumn(headers, aliases) !== -1
+    const amounts = preset.amount ? has(preset.amount) : has(preset.debit) && has(preset.credit)
+    return has(preset.date) && has(preset.description) && amounts
+  })
+}
+
+/** Parses a bank or e-wallet CSV export laid out like one of STATEMENT_PRESETS */
+export function parseStatementCSV(
+  headers: string[],
+  rows: string[][],
+  preset: StatementPreset,
+  dateOrder: ImportDateOrder = "dmy"
+): StatementParseResult {
+  const column = (aliases?: string[]) => findColumn(headers, aliases)
+  const [dateColumn, descriptionColumn] = [column(preset.date), column(preset.description)]
+  const [amountColumn, directionColumn] = [column(preset.amount), column(preset.direction)]
+  const [debitColumn, creditColumn] = [column(preset.debit), column(preset.credit)]
+  const currency = getHomeCurrency()
+  const makeId = createIdFactory(`csv-${preset.id}`)
+  const result: StatementParseResult = { transactions: [], credits: 0, invalid: 0 }
+
+  for (const cells of rows) {
+    const cell = (index: number) => (index === -1 ? "" : (cells[index] ?? "").trim())
+    const date = parseImportDate(cell(dateColumn), dateOrder)
+
+    let amount: number | null
+    if (amountColumn !== -1) {
+      amount = parseSignedAmount(cell(amountColumn))
+      if (amount !== null && DEBIT_MARKERS.test(cell(directionColumn))) amount = -Math.abs(amount)
+    } else {
+      const debit = parseImportAmount(cell(debitColumn))
+      amount = debit !== null ? -debit : parseImportAmount(cell(creditColumn))
+    }
+
+    if (!date || amount === null) {
+      result.invalid++
+    } else if (amount > 0) {
+      result.credits++
+    } else {
+      const description = cell(descriptionColumn)
+      result.transactions.push({ id: makeId(date, amount, description), date, amount: -amount, currency, description })
+    }
+  }
+
+  return result
+}
+
+// OFX 1.x is SGML where closing tags are optional, so read each field up to
+// the next tag or line break rather than parsing it as XML
+const ofxField = (block: string, tag: string): string =>
+  block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, "i"))?.[1]?.trim() ?? ""
+
+/** Parses the transaction list of an OFX or QFX statement */
+export function parseOFX(text: string): StatementParseResult {
+  const currency = ofxField(text, "CURDEF").toUpperCase() || getHomeCurrency()
+  const makeId = createIdFactory("ofx")
+  const result: StatementParseResult = { transactions: [], credits: 0, invalid: 0 }
+
+  for (const [, block] of text.matchAll(/<STMTTRN>([\s\S]*?)(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>|$)/gi)) {
+    const posted = ofxField(block, "DTPOSTED").match(/^(\d{4})(\d{2})(\d{2})/)
+    const date = posted ? parseImportDate(`${posted[1]}-${posted[2]}-${posted[3]}`) : null
+    const amount = Number(ofxField(block, "TRNAMT").replace(",", "."))
+
+    if (!date || !Number.isFinite(amount) || amount === 0) {
+      result.invalid++
+    } else if (amount > 0) {
+      result.credits++
+    } else {
+      const description = [ofxField(block, "NAME"), ofxField(block, "MEMO")].filter(Boolean).join(" · ")
+      const fitId = ofxField(block, "FITID")
+      result.transactions.push({
+        // Banks guarantee FITID is unique per account, so prefer it
+        id: fitId ? `ofx:${fitId}` : makeId(date, amount, description),
+        date,
+        amount: -amount,
+        currency,
+        description,
+      })
+    }
+  }
+
+  return result
+}
+
+// QIF has no fixed date order. A day above 12 in either position settles it;
+// otherwise assume Quicken's US order.
+function guessQIFDateOrder(text: string): ImportDateOrder {
+  for (const [, first, second] of text.matchAll(/^D\s*(\d{1,2})[/.-](\d{1,2})/gm)) {
+    if (Number(first) > 12) return "dmy"
+    if (Number(second) > 12) return "mdy"
+  }
+  return "mdy"
+}
+
+/** Parses a QIF export; records are lines of one-letter fields ending in "^" */
+export function parseQIF(text: string, dateOrder: ImportDateOrder = guessQIFDateOrder(text)): StatementParseResult {
+  const currency = getHomeCurrency()
+  const makeId = createIdFactory("qif")
+  const result: StatementParseResult = { transactions: [], credits: 0, invalid: 0 }
+  let record: Record<string, string> = {}
+
+  const finish = () => {
+    if (Object.keys(record).length === 0) return
+    // Quicken writes years after 1999 as 1/19'26
+    const date = parseImportDate((record.D ?? "").replace("'", "/").replace(/\s/g, ""), dateOrder)
+    const amount = parseSignedAmount(record.T ?? record.U ?? "")
+
+    if (!date || amount === null) {
+      result.invalid++
+    } else if (amount > 0) {
+      result.credits++
+    } else {
+      const description = [record.P, record.M].filter(Boolean).join(" · ")
+      result.transactions.push({ id: makeId(date, amount, description), date, amount: -amount, currency, description })
+    }
+    record = {}
+  }
+
+  for (const line of text.split(/\r?\n/)) {
+    if (line.startsWith("!")) continue
+    if (line.startsWith("^")) {
+      finish()
+    } else if (line.length > 1) {
+      record[line[0]] ??= line.slice(1).trim()
+    }
+  }
+  finish()
+
+  return result
+}
+
+export function getStatementFormat(fileName: string): StatementFormat | null {
+  if (/\.(ofx|qfx)$/i.test(fileName)) return "ofx"
+  if (/\.qif$/i.test(fileName)) return "qif"
+  if (/\.csv$/i.test(fileName)) return "csv"
+  return null
+}
+
+/**
+ * Reads an OFX/QFX or QIF statement file, or a CSV export matching one of the
+ * presets. Returns null for a CSV no preset recognises.
+ */
+export async function readStatementFile(
+  file: File,
+  dateOrder?: ImportDateOrder
+): Promise<(StatementParseResult & { preset?: StatementPreset }) | null> {
+  await ensureCurrencySettingsLoaded()
+  const text = await file.text()
+  const format = getStatementFormat(file.name)
+
+  if (format === "ofx") return parseOFX(text)
+  if (format === "qif") return parseQIF(text, dateOrder)
+
+  const [headers = [], ...rows] = parseCSV(text)
+  const preset = detectStatementPreset(headers)
+  return preset ? { ...parseStatementCSV(headers, rows, preset, dateOrder), preset } : null
+}
@@ -0,0 +1,189 @@
+import { differenceInCalendarDays } from 'date-fns';
+import { getExpenses, type SyncedRecurringRule } from './db';
+import { groupExpensesByCategory } from './ai-context';
+import { getNthOccurrence, parseDateKey, toDateKey } from './recurrence';
+import { createRecurringRule, getRecurringRules } from './recurring';
+import { convertToHome, DEFAULT_CURRENCY } from '@/data/currencies';
+import { ensureCurrencySettingsLoaded } from './currency';
+import type { Expense, MoodType, RecurrenceFrequency } from '@/types/expense';
+
+interface Cadence {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  days: number;
+  // How far (in days) a gap may drift from `days` and still count
+  tolerance: number;
+  minOccurrences: number;
+  perYear: number;
+}
+
+// Ordered shortest first; the first cadence that fits the median gap wins
+const CADENCES: Cadence[] = [
+  { frequency: 'weekly', interval: 1, days: 7, tolerance: 1, minOccurrences: 3, perYear: 52 },
+  { frequency: 'weekly', interval: 2, days: 14, tolerance: 2, minOccurrences: 3, perYear: 26 },
+  { frequency: 'monthly', interval: 1, days: 30.44, tolerance: 4, minOccurrences: 3, perYear: 12 },
+  { frequency: 'monthly', interval: 3, days: 91.31, tolerance: 7, minOccurrences: 3, perYear: 4 },
+  { frequency: 'yearly', interval: 1, days: 365.25, tolerance: 10, minOccurrences: 2, perYear: 1 },
+];
+
+// Share of gaps that must match the cadence; tolerates one late or missed charge
+const MIN_CONFIDENCE = 0.75;
+
+// A charge missing for this many periods suggests the subscription ended
+const STALE_AFTER_PERIODS = 2;
+
+export interface DetectedSubscription {
+  // category:currency:amount, stable across scans
+  key: string;
+  category: string;
+  amount: number;
+  currency: string;
+  frequency: RecurrenceFrequency;
+  interval: number;
+  occurrences: number;
+  firstDate: string;
+  lastDate: string;
+  nextExpectedDate: string;
+  // In the home currency
+  monthlyCost: number;
+  annualCost: number;
+  // 0-1, share of gaps matching the cadence
+  confidence: number;
+  // Taken from the latest charge, used when converting to a rule
+  mood: MoodType;
+  notes?: string;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function detectCadence(dates: string[]): { cadence: Cadence; confidence: number } | null {
+  const gaps = dates
+    .slice(1)
+    .map((date, index) => differenceInCalendarDays(parseDateKey(date), parseDateKey(dates[index])));
+  if (gaps.length === 0) return null;
+
+  const typical = median(gaps);
+  const cadence = CADENCES.find(c => Math.abs(typical - c.days) <= c.tolerance);
+  if (!cadence || dates.length < cadence.minOccurrences) return null;
+
+  const matching = gaps.filter(gap => Math.abs(gap - cadence.days) <= cadence.tolerance).length;
+  const confidence = matching / gaps.length;
+  return confidence >= MIN_CONFIDENCE ? { cadence, confidence } : null;
+}
+
+/**
+ * Finds repeating same-amount charges in the same category that land on a
+ * regular weekly, monthly, quarterly or yearly schedule. Charges already
+ * covered by an active recurring rule and ones that seem to have stopped are
+ * left out.
+ */
+export function detectSubscriptions(
+  expenses: Expense[],
+  rules: Pick<SyncedRecurringRule, 'type' | 'category' | 'amount' | 'currency' | 'paused'>[] = [],
+  today: Date = new Date()
+): DetectedSubscription[] {
+  const todayKey = toDateKey(today);
+  const covered = new Set(
+    rules
+      .filter(rule => rule.type === 'expense' && !rule.paused)
+      .map(rule => `${rule.category || 'other'}:${rule.currency || DEFAULT_CURRENCY}:${rule.amount}`)
+  );
+  const detected: DetectedSubscription[] = [];
+
+  for (const [category, categoryExpenses] of Object.entries(groupExpensesByCategory(expenses))) {
+    const byAmount = new Map<string, Expense[]>();
+    for (const expense of categoryExpenses) {
+      const amountKey = `${expense.currency || DEFAULT_CURRENCY}:${expense.amount}`;
+      byAmount.set(amountKey, [...(byAmount.get(amountKey) || []), expense]);
+    }
+
+    for (const [amountKey, charges] of byAmount) {
+      const key = `${category}:${amountKey}`;
+      if (covered.has(key)) continue;
+      const { amount } = charges[0];
+      const currency = charges[0].currency || DEFAULT_CURRENCY;
+
+      // One charge per day; duplicates on the same date are one payment
+      const latestByDate = new Map<string, Expense>();
+      for (const charge of charges) {
+        latestByDate.set(charge.date.slice(0, 10), charge);
+      }
+      const dates = [...latestByDate.keys()].sort();
+      const match = detectCadence(dates);
+      if (!match) continue;
+
+      const { cadence, confidence } = match;
+      const lastDate = dates[dates.length - 1];
+      const staleAfter = cadence.days * STALE_AFTER_PERIODS + cadence.tolerance;
+      if (differenceInCalendarDays(today, parseDateKey(lastDate)) > staleAfter) continue;
+
+      const rule = { frequency: cadence.frequency, interval: cadence.interval, startDate: lastDate };
+      let nextExpectedDate = getNthOccurrence(rule, 1);
+      // Overdue charges are still expected; show the next one from today
+      for (let n = 2; nextExpectedDate < todayKey; n++) {
+        nextExpectedDate = getNthOccurrence(rule, n);
+      }
+
+      const latest = latestByDate.get(lastDate)!;
+      const annualCost = convertToHome(amount, currency) * cadence.perYear;
+      detected.push({
+        key,
+        category,
+        amount,
+        currency,
+        frequency: cadence.frequency,
+        interval: cadence.interval,
+        occurrences: dates.length,
+        firstDate: dates[0],
+        lastDate,
+        nextExpectedDate,
+        monthlyCost: annualCost / 12,
+        annualCost,
+        confidence,
+        mood: latest.mood,
+        notes: latest.notes || undefined,
+      });
+    }
+  }
+
+  return detected.sort((a, b) => b.annualCost - a.annualCost);
+}
+
+/**
+ * Scans the full expense history for likely subscriptions
+ */
+export async function findLikelySubscriptions(): Promise<DetectedSubscription[]> {
+  const [expenses, rules] = await Promise.all([
+    getExpenses(),
+    getRecurringRules(),
+    ensureCurrencySettingsLoaded(),
+  ]);
+  return detectSubscriptions(expenses, rules);
+}
+
+/**
+ * Turns a detected subscription into a recurring rule continuing from its
+ * latest charge, so future charges are recorded automatically
+ */
+export async function convertSubscriptionToRule(
+  subscription: DetectedSubscription
+): Promise<SyncedRecurringRule | null> {
+  return createRecurringRule(
+    {
+      type: 'expense',
+      frequency: subscription.frequency,
+      interval: subscription.interval,
+      startDate: subscription.lastDate,
+      amount: subscription.amount,
+      currency: subscription.currency,
+      category: subscription.category,
+      mood: subscription.mood,
+      notes: subscription.notes,
+    },
+    { alreadyRecorded: true }
+  );
+}
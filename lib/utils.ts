@@ -1,18 +1,14 @@
 import { type ClassValue, clsx } from "clsx"
 import { twMerge } from "tailwind-merge"
+import { format, parseISO, subDays, subMonths, subWeeks, subYears } from "date-fns"
+import { getIntlLocale } from "@/data/locales"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
 
-export function formatCurrency(amount: number): string {
-  return new Intl.NumberFormat("id-ID", {
-    style: "currency",
-    currency: "IDR",
-    minimumFractionDigits: 0,
-    maximumFractionDigits: 0,
-  }).format(amount)
-}
+// Kept here for existing imports; formats in the home currency
+export { formatCurrency } from "./currency-formatter"
 
 export function formatDate(dateString: string, includeTime: boolean = false): string {
   try {
@@ -59,12 +55,12 @@ export function formatDate(dateString: string, includeTime: boolean = false): st
       }
     }
     
-    // Format the date according to Indonesian locale
-    return new Intl.DateTimeFormat('id-ID', options).format(date);
+    // Format the date in the user's language
+    return new Intl.DateTimeFormat(getIntlLocale(), options).format(date);
   } catch (error) {
     console.error('Error formatting date:', error, 'Input:', dateString);
     // Fallback to simple string representation
-    return new Date(dateString).toLocaleString('id-ID');
+    return new Date(dateString).toLocaleString(getIntlLocale());
   }
 }
 
@@ -106,6 +102,23 @@ export function getDateRangeForPeriod(period: "day" | "week" | "month" | "year")
   };
 }
 
+/**
+ * The period just before the current one from getDateRangeForPeriod, e.g.
+ * the whole of last month for "month", in the same YYYY-MM-DD format
+ */
+export function getPreviousDateRangeForPeriod(period: "week" | "month" | "year"): { start: string; end: string } {
+  const currentStart = parseISO(getDateRangeForPeriod(period).start);
+  const start =
+    period === "week" ? subWeeks(currentStart, 1) :
+    period === "month" ? subMonths(currentStart, 1) :
+    subYears(currentStart, 1);
+
+  return {
+    start: format(start, "yyyy-MM-dd"),
+    end: format(subDays(currentStart, 1), "yyyy-MM-dd"),
+  };
+}
+
 export function generateInsights(expenses: any[]): string[] {
   if (expenses.length === 0) return []
 
@@ -0,0 +1,61 @@
+// Minimal OpenAI-compatible server for trying the AI features offline.
+// Answers every chat completion with canned insights, streamed or not.
+//
+//   node scripts/ai-stub-server.js            (listens on port 11435)
+//
+// Then run the app with:
+//   OPENAI_COMPATIBLE_BASE_URL=http://localhost:11435/v1
+//   OPENAI_COMPATIBLE_MODEL=stub
+//   AI_PROVIDER_ORDER=openai-compatible
+//   AI_ANALYSIS_PROVIDER_ORDER=openai-compatible
+const http = require('http');
+
+const port = Number(process.env.PORT) || 11435;
+
+const reply = [
+  '- Stub insight: most spending happens when you feel tired.',
+  '- Stub insight: food purchases rise on weekends.',
+  '- Stub insight: happy days come with fewer impulse buys.',
+].join('\n');
+
+const server = http.createServer((req, res) => {
+  if (req.method !== 'POST' || !req.url.endsWith('/chat/completions')) {
+    res.writeHead(404, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: 'Not found' }));
+    return;
+  }
+
+  let body = '';
+  req.on('data', (chunk) => { body += chunk; });
+  req.on('end', () => {
+    let request;
+    try {
+      request = JSON.parse(body);
+    } catch (err) {
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Invalid JSON' }));
+      return;
+    }
+
+    console.log(`${request.model}: ${request.messages?.[0]?.content?.length || 0} chars, stream=${Boolean(request.stream)}`);
+
+    if (!request.stream) {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({
+        model: request.model,
+        choices: [{ index: 0, message: { role: 'assistant', content: reply }, finish_reason: 'stop' }],
+      }));
+      return;
+    }
+
+    res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
+    for (const word of reply.split(/(?<= )/)) {
+      res.write(`data: ${JSON.stringify({ choices: [{ index: 0, delta: { content: word } }] })}\n\n`);
+    }
+    res.end('data: [DONE]\n\n');
+  });
+});
+
+server.listen(port, () => {
+  console.log(`AI stub server listening on http://localhost:${port}/v1`);
+});
@@ -1,7 +1,27 @@
+export type AIInsightSeverity = "positive" | "info" | "warning" | "critical";
+
+// One structured insight as returned by the model (see lib/ai-insight-schema.ts)
+export interface AIInsight {
+  title: string;
+  body: string;
+  severity: AIInsightSeverity;
+  mood?: string; // Mood label as written in the data context
+  category?: string; // Category name as written in the data context
+  action?: string; // Concrete next step for the user
+}
+
+// Why a route could not answer; the browser turns it into text in the
+// user's language
+export type AIErrorCode = "notConfigured" | "providersFailed";
+
 export interface AIInsightResponse {
-  insights: string[];
+  insights: string[]; // Plain-text form, also used for messages when generation fails
+  items?: AIInsight[]; // Structured insights when generation succeeded
   modelUsed: string;
   error?: string; // Optional error message if the process failed at a higher level
+  errorCode?: AIErrorCode;
+  runId?: string; // Saved run in the local insight history
+  cachedAt?: string; // Set when reused from history instead of generated now
 }
 
 export type AIDetailedAnalysisResponse =
@@ -9,6 +29,8 @@ export type AIDetailedAnalysisResponse =
       analysis: string;
       modelUsed: string;
       error?: string;
+      errorCode?: AIErrorCode;
+      cachedAt?: string;
       stream?: never;
     }
   | {
@@ -16,6 +38,8 @@ export type AIDetailedAnalysisResponse =
       modelUsed: string;
       analysis?: never;
       error?: never;
+      errorCode?: never;
+      cachedAt?: never;
     };
 
 // Union type for client functions which can return either list of insights, single text, or a stream
@@ -23,3 +47,12 @@ export type AIResponse =
   | { insights: string[]; modelUsed: string; error?: string; text?: never; stream?: never }
   | { text: string; modelUsed: string; error?: string; insights?: never; stream?: never }
   | { stream: ReadableStream<Uint8Array>; modelUsed: string; insights?: never; text?: never; error?: never };
+
+// One turn of a conversation sent to an AI provider
+export interface AIMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+// Insights page periods; each covers the current week, month or year so far
+export type AIPeriod = "week" | "month" | "year";
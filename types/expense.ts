@@ -1,10 +1,14 @@
-export type MoodType = "happy" | "sad" | "stressed" | "bored" | "lonely" | "neutral"
+export type BuiltInMoodType = "happy" | "sad" | "stressed" | "bored" | "lonely" | "neutral"
+
+// Built-in moods plus the ids of the user's own moods
+export type MoodType = BuiltInMoodType | (string & {})
 
 export interface Mood {
   id: MoodType
   emoji: string
   label: string
   color: string
+  archived?: boolean
 }
 
 export interface Expense {
@@ -13,6 +17,8 @@ export interface Expense {
   category: string
   mood: MoodType
   moodReason?: string
+  moodIntensity?: number // 1-5, optional
+  currency?: string // ISO 4217 code; missing means DEFAULT_CURRENCY (IDR)
   date: string
   notes?: string
   createdAt: string
@@ -23,12 +29,16 @@ export interface Category {
   id: string
   name: string
   icon: string
+  color?: string
+  order?: number
+  archived?: boolean
 }
 
 export interface Income {
   id: string;
   user_id: string;
   amount: number;
+  currency?: string; // ISO 4217 code; missing means DEFAULT_CURRENCY (IDR)
   source: string;
   description?: string;
   date: string;
@@ -37,6 +47,64 @@ export interface Income {
   synced?: boolean; // For local database sync status
 }
 
+export interface Budget {
+  id: string;
+  user_id: string;
+  category: string; // Category id from data/categories
+  month: string; // YYYY-MM; applies to later months until overridden
+  amount: number; // Monthly limit, 0 means no limit
+  createdAt: string;
+  updatedAt: string;
+  synced?: boolean; // For local database sync status
+}
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+export interface RecurringRule {
+  id: string;
+  user_id: string;
+  type: 'expense' | 'income';
+  frequency: RecurrenceFrequency;
+  interval: number; // Every N days/weeks/months/years
+  startDate: string; // YYYY-MM-DD, also the first occurrence
+  endDate?: string; // YYYY-MM-DD, inclusive
+  skipDates: string[]; // YYYY-MM-DD occurrences not to create
+  lastMaterializedDate?: string; // Occurrences up to this date already exist
+  paused?: boolean;
+  amount: number;
+  currency?: string;
+  // Expense template
+  category?: string;
+  mood?: MoodType;
+  moodReason?: string;
+  notes?: string;
+  // Income template
+  source?: string;
+  description?: string;
+  createdAt: string;
+  updatedAt: string;
+  synced?: boolean; // For local database sync status
+}
+
+export type TimeOfDay = 'morning' | 'afternoon' | 'evening' | 'night';
+
+// Fills in the category of a new or imported expense when every condition
+// that is set matches. Rules are tried in `order`; the first match wins.
+export interface CategoryRule {
+  id: string;
+  name?: string;
+  notesContains?: string; // Case-insensitive, also matched against statement descriptions
+  amountBelow?: number; // In the home currency
+  amountAbove?: number;
+  weekdays?: number[]; // 0 = Sunday, as from Date.getDay()
+  timeOfDay?: TimeOfDay; // Of when the expense is entered
+  category: string;
+  enabled: boolean;
+  order: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
 export type Transaction = {
   id: string;
   user_id: string;
@@ -53,3 +121,9 @@ export type Transaction = {
   notes?: string;
   source?: string; // For income transactions
 };
+
+export interface ExchangeRate {
+  currency: string; // ISO 4217 code
+  rate: number; // Units of the home currency per 1 unit of `currency`
+  updatedAt: string;
+}
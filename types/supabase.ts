@@ -6,21 +6,39 @@ export interface Database {
       categories: {
         Row: {
           id: string
+          user_id: string | null
           name: string
           icon: string
+          color: string | null
+          sort_order: number
+          archived: boolean
           created_at: string
+          updated_at: string
+          deleted_at: string | null
         }
         Insert: {
           id: string
+          user_id?: string | null
           name: string
           icon: string
+          color?: string | null
+          sort_order?: number
+          archived?: boolean
           created_at?: string
+          updated_at?: string
+          deleted_at?: string | null
         }
         Update: {
           id?: string
+          user_id?: string | null
           name?: string
           icon?: string
+          color?: string | null
+          sort_order?: number
+          archived?: boolean
           created_at?: string
+          updated_at?: string
+          deleted_at?: string | null
         }
       }
       expenses: {
@@ -28,60 +46,81 @@ export interface Database {
           id: string
           user_id: string
           amount: number
+          currency: string
           category_id: string
           mood_id: string
           mood_reason: string | null
+          mood_intensity: number | null
           date: string
           notes: string | null
           created_at: string
           updated_at: string
+          deleted_at: string | null
         }
         Insert: {
           id?: string
           user_id: string
           amount: number
+          currency?: string
           category_id: string
           mood_id: string
           mood_reason?: string | null
+          mood_intensity?: number | null
           date: string
           notes?: string | null
           created_at?: string
           updated_at?: string
+          deleted_at?: string | null
         }
         Update: {
           id?: string
           user_id?: string
           amount?: number
+          currency?: string
           category_id?: string
           mood_id?: string
           mood_reason?: string | null
+          mood_intensity?: number | null
           date?: string
           notes?: string | null
           created_at?: string
           updated_at?: string
+          deleted_at?: string | null
         }
       }
       moods: {
         Row: {
           id: string
+          user_id: string | null
           label: string
           emoji: string
           color: string
+          archived: boolean
           created_at: string
+          updated_at: string
+          deleted_at: string | null
         }
         Insert: {
           id: string
+          user_id?: string | null
           label: string
           emoji: string
           color: string
+          archived?: boolean
           created_at?: string
+          updated_at?: string
+          deleted_at?: string | null
         }
         Update: {
           id?: string
+          user_id?: string | null
           label?: string
           emoji?: string
           color?: string
+          archived?: boolean
           created_at?: string
+          updated_at?: string
+          deleted_at?: string | null
         }
       }
       profiles: {
@@ -117,31 +156,37 @@ export interface Database {
         id: string
         user_id: string
         amount: number
+        currency: string
         source: string
         description: string | null
         date: string
         created_at: string
         updated_at: string
+        deleted_at: string | null
       }
       Insert: {
         id?: string
         user_id: string
         amount: number
+        currency?: string
         source: string
         description?: string | null
         date: string
         created_at?: string
         updated_at?: string
+        deleted_at?: string | null
       }
       Update: {
         id?: string
         user_id?: string
         amount?: number
+        currency?: string
         source?: string
         description?: string | null
         date?: string
         created_at?: string
         updated_at?: string
+        deleted_at?: string | null
       }
     }
     
@@ -217,6 +262,109 @@ export interface Database {
         updated_at?: string
       }
     }
+    budgets: {
+      Row: {
+        id: string
+        user_id: string
+        category_id: string
+        month: string
+        amount: number
+        created_at: string
+        updated_at: string
+        deleted_at: string | null
+      }
+      Insert: {
+        id?: string
+        user_id: string
+        category_id: string
+        month: string
+        amount: number
+        created_at?: string
+        updated_at?: string
+        deleted_at?: string | null
+      }
+      Update: {
+        id?: string
+        user_id?: string
+        category_id?: string
+        month?: string
+        amount?: number
+        created_at?: string
+        updated_at?: string
+        deleted_at?: string | null
+      }
+    }
+    recurring_rules: {
+      Row: {
+        id: string
+        user_id: string
+        type: 'expense' | 'income'
+        frequency: 'daily' | 'weekly' | 'monthly' | 'yearly'
+        interval: number
+        start_date: string
+        end_date: string | null
+        skip_dates: string[]
+        last_materialized_date: string | null
+        amount: number
+        currency: string
+        category_id: string | null
+        mood_id: string | null
+        mood_reason: string | null
+        notes: string | null
+        source: string | null
+        description: string | null
+        paused: boolean
+        created_at: string
+        updated_at: string
+        deleted_at: string | null
+      }
+      Insert: {
+        id?: string
+        user_id: string
+        type: 'expense' | 'income'
+        frequency: 'daily' | 'weekly' | 'monthly' | 'yearly'
+        interval?: number
+        start_date: string
+        end_date?: string | null
+        skip_dates?: string[]
+        last_materialized_date?: string | null
+        amount: number
+        currency?: string
+        category_id?: string | null
+        mood_id?: string | null
+        mood_reason?: string | null
+        notes?: string | null
+        source?: string | null
+        description?: string | null
+        paused?: boolean
+        created_at?: string
+        updated_at?: string
+        deleted_at?: string | null
+      }
+      Update: {
+        id?: string
+        user_id?: string
+        type?: 'expense' | 'income'
+        frequency?: 'daily' | 'weekly' | 'monthly' | 'yearly'
+        interval?: number
+        start_date?: string
+        end_date?: string | null
+        skip_dates?: string[]
+        last_materialized_date?: string | null
+        amount?: number
+        currency?: string
+        category_id?: string | null
+        mood_id?: string | null
+        mood_reason?: string | null
+        notes?: string | null
+        source?: string | null
+        description?: string | null
+        paused?: boolean
+        created_at?: string
+        updated_at?: string
+        deleted_at?: string | null
+      }
+    }
     
   }
 }